@@ -1,19 +1,71 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { TradingChart } from './components/TradingChart';
+import { PaperTradingPanel } from './components/PaperTradingPanel';
 import { 
   PriceData, 
   Asset, 
-  Signal
+  Signal,
+  Order,
+  MarketTrend,
+  SignalOutcome,
+  DetectionProfiles,
+  PositionSizing,
+  RiskSettings,
+  Drawing,
+  PriceAlert,
+  Toast,
+  AnalysisState,
+  TradePlan,
+  MarketAnalysis,
+  VoicePriority,
+  VoiceSettings,
+  DeliveryChannel,
+  DeliveryLogEntry
 } from './types';
-import { 
-  generateMockData, 
-  detectBreakouts, 
-  calculateEMA,
-  calculateWyckoffTarget
-} from './utils/marketLogic';
-import { analyzeMarket } from './services/geminiService';
-import { GoogleGenAI, Modality } from "@google/genai";
+import { calculateWyckoffTarget } from './utils/marketLogic';
+import { currentWyckoffRange, findWyckoffRanges } from './utils/wyckoff';
+import { INSTRUMENTS, formatPips, formatPrice, pipLabel } from './utils/instruments';
+import {
+  createOrder,
+  closeOrder,
+  fillOrders,
+  summarizeAccount
+} from './utils/paperTrading';
+import { trendLabel } from './utils/trend';
+import { Locale, LOCALES, MessageKey, formatNumber, formatTime, getLocale, localeInfo, setLocale, t } from './utils/i18n';
+import { AnalysisConfig, createAnalysisProvider, loadAnalysisConfig, saveAnalysisConfig } from './services/analysis';
+import { FeedStatus, feedKey } from './services/marketDataFeed';
+import { MarketScanner, ScannerUpdate, createMarketScanner } from './services/marketScanner';
+import { FeedConfig, createFeed } from './services/feeds';
+import { FeedSelector } from './components/FeedSelector';
+import { BacktestPanel } from './components/BacktestPanel';
+import { IndicatorPanel } from './components/IndicatorPanel';
+import { SignalJournalPanel } from './components/SignalJournalPanel';
+import { SignalStatsPanel } from './components/SignalStatsPanel';
+import { RiskPanel, SignalRiskSummary } from './components/RiskPanel';
+import { DEFAULT_RISK_SETTINGS, calculatePositionSize, sizeSignal } from './utils/riskSizing';
+import { horizontalLevels, loadDrawings, saveDrawings } from './utils/drawings';
+import { AlertsPanel } from './components/AlertsPanel';
+import { ToastStack } from './components/ToastStack';
+import { describeAlert, isExpired, isTriggered, loadAlerts, markTriggered, saveAlerts } from './utils/alerts';
+import { AnalysisProviderPanel } from './components/AnalysisProviderPanel';
+import { VoiceSettingsPanel } from './components/VoiceSettingsPanel';
+import { createVoiceEngines } from './services/voice';
+import { createVoiceQueue } from './services/voiceQueue';
+import { loadVoiceSettings, saveVoiceSettings } from './utils/voiceSettings';
+import { DeliveryChannelsPanel } from './components/DeliveryChannelsPanel';
+import { createAlertDispatcher } from './services/alertDispatcher';
+import { loadDeliveryChannels, saveDeliveryChannels } from './services/delivery';
+import { TradePlanCard } from './components/TradePlanCard';
+import { canEnterPlan, planAlerts } from './utils/tradePlan';
+import { CONFIRMATION_TIMEFRAME } from './utils/signalEngine';
+import { DetectionSettingsPanel } from './components/DetectionSettingsPanel';
+import { LIVE_BARS, loadDetectionProfiles, resolveDetectionSettings, saveDetectionProfiles } from './utils/detectionSettings';
+import { createSignalJournal } from './services/signalJournal';
+import { DEFAULT_OUTCOME_BARS, advanceOutcome, isTrackable, resumeOutcome, startOutcome } from './utils/signalOutcome';
+import { DEFAULT_INDICATOR_PARAMS, IndicatorId, IndicatorParams } from './utils/indicators';
+import { fetchOlderBars, mergeLiveBars } from './services/chartHistory';
 import { 
   Activity, 
   Zap, 
@@ -22,8 +74,6 @@ import {
   Minimize, 
   BarChart3, 
   LineChart, 
-  Plus, 
-  Trash2,
   ChevronRight,
   ChevronLeft,
   ArrowUpRight,
@@ -32,110 +82,373 @@ import {
   BellRing,
   TrendingUp,
   TrendingDown,
-  Target
+  Target,
+  Languages,
+  Gauge
 } from 'lucide-react';
 
 const ASSETS: Asset[] = [
-  { symbol: 'EUR/USD', name: 'Euro / US Dollar', currentPrice: 1.0854, change: 0.12 },
-  { symbol: 'GBP/USD', name: 'British Pound / US Dollar', currentPrice: 1.2645, change: -0.05 },
-  { symbol: 'USD/JPY', name: 'US Dollar / Yen', currentPrice: 149.23, change: 0.45 },
-  { symbol: 'BTC/USD', name: 'Bitcoin / US Dollar', currentPrice: 52140.00, change: 1.20 },
+  { symbol: 'EUR/USD', name: 'Euro / US Dollar', currentPrice: 1.0854, change: 0.12, spec: INSTRUMENTS['EUR/USD'] },
+  { symbol: 'GBP/USD', name: 'British Pound / US Dollar', currentPrice: 1.2645, change: -0.05, spec: INSTRUMENTS['GBP/USD'] },
+  { symbol: 'USD/JPY', name: 'US Dollar / Yen', currentPrice: 149.23, change: 0.45, spec: INSTRUMENTS['USD/JPY'] },
+  { symbol: 'BTC/USD', name: 'Bitcoin / US Dollar', currentPrice: 52140.00, change: 1.20, spec: INSTRUMENTS['BTC/USD'] },
 ];
 
-const TIMEFRAMES = ['1M', '5M', '15M'];
-
-function decodeBase64(base64: string) {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+const TIMEFRAMES = ['1M', '5M', '15M', '1H', '4H'];
+const MAX_SIGNALS = 30;
+
+const TREND_STYLES: Record<MarketTrend, string> = {
+  [MarketTrend.BULLISH]: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  [MarketTrend.BEARISH]: 'bg-rose-500/10 text-rose-400 border-rose-500/30',
+  [MarketTrend.NEUTRAL]: 'bg-slate-800/50 text-slate-400 border-slate-700/30',
+};
+
+const OUTCOME_STYLES: Record<SignalOutcome['status'], { label: MessageKey; className: string }> = {
+  PENDING: { label: 'outcome.PENDING', className: 'text-slate-500' },
+  TARGET_HIT: { label: 'outcome.TARGET_HIT', className: 'text-emerald-400' },
+  STOPPED: { label: 'outcome.STOPPED', className: 'text-rose-400' },
+  EXPIRED: { label: 'outcome.EXPIRED', className: 'text-amber-400' },
+};
+
+const signalDirection = (signal: Signal): 'UP' | 'DOWN' | 'FLAT' => {
+  if (signal.type === 'BREAKOUT_UP') return 'UP';
+  if (signal.type === 'BREAKOUT_DOWN') return 'DOWN';
+  return signal.trend === MarketTrend.BULLISH ? 'UP' : signal.trend === MarketTrend.BEARISH ? 'DOWN' : 'FLAT';
+};
 
 const App: React.FC = () => {
   const [selectedAsset, setSelectedAsset] = useState<Asset>(ASSETS[0]);
   const [chartData, setChartData] = useState<PriceData[]>([]);
   const [signals, setSignals] = useState<Signal[]>([]);
-  const [aiAnalysis, setAiAnalysis] = useState<any>(null);
+  const [aiAnalysis, setAiAnalysis] = useState<AnalysisState>({ status: 'idle' });
+  const [analysisConfig, setAnalysisConfig] = useState<AnalysisConfig>(loadAnalysisConfig);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
-  const [lastAlertTime, setLastAlertTime] = useState(0);
   const [currentWyckoffTarget, setCurrentWyckoffTarget] = useState<number | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [timeframe, setTimeframe] = useState('1M'); // Default to 1M
   const [chartType, setChartType] = useState<'line' | 'candle'>('candle');
-  const [manualLines, setManualLines] = useState<number[]>([]);
+  const [chartRenderer, setChartRenderer] = useState<'svg' | 'canvas'>('svg');
+  // Everything the canvas renderer can scroll through: the scanner's live window plus older pages.
+  const [chartHistory, setChartHistory] = useState<{ bars: PriceData[]; exhausted: boolean }>({ bars: [], exhausted: false });
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [drawings, setDrawings] = useState<Drawing[]>([]);
+  const [alerts, setAlerts] = useState<PriceAlert[]>(loadAlerts);
+  const [toasts, setToasts] = useState<Toast[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const [deliveryChannels, setDeliveryChannels] = useState<DeliveryChannel[]>(loadDeliveryChannels);
+  const [deliveryLog, setDeliveryLog] = useState<DeliveryLogEntry[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [markPrices, setMarkPrices] = useState<Record<string, number>>({});
+  const [feedConfig, setFeedConfig] = useState<FeedConfig>({ kind: 'simulator' });
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>('DISCONNECTED');
+  const [feedMessage, setFeedMessage] = useState<string | undefined>();
+  const [activeView, setActiveView] = useState<'live' | 'backtest' | 'journal' | 'settings'>('live');
+  const [detectionProfiles, setDetectionProfiles] = useState<DetectionProfiles>(loadDetectionProfiles);
+  const [journalRevision, setJournalRevision] = useState(0);
+  // Journal entries for the charted asset and timeframe, drawn as markers.
+  const [chartSignals, setChartSignals] = useState<Signal[]>([]);
+  const [outcomeBars, setOutcomeBars] = useState(DEFAULT_OUTCOME_BARS);
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(DEFAULT_RISK_SETTINGS);
+  const [marketTrend, setMarketTrend] = useState<MarketTrend>(MarketTrend.NEUTRAL);
+  const [requireConfirmation, setRequireConfirmation] = useState(false);
+  const [enabledIndicators, setEnabledIndicators] = useState<IndicatorId[]>(['ema']);
+  const [indicatorParams, setIndicatorParams] = useState<IndicatorParams>(DEFAULT_INDICATOR_PARAMS);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
   const chartContainerRef = useRef<HTMLDivElement>(null);
+  const scannerRef = useRef<MarketScanner | null>(null);
+  const journal = useMemo(() => createSignalJournal(), []);
+  // Breakouts still waiting for their target, stop or expiry.
+  const trackedRef = useRef<Signal[]>([]);
+  // Mirrors `alerts` so several updates in one tick see each other's triggers.
+  const alertsRef = useRef<PriceAlert[]>(alerts);
+  const lastPriceRef = useRef<Record<string, number>>({});
+  // Last spoken scanner alert per symbol, for the voice cooldown.
+  const lastAlertRef = useRef<Record<string, number>>({});
 
-  const speakSignal = useCallback(async (text: string) => {
-    if (isSpeaking) return;
-    setIsSpeaking(true);
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: `Atenção: ${text}` }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Kore' },
-            },
-          },
-        },
-      });
+  // Cleared signals stop being tracked, so their outcomes are not written back.
+  const handleJournalCleared = useCallback(() => {
+    trackedRef.current = [];
+    setJournalRevision(r => r + 1);
+  }, []);
+
+  const recordSignals = useCallback((changed: Signal[]) => {
+    journal.record(changed)
+      .then(() => setJournalRevision(r => r + 1))
+      .catch(error => console.error('Signal journal error:', error));
+  }, [journal]);
+
+  useEffect(() => {
+    journal.recent(MAX_SIGNALS)
+      .then(recent => setSignals(s => [...s, ...recent.filter(r => !s.some(x => x.id === r.id))].slice(0, MAX_SIGNALS)))
+      .catch(error => console.error('Signal journal error:', error));
+  }, [journal]);
+
+  useEffect(() => {
+    let cancelled = false;
+    journal.query({ asset: selectedAsset.symbol })
+      .then(stored => {
+        if (!cancelled) setChartSignals(stored.filter(s => s.timeframe === timeframe));
+      })
+      .catch(error => console.error('Signal journal error:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, selectedAsset.symbol, timeframe, journalRevision]);
+
+  const voice = useMemo(() => createVoiceQueue(createVoiceEngines(), voiceSettings), []);
+
+  useEffect(() => voice.onSpeakingChange(setIsSpeaking), [voice]);
+
+  useEffect(() => {
+    voice.setSettings(voiceSettings);
+    saveVoiceSettings(voiceSettings);
+  }, [voice, voiceSettings]);
+
+  const dispatcher = useMemo(() => createAlertDispatcher(deliveryChannels), []);
 
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        if (!audioContextRef.current) {
-          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        }
-        const ctx = audioContextRef.current;
-        const audioBuffer = await decodeAudioData(decodeBase64(base64Audio), ctx, 24000, 1);
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(ctx.destination);
-        source.onended = () => setIsSpeaking(false);
-        source.start();
-      } else {
-        setIsSpeaking(false);
+  useEffect(() => dispatcher.onLogChange(setDeliveryLog), [dispatcher]);
+
+  useEffect(() => {
+    dispatcher.setChannels(deliveryChannels);
+    saveDeliveryChannels(deliveryChannels);
+  }, [dispatcher, deliveryChannels]);
+
+  // Spoken alerts follow the UI language; the voice panel can still override it afterwards.
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+    setVoiceSettings(v => ({ ...v, language: localeInfo(next).voiceLanguage, browserVoice: '' }));
+  };
+
+  const speakSignal = useCallback((text: string, priority: VoicePriority = 'NORMAL', asset?: string) => {
+    voice.enqueue({ text, priority, asset });
+  }, [voice]);
+
+  const updateAlerts = useCallback((next: PriceAlert[]) => {
+    alertsRef.current = next;
+    setAlerts(next);
+    saveAlerts(next);
+  }, []);
+
+  const pushToast = useCallback((toast: Omit<Toast, 'id'>) => {
+    setToasts(t => [...t, { ...toast, id: Math.random().toString(36).substr(2, 9) }]);
+  }, []);
+
+  const dismissToast = useCallback((id: string) => setToasts(t => t.filter(x => x.id !== id)), []);
+
+  const checkAlerts = (update: ScannerUpdate) => {
+    const armed = alertsRef.current.filter(a => a.active && a.symbol === update.symbol);
+    if (armed.length === 0) return;
+
+    const isBaseTick = update.bar !== undefined && update.timeframe === TIMEFRAMES[0];
+    const closed = update.evaluation && update.data.length >= 3
+      ? [update.data[update.data.length - 3], update.data[update.data.length - 2]] as [PriceData, PriceData]
+      : undefined;
+    if (!isBaseTick && !closed) return;
+
+    const now = Date.now();
+    const fired: PriceAlert[] = [];
+    const changed = new Map<string, PriceAlert>();
+    for (const alert of armed) {
+      if (isExpired(alert, now)) {
+        changed.set(alert.id, { ...alert, active: false });
+        continue;
       }
-    } catch (error) {
-      console.error("TTS Error:", error);
-      setIsSpeaking(false);
+      const levels = alert.condition.kind === 'levelCross'
+        ? Object.fromEntries(loadDrawings(alert.symbol, alert.timeframe).map(d => [d.id, d.anchors[0].price]))
+        : {};
+      const triggered = isTriggered(alert, {
+        timeframe: update.timeframe,
+        previousPrice: isBaseTick ? lastPriceRef.current[update.symbol] : undefined,
+        price: isBaseTick ? update.bar!.close : undefined,
+        closed,
+        levels
+      });
+      if (triggered) {
+        const next = markTriggered(alert, now);
+        changed.set(alert.id, next);
+        fired.push(next);
+      }
+    }
+
+    if (changed.size > 0) updateAlerts(alertsRef.current.map(a => changed.get(a.id) ?? a));
+    fired.forEach(alert => {
+      const message = `${alert.symbol} ${alert.timeframe}: ${describeAlert(alert)}`;
+      pushToast({ title: t('toast.alertFired'), message, tone: 'warning' });
+      speakSignal(message, 'NORMAL', alert.symbol);
+      dispatcher.dispatch({ kind: 'alert', alert, message });
+    });
+  };
+
+  // Kept in a ref so the scanner subscription survives selection and alert-state changes.
+  const onScanRef = useRef<(update: ScannerUpdate) => void>(() => {});
+  onScanRef.current = (update: ScannerUpdate) => {
+    if (update.symbol === selectedAsset.symbol && update.timeframe === timeframe) {
+      setChartData(update.data);
+      const settings = resolveDetectionSettings(detectionProfiles, update.symbol, update.timeframe);
+      setCurrentWyckoffTarget(calculateWyckoffTarget(update.data, settings.wyckoffWindow, settings.wyckoffMultiplier));
+      setMarketTrend(update.trend);
     }
-  }, [isSpeaking]);
+
+    checkAlerts(update);
+
+    // Positions are marked and filled against the base timeframe only.
+    if (update.bar && update.timeframe === TIMEFRAMES[0]) {
+      const bar = update.bar;
+      lastPriceRef.current[update.symbol] = bar.close;
+      setMarkPrices(prev => ({ ...prev, [update.symbol]: bar.close }));
+      setOrders(prev => fillOrders(prev, update.symbol, bar));
+    }
+
+    const evaluation = update.evaluation;
+    if (!evaluation) return;
+
+    // The bar just closed is the second to last; pending outcomes on this series advance by it.
+    const closedBar = update.data[update.data.length - 2];
+    const advanced = closedBar
+      ? trackedRef.current
+          .filter(s => s.asset === update.symbol && s.timeframe === update.timeframe)
+          .map(s => advanceOutcome(s, closedBar))
+      : [];
+    if (advanced.length > 0) {
+      const byId = new Map(advanced.map(s => [s.id, s]));
+      trackedRef.current = trackedRef.current
+        .map(s => byId.get(s.id) ?? s)
+        .filter(s => s.outcome?.status === 'PENDING');
+      setSignals(s => s.map(x => byId.get(x.id) ?? x));
+      recordSignals(advanced);
+    }
+
+    if (evaluation.signals.length === 0) return;
+    const fresh = evaluation.signals.map(s => startOutcome(s, outcomeBars));
+    trackedRef.current = [...trackedRef.current, ...fresh.filter(isTrackable)];
+    setSignals(s => [...fresh, ...s].slice(0, MAX_SIGNALS));
+    recordSignals(fresh);
+    fresh.forEach(signal => dispatcher.dispatch({ kind: 'signal', signal }));
+
+    // The cooldown holds back further alerts on the same symbol; STRONG
+    // breakouts are always spoken and left to the queue's de-duplication.
+    const now = Date.now();
+    const { voiceCooldownSec } = resolveDetectionSettings(detectionProfiles, update.symbol, update.timeframe);
+    const strong = evaluation.signals.some(s => s.strength === 'STRONG' && s.type !== 'TREND_CHANGE');
+    const cooling = now - (lastAlertRef.current[update.symbol] ?? 0) <= voiceCooldownSec * 1000;
+    if (evaluation.voiceAlert && (strong || !cooling)) {
+      speakSignal(evaluation.voiceAlert, strong ? 'HIGH' : 'NORMAL', update.symbol);
+      lastAlertRef.current[update.symbol] = now;
+    }
+  };
+
+  const feed = useMemo(
+    () => createFeed(feedConfig, Object.fromEntries(ASSETS.map(a => [a.symbol, a.currentPrice]))),
+    [feedConfig]
+  );
 
   useEffect(() => {
-    // Correctly passing timeframe to mock generator
-    const initialData = generateMockData(selectedAsset.currentPrice, 60, timeframe);
-    setChartData(initialData);
-    setSignals([]);
-    setAiAnalysis(null);
-    setCurrentWyckoffTarget(calculateWyckoffTarget(initialData));
-  }, [selectedAsset, timeframe]);
+    const offStatus = feed.onStatusChange((status, message) => {
+      setFeedStatus(status);
+      setFeedMessage(message);
+    });
+    feed.connect();
+    setFeedStatus(feed.getStatus());
+    return () => {
+      offStatus();
+      feed.disconnect();
+    };
+  }, [feed]);
+
+  useEffect(() => {
+    const scanner = createMarketScanner(
+      feed,
+      ASSETS.map(a => a.symbol),
+      TIMEFRAMES,
+      LIVE_BARS,
+      update => onScanRef.current(update),
+      setFeedMessage
+    );
+    scanner.setRequireConfirmation(requireConfirmation);
+    scanner.setIndicatorParams(indicatorParams);
+    scanner.setDetectionProfiles(detectionProfiles);
+    scannerRef.current = scanner;
+    return () => {
+      scanner.stop();
+      scannerRef.current = null;
+    };
+  }, [feed]);
+
+  // Outcomes still pending from an earlier session are replayed on the feed's
+  // closed bars and go back under tracking, or expire when the feed does not
+  // continue that session. A pair whose history cannot be fetched is left as is.
+  useEffect(() => {
+    let cancelled = false;
+    journal.query()
+      .then(async stored => {
+        const pending = stored.filter(s => s.outcome?.status === 'PENDING' && !trackedRef.current.some(t => t.id === s.id));
+        const groups = new Map<string, Signal[]>();
+        pending.forEach(s => {
+          const key = feedKey(s.asset, s.timeframe ?? TIMEFRAMES[0]);
+          groups.set(key, [...(groups.get(key) ?? []), s]);
+        });
+        const resumed = await Promise.all([...groups.values()].map(group => {
+          const { asset, timeframe = TIMEFRAMES[0] } = group[0];
+          const count = Math.max(...group.map(s => s.outcome!.maxBars)) + 2;
+          return feed.requestHistory(asset, timeframe, count)
+            .then(history => group.map(s => resumeOutcome(s, history.slice(0, -1))))
+            .catch(error => {
+              console.error(`Outcome resume failed for ${asset} ${timeframe}:`, error);
+              return [];
+            });
+        }));
+        return resumed.flat();
+      })
+      .then(resumed => {
+        if (cancelled || resumed.length === 0) return;
+        trackedRef.current = [...trackedRef.current, ...resumed.filter(s => s.outcome?.status === 'PENDING')];
+        const byId = new Map(resumed.map(s => [s.id, s]));
+        setSignals(s => s.map(x => byId.get(x.id) ?? x));
+        recordSignals(resumed);
+      })
+      .catch(error => console.error('Signal journal error:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, feed, recordSignals]);
+
+  useEffect(() => {
+    scannerRef.current?.setRequireConfirmation(requireConfirmation);
+  }, [requireConfirmation]);
+
+  useEffect(() => {
+    scannerRef.current?.setIndicatorParams(indicatorParams);
+  }, [indicatorParams]);
+
+  useEffect(() => {
+    scannerRef.current?.setDetectionProfiles(detectionProfiles);
+    saveDetectionProfiles(detectionProfiles);
+  }, [detectionProfiles]);
+
+  useEffect(() => {
+    saveAnalysisConfig(analysisConfig);
+  }, [analysisConfig]);
+
+  const analysisProvider = useMemo(
+    () => createAnalysisProvider(analysisConfig, resolveDetectionSettings(detectionProfiles, selectedAsset.symbol, timeframe)),
+    [analysisConfig, detectionProfiles, selectedAsset, timeframe]
+  );
+
+  const toggleIndicator = useCallback((id: IndicatorId) => {
+    setEnabledIndicators(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  }, []);
+
+  useEffect(() => {
+    const data = scannerRef.current?.getSeries(selectedAsset.symbol, timeframe) ?? [];
+    setChartData(data);
+    const settings = resolveDetectionSettings(detectionProfiles, selectedAsset.symbol, timeframe);
+    setCurrentWyckoffTarget(calculateWyckoffTarget(data, settings.wyckoffWindow, settings.wyckoffMultiplier));
+    setMarketTrend(scannerRef.current?.getTrend(selectedAsset.symbol, timeframe) ?? MarketTrend.NEUTRAL);
+    setAiAnalysis({ status: 'idle' });
+  }, [feed, selectedAsset, timeframe]);
 
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -151,87 +464,187 @@ const App: React.FC = () => {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
+  const account = useMemo(() => summarizeAccount(orders, markPrices), [orders, markPrices]);
+  // Bumped on every reset so a page fetched for the previous pair is dropped.
+  const historyRequestRef = useRef(0);
   useEffect(() => {
-    // 1M update speed is faster for simulation feel
-    const updateInterval = timeframe === '1M' ? 3000 : timeframe === '5M' ? 8000 : 15000;
-    const interval = setInterval(() => {
-      setChartData(prev => {
-        if (prev.length === 0) return prev;
-        const last = prev[prev.length - 1];
-        const tfMult = timeframe === '15M' ? 0.0008 : timeframe === '5M' ? 0.0005 : 0.0003;
-        const volatility = last.close * tfMult;
-        const change = (Math.random() - 0.5) * volatility;
-        const newClose = last.close + change;
-        
-        const volumeSpike = Math.random() > 0.95 ? 4.5 : (Math.random() > 0.8 ? 2.5 : 1);
-        
-        const newDataPoint: PriceData = {
-          time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-          open: last.close,
-          high: Math.max(last.close, newClose) + Math.random() * (volatility * 0.4),
-          low: Math.min(last.close, newClose) - Math.random() * (volatility * 0.4),
-          close: newClose,
-          volume: Math.floor((Math.random() * 1000 + 400) * volumeSpike)
-        };
-
-        const updatedData = [...prev.slice(1), newDataPoint];
-        const closes = updatedData.map(d => d.close);
-        const ema10 = calculateEMA(closes, 10);
-        const ema20 = calculateEMA(closes, 20);
-        const ema50 = calculateEMA(closes, 50);
-
-        const dataWithEMA = updatedData.map((d, i) => ({
-          ...d,
-          ema10: ema10[i],
-          ema20: ema20[i],
-          ema50: ema50[i]
-        }));
+    historyRequestRef.current++;
+    setChartHistory({ bars: [], exhausted: false });
+    setHistoryLoading(false);
+  }, [feed, selectedAsset, timeframe, indicatorParams]);
 
-        setCurrentWyckoffTarget(calculateWyckoffTarget(dataWithEMA));
-
-        const breakout = detectBreakouts(dataWithEMA);
-        if (breakout) {
-          const now = Date.now();
-          const isExceptionalVolume = breakout.volumeRatio >= 3.0;
-          
-          const newSignal: Signal = {
-            id: Math.random().toString(36).substr(2, 9),
-            asset: selectedAsset.symbol,
-            type: breakout.type as any,
-            strength: isExceptionalVolume ? 'STRONG' : 'MODERATE',
-            price: breakout.price,
-            timestamp: new Date(),
-            details: `Rompimento em ${breakout.price.toFixed(5)} no gráfico de ${timeframe}.`
-          };
-          setSignals(s => [newSignal, ...s].slice(0, 10));
-
-          if (now - lastAlertTime > 20000) { 
-            const direction = breakout.type === 'BREAKOUT_UP' ? 'Compra' : 'Venda';
-            speakSignal(`Oportunidade de ${direction} em ${selectedAsset.symbol}. Rompimento detectado.`);
-            setLastAlertTime(now);
-          }
-        }
-        return dataWithEMA;
-      });
-    }, updateInterval);
-    return () => clearInterval(interval);
-  }, [selectedAsset, lastAlertTime, speakSignal, timeframe]);
+  useEffect(() => {
+    setChartHistory(prev => ({ ...prev, bars: mergeLiveBars(prev.bars, chartData) }));
+  }, [chartData]);
+
+  const loadOlderHistory = useCallback(() => {
+    const { bars, exhausted } = chartHistory;
+    if (historyLoading || exhausted || bars.length === 0) return;
+    const request = historyRequestRef.current;
+    const first = bars[0].timestamp;
+    setHistoryLoading(true);
+    fetchOlderBars(feed, selectedAsset.symbol, timeframe, bars, indicatorParams)
+      .then(older => {
+        if (historyRequestRef.current !== request) return;
+        setChartHistory(prev => prev.bars[0]?.timestamp === first
+          ? { bars: [...older.bars, ...prev.bars], exhausted: older.exhausted }
+          : prev);
+      })
+      .catch(error => { if (historyRequestRef.current === request) setFeedMessage(`${selectedAsset.symbol} ${timeframe}: ${error.message}`); })
+      .finally(() => { if (historyRequestRef.current === request) setHistoryLoading(false); });
+  }, [chartHistory, historyLoading, feed, selectedAsset.symbol, timeframe, indicatorParams]);
+
+  const wyckoffRanges = useMemo(() => findWyckoffRanges(chartData), [chartData]);
+  const wyckoffRange = currentWyckoffRange(wyckoffRanges);
+  const chartDetection = useMemo(
+    () => resolveDetectionSettings(detectionProfiles, selectedAsset.symbol, timeframe),
+    [detectionProfiles, selectedAsset.symbol, timeframe]
+  );
+  // Last bar's volume against the average of the breakout lookback before it.
+  const lastVolumeRatio = useMemo(() => {
+    const lookback = chartDetection.breakoutLookback;
+    if (chartData.length < lookback + 1) return undefined;
+    const previous = chartData.slice(-(lookback + 1), -1);
+    const average = previous.reduce((acc: number, d: PriceData) => acc + d.volume, 0) / lookback;
+    return average > 0 ? chartData[chartData.length - 1].volume / average : undefined;
+  }, [chartData, chartDetection]);
+
+  // Fills are checked on base-timeframe bars, so an order remembers the one
+  // forming when it opened and ignores the range that bar printed before.
+  const openOrder = (symbol: string, type: Order['type'], data: PriceData[], options: Parameters<typeof createOrder>[3] = {}) => {
+    const base = scannerRef.current?.getSeries(symbol, TIMEFRAMES[0]) ?? [];
+    return createOrder(symbol, type, data, { ...options, entryBar: base[base.length - 1] });
+  };
+
+  const placeOrder = (type: Order['type']) => {
+    const order = openOrder(selectedAsset.symbol, type, chartData);
+    if (order) setOrders(prev => [order, ...prev]);
+  };
+
+  const handleTradeSignal = (signal: Signal) => {
+    if (signal.type === 'TREND_CHANGE') return;
+    const data = scannerRef.current?.getSeries(signal.asset, signal.timeframe ?? TIMEFRAMES[0]) ?? [];
+    const entry = data[data.length - 1]?.close;
+    if (entry === undefined) return;
+    const lines = horizontalLevels(loadDrawings(signal.asset, signal.timeframe ?? TIMEFRAMES[0]));
+    // Sized at the price the order fills at. An order the risk panel cannot
+    // size (no stop, a stop price has already gone through, or less than one
+    // lot step) is refused rather than opened at a default size.
+    const sizing = sizeSignal(signal, riskSettings, lines, entry);
+    if (!sizing || sizing.lots <= 0) {
+      const reason = sizing ? 'toast.belowLotStep' : sizeSignal(signal, riskSettings, lines) ? 'toast.stopPassed' : 'toast.noStop';
+      pushToast({ title: t('toast.orderRefused'), message: t(reason, { symbol: signal.asset }), tone: 'warning' });
+      return;
+    }
+    const order = openOrder(signal.asset, sizing.direction, data, {
+      quantity: sizing.units,
+      sl: sizing.stop,
+      tp: sizing.target ?? undefined,
+      signalId: signal.id
+    });
+    if (order) setOrders(prev => [order, ...prev]);
+  };
+
+  const placeSizedOrder = (sizing: PositionSizing) => {
+    const order = openOrder(selectedAsset.symbol, sizing.direction, chartData, {
+      quantity: sizing.units,
+      sl: sizing.stop,
+      tp: sizing.target ?? undefined
+    });
+    if (order) setOrders(prev => [order, ...prev]);
+  };
+
+  const jumpToSignal = (signal: Signal) => {
+    const asset = ASSETS.find(a => a.symbol === signal.asset);
+    if (asset) setSelectedAsset(asset);
+    if (signal.timeframe) setTimeframe(signal.timeframe);
+    setActiveView('live');
+  };
+
+  const handleCloseOrder = (id: string) => {
+    setOrders(prev => prev.map(o => {
+      if (o.id !== id || o.status !== 'OPEN') return o;
+      const mark = markPrices[o.asset] ?? o.entryPrice;
+      return closeOrder(o, mark, 'MANUAL');
+    }));
+  };
 
   const requestAIAnalysis = async () => {
     if (chartData.length === 0) return;
-    setAiAnalysis({ loading: true });
-    const result = await analyzeMarket(selectedAsset.symbol, chartData);
-    setAiAnalysis(result);
-    if (result && !result.loading) {
-      speakSignal(`Análise IA para ${selectedAsset.symbol}: Tendência ${result.trend}. Sinal de ${result.signal}.`);
+    const provider = analysisProvider;
+    const symbol = selectedAsset.symbol;
+    const higher = CONFIRMATION_TIMEFRAME[timeframe];
+    const higherSeries = higher ? scannerRef.current?.getSeries(symbol, higher) ?? [] : [];
+    setAiAnalysis({ status: 'loading', provider: provider.name });
+    try {
+      const result: MarketAnalysis = await provider.analyze({
+        asset: symbol,
+        timeframe,
+        data: chartData,
+        signals: signals.filter(s => s.asset === symbol),
+        wyckoffTarget: currentWyckoffTarget,
+        wyckoff: wyckoffRange,
+        levels: horizontalLevels(drawings),
+        higherTimeframe: higher && scannerRef.current
+          ? { timeframe: higher, trend: scannerRef.current.getTrend(symbol, higher), last: higherSeries[higherSeries.length - 1] }
+          : undefined,
+        language: localeInfo().promptLanguage
+      });
+      setAiAnalysis({ status: 'ready', result });
+      speakSignal(t('voice.analysis', { symbol, trend: trendLabel(result.trend).toLowerCase(), signal: t(`ai.signal.${result.signal}`) }), 'LOW', symbol);
+    } catch (error) {
+      console.error('Analysis error:', error);
+      setAiAnalysis({ status: 'error', provider: provider.name, message: (error as Error).message });
+    }
+  };
+
+  // Market entry at the current price with the plan's stop and first target, sized by the risk panel.
+  // Refused once price has left the entry zone or gone through the stop, or when the risk panel cannot size it.
+  const acceptPlanOrder = (plan: TradePlan, symbol: string, timeframe: string) => {
+    const data = scannerRef.current?.getSeries(symbol, timeframe) ?? [];
+    const price = data[data.length - 1]?.close;
+    if (price === undefined) return;
+    if (!canEnterPlan(plan, price)) {
+      pushToast({ title: t('toast.orderRefused'), message: t('toast.planOutOfZone', { symbol }), tone: 'warning' });
+      return;
+    }
+    const sizing = calculatePositionSize(symbol, plan.direction, price, plan.stopLoss, plan.takeProfits[0], riskSettings);
+    if (!sizing || sizing.lots <= 0) {
+      pushToast({ title: t('toast.orderRefused'), message: t(sizing ? 'toast.belowLotStep' : 'toast.planNoStop', { symbol }), tone: 'warning' });
+      return;
     }
+    const order = openOrder(symbol, plan.direction, data, {
+      quantity: sizing.units,
+      sl: plan.stopLoss,
+      tp: plan.takeProfits[0]
+    });
+    if (!order) return;
+    setOrders(prev => [order, ...prev]);
+    pushToast({ title: t('toast.planExecuted'), message: t('toast.planExecutedMessage', { direction: plan.direction, symbol, quantity: order.quantity }), tone: 'success' });
   };
 
-  const handleAddLine = () => {
-    const lastPrice = chartData[chartData.length - 1]?.close;
-    if (lastPrice) setManualLines([...manualLines, lastPrice]);
+  const acceptPlanAlerts = (plan: TradePlan, symbol: string, timeframe: string) => {
+    const price = markPrices[symbol] ?? chartData[chartData.length - 1]?.close;
+    if (price === undefined) return;
+    const created = planAlerts(plan, symbol, timeframe, price);
+    updateAlerts([...alertsRef.current, ...created]);
+    pushToast({ title: t('toast.alertsCreated'), message: t('toast.alertsCreatedMessage', { count: created.length, direction: plan.direction, symbol }), tone: 'info' });
   };
 
+  const aiPlan = aiAnalysis.status === 'ready' && aiAnalysis.result.asset === selectedAsset.symbol && aiAnalysis.result.timeframe === timeframe
+    ? aiAnalysis.result.plan
+    : null;
+
+  useEffect(() => {
+    setDrawings(loadDrawings(selectedAsset.symbol, timeframe));
+  }, [selectedAsset, timeframe]);
+
+  // Saved here rather than in an effect so a pair switch never writes the old pair's drawings under the new key.
+  const updateDrawings = useCallback((next: Drawing[]) => {
+    setDrawings(next);
+    saveDrawings(selectedAsset.symbol, timeframe, next);
+  }, [selectedAsset, timeframe]);
+
   return (
     <div className="flex h-screen bg-[#050810] text-slate-100 overflow-hidden font-sans selection:bg-indigo-500/30">
       {/* Sidebar */}
@@ -243,7 +656,7 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-xl font-black tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-white to-slate-400 uppercase">Forex Scalper</h1>
-              <p className="text-[10px] font-bold text-emerald-500 uppercase tracking-widest">Optimized for 1M</p>
+              <p className="text-[10px] font-bold text-emerald-500 uppercase tracking-widest">{t('app.tagline')}</p>
             </div>
           </div>
 
@@ -252,7 +665,7 @@ const App: React.FC = () => {
             <div>
               <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4 flex items-center gap-2">
                 <span className="w-1.5 h-1.5 rounded-full bg-slate-700"></span>
-                Markets
+                {t('app.markets')}
               </p>
               <div className="grid grid-cols-1 gap-2">
                 {ASSETS.map(asset => (
@@ -270,10 +683,10 @@ const App: React.FC = () => {
                       <p className="text-[10px] opacity-40">{asset.name}</p>
                     </div>
                     <div className="text-right">
-                      <p className="text-xs font-mono font-bold">{asset.currentPrice.toFixed(2)}</p>
+                      <p className="text-xs font-mono font-bold">{formatPrice(markPrices[asset.symbol] ?? asset.currentPrice, asset.symbol)}</p>
                       <div className={`flex items-center justify-end gap-1 text-[10px] font-bold ${asset.change >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
                         {asset.change >= 0 ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
-                        {Math.abs(asset.change)}%
+                        {formatNumber(Math.abs(asset.change), 2)}%
                       </div>
                     </div>
                   </button>
@@ -285,48 +698,110 @@ const App: React.FC = () => {
             <div className="bg-slate-900/40 rounded-3xl border border-slate-800/50 p-5 backdrop-blur-md shadow-inner">
                <div className="flex items-center gap-3 mb-3 text-indigo-400">
                   <BellRing className="w-4 h-4" />
-                  <p className="text-[10px] font-black uppercase tracking-[0.2em]">Sinais de Voz</p>
+                  <p className="text-[10px] font-black uppercase tracking-[0.2em]">{t('voice.title')}</p>
+                  {isSpeaking && <Volume2 className="w-3 h-3 ml-auto text-emerald-400 animate-pulse" />}
                </div>
                <p className="text-[10px] text-slate-400 leading-relaxed font-medium">
-                 Monitoramento ativo em tempo real. Alertando rompimentos de região e tendências no gráfico de <span className="text-emerald-400">1 Minuto</span>.
+                 {t('voice.monitoring')} <span className="text-emerald-400">{t('voice.assets', { count: ASSETS.length })}</span> {t('voice.onCharts')} <span className="text-emerald-400">{TIMEFRAMES.join(' / ')}</span>.
                </p>
+               <label className="flex items-center gap-2 mt-4 text-[10px] text-slate-400 font-bold cursor-pointer">
+                 <input
+                   type="checkbox"
+                   checked={requireConfirmation}
+                   onChange={e => setRequireConfirmation(e.target.checked)}
+                   className="accent-emerald-500"
+                 />
+                 {t('voice.confirmedOnly')}
+               </label>
             </div>
 
+            <AlertsPanel
+              alerts={alerts}
+              symbol={selectedAsset.symbol}
+              timeframe={timeframe}
+              price={markPrices[selectedAsset.symbol]}
+              wyckoffTarget={currentWyckoffTarget}
+              drawings={drawings}
+              onChange={updateAlerts}
+            />
+
+            <SignalStatsPanel
+              journal={journal}
+              revision={journalRevision}
+              outcomeBars={outcomeBars}
+              onOutcomeBarsChange={setOutcomeBars}
+            />
+
             {/* Breakout Signals */}
             <div className="bg-slate-900/40 rounded-3xl border border-slate-800/50 p-5 backdrop-blur-md">
                <div className="flex items-center justify-between mb-4">
-                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Últimos Sinais</p>
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">{t('app.latestSignals')}</p>
                   <Zap className="w-3 h-3 text-yellow-400 animate-pulse" />
                </div>
                <div className="space-y-4 max-h-[350px] overflow-y-auto custom-scrollbar">
                   {signals.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-10 opacity-20">
                       <Activity className="w-10 h-10 mb-2" />
-                      <p className="text-[10px] font-black uppercase tracking-widest">Scanning...</p>
+                      <p className="text-[10px] font-black uppercase tracking-widest">{t('app.scanning')}</p>
                     </div>
                   ) : signals.map(s => (
                     <div 
                       key={s.id} 
-                      className={`p-4 rounded-2xl border-l-4 transition-all duration-300 hover:bg-white/5 animate-in slide-in-from-left ${
-                        s.type === 'BREAKOUT_UP' 
+                      onClick={() => jumpToSignal(s)}
+                      title={t('app.openOnChart')}
+                      className={`p-4 rounded-2xl border-l-4 cursor-pointer transition-all duration-300 hover:bg-white/5 animate-in slide-in-from-left ${
+                        signalDirection(s) === 'UP' 
                           ? 'bg-emerald-500/5 border-emerald-500 shadow-[inset_0_0_10px_rgba(16,185,129,0.05)]' 
-                          : 'bg-rose-500/5 border-rose-500 shadow-[inset_0_0_10px_rgba(239,68,68,0.05)]'
+                          : signalDirection(s) === 'DOWN'
+                            ? 'bg-rose-500/5 border-rose-500 shadow-[inset_0_0_10px_rgba(239,68,68,0.05)]'
+                            : 'bg-slate-500/5 border-slate-500'
                       }`}
                     >
                       <div className="flex items-center justify-between mb-2">
                         <div className="flex items-center gap-2">
                           <span className={`text-[9px] font-black px-2 py-0.5 rounded uppercase tracking-tighter ${
-                            s.type === 'BREAKOUT_UP' ? 'bg-emerald-500 text-emerald-950' : 'bg-rose-500 text-rose-950'
+                            signalDirection(s) === 'UP' ? 'bg-emerald-500 text-emerald-950' : signalDirection(s) === 'DOWN' ? 'bg-rose-500 text-rose-950' : 'bg-slate-500 text-slate-950'
                           }`}>
-                            {s.type === 'BREAKOUT_UP' ? 'COMPRA' : 'VENDA'}
+                            {s.type === 'TREND_CHANGE' ? t('trend.label', { trend: trendLabel(s.trend ?? MarketTrend.NEUTRAL) }) : t(s.type === 'BREAKOUT_UP' ? 'app.buy' : 'app.sell')}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {s.outcome && (
+                            <span className={`text-[8px] font-black uppercase tracking-widest ${OUTCOME_STYLES[s.outcome.status].className}`}>
+                              {t(OUTCOME_STYLES[s.outcome.status].label)}
+                              {s.outcome.status === 'PENDING' && ` ${s.outcome.barsElapsed}/${s.outcome.maxBars}`}
+                            </span>
+                          )}
+                          <span className="text-[9px] text-slate-500 font-mono font-bold">
+                            {formatTime(s.timestamp)}
                           </span>
                         </div>
-                        <span className="text-[9px] text-slate-500 font-mono font-bold">
-                          {s.timestamp.toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}
-                        </span>
                       </div>
-                      <p className="text-xs text-slate-200 font-bold mb-1">{s.asset}</p>
-                      <p className="text-[10px] text-slate-400 font-mono">Preço: {s.price.toFixed(5)}</p>
+                      <p className="text-xs text-slate-200 font-bold mb-1">
+                        {s.asset}
+                        {s.timeframe && <span className="ml-2 text-[9px] font-black text-indigo-400 bg-indigo-500/10 px-1.5 py-0.5 rounded">{s.timeframe}</span>}
+                      </p>
+                      {s.type === 'TREND_CHANGE' && (
+                        <p className="text-[10px] text-slate-500 mb-1">{s.details}</p>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <p className="text-[10px] text-slate-400 font-mono">{t('app.price', { price: formatPrice(s.price, s.asset) })}</p>
+                        {s.type !== 'TREND_CHANGE' && (
+                          <button
+                            onClick={e => {
+                              e.stopPropagation();
+                              handleTradeSignal(s);
+                            }}
+                            disabled={orders.some(o => o.signalId === s.id)}
+                            className="text-[9px] font-black uppercase tracking-widest text-indigo-400 hover:text-indigo-300 disabled:text-slate-600 disabled:cursor-not-allowed transition-colors"
+                          >
+                            {t(orders.some(o => o.signalId === s.id) ? 'app.executed' : 'app.trade')}
+                          </button>
+                        )}
+                      </div>
+                      {s.type !== 'TREND_CHANGE' && (
+                        <SignalRiskSummary signal={s} settings={riskSettings} manualLines={horizontalLevels(loadDrawings(s.asset, s.timeframe ?? TIMEFRAMES[0]))} />
+                      )}
                     </div>
                   ))}
                </div>
@@ -360,8 +835,18 @@ const App: React.FC = () => {
               ))}
             </div>
             <div className="h-4 w-px bg-slate-800/50" />
-            <div className="hidden md:flex items-center gap-4 text-slate-500 text-[10px] font-black uppercase tracking-[0.2em]">
-              <span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></span> Feed Ativo: 1M Interval</span>
+            <FeedSelector
+              config={feedConfig}
+              status={feedStatus}
+              statusMessage={feedMessage}
+              feedName={feed.name}
+              symbol={selectedAsset.symbol}
+              timeframe={timeframe}
+              onChange={setFeedConfig}
+            />
+            <div className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-[0.2em] ${TREND_STYLES[marketTrend]}`}>
+              {marketTrend === MarketTrend.BULLISH ? <TrendingUp className="w-3 h-3" /> : marketTrend === MarketTrend.BEARISH ? <TrendingDown className="w-3 h-3" /> : <Activity className="w-3 h-3" />}
+              {t('trend.label', { trend: trendLabel(marketTrend) })}
             </div>
           </div>
 
@@ -370,22 +855,58 @@ const App: React.FC = () => {
                <button 
                 onClick={() => setChartType('line')} 
                 className={`p-2.5 rounded-xl transition-all duration-200 ${chartType === 'line' ? 'bg-slate-800 text-indigo-400 shadow-inner' : 'text-slate-600 hover:text-slate-400'}`}
-                title="Linha"
+                title={t('app.line')}
               >
                 <LineChart className="w-4 h-4" />
               </button>
               <button 
                 onClick={() => setChartType('candle')} 
                 className={`p-2.5 rounded-xl transition-all duration-200 ${chartType === 'candle' ? 'bg-slate-800 text-indigo-400 shadow-inner' : 'text-slate-600 hover:text-slate-400'}`}
-                title="Velas"
+                title={t('app.candles')}
               >
                 <BarChart3 className="w-4 h-4" />
               </button>
+              <div className="w-px bg-slate-800/70 mx-1" />
+              <button 
+                onClick={() => setChartRenderer(r => r === 'canvas' ? 'svg' : 'canvas')} 
+                className={`p-2.5 rounded-xl transition-all duration-200 ${chartRenderer === 'canvas' ? 'bg-slate-800 text-indigo-400 shadow-inner' : 'text-slate-600 hover:text-slate-400'}`}
+                title={t('app.canvasMode')}
+              >
+                <Gauge className="w-4 h-4" />
+              </button>
             </div>
             
+            <div className="flex bg-slate-900/50 p-1 rounded-2xl border border-slate-800/50 gap-1">
+              <button
+                onClick={() => placeOrder('BUY')}
+                disabled={chartData.length === 0}
+                className="px-4 py-2 rounded-xl text-[10px] font-black tracking-widest text-emerald-400 hover:bg-emerald-500/10 transition-all disabled:opacity-50"
+              >
+                {t('app.buy')}
+              </button>
+              <button
+                onClick={() => placeOrder('SELL')}
+                disabled={chartData.length === 0}
+                className="px-4 py-2 rounded-xl text-[10px] font-black tracking-widest text-rose-400 hover:bg-rose-500/10 transition-all disabled:opacity-50"
+              >
+                {t('app.sell')}
+              </button>
+            </div>
+
+            <div className="flex items-center bg-slate-900/50 p-1 rounded-2xl border border-slate-800/50 gap-1" title={t('app.language')}>
+              <Languages className="w-4 h-4 mx-1.5 text-slate-600" />
+              {LOCALES.map(l => (
+                <button
+                  key={l.code}
+                  onClick={() => changeLocale(l.code)}
+                  className={`px-2.5 py-2 rounded-xl text-[10px] font-black tracking-widest transition-all ${locale === l.code ? 'bg-slate-800 text-indigo-400 shadow-inner' : 'text-slate-600 hover:text-slate-400'}`}
+                >
+                  {l.label}
+                </button>
+              ))}
+            </div>
+
             <div className="flex gap-2">
-              <button onClick={handleAddLine} className="p-2.5 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-slate-400 transition-all hover:scale-110 active:scale-95" title="Suporte/Resistência"><Plus className="w-5 h-5" /></button>
-              <button onClick={() => setManualLines([])} className="p-2.5 bg-slate-900/50 border border-slate-800/50 hover:bg-rose-500/10 hover:text-rose-500 rounded-xl text-slate-400 transition-all" title="Limpar"><Trash2 className="w-4 h-4" /></button>
               <button onClick={toggleFullscreen} className="p-2.5 bg-slate-900/50 border border-slate-800/50 hover:bg-indigo-500/10 hover:text-indigo-500 rounded-xl text-slate-400 transition-all">
                 {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
               </button>
@@ -393,71 +914,193 @@ const App: React.FC = () => {
 
             <button 
               onClick={requestAIAnalysis} 
-              disabled={isSpeaking || chartData.length === 0}
-              className={`flex items-center gap-2 bg-gradient-to-r from-emerald-600 to-indigo-600 hover:from-emerald-500 hover:to-indigo-500 text-white px-6 py-3 rounded-2xl text-xs font-black tracking-widest shadow-xl shadow-emerald-600/30 transition-all active:scale-95 border border-white/10 ${isSpeaking || chartData.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+              disabled={aiAnalysis.status === 'loading' || chartData.length === 0}
+              className={`flex items-center gap-2 bg-gradient-to-r from-emerald-600 to-indigo-600 hover:from-emerald-500 hover:to-indigo-500 text-white px-6 py-3 rounded-2xl text-xs font-black tracking-widest shadow-xl shadow-emerald-600/30 transition-all active:scale-95 border border-white/10 ${aiAnalysis.status === 'loading' || chartData.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
               <BrainCircuit className="w-4 h-4" />
-              IA QUANT
+              {t('app.aiButton')}
             </button>
           </div>
         </header>
 
         <div className="flex-1 p-8 grid grid-cols-12 gap-8 overflow-y-auto custom-scrollbar">
           <div className="col-span-12 xl:col-span-9 space-y-8">
-            <div ref={chartContainerRef} className={`bg-[#0A0F1C] rounded-[2.5rem] overflow-hidden relative shadow-2xl border border-slate-800/30 transition-all duration-500 ${isFullscreen ? 'fixed inset-0 z-[100] h-screen w-screen rounded-none' : 'h-[600px]'}`}>
-              <TradingChart 
-                data={chartData} 
-                asset={selectedAsset.symbol} 
-                wyckoffTarget={currentWyckoffTarget}
-                chartType={chartType}
-                manualLines={manualLines}
-              />
-              {isFullscreen && (
-                <button onClick={toggleFullscreen} className="absolute top-8 right-8 z-[110] bg-slate-900/90 p-4 rounded-2xl hover:bg-indigo-600 border border-slate-700 backdrop-blur-md shadow-2xl transition-all">
-                  <Minimize className="w-6 h-6 text-white" />
+            <div className="flex bg-slate-900/50 p-1 rounded-2xl border border-slate-800/50 shadow-inner w-fit">
+              {(['live', 'backtest', 'journal', 'settings'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setActiveView(view)}
+                  className={`px-5 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all duration-300 ${
+                    activeView === view ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/30' : 'text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {t(`view.${view}`)}
                 </button>
-              )}
+              ))}
             </div>
 
-            {/* Indicator Tiles */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div className="bg-[#0A0F1C] p-6 rounded-[2rem] border border-slate-800/40 shadow-xl transition-all duration-300">
-                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                  <TrendingUp className="w-3 h-3 text-indigo-400" /> Médias Móveis (EMA)
-                </p>
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center"><span className="text-xs text-slate-400 font-bold">EMA 10</span><span className="font-mono text-sm font-black text-cyan-400">{chartData[chartData.length-1]?.ema10?.toFixed(5) || '---'}</span></div>
-                  <div className="flex justify-between items-center"><span className="text-xs text-slate-400 font-bold">EMA 20</span><span className="font-mono text-sm font-black text-yellow-400">{chartData[chartData.length-1]?.ema20?.toFixed(5) || '---'}</span></div>
-                  <div className="flex justify-between items-center"><span className="text-xs text-slate-400 font-bold">EMA 50</span><span className="font-mono text-sm font-black text-pink-400">{chartData[chartData.length-1]?.ema50?.toFixed(5) || '---'}</span></div>
-                </div>
+            {activeView === 'backtest' && (
+              <BacktestPanel
+                asset={selectedAsset.symbol}
+                timeframe={timeframe}
+                basePrice={selectedAsset.currentPrice}
+                pipSize={selectedAsset.spec.pipSize}
+                detection={resolveDetectionSettings(detectionProfiles, selectedAsset.symbol, timeframe)}
+              />
+            )}
+
+            {activeView === 'journal' && (
+              <SignalJournalPanel journal={journal} assets={ASSETS.map(a => a.symbol)} revision={journalRevision} onCleared={handleJournalCleared} />
+            )}
+
+            {activeView === 'settings' && (
+              <>
+                <DetectionSettingsPanel
+                  profiles={detectionProfiles}
+                  assets={ASSETS.map(a => a.symbol)}
+                  timeframes={TIMEFRAMES}
+                  onChange={setDetectionProfiles}
+                />
+                <AnalysisProviderPanel
+                  config={analysisConfig}
+                  providerName={analysisProvider.name}
+                  onChange={setAnalysisConfig}
+                />
+                <VoiceSettingsPanel
+                  settings={voiceSettings}
+                  assets={ASSETS.map(a => a.symbol)}
+                  speaking={isSpeaking}
+                  onChange={setVoiceSettings}
+                  onTest={() => voice.enqueue({ text: t('voice.test', { time: formatTime(new Date(), true) }), priority: 'HIGH' })}
+                />
+                <DeliveryChannelsPanel
+                  channels={deliveryChannels}
+                  assets={ASSETS.map(a => a.symbol)}
+                  log={deliveryLog}
+                  onChange={setDeliveryChannels}
+                  onTest={dispatcher.test}
+                  onClearLog={dispatcher.clearLog}
+                />
+              </>
+            )}
+
+            {/* Kept mounted while backtesting so the live stream and zoom state persist */}
+            <div className={activeView === 'live' ? 'space-y-8' : 'hidden'}>
+              <div ref={chartContainerRef} className={`bg-[#0A0F1C] rounded-[2.5rem] overflow-hidden relative shadow-2xl border border-slate-800/30 transition-all duration-500 ${isFullscreen ? 'fixed inset-0 z-[100] h-screen w-screen rounded-none' : 'h-[600px]'}`}>
+                <TradingChart 
+                  data={chartRenderer === 'canvas' ? chartHistory.bars : chartData} 
+                  asset={selectedAsset.symbol} 
+                  wyckoffTarget={currentWyckoffTarget}
+                  chartType={chartType}
+                  renderer={chartRenderer}
+                  onLoadOlder={loadOlderHistory}
+                  loadingOlder={historyLoading}
+                  timeframe={timeframe}
+                  drawings={drawings}
+                  onDrawingsChange={updateDrawings}
+                  orders={orders.filter(o => o.status === 'OPEN' && o.asset === selectedAsset.symbol)}
+                  tradePlan={aiPlan}
+                  wyckoffRanges={wyckoffRanges}
+                  signals={chartSignals}
+                  volumeLookback={chartDetection.breakoutLookback}
+                  volumeConfirmRatio={chartDetection.volumeConfirmRatio}
+                  indicators={enabledIndicators}
+                  onToggleIndicator={toggleIndicator}
+                />
+                {isFullscreen && (
+                  <button onClick={toggleFullscreen} className="absolute top-8 right-8 z-[110] bg-slate-900/90 p-4 rounded-2xl hover:bg-indigo-600 border border-slate-700 backdrop-blur-md shadow-2xl transition-all">
+                    <Minimize className="w-6 h-6 text-white" />
+                  </button>
+                )}
               </div>
 
-              <div className="bg-[#0A0F1C] p-6 rounded-[2rem] border border-slate-800/40 shadow-xl transition-all duration-300">
-                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                  <Target className="w-3 h-3 text-emerald-400" /> Alvo Wyckoff ({timeframe})
-                </p>
-                <div className="flex flex-col justify-center h-full pb-2">
-                  <p className="text-2xl font-black text-emerald-400 font-mono mb-2 drop-shadow-[0_0_8px_rgba(16,185,129,0.3)]">{currentWyckoffTarget?.toFixed(5) || '---'}</p>
-                  <div className="bg-slate-800/50 h-2 rounded-full overflow-hidden border border-slate-700/50">
-                    <div 
-                      className="bg-gradient-to-r from-emerald-500 to-teal-400 h-full transition-all duration-1000" 
-                      style={{ width: `${chartData.length > 0 ? Math.min(((chartData[chartData.length-1].volume || 0) / 2500) * 100, 100) : 0}%` }} 
-                    />
+              {/* Indicator Tiles */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="bg-[#0A0F1C] p-6 rounded-[2rem] border border-slate-800/40 shadow-xl transition-all duration-300">
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
+                    <TrendingUp className="w-3 h-3 text-indigo-400" /> {t('tile.ema')}
+                  </p>
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center"><span className="text-xs text-slate-400 font-bold">EMA 10</span><span className="font-mono text-sm font-black text-cyan-400">{formatPrice(chartData[chartData.length-1]?.ema10, selectedAsset.symbol)}</span></div>
+                    <div className="flex justify-between items-center"><span className="text-xs text-slate-400 font-bold">EMA 20</span><span className="font-mono text-sm font-black text-yellow-400">{formatPrice(chartData[chartData.length-1]?.ema20, selectedAsset.symbol)}</span></div>
+                    <div className="flex justify-between items-center"><span className="text-xs text-slate-400 font-bold">EMA 50</span><span className="font-mono text-sm font-black text-pink-400">{formatPrice(chartData[chartData.length-1]?.ema50, selectedAsset.symbol)}</span></div>
+                  </div>
+                </div>
+
+                <div className="bg-[#0A0F1C] p-6 rounded-[2rem] border border-slate-800/40 shadow-xl transition-all duration-300">
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
+                    <Target className="w-3 h-3 text-emerald-400" /> {t('tile.wyckoff', { timeframe })}
+                  </p>
+                  <div className="flex flex-col justify-center h-full pb-2">
+                    <p className="text-2xl font-black text-emerald-400 font-mono mb-2 drop-shadow-[0_0_8px_rgba(16,185,129,0.3)]">{formatPrice(currentWyckoffTarget, selectedAsset.symbol)}</p>
+                    {wyckoffRange ? (
+                      <div className="flex justify-between items-center mb-2 text-[10px] font-black uppercase tracking-widest">
+                        <span className={wyckoffRange.schematic === 'ACCUMULATION' ? 'text-emerald-400' : 'text-rose-400'}>
+                          {t(`wyckoff.${wyckoffRange.schematic}`)} · {t('wyckoff.phase', { phase: wyckoffRange.phase })}
+                        </span>
+                        {wyckoffRange.targets.length > 0 && (
+                          <span className="text-slate-500 font-mono" title={t('wyckoff.pnfTarget', { columns: wyckoffRange.columns })}>
+                            P&F {formatPrice(wyckoffRange.targets[0], selectedAsset.symbol)}
+                          </span>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="mb-2 text-[10px] font-black uppercase tracking-widest text-slate-600">{t('wyckoff.noRange')}</p>
+                    )}
+                    <div className="flex justify-between items-center mb-1 text-[9px] font-black uppercase tracking-widest text-slate-500">
+                      <span>{t('tile.volumeRatio', { ratio: lastVolumeRatio !== undefined ? formatNumber(lastVolumeRatio, 1) : '-' })}</span>
+                      <span className="font-mono">{formatNumber(chartDetection.strongVolumeRatio, 1)}×</span>
+                    </div>
+                    <div className="bg-slate-800/50 h-2 rounded-full overflow-hidden border border-slate-700/50" title={t('tile.volumeRatioHint', { confirm: formatNumber(chartDetection.volumeConfirmRatio, 1) })}>
+                      <div 
+                        className={`h-full transition-all duration-1000 ${lastVolumeRatio !== undefined && lastVolumeRatio > chartDetection.volumeConfirmRatio ? 'bg-gradient-to-r from-indigo-500 to-violet-400' : 'bg-gradient-to-r from-emerald-500 to-teal-400'}`} 
+                        style={{ width: `${lastVolumeRatio !== undefined ? Math.min(lastVolumeRatio / chartDetection.strongVolumeRatio, 1) * 100 : 0}%` }} 
+                      />
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              <div className="bg-[#0A0F1C] p-6 rounded-[2rem] border border-slate-800/40 shadow-xl transition-all duration-300">
-                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
-                   <TrendingDown className="w-3 h-3 text-rose-400" /> Volatilidade Atual
-                </p>
-                <div className="flex items-center gap-4 h-full pb-2">
-                   <p className="text-2xl font-black text-rose-400 font-mono">
-                     {chartData.length > 1 ? (Math.abs(chartData[chartData.length-1].close - chartData[chartData.length-2].close) * 10000).toFixed(1) : '0.0'}
-                     <span className="text-[10px] ml-1 text-slate-500">PIPS</span>
-                   </p>
+                <div className="bg-[#0A0F1C] p-6 rounded-[2rem] border border-slate-800/40 shadow-xl transition-all duration-300">
+                  <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
+                     <TrendingDown className="w-3 h-3 text-rose-400" /> {t('tile.volatility')}
+                  </p>
+                  <div className="flex items-center gap-4 h-full pb-2">
+                     <p className="text-2xl font-black text-rose-400 font-mono">
+                       {chartData.length > 1 ? formatPips(Math.abs(chartData[chartData.length-1].close - chartData[chartData.length-2].close), selectedAsset.symbol) : formatNumber(0, 1)}
+                       <span className="text-[10px] ml-1 text-slate-500">{pipLabel(selectedAsset.symbol)}</span>
+                     </p>
+                  </div>
                 </div>
               </div>
+
+              <IndicatorPanel
+                enabled={enabledIndicators}
+                params={indicatorParams}
+                lastBar={chartData[chartData.length - 1]}
+                symbol={selectedAsset.symbol}
+                onToggle={toggleIndicator}
+                onParamsChange={setIndicatorParams}
+              />
+
+              <RiskPanel
+                symbol={selectedAsset.symbol}
+                entry={chartData[chartData.length - 1]?.close}
+                target={currentWyckoffTarget}
+                level={signals.find(s => s.asset === selectedAsset.symbol && s.timeframe === timeframe && s.level !== undefined)?.level}
+                atr={chartData[chartData.length - 1]?.indicators?.atr}
+                manualLines={horizontalLevels(drawings)}
+                settings={riskSettings}
+                onSettingsChange={setRiskSettings}
+                onPlaceOrder={placeSizedOrder}
+              />
+
+              <PaperTradingPanel
+                orders={orders}
+                account={account}
+                markPrices={markPrices}
+                onCloseOrder={handleCloseOrder}
+                onReset={() => setOrders([])}
+              />
             </div>
           </div>
 
@@ -470,52 +1113,67 @@ const App: React.FC = () => {
                     <div className="p-2 bg-emerald-500/10 rounded-xl">
                       <BrainCircuit className="w-5 h-5 text-emerald-400" />
                     </div>
-                    <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">Trading Intelligence</h3>
+                    <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">{t('ai.title')}</h3>
                   </div>
                   
-                  {aiAnalysis ? (
-                    aiAnalysis.loading ? (
-                      <div className="space-y-4 mt-4">
-                        <div className="h-4 bg-slate-800/50 rounded-xl animate-pulse w-full" />
-                        <div className="h-4 bg-slate-800/50 rounded-xl animate-pulse w-4/5" />
-                        <div className="h-20 bg-slate-800/20 rounded-2xl animate-pulse w-full" />
-                      </div>
-                    ) : (
-                      <div className="animate-in fade-in duration-700">
-                        <div className={`text-sm font-black mb-4 flex items-center gap-2 px-4 py-2 rounded-xl border ${
-                          aiAnalysis.signal === 'BUY' 
-                            ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' 
-                            : aiAnalysis.signal === 'SELL' 
-                              ? 'bg-rose-500/10 text-rose-400 border-rose-500/30' 
-                              : 'bg-slate-800/50 text-slate-400 border-slate-700/30'
-                        }`}>
-                          {aiAnalysis.signal === 'BUY' ? <ArrowUpRight className="w-4 h-4" /> : aiAnalysis.signal === 'SELL' ? <ArrowDownRight className="w-4 h-4" /> : null}
-                          {aiAnalysis.signal} CONFORMADO ({(aiAnalysis.confidence * 100).toFixed(0)}%)
-                        </div>
-                        <p className="text-xs text-slate-400 leading-relaxed font-medium italic border-l-2 border-emerald-500/30 pl-4 py-1">
-                          "{aiAnalysis.reasoning}"
-                        </p>
+                  {aiAnalysis.status === 'loading' ? (
+                    <div className="space-y-4 mt-4">
+                      <div className="h-4 bg-slate-800/50 rounded-xl animate-pulse w-full" />
+                      <div className="h-4 bg-slate-800/50 rounded-xl animate-pulse w-4/5" />
+                      <div className="h-20 bg-slate-800/20 rounded-2xl animate-pulse w-full" />
+                      <p className="text-[9px] text-slate-600 font-black uppercase tracking-widest">{aiAnalysis.provider}</p>
+                    </div>
+                  ) : aiAnalysis.status === 'ready' ? (
+                    <div className="animate-in fade-in duration-700">
+                      <div className={`text-sm font-black mb-4 flex items-center gap-2 px-4 py-2 rounded-xl border ${
+                        aiAnalysis.result.signal === 'BUY' 
+                          ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' 
+                          : aiAnalysis.result.signal === 'SELL' 
+                            ? 'bg-rose-500/10 text-rose-400 border-rose-500/30' 
+                            : 'bg-slate-800/50 text-slate-400 border-slate-700/30'
+                      }`}>
+                        {aiAnalysis.result.signal === 'BUY' ? <ArrowUpRight className="w-4 h-4" /> : aiAnalysis.result.signal === 'SELL' ? <ArrowDownRight className="w-4 h-4" /> : null}
+                        {t('ai.confirmed', { signal: aiAnalysis.result.signal, confidence: formatNumber(aiAnalysis.result.confidence * 100, 0) })}
                       </div>
-                    )
+                      <p className="text-xs text-slate-400 leading-relaxed font-medium italic border-l-2 border-emerald-500/30 pl-4 py-1">
+                        "{aiAnalysis.result.reasoning}"
+                      </p>
+                      <p className="text-[9px] text-slate-600 font-black uppercase tracking-widest mt-4">{aiAnalysis.result.provider} · {aiAnalysis.result.asset} {aiAnalysis.result.timeframe}</p>
+                      {aiAnalysis.result.plan && (
+                        <TradePlanCard
+                          plan={aiAnalysis.result.plan}
+                          symbol={aiAnalysis.result.asset}
+                          price={markPrices[aiAnalysis.result.asset]}
+                          onPaperTrade={() => acceptPlanOrder(aiAnalysis.result.plan!, aiAnalysis.result.asset, aiAnalysis.result.timeframe)}
+                          onCreateAlerts={() => acceptPlanAlerts(aiAnalysis.result.plan!, aiAnalysis.result.asset, aiAnalysis.result.timeframe)}
+                        />
+                      )}
+                    </div>
+                  ) : aiAnalysis.status === 'error' ? (
+                    <div className="mt-4 p-6 border border-rose-500/30 rounded-3xl bg-rose-500/5">
+                      <p className="text-[10px] text-rose-400 font-black uppercase tracking-widest mb-2">{t('ai.rejected')}</p>
+                      <p className="text-[11px] text-slate-400 font-medium mb-4">{aiAnalysis.message}</p>
+                      <button onClick={requestAIAnalysis} className="text-xs font-black text-emerald-400 hover:text-emerald-300 transition-all underline underline-offset-8 decoration-emerald-500/30">{t('ai.retry')}</button>
+                    </div>
                   ) : (
                     <div className="mt-4 p-8 border border-dashed border-slate-800 rounded-3xl text-center bg-white/[0.02]">
-                      <p className="text-[10px] text-slate-600 font-black uppercase mb-6 tracking-widest">Aguardando Solicitação</p>
-                      <button onClick={requestAIAnalysis} className="text-xs font-black text-emerald-400 hover:text-emerald-300 transition-all underline underline-offset-8 decoration-emerald-500/30">OBTER INSIGHT IA</button>
+                      <p className="text-[10px] text-slate-600 font-black uppercase mb-6 tracking-widest">{t('ai.waiting')}</p>
+                      <button onClick={requestAIAnalysis} className="text-xs font-black text-emerald-400 hover:text-emerald-300 transition-all underline underline-offset-8 decoration-emerald-500/30">{t('ai.request')}</button>
                     </div>
                   )}
                 </div>
 
                 <div className="flex-1 border-t border-slate-800/40 pt-8 mt-auto">
-                   <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">Métricas do Par</p>
+                   <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">{t('metrics.title')}</p>
                    <div className="space-y-4">
                       <div className="flex justify-between items-center text-[10px]">
-                        <span className="text-slate-500 font-bold uppercase">Preço Médio 1H</span>
-                        <span className="font-mono text-slate-300">{(chartData.reduce((a,b)=>a+b.close,0)/chartData.length).toFixed(5)}</span>
+                        <span className="text-slate-500 font-bold uppercase">{t('metrics.average')}</span>
+                        <span className="font-mono text-slate-300">{formatPrice(chartData.reduce((a,b)=>a+b.close,0)/chartData.length, selectedAsset.symbol)}</span>
                       </div>
                       <div className="flex justify-between items-center text-[10px]">
-                        <span className="text-slate-500 font-bold uppercase">Variação Candle</span>
+                        <span className="text-slate-500 font-bold uppercase">{t('metrics.candleChange')}</span>
                         <span className={`font-mono font-black ${chartData.length > 0 && chartData[chartData.length-1].close >= chartData[chartData.length-1].open ? 'text-emerald-400' : 'text-rose-400'}`}>
-                          {chartData.length > 0 ? ((chartData[chartData.length-1].close / chartData[chartData.length-1].open - 1)*100).toFixed(3) : '0.000'}%
+                          {formatNumber(chartData.length > 0 ? (chartData[chartData.length-1].close / chartData[chartData.length-1].open - 1)*100 : 0, 3)}%
                         </span>
                       </div>
                    </div>
@@ -524,6 +1182,8 @@ const App: React.FC = () => {
           </div>
         </div>
       </main>
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
       
       <style>{`
         .custom-scrollbar::-webkit-scrollbar { width: 4px; }
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Plus, Repeat, Trash2 } from 'lucide-react';
+import { AlertCondition, Drawing, PriceAlert } from '../types';
+import { ALERT_EXPIRY_OPTIONS, createAlert, describeAlert, isExpired } from '../utils/alerts';
+import { formatPrice, getInstrument } from '../utils/instruments';
+import { MessageKey, formatTime, t } from '../utils/i18n';
+
+interface Props {
+  alerts: PriceAlert[];
+  symbol: string;
+  timeframe: string;
+  price?: number;
+  wyckoffTarget: number | null;
+  // Drawings of the selected pair and timeframe; horizontal ones can be alerted on.
+  drawings: Drawing[];
+  onChange: (alerts: PriceAlert[]) => void;
+}
+
+type ConditionKind = AlertCondition['kind'];
+
+const CONDITION_LABELS: Record<ConditionKind, MessageKey> = {
+  priceCross: 'alerts.kind.priceCross',
+  levelCross: 'alerts.kind.levelCross',
+  emaCross: 'alerts.kind.emaCross',
+  wyckoffTarget: 'alerts.kind.wyckoffTarget',
+};
+
+const inputClass = 'w-full bg-slate-950/50 border border-slate-800/50 rounded-xl px-2 py-1.5 text-[10px] font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+
+export const AlertsPanel: React.FC<Props> = ({ alerts, symbol, timeframe, price, wyckoffTarget, drawings, onChange }) => {
+  const [kind, setKind] = useState<ConditionKind>('priceCross');
+  const [priceInput, setPriceInput] = useState('');
+  const [drawingId, setDrawingId] = useState('');
+  const [direction, setDirection] = useState<'up' | 'down' | 'any'>('any');
+  const [repeat, setRepeat] = useState(false);
+  const [expiry, setExpiry] = useState(2);
+
+  const lines = drawings.filter(d => d.kind === 'hline');
+  const selectedLine = lines.find(d => d.id === drawingId) ?? lines[0];
+
+  const buildCondition = (): AlertCondition | null => {
+    switch (kind) {
+      case 'priceCross': {
+        const value = Number(priceInput || price);
+        return value > 0 ? { kind, price: value } : null;
+      }
+      case 'levelCross':
+        return selectedLine ? { kind, drawingId: selectedLine.id, price: selectedLine.anchors[0].price } : null;
+      case 'emaCross':
+        return { kind, direction };
+      case 'wyckoffTarget':
+        return wyckoffTarget !== null ? { kind, price: wyckoffTarget } : null;
+    }
+  };
+  const condition = buildCondition();
+
+  const addAlert = () => {
+    if (!condition) return;
+    onChange([...alerts, createAlert(symbol, timeframe, condition, repeat, ALERT_EXPIRY_OPTIONS[expiry].ms)]);
+    setPriceInput('');
+  };
+
+  const linePrice = (alert: PriceAlert) => {
+    if (alert.condition.kind !== 'levelCross' || alert.symbol !== symbol || alert.timeframe !== timeframe) return undefined;
+    const { drawingId: id } = alert.condition;
+    return drawings.find(d => d.id === id)?.anchors[0].price;
+  };
+
+  const now = Date.now();
+  const update = (id: string, patch: Partial<PriceAlert>) => onChange(alerts.map(a => a.id === id ? { ...a, ...patch } : a));
+
+  return (
+    <div className="bg-slate-900/40 rounded-3xl border border-slate-800/50 p-5 backdrop-blur-md">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4 flex items-center gap-2">
+        <Bell className="w-3 h-3 text-amber-400" /> {t('alerts.title', { symbol, timeframe })}
+      </p>
+
+      <div className="space-y-2 mb-4">
+        <div className="grid grid-cols-2 gap-2">
+          <select value={kind} onChange={e => setKind(e.target.value as ConditionKind)} className={inputClass}>
+            {(Object.keys(CONDITION_LABELS) as ConditionKind[]).map(k => <option key={k} value={k}>{t(CONDITION_LABELS[k])}</option>)}
+          </select>
+          {kind === 'priceCross' && (
+            <input
+              type="number"
+              step={getInstrument(symbol).tickSize}
+              value={priceInput}
+              placeholder={price !== undefined ? formatPrice(price, symbol) : t('alerts.kind.priceCross')}
+              onChange={e => setPriceInput(e.target.value)}
+              className={inputClass}
+            />
+          )}
+          {kind === 'levelCross' && (
+            <select value={selectedLine?.id ?? ''} onChange={e => setDrawingId(e.target.value)} disabled={lines.length === 0} className={`${inputClass} disabled:opacity-40`}>
+              {lines.length === 0 && <option value="">{t('alerts.noLines')}</option>}
+              {lines.map(d => <option key={d.id} value={d.id}>{d.label ? `${d.label} · ` : ''}{formatPrice(d.anchors[0].price, symbol)}</option>)}
+            </select>
+          )}
+          {kind === 'emaCross' && (
+            <select value={direction} onChange={e => setDirection(e.target.value as typeof direction)} className={inputClass}>
+              <option value="any">{t('alerts.direction.any')}</option>
+              <option value="up">{t('alerts.direction.up')}</option>
+              <option value="down">{t('alerts.direction.down')}</option>
+            </select>
+          )}
+          {kind === 'wyckoffTarget' && (
+            <p className="px-2 py-1.5 text-[10px] font-mono text-slate-400">{formatPrice(wyckoffTarget, symbol)}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={expiry} onChange={e => setExpiry(Number(e.target.value))} className={inputClass} title={t('alerts.expiresIn')}>
+            {ALERT_EXPIRY_OPTIONS.map((option, i) => <option key={option.label} value={i}>{t('alerts.expiry', { label: option.ms === null ? t('alerts.never') : option.label })}</option>)}
+          </select>
+          <button
+            onClick={() => setRepeat(!repeat)}
+            title={t(repeat ? 'alerts.repeat' : 'alerts.once')}
+            className={`p-1.5 rounded-lg border transition-colors ${repeat ? 'border-indigo-500/50 text-indigo-400 bg-indigo-500/10' : 'border-slate-800/50 text-slate-600'}`}
+          >
+            <Repeat className="w-3 h-3" />
+          </button>
+          <button
+            onClick={addAlert}
+            disabled={!condition}
+            title={t('alerts.create')}
+            className="p-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-30 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      {alerts.length === 0 ? (
+        <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest text-center py-2">{t('alerts.none')}</p>
+      ) : (
+        <div className="space-y-2 max-h-[220px] overflow-y-auto custom-scrollbar">
+          {alerts.map(alert => {
+            const expired = isExpired(alert, now);
+            const status = t(expired ? 'alerts.status.expired' : alert.active ? 'alerts.status.active' : alert.triggerCount > 0 ? 'alerts.status.fired' : 'alerts.status.paused');
+            return (
+              <div key={alert.id} className={`flex items-center gap-2 p-2 rounded-xl bg-slate-950/40 ${alert.active && !expired ? '' : 'opacity-50'}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-[10px] font-bold text-slate-300 truncate">{describeAlert(alert, linePrice(alert))}</p>
+                  <p className="text-[9px] text-slate-600 font-mono">
+                    {alert.symbol} {alert.timeframe} · {status}
+                    {alert.repeat && ` · ${t('alerts.repeats')}`}
+                    {alert.triggerCount > 0 && ` · ${alert.triggerCount}×`}
+                    {alert.expiresAt !== null && !expired && ` · ${t('alerts.until', { time: formatTime(alert.expiresAt) })}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => update(alert.id, { active: !alert.active })}
+                  disabled={expired}
+                  title={t(alert.active ? 'alerts.pause' : 'alerts.resume')}
+                  className="text-slate-500 hover:text-indigo-400 disabled:opacity-30 transition-colors"
+                >
+                  {alert.active ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+                </button>
+                <button onClick={() => onChange(alerts.filter(a => a.id !== alert.id))} title={t('common.delete')} className="text-slate-500 hover:text-rose-400 transition-colors">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { BrainCircuit } from 'lucide-react';
+import { AnalysisConfig, DEFAULT_OPENAI_MODEL, DEFAULT_OPENAI_URL } from '../services/analysis';
+import { DEFAULT_GEMINI_MODEL } from '../services/analysis/geminiProvider';
+import { MessageKey, t } from '../utils/i18n';
+
+interface Props {
+  config: AnalysisConfig;
+  providerName: string;
+  onChange: (config: AnalysisConfig) => void;
+}
+
+const KINDS: { kind: AnalysisConfig['kind']; label: MessageKey; hint: MessageKey }[] = [
+  { kind: 'gemini', label: 'provider.gemini', hint: 'provider.gemini.hint' },
+  { kind: 'openai', label: 'provider.openai', hint: 'provider.openai.hint' },
+  { kind: 'rules', label: 'provider.rules', hint: 'provider.rules.hint' },
+];
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-800/50 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1 block';
+
+export const AnalysisProviderPanel: React.FC<Props> = ({ config, providerName, onChange }) => {
+  const select = (kind: AnalysisConfig['kind']) => {
+    if (kind === config.kind) return;
+    if (kind === 'gemini') onChange({ kind, model: DEFAULT_GEMINI_MODEL });
+    else if (kind === 'openai') onChange({ kind, baseUrl: DEFAULT_OPENAI_URL, model: DEFAULT_OPENAI_MODEL });
+    else onChange({ kind });
+  };
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2.5rem] border border-slate-800/30 p-8 shadow-2xl space-y-8">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-emerald-500/10 rounded-xl">
+          <BrainCircuit className="w-5 h-5 text-emerald-400" />
+        </div>
+        <div>
+          <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">{t('provider.title')}</h3>
+          <p className="text-[10px] text-slate-600 font-bold">{providerName}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {KINDS.map(({ kind, label, hint }) => (
+          <button
+            key={kind}
+            onClick={() => select(kind)}
+            className={`text-left p-4 rounded-2xl border transition-all ${config.kind === kind ? 'bg-indigo-500/10 border-indigo-500/40' : 'border-slate-800/50 hover:bg-slate-800/40'}`}
+          >
+            <p className={`text-xs font-black ${config.kind === kind ? 'text-white' : 'text-slate-400'}`}>{t(label)}</p>
+            <p className="text-[10px] text-slate-500 mt-1">{t(hint)}</p>
+          </button>
+        ))}
+      </div>
+
+      {config.kind === 'gemini' && (
+        <div className="max-w-sm">
+          <label className={labelClass}>{t('common.model')}</label>
+          <input value={config.model} onChange={e => onChange({ ...config, model: e.target.value })} className={inputClass} />
+        </div>
+      )}
+
+      {config.kind === 'openai' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>{t('provider.baseUrl')}</label>
+            <input value={config.baseUrl} onChange={e => onChange({ ...config, baseUrl: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('common.model')}</label>
+            <input value={config.model} onChange={e => onChange({ ...config, model: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('provider.apiKey')}</label>
+            <input
+              type="password"
+              value={config.apiKey ?? ''}
+              onChange={e => onChange({ ...config, apiKey: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { FlaskConical, Play, Upload } from 'lucide-react';
+import { BacktestConfig, BacktestReport, DetectionSettings, PriceData, StopRule, TargetRule } from '../types';
+import { DEFAULT_BACKTEST_CONFIG, runBacktest } from '../utils/backtest';
+import { generateMockData } from '../utils/marketLogic';
+import { parseOHLCV } from '../utils/ohlcvImport';
+import { formatPrice } from '../utils/instruments';
+import { formatNumber, t } from '../utils/i18n';
+
+interface Props {
+  asset: string;
+  timeframe: string;
+  basePrice: number;
+  pipSize: number;
+  detection: DetectionSettings;
+}
+
+const SIMULATED_BARS = 2000;
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-800/50 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1 block';
+
+const formatStat = (value: number | null, digits: number = 2, suffix: string = '') =>
+  value === null ? '---' : value === Infinity ? '∞' : `${formatNumber(value, digits)}${suffix}`;
+
+export const BacktestPanel: React.FC<Props> = ({ asset, timeframe, basePrice, pipSize, detection }) => {
+  const [history, setHistory] = useState<{ label: string; bars: PriceData[] } | null>(null);
+  const [config, setConfig] = useState<BacktestConfig>({ ...DEFAULT_BACKTEST_CONFIG, pipSize });
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const bars = parseOHLCV(await file.text());
+      if (bars.length <= detection.breakoutLookback) throw new Error(t('backtest.tooFewBars', { count: detection.breakoutLookback }));
+      setHistory({ label: file.name, bars });
+      setReport(null);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const simulateHistory = () => {
+    setHistory({ label: t('backtest.simulated', { symbol: asset, timeframe }), bars: generateMockData(basePrice, SIMULATED_BARS, timeframe) });
+    setReport(null);
+    setError(null);
+  };
+
+  const updateStop = (kind: StopRule['kind'], value?: number) => {
+    const stop: StopRule = kind === 'fixedPips' ? { kind, pips: value ?? 10 }
+      : kind === 'atr' ? { kind, multiple: value ?? 1.5 }
+      : { kind };
+    setConfig(c => ({ ...c, stop }));
+  };
+
+  const updateTarget = (kind: TargetRule['kind'], value?: number) => {
+    const target: TargetRule = kind === 'fixedPips' ? { kind, pips: value ?? 20 }
+      : kind === 'atr' ? { kind, multiple: value ?? 3 }
+      : { kind };
+    setConfig(c => ({ ...c, target }));
+  };
+
+  const stopValue = config.stop.kind === 'fixedPips' ? config.stop.pips : config.stop.kind === 'atr' ? config.stop.multiple : null;
+  const targetValue = config.target.kind === 'fixedPips' ? config.target.pips : config.target.kind === 'atr' ? config.target.multiple : null;
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2.5rem] border border-slate-800/30 p-8 shadow-2xl space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/10 rounded-xl">
+            <FlaskConical className="w-5 h-5 text-indigo-400" />
+          </div>
+          <div>
+            <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">{t('backtest.title')}</h3>
+            <p className="text-[10px] text-slate-600 font-bold">{history ? t('backtest.loaded', { label: history.label, count: history.bars.length }) : t('backtest.noHistory')}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all">
+            <Upload className="w-3 h-3" /> {t('backtest.import')}
+          </button>
+          <button onClick={simulateHistory} className="px-4 py-2 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all">
+            {t('backtest.simulate', { count: SIMULATED_BARS })}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,.txt"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className={labelClass}>{t('risk.stop')}</label>
+          <select value={config.stop.kind} onChange={e => updateStop(e.target.value as StopRule['kind'])} className={inputClass}>
+            <option value="fixedPips">{t('backtest.fixedPips')}</option>
+            <option value="atr">{t('risk.stop.atr')}</option>
+            <option value="breakoutLevel">{t('risk.stop.breakout')}</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{config.stop.kind === 'fixedPips' ? 'Pips' : 'ATR ×'}</label>
+          <input type="number" step="0.1" disabled={stopValue === null} value={stopValue ?? ''} onChange={e => updateStop(config.stop.kind, Number(e.target.value))} className={`${inputClass} disabled:opacity-30`} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('common.target')}</label>
+          <select value={config.target.kind} onChange={e => updateTarget(e.target.value as TargetRule['kind'])} className={inputClass}>
+            <option value="fixedPips">{t('backtest.fixedPips')}</option>
+            <option value="atr">{t('risk.stop.atr')}</option>
+            <option value="wyckoff">{t('common.wyckoffTarget')}</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{config.target.kind === 'fixedPips' ? 'Pips' : 'ATR ×'}</label>
+          <input type="number" step="0.1" disabled={targetValue === null} value={targetValue ?? ''} onChange={e => updateTarget(config.target.kind, Number(e.target.value))} className={`${inputClass} disabled:opacity-30`} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('risk.riskPercent')}</label>
+          <input type="number" step="0.1" value={config.riskPercent} onChange={e => setConfig(c => ({ ...c, riskPercent: Number(e.target.value) }))} className={inputClass} />
+        </div>
+        <button
+          onClick={() => history && setReport(runBacktest(history.bars, { ...config, pipSize, detection }))}
+          disabled={!history}
+          className="flex items-center justify-center gap-2 bg-gradient-to-r from-emerald-600 to-indigo-600 text-white px-4 py-2.5 rounded-xl text-[10px] font-black tracking-widest disabled:opacity-40 disabled:cursor-not-allowed transition-all active:scale-95"
+        >
+          <Play className="w-3 h-3" /> {t('backtest.run')}
+        </button>
+      </div>
+
+      {error && <p className="text-[10px] font-bold text-rose-400">{error}</p>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+            {[
+              { label: t('backtest.trades'), value: String(report.trades.length) },
+              { label: t('common.winRate'), value: formatStat(report.winRate !== null ? report.winRate * 100 : null, 1, '%') },
+              { label: t('backtest.avgR'), value: formatStat(report.averageR, 2, 'R') },
+              { label: 'Profit Factor', value: formatStat(report.profitFactor) },
+              { label: t('backtest.maxDrawdown'), value: formatStat(report.maxDrawdown * 100, 1, '%') },
+              { label: t('backtest.net'), value: `$${formatNumber(report.netProfit, 2)}` },
+            ].map(stat => (
+              <div key={stat.label} className="bg-slate-900/40 rounded-2xl border border-slate-800/50 p-4">
+                <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1">{stat.label}</p>
+                <p className="font-mono text-sm font-black text-white">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={report.equityCurve} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="6 6" stroke="#1e293b" vertical={false} opacity={0.2} />
+                <XAxis dataKey="time" stroke="#475569" fontSize={9} tickLine={false} axisLine={false} minTickGap={40} />
+                <YAxis domain={['auto', 'auto']} orientation="right" stroke="#475569" fontSize={9} tickLine={false} axisLine={false} tickFormatter={(v) => formatNumber(v, 0)} />
+                <Tooltip contentStyle={{ background: '#0D1322', border: '1px solid #334155', borderRadius: 12, fontSize: 10 }} formatter={(v: number) => [`$${formatNumber(v, 2)}`, t('common.equity')]} />
+                <Line type="stepAfter" dataKey="equity" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto custom-scrollbar">
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-slate-600 uppercase text-[9px] font-black tracking-widest sticky top-0 bg-[#0A0F1C]">
+                <tr>
+                  <th className="text-left py-2">{t('backtest.side')}</th>
+                  <th className="text-left">{t('common.entry')}</th>
+                  <th className="text-left">{t('backtest.exit')}</th>
+                  <th className="text-right">{t('backtest.entryPrice')}</th>
+                  <th className="text-right">{t('backtest.exitPrice')}</th>
+                  <th className="text-right">Vol ×</th>
+                  <th className="text-right">{t('backtest.reason')}</th>
+                  <th className="text-right">R</th>
+                  <th className="text-right">P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.trades.map((trade, i) => (
+                  <tr key={i} className="border-t border-slate-800/40 text-slate-400">
+                    <td className={`py-1.5 font-black ${trade.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>{trade.type}</td>
+                    <td>{trade.entryTime}</td>
+                    <td>{trade.exitTime}</td>
+                    <td className="text-right">{formatPrice(trade.entryPrice, asset)}</td>
+                    <td className="text-right">{formatPrice(trade.exitPrice, asset)}</td>
+                    <td className="text-right">{formatNumber(trade.volumeRatio, 1)}</td>
+                    <td className="text-right text-slate-500">{trade.exitReason}</td>
+                    <td className={`text-right font-black ${trade.rMultiple >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatNumber(trade.rMultiple, 2)}</td>
+                    <td className={`text-right ${trade.pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatNumber(trade.pnl, 2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.trades.length === 0 && (
+              <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest text-center py-6">{t('backtest.noTrades')}</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
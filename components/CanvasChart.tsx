@@ -0,0 +1,586 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Order, PriceData, TradePlan } from '../types';
+import { IndicatorDefinition, indicatorOutput } from '../utils/indicators';
+import { formatPrice, getInstrument } from '../utils/instruments';
+import { formatNumber, t } from '../utils/i18n';
+import { BOUNDED, OSCILLATOR_LEVELS, volumeAverages } from './ChartPanes';
+import { PlotFrame, PlotFrameContext } from './plotFrame';
+
+// Visible window of the canvas renderer. Without `end` the window stays on
+// the latest bar as new bars arrive.
+export interface CanvasView {
+  count: number;
+  end?: number;
+}
+
+interface Props {
+  data: PriceData[];
+  view: CanvasView;
+  onViewChange: (view: CanvasView) => void;
+  symbol: string;
+  chartType: 'line' | 'candle';
+  minPrice: number;
+  maxPrice: number;
+  // Enabled indicators; price ones are overlaid, oscillators get a pane each.
+  indicators: IndicatorDefinition[];
+  wyckoffTarget: number | null;
+  orders: Order[];
+  tradePlan: TradePlan | null;
+  volumeLookback: number;
+  volumeConfirmRatio: number;
+  // Called when the window nears the oldest bar.
+  onLoadOlder?: () => void;
+  loadingOlder?: boolean;
+  // SVG layers drawn over the bars in the same plot area.
+  children?: React.ReactNode;
+}
+
+type Rect = PlotFrame['plot'];
+
+export const DEFAULT_CANVAS_BARS = 150;
+const MIN_VISIBLE_BARS = 10;
+const LOAD_MARGIN_BARS = 20;
+const ZOOM_STEP = 1.15;
+
+// Same margins as the recharts price pane, so the header overlays fit.
+const MARGIN = { top: 100, right: 80, left: 50 };
+const TIME_AXIS_HEIGHT = 24;
+const OSCILLATOR_HEIGHT = 80;
+const PANE_GAP = 8;
+// Share of the price plot taken by the volume bars along its bottom.
+const VOLUME_SHARE = 0.18;
+
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#ef4444';
+const CONFIRMED_COLOR = '#818cf8';
+const GRID_COLOR = 'rgba(30, 41, 59, 0.6)';
+const AXIS_TEXT = '#64748b';
+const FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+export const canvasRange = (view: CanvasView, length: number) => {
+  const count = Math.max(1, Math.min(view.count, length));
+  const end = Math.max(count - 1, Math.min(view.end ?? length - 1, length - 1));
+  return { startIndex: Math.max(0, end - count + 1), endIndex: end };
+};
+
+const layout = (width: number, height: number, oscillators: number) => {
+  const plotWidth = Math.max(1, width - MARGIN.left - MARGIN.right);
+  const plot: Rect = {
+    x: MARGIN.left,
+    y: MARGIN.top,
+    width: plotWidth,
+    height: Math.max(40, height - MARGIN.top - TIME_AXIS_HEIGHT - oscillators * (OSCILLATOR_HEIGHT + PANE_GAP)),
+  };
+  const panes: Rect[] = Array.from({ length: oscillators }, (_, i) => ({
+    x: plot.x,
+    y: plot.y + plot.height + PANE_GAP + i * (OSCILLATOR_HEIGHT + PANE_GAP),
+    width: plotWidth,
+    height: OSCILLATOR_HEIGHT,
+  }));
+  const bottom = panes.length > 0 ? panes[panes.length - 1].y + OSCILLATOR_HEIGHT : plot.y + plot.height;
+  return { plot, panes, bottom };
+};
+
+const niceStep = (span: number, ticks: number) => {
+  const raw = span / ticks;
+  const power = 10 ** Math.floor(Math.log10(raw));
+  const n = raw / power;
+  return (n < 1.5 ? 1 : n < 3 ? 2 : n < 7 ? 5 : 10) * power;
+};
+
+// Sizes the backing store for the device pixel ratio and clears it.
+const prepare = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  const ratio = window.devicePixelRatio || 1;
+  if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+  }
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  return ctx;
+};
+
+const clipTo = (ctx: CanvasRenderingContext2D, rect: Rect) => {
+  ctx.beginPath();
+  ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  ctx.clip();
+};
+
+const strokeSeries = (
+  ctx: CanvasRenderingContext2D,
+  data: PriceData[],
+  from: number,
+  to: number,
+  xOf: (index: number) => number,
+  yOf: (value: number) => number,
+  value: (d: PriceData) => number | undefined
+) => {
+  ctx.beginPath();
+  let drawing = false;
+  for (let i = from; i <= to; i++) {
+    const v = value(data[i]);
+    if (v === undefined || !Number.isFinite(v)) continue;
+    if (drawing) ctx.lineTo(xOf(i), yOf(v));
+    else ctx.moveTo(xOf(i), yOf(v));
+    drawing = true;
+  }
+  ctx.stroke();
+};
+
+const drawLevel = (
+  ctx: CanvasRenderingContext2D,
+  plot: Rect,
+  y: number,
+  style: { color: string; width: number; dash?: number[]; opacity?: number },
+  label?: { text: string; side: 'left' | 'insideLeft' | 'right' }
+) => {
+  if (y < plot.y || y > plot.y + plot.height) return;
+  ctx.save();
+  ctx.globalAlpha = style.opacity ?? 1;
+  ctx.strokeStyle = style.color;
+  ctx.lineWidth = style.width;
+  ctx.setLineDash(style.dash ?? []);
+  ctx.beginPath();
+  ctx.moveTo(plot.x, y);
+  ctx.lineTo(plot.x + plot.width, y);
+  ctx.stroke();
+  if (label) {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = style.color;
+    ctx.font = `900 8px ${FONT}`;
+    ctx.textAlign = label.side === 'left' ? 'right' : 'left';
+    const x = label.side === 'left' ? plot.x - 10 : label.side === 'right' ? plot.x + plot.width + 10 : plot.x + 6;
+    ctx.fillText(label.text, x, label.side === 'insideLeft' ? y - 4 : y + 3);
+  }
+  ctx.restore();
+};
+
+const drawAxisLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, align: 'left' | 'center') => {
+  ctx.font = `800 9px ${FONT}`;
+  const width = ctx.measureText(text).width + 10;
+  const left = align === 'center' ? x - width / 2 : x;
+  ctx.fillStyle = '#4f46e5';
+  ctx.fillRect(left, y - 8, width, 16);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'left';
+  ctx.fillText(text, left + 5, y + 3);
+};
+
+// Draws the bars onto a canvas, so long histories stay responsive. Wheel
+// zooms around the pointer, dragging pans, and the crosshair labels the axes.
+// Indicator overlays and price levels are drawn on the canvas; the chart's
+// SVG layers (drawings, zones, signals...) are passed as children and laid
+// over it with the same plot area.
+export const CanvasChart: React.FC<Props> = ({
+  data, view, onViewChange, symbol, chartType, minPrice, maxPrice, indicators, wyckoffTarget, orders, tradePlan,
+  volumeLookback, volumeConfirmRatio, onLoadOlder, loadingOlder = false, children
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const crosshairRef = useRef<HTMLCanvasElement>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const panRef = useRef<{ x: number; end: number } | null>(null);
+  const firstTimestampRef = useRef<number | undefined>(undefined);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [panning, setPanning] = useState(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const oscillators = indicators.filter(def => def.pane === 'oscillator');
+  const overlays = indicators.filter(def => def.pane === 'price').flatMap(def => def.outputs);
+  const { plot, panes, bottom } = layout(size.width, size.height, oscillators.length);
+  const { startIndex, endIndex } = canvasRange(view, data.length);
+  const bandWidth = plot.width / Math.max(1, endIndex - startIndex + 1);
+  const xOf = (index: number) => plot.x + (index - startIndex + 0.5) * bandWidth;
+  const priceSpan = maxPrice - minPrice || 1;
+  const frame: PlotFrame = {
+    plot,
+    yScale: price => plot.y + ((maxPrice - price) / priceSpan) * plot.height,
+    yInverse: y => maxPrice - ((y - plot.y) / plot.height) * priceSpan,
+  };
+  const averages = useMemo(() => volumeAverages(data, volumeLookback), [data, volumeLookback]);
+
+  const oscillatorDomains = oscillators.map(def => {
+    if (BOUNDED.includes(def.id)) return [0, 100];
+    let low = def.id === 'macd' ? 0 : Infinity;
+    let high = def.id === 'macd' ? 0 : -Infinity;
+    for (let i = startIndex; i <= endIndex; i++) {
+      def.outputs.forEach(output => {
+        const v = data[i]?.indicators?.[output.key];
+        if (v === undefined) return;
+        low = Math.min(low, v);
+        high = Math.max(high, v);
+      });
+    }
+    if (!Number.isFinite(low)) return [0, 1];
+    return high > low ? [low, high] : [low - 1, low + 1];
+  });
+  const paneY = (pane: Rect, [low, high]: number[], value: number) =>
+    pane.y + 4 + ((high - value) / (high - low || 1)) * (pane.height - 8);
+
+  // Pointer handlers run outside React renders and read the latest layout here.
+  const latest = useRef({ plot, panes, bottom, startIndex, endIndex, bandWidth, data, onViewChange, oscillatorDomains, frame, size });
+  latest.current = { plot, panes, bottom, startIndex, endIndex, bandWidth, data, onViewChange, oscillatorDomains, frame, size };
+
+  const drawCrosshair = () => {
+    const canvas = crosshairRef.current;
+    const s = latest.current;
+    if (!canvas || s.size.width === 0) return;
+    const ctx = prepare(canvas, s.size.width, s.size.height);
+    const pointer = pointerRef.current;
+    if (!pointer || s.data.length === 0) return;
+    if (pointer.x < s.plot.x || pointer.x > s.plot.x + s.plot.width || pointer.y < s.plot.y || pointer.y > s.bottom) return;
+
+    const index = Math.min(s.endIndex, s.startIndex + Math.floor((pointer.x - s.plot.x) / s.bandWidth));
+    const bar = s.data[index];
+    const x = s.plot.x + (index - s.startIndex + 0.5) * s.bandWidth;
+
+    ctx.strokeStyle = '#475569';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(x, s.plot.y);
+    ctx.lineTo(x, s.bottom);
+    ctx.moveTo(s.plot.x, pointer.y);
+    ctx.lineTo(s.plot.x + s.plot.width, pointer.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const paneIndex = s.panes.findIndex(p => pointer.y >= p.y && pointer.y <= p.y + p.height);
+    if (pointer.y <= s.plot.y + s.plot.height) {
+      drawAxisLabel(ctx, formatPrice(s.frame.yInverse(pointer.y), symbol), s.plot.x + s.plot.width + 4, pointer.y, 'left');
+    } else if (paneIndex >= 0) {
+      const pane = s.panes[paneIndex];
+      const [low, high] = s.oscillatorDomains[paneIndex];
+      const value = high - ((pointer.y - pane.y - 4) / (pane.height - 8)) * (high - low);
+      drawAxisLabel(ctx, formatNumber(value, Math.abs(value) >= 10 ? 1 : 5), s.plot.x + s.plot.width + 4, pointer.y, 'left');
+    }
+    drawAxisLabel(ctx, bar.time, x, s.bottom + TIME_AXIS_HEIGHT / 2, 'center');
+
+    // OHLCV of the hovered bar along the top of the plot.
+    const color = bar.close >= bar.open ? UP_COLOR : DOWN_COLOR;
+    ctx.font = `800 9px ${FONT}`;
+    ctx.textAlign = 'left';
+    let left = s.plot.x + 4;
+    [
+      [t('chart.open'), formatPrice(bar.open, symbol)],
+      [t('chart.high'), formatPrice(bar.high, symbol)],
+      [t('chart.low'), formatPrice(bar.low, symbol)],
+      [t('chart.close'), formatPrice(bar.close, symbol)],
+      [t('chart.volume'), formatNumber(bar.volume, 0)],
+    ].forEach(([label, value]) => {
+      ctx.fillStyle = AXIS_TEXT;
+      ctx.fillText(label, left, s.plot.y + 12);
+      left += ctx.measureText(label).width + 4;
+      ctx.fillStyle = color;
+      ctx.fillText(value, left, s.plot.y + 12);
+      left += ctx.measureText(value).width + 10;
+    });
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0 || data.length === 0) return;
+    const ctx = prepare(canvas, size.width, size.height);
+    const yOf = frame.yScale;
+    const precision = Math.max(0, getInstrument(symbol).precision - 1);
+
+    // Price grid and axis
+    const step = niceStep(priceSpan, Math.max(2, Math.floor(plot.height / 50)));
+    ctx.font = `800 9px ${FONT}`;
+    ctx.textAlign = 'left';
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([6, 6]);
+    for (let k = Math.ceil(minPrice / step); k * step <= maxPrice; k++) {
+      const price = k * step;
+      const y = Math.round(yOf(price)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(plot.x, y);
+      ctx.lineTo(plot.x + plot.width, y);
+      ctx.stroke();
+      ctx.fillStyle = AXIS_TEXT;
+      ctx.fillText(price.toFixed(precision), plot.x + plot.width + 8, y + 3);
+    }
+    ctx.setLineDash([]);
+
+    // Time axis, labelled on bar indices that are multiples of the step so labels do not jump while panning.
+    const labelEvery = Math.max(1, Math.ceil(80 / bandWidth));
+    ctx.textAlign = 'center';
+    ctx.fillStyle = AXIS_TEXT;
+    for (let i = Math.ceil(startIndex / labelEvery) * labelEvery; i <= endIndex; i += labelEvery) {
+      ctx.fillText(data[i].time, xOf(i), bottom + TIME_AXIS_HEIGHT / 2 + 3);
+    }
+
+    ctx.save();
+    clipTo(ctx, plot);
+
+    // Volume along the bottom of the price plot
+    let maxVolume = 0;
+    for (let i = startIndex; i <= endIndex; i++) maxVolume = Math.max(maxVolume, data[i].volume);
+    const volumeHeight = plot.height * VOLUME_SHARE;
+    const barWidth = Math.max(1, bandWidth * 0.7);
+    ([
+      [CONFIRMED_COLOR, 0.6, (d: PriceData, i: number) => i >= volumeLookback && averages[i] !== undefined && d.volume / averages[i]! > volumeConfirmRatio],
+      [UP_COLOR, 0.2, (d: PriceData) => d.close >= d.open],
+      [DOWN_COLOR, 0.2, () => true],
+    ] as [string, number, (d: PriceData, i: number) => boolean][]).reduce((taken, [color, alpha, test]) => {
+      ctx.beginPath();
+      for (let i = startIndex; i <= endIndex; i++) {
+        if (taken.has(i) || !test(data[i], i)) continue;
+        taken.add(i);
+        const h = maxVolume > 0 ? (data[i].volume / maxVolume) * volumeHeight : 0;
+        ctx.rect(xOf(i) - barWidth / 2, plot.y + plot.height - h, barWidth, h);
+      }
+      ctx.globalAlpha = alpha;
+      ctx.fillStyle = color;
+      ctx.fill();
+      return taken;
+    }, new Set<number>());
+    ctx.globalAlpha = 1;
+
+    // Bars
+    if (chartType === 'line') {
+      ctx.strokeStyle = '#f8fafc';
+      ctx.lineWidth = 2;
+      ctx.shadowColor = 'rgba(248, 250, 252, 0.4)';
+      ctx.shadowBlur = 6;
+      strokeSeries(ctx, data, startIndex, endIndex, xOf, yOf, d => d.close);
+      ctx.shadowBlur = 0;
+    } else {
+      [true, false].forEach(up => {
+        const color = up ? UP_COLOR : DOWN_COLOR;
+        ctx.beginPath();
+        for (let i = startIndex; i <= endIndex; i++) {
+          const d = data[i];
+          if ((d.close >= d.open) !== up) continue;
+          const x = Math.round(xOf(i)) + 0.5;
+          ctx.moveTo(x, yOf(d.high));
+          ctx.lineTo(x, yOf(d.low));
+        }
+        ctx.globalAlpha = 0.8;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+        // Below a few pixels per bar the wicks alone read better than bodies.
+        if (bandWidth < 3) return;
+        ctx.beginPath();
+        for (let i = startIndex; i <= endIndex; i++) {
+          const d = data[i];
+          if ((d.close >= d.open) !== up) continue;
+          const top = yOf(Math.max(d.open, d.close));
+          ctx.rect(xOf(i) - barWidth / 2, top, barWidth, Math.max(2, yOf(Math.min(d.open, d.close)) - top));
+        }
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = color;
+        ctx.fill();
+      });
+    }
+
+    // Price-pane indicators
+    overlays.forEach(output => {
+      ctx.globalAlpha = output.style?.opacity ?? 0.6;
+      ctx.strokeStyle = output.color;
+      ctx.lineWidth = output.style?.width ?? 1.2;
+      ctx.setLineDash(output.style?.dash ?? []);
+      strokeSeries(ctx, data, startIndex, endIndex, xOf, yOf, d => indicatorOutput(d, output.key));
+    });
+    ctx.globalAlpha = 1;
+    ctx.setLineDash([]);
+
+    if (tradePlan) {
+      const color = tradePlan.direction === 'BUY' ? UP_COLOR : DOWN_COLOR;
+      const top = yOf(tradePlan.entryHigh);
+      ctx.globalAlpha = 0.08;
+      ctx.fillStyle = color;
+      ctx.fillRect(plot.x, top, plot.width, Math.max(1, yOf(tradePlan.entryLow) - top));
+      ctx.globalAlpha = 1;
+    }
+    ctx.restore();
+
+    // Price levels; their labels sit in the margins like the recharts ones.
+    if (tradePlan) {
+      const color = tradePlan.direction === 'BUY' ? UP_COLOR : DOWN_COLOR;
+      drawLevel(ctx, plot, yOf(tradePlan.entryHigh), { color, width: 1, dash: [4, 4], opacity: 0.3 }, { text: t('chart.planZone', { direction: tradePlan.direction }), side: 'insideLeft' });
+      drawLevel(ctx, plot, yOf(tradePlan.entryLow), { color, width: 1, dash: [4, 4], opacity: 0.3 });
+      drawLevel(ctx, plot, yOf(tradePlan.stopLoss), { color: '#f97316', width: 1.5, dash: [6, 3] }, { text: t('chart.planStop'), side: 'insideLeft' });
+      tradePlan.takeProfits.forEach((tp, i) => {
+        drawLevel(ctx, plot, yOf(tp), { color: '#22d3ee', width: 1.5, dash: [6, 3] }, { text: t('chart.planTarget', { index: i + 1 }), side: 'insideLeft' });
+      });
+    }
+    orders.forEach(o => {
+      const color = o.type === 'BUY' ? UP_COLOR : DOWN_COLOR;
+      drawLevel(ctx, plot, yOf(o.entryPrice), { color, width: 1.5, opacity: 0.8 }, { text: `${o.type} ${o.quantity}`, side: 'left' });
+      drawLevel(ctx, plot, yOf(o.sl), { color: DOWN_COLOR, width: 1, dash: [2, 4], opacity: 0.6 }, { text: 'SL', side: 'left' });
+      drawLevel(ctx, plot, yOf(o.tp), { color: UP_COLOR, width: 1, dash: [2, 4], opacity: 0.6 }, { text: 'TP', side: 'left' });
+    });
+    if (wyckoffTarget) {
+      const color = wyckoffTarget > data[data.length - 1].close ? UP_COLOR : DOWN_COLOR;
+      drawLevel(ctx, plot, yOf(wyckoffTarget), { color, width: 2.5, dash: [8, 6] }, { text: t('chart.projectedTarget'), side: 'right' });
+    }
+
+    // Oscillator panes
+    oscillators.forEach((def, paneIndex) => {
+      const pane = panes[paneIndex];
+      const domain = oscillatorDomains[paneIndex];
+      const yIn = (value: number) => paneY(pane, domain, value);
+      ctx.strokeStyle = '#1e293b';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(pane.x, pane.y - PANE_GAP / 2);
+      ctx.lineTo(pane.x + pane.width, pane.y - PANE_GAP / 2);
+      ctx.stroke();
+
+      ctx.save();
+      clipTo(ctx, pane);
+      ctx.strokeStyle = '#475569';
+      ctx.setLineDash([2, 4]);
+      [...(OSCILLATOR_LEVELS[def.id] ?? []), ...(def.id === 'macd' ? [0] : [])].forEach(level => {
+        ctx.beginPath();
+        ctx.moveTo(pane.x, yIn(level));
+        ctx.lineTo(pane.x + pane.width, yIn(level));
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
+      def.outputs.forEach(output => {
+        if (output.key === 'macdHist') {
+          [true, false].forEach(up => {
+            ctx.beginPath();
+            for (let i = startIndex; i <= endIndex; i++) {
+              const v = data[i].indicators?.macdHist;
+              if (v === undefined || (v >= 0) !== up) continue;
+              ctx.rect(xOf(i) - barWidth / 2, Math.min(yIn(0), yIn(v)), barWidth, Math.abs(yIn(v) - yIn(0)));
+            }
+            ctx.globalAlpha = 0.5;
+            ctx.fillStyle = up ? UP_COLOR : DOWN_COLOR;
+            ctx.fill();
+            ctx.globalAlpha = 1;
+          });
+          return;
+        }
+        ctx.strokeStyle = output.color;
+        ctx.lineWidth = 1.2;
+        strokeSeries(ctx, data, startIndex, endIndex, xOf, yIn, d => d.indicators?.[output.key]);
+      });
+      ctx.restore();
+
+      const last = data[data.length - 1].indicators ?? {};
+      ctx.font = `900 9px ${FONT}`;
+      ctx.textAlign = 'left';
+      let left = pane.x + 4;
+      def.outputs.forEach(output => {
+        const value = last[output.key];
+        const text = `${t(output.label)} ${value === undefined ? '-' : formatNumber(value, Math.abs(value) >= 10 ? 1 : 5)}`;
+        ctx.fillStyle = output.color;
+        ctx.fillText(text, left, pane.y + 10);
+        left += ctx.measureText(text).width + 12;
+      });
+      ctx.font = `800 8px ${FONT}`;
+      ctx.fillStyle = AXIS_TEXT;
+      domain.forEach(value => ctx.fillText(formatNumber(value, Math.abs(value) >= 10 ? 0 : 2), pane.x + pane.width + 8, yIn(value) + 3));
+    });
+
+    drawCrosshair();
+  });
+
+  // Older bars prepended to `data` shift the indices of a pinned window.
+  useLayoutEffect(() => {
+    const previous = firstTimestampRef.current;
+    firstTimestampRef.current = data[0]?.timestamp;
+    if (previous === undefined || previous === data[0]?.timestamp) return;
+    const added = data.findIndex(d => d.timestamp === previous);
+    if (added <= 0) return;
+    if (panRef.current) panRef.current.end += added;
+    if (view.end !== undefined) onViewChange({ ...view, end: view.end + added });
+  }, [data]);
+
+  useEffect(() => {
+    if (onLoadOlder && data.length > 0 && startIndex < LOAD_MARGIN_BARS) onLoadOlder();
+  }, [startIndex, data.length, onLoadOlder]);
+
+  // Registered natively: React's wheel listener is passive and cannot stop the page scrolling.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      const s = latest.current;
+      if (s.data.length === 0) return;
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const count = s.endIndex - s.startIndex + 1;
+      const next = Math.round(Math.max(MIN_VISIBLE_BARS, Math.min(s.data.length, e.deltaY > 0 ? count * ZOOM_STEP : count / ZOOM_STEP)));
+      if (next === count) return;
+      // Keep the bar under the pointer where it is.
+      const share = Math.max(0, Math.min(1, (e.clientX - rect.left - s.plot.x) / s.plot.width));
+      const anchor = s.startIndex + share * count;
+      const end = Math.round(anchor - share * next) + next - 1;
+      s.onViewChange({ count: next, end: end >= s.data.length - 1 ? undefined : Math.max(next - 1, end) });
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    panRef.current = { x: e.clientX, end: endIndex };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPanning(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    pointerRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    drawCrosshair();
+    const pan = panRef.current;
+    if (!pan) return;
+    const length = data.length;
+    const count = endIndex - startIndex + 1;
+    const end = Math.max(count - 1, Math.min(length - 1, pan.end - Math.round((e.clientX - pan.x) / bandWidth)));
+    if (end !== endIndex) onViewChange({ count: view.count, end: end >= length - 1 ? undefined : end });
+  };
+
+  const endPan = () => {
+    panRef.current = null;
+    setPanning(false);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full select-none"
+      style={{ cursor: panning ? 'grabbing' : 'crosshair', touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endPan}
+      onPointerCancel={endPan}
+      onPointerLeave={() => {
+        pointerRef.current = null;
+        drawCrosshair();
+      }}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {size.width > 0 && (
+        <svg className="absolute inset-0" width={size.width} height={size.height}>
+          <PlotFrameContext.Provider value={frame}>
+            {children}
+          </PlotFrameContext.Provider>
+        </svg>
+      )}
+      <canvas ref={crosshairRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      {loadingOlder && (
+        <div className="absolute left-14 bottom-10 text-[9px] font-black uppercase tracking-widest text-indigo-400 animate-pulse pointer-events-none">
+          {t('chart.loadingHistory')}
+        </div>
+      )}
+    </div>
+  );
+};
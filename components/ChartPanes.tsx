@@ -0,0 +1,219 @@
+import React, { useRef } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Cell,
+  Brush
+} from 'recharts';
+import { PriceData } from '../types';
+import { IndicatorDefinition, IndicatorId } from '../utils/indicators';
+import { formatNumber, t } from '../utils/i18n';
+
+// Shared by the price pane and every sub-pane so tooltips and zoom stay in step.
+export const PANE_SYNC_ID = 'price-panes';
+// Must match the price pane's horizontal margins and axis width so bars line up.
+export const PANE_MARGIN = { top: 16, right: 80, left: 50, bottom: 0 };
+const AXIS_WIDTH = 60;
+
+export const MIN_PANE_HEIGHT = 50;
+export const MAX_PANE_HEIGHT = 320;
+
+export const OSCILLATOR_LEVELS: Partial<Record<IndicatorId, number[]>> = {
+  rsi: [30, 70],
+  stochastic: [20, 80],
+};
+
+export const BOUNDED: IndicatorId[] = ['rsi', 'stochastic'];
+
+// Mean volume of the `lookback` bars before each bar, the average
+// detectBreakouts compares against. Shorter at the start of the series.
+export const volumeAverages = (data: PriceData[], lookback: number): (number | undefined)[] => {
+  let sum = 0;
+  return data.map((d, i) => {
+    const count = Math.min(i, lookback);
+    const average = count > 0 ? sum / count : undefined;
+    sum += d.volume;
+    if (i >= lookback) sum -= data[i - lookback].volume;
+    return average;
+  });
+};
+
+export interface PaneRange {
+  startIndex?: number;
+  endIndex?: number;
+}
+
+interface PaneProps {
+  data: PriceData[];
+  range: PaneRange;
+  // Set on the bottom pane only, which carries the time axis and the zoom Brush.
+  onRangeChange?: (range: PaneRange) => void;
+}
+
+// Every pane gets a Brush controlled by the shared range. Only the bottom
+// pane's is visible; the others have zero height and just keep the pane's
+// window in step, including panes mounted after the range was changed.
+export const PaneTimeAxis: React.FC<Omit<PaneProps, 'data'>> = ({ range, onRangeChange }) => onRangeChange ? (
+  <>
+    <XAxis dataKey="time" scale="band" stroke="#475569" fontSize={9} tickLine={false} axisLine={false} tick={{ fontWeight: 800, opacity: 0.6 }} />
+    <Brush
+      dataKey="time"
+      height={30}
+      stroke="#4f46e5"
+      fill="#0A0F1C"
+      startIndex={range.startIndex}
+      endIndex={range.endIndex}
+      onChange={(next: PaneRange) => onRangeChange({ startIndex: next.startIndex, endIndex: next.endIndex })}
+      travellerWidth={10}
+      gap={5}
+      style={{ fontSize: '10px', opacity: 0.8 }}
+    >
+      <ComposedChart>
+        <Line dataKey="close" stroke="#4f46e5" dot={false} strokeWidth={1} isAnimationActive={false} />
+      </ComposedChart>
+    </Brush>
+  </>
+) : (
+  <>
+    <XAxis dataKey="time" scale="band" hide />
+    <Brush dataKey="time" height={0} startIndex={range.startIndex} endIndex={range.endIndex} travellerWidth={0} stroke="none" fill="none" />
+  </>
+);
+
+const PaneLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="absolute top-1 left-14 z-10 flex gap-3 text-[9px] font-black font-mono uppercase tracking-widest pointer-events-none">
+    {children}
+  </div>
+);
+
+// Volume bars with their moving average; bars whose volume clears the
+// breakout confirmation ratio over the same lookback are highlighted.
+export const VolumePane: React.FC<PaneProps & { lookback: number; confirmRatio: number }> = ({ data, range, onRangeChange, lookback, confirmRatio }) => {
+  const averages = volumeAverages(data, lookback);
+  const rows = data.map((d: PriceData, i: number) => {
+    const average = averages[i];
+    return {
+      time: d.time,
+      close: d.close,
+      volume: d.volume,
+      volumeMa: average,
+      up: d.close >= d.open,
+      confirmed: average !== undefined && i >= lookback && d.volume / average > confirmRatio,
+    };
+  });
+  const last = rows[rows.length - 1];
+
+  return (
+    <div className="relative h-full">
+      <PaneLabel>
+        <span className="text-slate-500">{t('chart.volume')} {last ? formatNumber(last.volume, 0) : '-'}</span>
+        <span className="text-amber-400">MA{lookback} {last?.volumeMa !== undefined ? formatNumber(last.volumeMa, 0) : '-'}</span>
+        <span className="text-indigo-400">&gt; {formatNumber(confirmRatio, 1)}×</span>
+      </PaneLabel>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={rows} margin={PANE_MARGIN} syncId={PANE_SYNC_ID}>
+          <YAxis orientation="right" width={AXIS_WIDTH} stroke="#475569" fontSize={8} tickLine={false} axisLine={false} tickCount={3} tickFormatter={(v: number) => formatNumber(v, 0)} tick={{ fontWeight: 800, fill: '#64748b' }} />
+          <Tooltip content={() => null} cursor={{ stroke: '#334155', strokeDasharray: '4 4', strokeWidth: 1 }} />
+          <Bar dataKey="volume" isAnimationActive={false}>
+            {rows.map((row, index) => (
+              <Cell key={`vol-${index}`} fill={row.confirmed ? '#818cf8' : row.up ? '#10b981' : '#ef4444'} fillOpacity={row.confirmed ? 0.9 : 0.35} />
+            ))}
+          </Bar>
+          <Line dataKey="volumeMa" stroke="#fbbf24" strokeWidth={1.2} dot={false} opacity={0.7} isAnimationActive={false} connectNulls />
+          <PaneTimeAxis range={range} onRangeChange={onRangeChange} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// One pane per oscillator indicator. The MACD histogram is drawn as bars,
+// bounded oscillators get their overbought/oversold levels.
+export const OscillatorPane: React.FC<PaneProps & { definition: IndicatorDefinition }> = ({ data, range, onRangeChange, definition }) => {
+  const last = data[data.length - 1]?.indicators ?? {};
+  const bounded = BOUNDED.includes(definition.id);
+
+  return (
+    <div className="relative h-full">
+      <PaneLabel>
+        {definition.outputs.map(output => (
+          <span key={output.key} style={{ color: output.color }}>
+            {t(output.label)} {last[output.key] === undefined ? '-' : formatNumber(last[output.key], Math.abs(last[output.key]) >= 10 ? 1 : 5)}
+          </span>
+        ))}
+      </PaneLabel>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={PANE_MARGIN} syncId={PANE_SYNC_ID}>
+          <YAxis
+            orientation="right"
+            width={AXIS_WIDTH}
+            domain={bounded ? [0, 100] : ['auto', 'auto']}
+            stroke="#475569"
+            fontSize={8}
+            tickLine={false}
+            axisLine={false}
+            tickCount={3}
+            tickFormatter={(v: number) => Math.abs(v) >= 10 ? v.toFixed(0) : v.toPrecision(2)}
+            tick={{ fontWeight: 800, fill: '#64748b' }}
+          />
+          <Tooltip content={() => null} cursor={{ stroke: '#334155', strokeDasharray: '4 4', strokeWidth: 1 }} />
+          {(OSCILLATOR_LEVELS[definition.id] ?? []).map(level => (
+            <ReferenceLine key={level} y={level} stroke="#475569" strokeDasharray="2 4" />
+          ))}
+          {definition.id === 'macd' && <ReferenceLine y={0} stroke="#334155" />}
+          {definition.outputs.map(output => output.key === 'macdHist' ? (
+            <Bar key={output.key} dataKey={(d: PriceData) => d.indicators?.[output.key]} name={t(output.label)} isAnimationActive={false}>
+              {data.map((d: PriceData, index: number) => (
+                <Cell key={`hist-${index}`} fill={(d.indicators?.macdHist ?? 0) >= 0 ? '#10b981' : '#ef4444'} fillOpacity={0.5} />
+              ))}
+            </Bar>
+          ) : (
+            <Line
+              key={output.key}
+              type="monotone"
+              dataKey={(d: PriceData) => d.indicators?.[output.key]}
+              name={t(output.label)}
+              stroke={output.color}
+              strokeWidth={1.2}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls
+            />
+          ))}
+          <PaneTimeAxis range={range} onRangeChange={onRangeChange} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// Drag handle above a sub-pane; dragging up makes the pane below taller.
+export const PaneResizer: React.FC<{ height: number; onResize: (height: number) => void }> = ({ height, onResize }) => {
+  const dragRef = useRef<{ y: number; height: number } | null>(null);
+
+  return (
+    <div
+      className="h-2 shrink-0 cursor-row-resize flex items-center group/resizer"
+      onPointerDown={e => {
+        dragRef.current = { y: e.clientY, height };
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }}
+      onPointerMove={e => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        onResize(Math.max(MIN_PANE_HEIGHT, Math.min(MAX_PANE_HEIGHT, drag.height + drag.y - e.clientY)));
+      }}
+      onPointerUp={() => {
+        dragRef.current = null;
+      }}
+    >
+      <div className="w-full h-px bg-slate-800 group-hover/resizer:bg-indigo-500/60 transition-colors" />
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Send, Plus, Trash2, Power } from 'lucide-react';
+import { DeliveryChannel, DeliveryLogEntry, DeliveryTarget, Signal } from '../types';
+import { DELIVERY_KIND_LABELS, createDeliveryChannel } from '../services/delivery';
+import { MessageKey, formatTime, t } from '../utils/i18n';
+
+interface Props {
+  channels: DeliveryChannel[];
+  assets: string[];
+  log: DeliveryLogEntry[];
+  onChange: (channels: DeliveryChannel[]) => void;
+  onTest: (channel: DeliveryChannel) => void;
+  onClearLog: () => void;
+}
+
+const STRENGTHS: Signal['strength'][] = ['WEAK', 'MODERATE', 'STRONG'];
+
+const STATUS_STYLES: Record<DeliveryLogEntry['status'], { label: MessageKey; className: string }> = {
+  SENDING: { label: 'delivery.status.SENDING', className: 'text-slate-400' },
+  SENT: { label: 'delivery.status.SENT', className: 'text-emerald-400' },
+  RETRYING: { label: 'delivery.status.RETRYING', className: 'text-amber-400' },
+  FAILED: { label: 'delivery.status.FAILED', className: 'text-rose-400' },
+  RATE_LIMITED: { label: 'delivery.status.RATE_LIMITED', className: 'text-slate-500' },
+};
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-800/50 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1 block';
+
+const notificationPermission = () => 'Notification' in window ? Notification.permission : 'unsupported';
+
+export const DeliveryChannelsPanel: React.FC<Props> = ({ channels, assets, log, onChange, onTest, onClearLog }) => {
+  const [permission, setPermission] = useState<string>(notificationPermission);
+
+  const update = (id: string, patch: Partial<DeliveryChannel>) => onChange(channels.map(c => c.id === id ? { ...c, ...patch } : c));
+  const updateTarget = (channel: DeliveryChannel, patch: Partial<DeliveryTarget>) =>
+    update(channel.id, { target: { ...channel.target, ...patch } as DeliveryTarget });
+  const updateFilter = (channel: DeliveryChannel, patch: Partial<DeliveryChannel['filter']>) =>
+    update(channel.id, { filter: { ...channel.filter, ...patch } });
+  const toggleAsset = (channel: DeliveryChannel, asset: string) => updateFilter(channel, {
+    assets: channel.filter.assets.includes(asset)
+      ? channel.filter.assets.filter(a => a !== asset)
+      : [...channel.filter.assets, asset]
+  });
+
+  const requestPermission = () => {
+    if (!('Notification' in window)) return;
+    Notification.requestPermission().then(setPermission);
+  };
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2.5rem] border border-slate-800/30 p-8 shadow-2xl space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/10 rounded-xl">
+            <Send className="w-5 h-5 text-indigo-400" />
+          </div>
+          <div>
+            <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">{t('delivery.title')}</h3>
+            <p className="text-[10px] text-slate-600 font-bold">{t('delivery.subtitle')}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(DELIVERY_KIND_LABELS) as DeliveryTarget['kind'][]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => onChange([...channels, createDeliveryChannel(kind)])}
+              className="flex items-center gap-1.5 px-3 py-2 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all"
+            >
+              <Plus className="w-3 h-3" /> {t(DELIVERY_KIND_LABELS[kind])}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {channels.length === 0 && (
+        <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest text-center py-2">{t('delivery.none')}</p>
+      )}
+
+      {channels.map(channel => (
+        <div key={channel.id} className={`p-5 rounded-2xl border border-slate-800/50 bg-slate-950/30 space-y-4 ${channel.enabled ? '' : 'opacity-50'}`}>
+          <div className="flex items-center gap-3">
+            <input value={channel.name} onChange={e => update(channel.id, { name: e.target.value })} className={`${inputClass} max-w-xs font-black`} />
+            <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest">{t(DELIVERY_KIND_LABELS[channel.target.kind])}</span>
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => onTest(channel)}
+                className="px-3 py-1.5 rounded-xl border border-slate-800/50 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:bg-slate-800 transition-all"
+              >
+                {t('common.test')}
+              </button>
+              <button
+                onClick={() => update(channel.id, { enabled: !channel.enabled })}
+                title={t(channel.enabled ? 'delivery.disable' : 'delivery.enable')}
+                className={`p-1.5 rounded-lg border transition-colors ${channel.enabled ? 'border-emerald-500/40 text-emerald-400' : 'border-slate-800/50 text-slate-600'}`}
+              >
+                <Power className="w-3 h-3" />
+              </button>
+              <button onClick={() => onChange(channels.filter(c => c.id !== channel.id))} title={t('common.delete')} className="text-slate-500 hover:text-rose-400 transition-colors">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+
+          {channel.target.kind === 'desktop' && (
+            <div className="flex items-center gap-3 text-[10px] font-bold text-slate-500">
+              {t('delivery.permission')} <span className={permission === 'granted' ? 'text-emerald-400' : 'text-amber-400'}>{permission}</span>
+              {permission === 'default' && (
+                <button onClick={requestPermission} className="text-indigo-400 hover:text-indigo-300 font-black uppercase tracking-widest">{t('delivery.allow')}</button>
+              )}
+            </div>
+          )}
+
+          {channel.target.kind === 'webhook' && (
+            <div>
+              <label className={labelClass}>URL</label>
+              <input value={channel.target.url} onChange={e => updateTarget(channel, { url: e.target.value })} className={inputClass} />
+            </div>
+          )}
+
+          {channel.target.kind === 'chat' && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className={labelClass}>{t('delivery.format')}</label>
+                <select value={channel.target.format} onChange={e => updateTarget(channel, { format: e.target.value as 'telegram' | 'discord' })} className={inputClass}>
+                  <option value="discord">Discord</option>
+                  <option value="telegram">Telegram</option>
+                </select>
+              </div>
+              <div className={channel.target.format === 'telegram' ? 'md:col-span-2' : 'md:col-span-3'}>
+                <label className={labelClass}>URL</label>
+                <input
+                  value={channel.target.url}
+                  placeholder={channel.target.format === 'telegram' ? 'https://api.telegram.org/bot<token>/sendMessage' : 'https://discord.com/api/webhooks/...'}
+                  onChange={e => updateTarget(channel, { url: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {channel.target.format === 'telegram' && (
+                <div>
+                  <label className={labelClass}>Chat ID</label>
+                  <input value={channel.target.chatId ?? ''} onChange={e => updateTarget(channel, { chatId: e.target.value || undefined })} className={inputClass} />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>{t('delivery.minStrength')}</label>
+              <select value={channel.filter.minStrength} onChange={e => updateFilter(channel, { minStrength: e.target.value as Signal['strength'] })} className={inputClass}>
+                {STRENGTHS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('delivery.maxPerMinute')}</label>
+              <input
+                type="number"
+                min={1}
+                value={channel.filter.maxPerMinute}
+                onChange={e => updateFilter(channel, { maxPerMinute: Math.max(1, Number(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-[10px] text-slate-400 font-bold cursor-pointer mt-4">
+              <input type="checkbox" checked={channel.filter.trendChanges} onChange={e => updateFilter(channel, { trendChanges: e.target.checked })} className="accent-emerald-500" />
+              {t('delivery.trendChanges')}
+            </label>
+            <label className="flex items-center gap-2 text-[10px] text-slate-400 font-bold cursor-pointer mt-4">
+              <input type="checkbox" checked={channel.filter.userAlerts} onChange={e => updateFilter(channel, { userAlerts: e.target.checked })} className="accent-emerald-500" />
+              {t('delivery.userAlerts')}
+            </label>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('delivery.assets')} {channel.filter.assets.length === 0 && t('delivery.allAssets')}</label>
+            <div className="flex flex-wrap gap-2">
+              {assets.map(asset => (
+                <button
+                  key={asset}
+                  onClick={() => toggleAsset(channel, asset)}
+                  className={`px-3 py-1.5 rounded-xl border text-[10px] font-black transition-colors ${
+                    channel.filter.assets.includes(asset) ? 'border-indigo-500/40 bg-indigo-500/10 text-indigo-300' : 'border-slate-800/50 text-slate-500 hover:bg-slate-800/40'
+                  }`}
+                >
+                  {asset}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className={labelClass}>{t('delivery.log')}</label>
+          {log.length > 0 && (
+            <button onClick={onClearLog} className="text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-slate-400">{t('delivery.clear')}</button>
+          )}
+        </div>
+        <div className="max-h-[16rem] overflow-y-auto custom-scrollbar">
+          <table className="w-full text-[10px] font-mono">
+            <thead className="text-slate-600 uppercase text-[9px] font-black tracking-widest sticky top-0 bg-[#0A0F1C]">
+              <tr>
+                <th className="text-left py-2">{t('delivery.time')}</th>
+                <th className="text-left">{t('delivery.channel')}</th>
+                <th className="text-left">{t('delivery.message')}</th>
+                <th className="text-left">{t('delivery.status')}</th>
+                <th className="text-right">{t('delivery.attempts')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.map(entry => (
+                <tr key={entry.id} className="border-t border-slate-800/40 text-slate-400" title={entry.error}>
+                  <td className="py-1.5">{formatTime(entry.updatedAt, true)}</td>
+                  <td className="font-black text-slate-300">{entry.channelName}</td>
+                  <td className="truncate max-w-[16rem]">{entry.title}</td>
+                  <td className={`font-black ${STATUS_STYLES[entry.status].className}`}>
+                    {t(STATUS_STYLES[entry.status].label)}
+                    {entry.error && <span className="font-normal text-slate-600"> · {entry.error}</span>}
+                    {entry.status === 'RETRYING' && entry.nextRetryAt && <span className="font-normal text-slate-600"> · {formatTime(entry.nextRetryAt, true)}</span>}
+                  </td>
+                  <td className="text-right">{entry.attempts}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {log.length === 0 && (
+            <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest text-center py-6">{t('delivery.empty')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
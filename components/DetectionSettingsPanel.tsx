@@ -0,0 +1,165 @@
+import React, { useRef, useState } from 'react';
+import { Download, RotateCcw, Settings2, Upload } from 'lucide-react';
+import { DetectionProfiles, DetectionSettings } from '../types';
+import {
+  DETECTION_FIELDS,
+  parseDetectionProfiles,
+  profileKey,
+  resolveDetectionSettings
+} from '../utils/detectionSettings';
+import { downloadFile } from '../utils/signalExport';
+import { t } from '../utils/i18n';
+
+interface Props {
+  profiles: DetectionProfiles;
+  assets: string[];
+  timeframes: string[];
+  onChange: (profiles: DetectionProfiles) => void;
+}
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-800/50 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1 block';
+
+export const DetectionSettingsPanel: React.FC<Props> = ({ profiles, assets, timeframes, onChange }) => {
+  const [asset, setAsset] = useState('');
+  const [timeframe, setTimeframe] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const key = profileKey(asset || undefined, timeframe || undefined);
+  const overrides = profiles[key] ?? {};
+  // What the scope would get without its own overrides, shown as placeholders.
+  const inherited = resolveDetectionSettings({ ...profiles, [key]: {} }, asset || '*', timeframe || '*');
+
+  const updateField = (field: keyof DetectionSettings, raw: string) => {
+    const { [field]: _, ...rest } = overrides;
+    const def = DETECTION_FIELDS.find(f => f.key === field)!;
+    const value = Math.min(def.max, Math.max(def.min, Number(raw)));
+    const next = raw === '' || !Number.isFinite(value) ? rest : { ...rest, [field]: value };
+    const { [key]: __, ...others } = profiles;
+    onChange(Object.keys(next).length > 0 ? { ...others, [key]: next } : others);
+  };
+
+  const resetScope = () => {
+    const { [key]: _, ...others } = profiles;
+    onChange(others);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      onChange(parseDetectionProfiles(await file.text()));
+      setImportError(null);
+    } catch (e) {
+      setImportError((e as Error).message);
+    }
+  };
+
+  const scopes = Object.keys(profiles).sort();
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2.5rem] border border-slate-800/30 p-8 shadow-2xl space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/10 rounded-xl">
+            <Settings2 className="w-5 h-5 text-indigo-400" />
+          </div>
+          <div>
+            <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">{t('detection.title')}</h3>
+            <p className="text-[10px] text-slate-600 font-bold">{t('detection.profiles', { count: scopes.length })}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all">
+            <Upload className="w-3 h-3" /> {t('common.import')}
+          </button>
+          <button
+            onClick={() => downloadFile('perfis-deteccao.json', JSON.stringify(profiles, null, 2), 'application/json')}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all"
+          >
+            <Download className="w-3 h-3" /> {t('common.export')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importError && <p className="text-[10px] font-bold text-rose-400">{importError}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className={labelClass}>{t('common.asset')}</label>
+          <select value={asset} onChange={e => setAsset(e.target.value)} className={inputClass}>
+            <option value="">{t('common.all')}</option>
+            {assets.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('common.timeframe')}</label>
+          <select value={timeframe} onChange={e => setTimeframe(e.target.value)} className={inputClass}>
+            <option value="">{t('common.all')}</option>
+            {timeframes.map(tf => <option key={tf} value={tf}>{tf}</option>)}
+          </select>
+        </div>
+        <button
+          onClick={resetScope}
+          disabled={!profiles[key]}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 disabled:opacity-40 transition-all"
+        >
+          <RotateCcw className="w-3 h-3" /> {t('detection.reset')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {DETECTION_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className={labelClass}>
+              {t(`detection.field.${field.key}`)}
+              {overrides[field.key] === undefined && <span className="ml-2 text-slate-700 normal-case tracking-normal">{t('detection.inherited')}</span>}
+            </label>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={overrides[field.key] ?? ''}
+              placeholder={String(inherited[field.key])}
+              onChange={e => updateField(field.key, e.target.value)}
+              className={`${inputClass} ${overrides[field.key] !== undefined ? 'border-indigo-500/40' : ''}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {scopes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {scopes.map(scope => {
+            const [scopeAsset, scopeTimeframe] = scope.split('|');
+            return (
+              <button
+                key={scope}
+                onClick={() => {
+                  setAsset(scopeAsset === '*' ? '' : scopeAsset);
+                  setTimeframe(scopeTimeframe ?? '');
+                }}
+                className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-colors ${
+                  scope === key ? 'bg-indigo-500/10 text-indigo-300 border-indigo-500/40' : 'text-slate-500 border-slate-800/50 hover:text-slate-300'
+                }`}
+              >
+                {scope === '*' ? t('detection.global') : scope.replace('*|', `${t('common.all')} · `).replace('|', ' · ')}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
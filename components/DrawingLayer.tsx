@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Drawing, DrawingAnchor, DrawingKind, PriceData } from '../types';
+import { TIMEFRAME_MS } from '../utils/marketLogic';
+import { fibonacciLevels } from '../utils/drawings';
+import { formatPrice } from '../utils/instruments';
+import { formatNumber } from '../utils/i18n';
+import { usePlotFrame } from './plotFrame';
+
+export type DrawingTool = 'select' | DrawingKind;
+
+interface Props {
+  data: PriceData[];
+  startIndex: number;
+  endIndex: number;
+  minPrice: number;
+  maxPrice: number;
+  symbol: string;
+  timeframe: string;
+  drawings: Drawing[];
+  selectedId: string | null;
+  tool: DrawingTool;
+  color: string;
+  onChange: (drawings: Drawing[]) => void;
+  onSelect: (id: string | null) => void;
+  onToolDone: () => void;
+}
+
+interface DragState {
+  id: string;
+  // Anchor being moved, or null when the whole drawing is dragged.
+  anchorIndex: number | null;
+  origin: DrawingAnchor;
+  initial: Drawing;
+  created: boolean;
+}
+
+const HIT_WIDTH = 10;
+
+const newDrawingId = () => Math.random().toString(36).substr(2, 9);
+
+// Rendered as a child of the price chart, or over the canvas renderer, so it
+// shares the plot area. Anchors are stored as (timestamp, price) and mapped to
+// pixels on every render, so drawings follow zoom and new bars. The x position
+// comes from the bar index because bar times are not unique across days; both
+// renderers place bars in equal bands so bars and lines share the same centres.
+export const DrawingLayer: React.FC<Props> = ({
+  data, startIndex, endIndex, minPrice, maxPrice, symbol, timeframe,
+  drawings, selectedId, tool, color, onChange, onSelect, onToolDone
+}) => {
+  const { plot, yScale, yInverse } = usePlotFrame();
+  const [draft, setDraft] = useState<Drawing | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const surfaceRef = useRef<SVGGElement>(null);
+
+  const interval = TIMEFRAME_MS[timeframe] ?? 60000;
+  const last = data[data.length - 1];
+  const visibleCount = Math.max(1, endIndex - startIndex + 1);
+  const bandWidth = plot ? plot.width / visibleCount : 0;
+  const priceSpan = maxPrice - minPrice || 1;
+
+  const indexOf = (timestamp: number) => {
+    const exact = data.findIndex(d => d.timestamp === timestamp);
+    if (exact >= 0) return exact;
+    return data.length - 1 + (timestamp - (last?.timestamp ?? 0)) / interval;
+  };
+  const xOf = (timestamp: number) => plot!.x + (indexOf(timestamp) - startIndex + 0.5) * bandWidth;
+  const yOf = (price: number) => yScale?.(price) ?? plot!.y + ((maxPrice - price) / priceSpan) * plot!.height;
+
+  const anchorAt = (px: number, py: number): DrawingAnchor => {
+    const index = Math.round((px - plot!.x) / bandWidth - 0.5 + startIndex);
+    const timestamp = index >= 0 && index < data.length
+      ? data[index].timestamp!
+      : (last?.timestamp ?? 0) + (index - (data.length - 1)) * interval;
+    const price = yInverse ? Number(yInverse(py)) : maxPrice - ((py - plot!.y) / plot!.height) * priceSpan;
+    return { timestamp, price };
+  };
+
+  const pointerAnchor = (e: { clientX: number; clientY: number }) => {
+    const svg = surfaceRef.current?.ownerSVGElement;
+    const rect = svg?.getBoundingClientRect();
+    return anchorAt(e.clientX - (rect?.left ?? 0), e.clientY - (rect?.top ?? 0));
+  };
+
+  const moved = (drag: DragState, to: DrawingAnchor): Drawing => {
+    if (drag.anchorIndex !== null) {
+      return { ...drag.initial, anchors: drag.initial.anchors.map((a, i) => i === drag.anchorIndex ? to : a) };
+    }
+    const dt = Math.round((to.timestamp - drag.origin.timestamp) / interval) * interval;
+    const dp = to.price - drag.origin.price;
+    return { ...drag.initial, anchors: drag.initial.anchors.map(a => ({ timestamp: a.timestamp + dt, price: a.price + dp })) };
+  };
+
+  useEffect(() => {
+    const handleMove = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (drag) setDraft(moved(drag, pointerAnchor(e)));
+    };
+    const handleUp = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      dragRef.current = null;
+      const result = moved(drag, pointerAnchor(e));
+      setDraft(null);
+      onChange(drag.created
+        ? [...drawings, result]
+        : drawings.map(d => d.id === result.id ? result : d));
+      onSelect(result.id);
+      if (drag.created) onToolDone();
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  });
+
+  useEffect(() => {
+    if (!selectedId) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        onChange(drawings.filter(d => d.id !== selectedId));
+        onSelect(null);
+      } else if (e.key === 'Escape') {
+        onSelect(null);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [selectedId, drawings, onChange, onSelect]);
+
+  if (!plot || !last?.timestamp || bandWidth <= 0) return null;
+
+  const startCreate = (e: React.PointerEvent) => {
+    if (tool === 'select') return;
+    e.stopPropagation();
+    const anchor = pointerAnchor(e);
+    const drawing: Drawing = {
+      id: newDrawingId(),
+      kind: tool,
+      anchors: tool === 'hline' ? [anchor] : [anchor, anchor],
+      color
+    };
+    dragRef.current = { id: drawing.id, anchorIndex: tool === 'hline' ? 0 : 1, origin: anchor, initial: drawing, created: true };
+    setDraft(drawing);
+  };
+
+  const startDrag = (e: React.PointerEvent, drawing: Drawing, anchorIndex: number | null) => {
+    if (tool !== 'select') return;
+    e.stopPropagation();
+    onSelect(drawing.id);
+    dragRef.current = { id: drawing.id, anchorIndex, origin: pointerAnchor(e), initial: drawing, created: false };
+  };
+
+  const shown = draft && !drawings.some(d => d.id === draft.id) ? [...drawings, draft] : drawings.map(d => d.id === draft?.id ? draft : d);
+  const right = plot.x + plot.width;
+
+  const renderDrawing = (drawing: Drawing) => {
+    const selected = drawing.id === selectedId;
+    const points = drawing.anchors.map(a => ({ x: xOf(a.timestamp), y: yOf(a.price) }));
+    const [p1, p2] = points;
+    const strokeWidth = selected ? 2 : 1.5;
+    const bodyProps = {
+      onPointerDown: (e: React.PointerEvent) => startDrag(e, drawing, null),
+      style: { cursor: tool === 'select' ? 'move' : undefined }
+    };
+    const labelText = drawing.label;
+
+    let body: React.ReactNode;
+    switch (drawing.kind) {
+      case 'hline':
+        body = (
+          <>
+            <line x1={plot.x} x2={right} y1={p1.y} y2={p1.y} stroke={drawing.color} strokeWidth={strokeWidth} strokeDasharray="3 3" />
+            <line x1={plot.x} x2={right} y1={p1.y} y2={p1.y} stroke="transparent" strokeWidth={HIT_WIDTH} {...bodyProps} />
+            <text x={right - 4} y={p1.y - 4} textAnchor="end" fill={drawing.color} fontSize={9} fontWeight={900}>
+              {labelText ? `${labelText} · ` : ''}{formatPrice(drawing.anchors[0].price, symbol)}
+            </text>
+          </>
+        );
+        break;
+      case 'trendline':
+        body = (
+          <>
+            <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke={drawing.color} strokeWidth={strokeWidth} />
+            <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="transparent" strokeWidth={HIT_WIDTH} {...bodyProps} />
+            {labelText && <text x={p2.x + 4} y={p2.y - 4} fill={drawing.color} fontSize={9} fontWeight={900}>{labelText}</text>}
+          </>
+        );
+        break;
+      case 'rectangle':
+        body = (
+          <>
+            <rect
+              x={Math.min(p1.x, p2.x)}
+              y={Math.min(p1.y, p2.y)}
+              width={Math.abs(p2.x - p1.x)}
+              height={Math.abs(p2.y - p1.y)}
+              fill={drawing.color}
+              fillOpacity={0.12}
+              stroke={drawing.color}
+              strokeWidth={strokeWidth}
+              {...bodyProps}
+            />
+            {labelText && <text x={Math.min(p1.x, p2.x) + 4} y={Math.min(p1.y, p2.y) + 12} fill={drawing.color} fontSize={9} fontWeight={900}>{labelText}</text>}
+          </>
+        );
+        break;
+      case 'fibonacci': {
+        const left = Math.min(p1.x, p2.x);
+        body = (
+          <>
+            <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke={drawing.color} strokeWidth={1} strokeDasharray="2 4" opacity={0.6} />
+            {fibonacciLevels(drawing).map(level => (
+              <g key={level.ratio}>
+                <line x1={left} x2={right} y1={yOf(level.price)} y2={yOf(level.price)} stroke={drawing.color} strokeWidth={1} opacity={level.ratio === 0 || level.ratio === 1 ? 0.9 : 0.5} />
+                <line x1={left} x2={right} y1={yOf(level.price)} y2={yOf(level.price)} stroke="transparent" strokeWidth={HIT_WIDTH} {...bodyProps} />
+                <text x={left + 4} y={yOf(level.price) - 3} fill={drawing.color} fontSize={8} fontWeight={900}>
+                  {formatNumber(level.ratio * 100, 1)}% · {formatPrice(level.price, symbol)}
+                </text>
+              </g>
+            ))}
+            {labelText && <text x={left + 4} y={Math.min(p1.y, p2.y) - 14} fill={drawing.color} fontSize={9} fontWeight={900}>{labelText}</text>}
+          </>
+        );
+        break;
+      }
+    }
+
+    return (
+      <g key={drawing.id} opacity={selected ? 1 : 0.85}>
+        {body}
+        {selected && drawing.kind !== 'hline' && points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={p.y}
+            r={5}
+            fill="#0A0F1C"
+            stroke={drawing.color}
+            strokeWidth={2}
+            style={{ cursor: 'grab' }}
+            onPointerDown={e => startDrag(e, drawing, i)}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  return (
+    <g ref={surfaceRef}>
+      <defs>
+        <clipPath id="drawing-clip">
+          <rect x={plot.x} y={plot.y} width={plot.width} height={plot.height} />
+        </clipPath>
+      </defs>
+      <g clipPath="url(#drawing-clip)">
+        {shown.map(renderDrawing)}
+        {tool !== 'select' && (
+          <rect
+            x={plot.x}
+            y={plot.y}
+            width={plot.width}
+            height={plot.height}
+            fill="transparent"
+            style={{ cursor: 'crosshair' }}
+            onPointerDown={startCreate}
+          />
+        )}
+      </g>
+    </g>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Eraser, Minus, MousePointer2, Percent, Slash, Square, Trash2 } from 'lucide-react';
+import { Drawing } from '../types';
+import { DRAWING_COLORS, DRAWING_LABELS } from '../utils/drawings';
+import { DrawingTool } from './DrawingLayer';
+import { MessageKey, t } from '../utils/i18n';
+
+interface Props {
+  tool: DrawingTool;
+  color: string;
+  selected: Drawing | null;
+  hasDrawings: boolean;
+  onToolChange: (tool: DrawingTool) => void;
+  onColorChange: (color: string) => void;
+  onUpdateSelected: (patch: Partial<Drawing>) => void;
+  onDeleteSelected: () => void;
+  onClear: () => void;
+}
+
+const TOOLS: { id: DrawingTool; icon: React.ElementType; label: MessageKey }[] = [
+  { id: 'select', icon: MousePointer2, label: 'drawing.select' },
+  { id: 'hline', icon: Minus, label: DRAWING_LABELS.hline },
+  { id: 'trendline', icon: Slash, label: DRAWING_LABELS.trendline },
+  { id: 'rectangle', icon: Square, label: DRAWING_LABELS.rectangle },
+  { id: 'fibonacci', icon: Percent, label: DRAWING_LABELS.fibonacci },
+];
+
+const buttonClass = 'p-2 rounded-lg transition-colors';
+
+export const DrawingToolbar: React.FC<Props> = ({
+  tool, color, selected, hasDrawings, onToolChange, onColorChange, onUpdateSelected, onDeleteSelected, onClear
+}) => {
+  const activeColor = selected?.color ?? color;
+
+  return (
+    <div className="absolute left-4 top-1/2 -translate-y-1/2 z-10 flex flex-col items-center gap-1 bg-slate-900/80 border border-slate-800/60 rounded-2xl p-1.5 backdrop-blur-md shadow-2xl">
+      {TOOLS.map(({ id, icon: Icon, label }) => (
+        <button
+          key={id}
+          onClick={() => onToolChange(id)}
+          title={t(label)}
+          className={`${buttonClass} ${tool === id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-200 hover:bg-slate-800'}`}
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+
+      <div className="w-6 h-px bg-slate-800 my-1" />
+
+      {DRAWING_COLORS.map(c => (
+        <button
+          key={c}
+          onClick={() => selected ? onUpdateSelected({ color: c }) : onColorChange(c)}
+          className={`w-4 h-4 rounded-full border-2 transition-transform ${activeColor === c ? 'border-white scale-110' : 'border-transparent'}`}
+          style={{ backgroundColor: c }}
+          title={t('drawing.color')}
+        />
+      ))}
+
+      <div className="w-6 h-px bg-slate-800 my-1" />
+
+      {selected && (
+        <>
+          <input
+            value={selected.label ?? ''}
+            onChange={e => onUpdateSelected({ label: e.target.value || undefined })}
+            placeholder={t('drawing.label')}
+            title={t(DRAWING_LABELS[selected.kind])}
+            className="w-20 bg-slate-950/70 border border-slate-800/50 rounded-lg px-1.5 py-1 text-[9px] font-bold text-slate-300 focus:outline-none focus:border-indigo-500/50"
+          />
+          <button onClick={onDeleteSelected} title={t('drawing.deleteSelected')} className={`${buttonClass} text-slate-500 hover:text-rose-400 hover:bg-rose-500/10`}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </>
+      )}
+      <button
+        onClick={onClear}
+        disabled={!hasDrawings}
+        title={t('drawing.clear')}
+        className={`${buttonClass} text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 disabled:opacity-30`}
+      >
+        <Eraser className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
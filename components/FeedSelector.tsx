@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { Radio, Upload } from 'lucide-react';
+import { FeedStatus } from '../services/marketDataFeed';
+import { DEFAULT_WEBSOCKET_URL, FeedConfig } from '../services/feeds';
+import { parseOHLCV } from '../utils/ohlcvImport';
+
+interface Props {
+  config: FeedConfig;
+  status: FeedStatus;
+  statusMessage?: string;
+  feedName: string;
+  symbol: string;
+  timeframe: string;
+  onChange: (config: FeedConfig) => void;
+}
+
+const STATUS_STYLES: Record<FeedStatus, { dot: string; label: string }> = {
+  CONNECTED: { dot: 'bg-emerald-500 animate-pulse', label: 'Feed Ativo' },
+  CONNECTING: { dot: 'bg-amber-400 animate-pulse', label: 'Conectando' },
+  RECONNECTING: { dot: 'bg-amber-400 animate-pulse', label: 'Reconectando' },
+  DISCONNECTED: { dot: 'bg-slate-600', label: 'Feed Parado' },
+  ERROR: { dot: 'bg-rose-500', label: 'Erro no Feed' },
+};
+
+export const FeedSelector: React.FC<Props> = ({ config, status, statusMessage, feedName, symbol, timeframe, onChange }) => {
+  const [url, setUrl] = useState(config.kind === 'websocket' ? config.url : DEFAULT_WEBSOCKET_URL);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const style = STATUS_STYLES[status];
+
+  const handleFile = async (file: File) => {
+    try {
+      const bars = parseOHLCV(await file.text());
+      if (bars.length === 0) throw new Error('Arquivo sem barras');
+      setImportError(null);
+      onChange({ kind: 'replay', fileName: file.name, symbol, timeframe, bars });
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="hidden md:flex items-center gap-3 text-slate-500 text-[10px] font-black uppercase tracking-[0.2em]">
+      <span className="flex items-center gap-1.5" title={statusMessage ?? feedName}>
+        <span className={`w-1.5 h-1.5 rounded-full ${style.dot}`}></span>
+        {style.label}: {feedName}
+      </span>
+      {(statusMessage || importError) && (
+        <span className={`normal-case tracking-normal font-bold ${importError || status === 'ERROR' ? 'text-rose-400' : 'text-slate-600'}`}>
+          {importError ?? statusMessage}
+        </span>
+      )}
+
+      <div className="flex bg-slate-900/50 p-1 rounded-xl border border-slate-800/50 gap-1">
+        <button
+          onClick={() => onChange({ kind: 'simulator' })}
+          className={`px-2 py-1 rounded-lg transition-colors ${config.kind === 'simulator' ? 'bg-slate-800 text-indigo-400' : 'hover:text-slate-300'}`}
+        >
+          Sim
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={`px-2 py-1 rounded-lg transition-colors flex items-center gap-1 ${config.kind === 'replay' ? 'bg-slate-800 text-indigo-400' : 'hover:text-slate-300'}`}
+          title={`Replay de arquivo CSV/JSON como ${symbol} ${timeframe}`}
+        >
+          <Upload className="w-3 h-3" /> Replay
+        </button>
+        <button
+          onClick={() => onChange({ kind: 'websocket', url })}
+          className={`px-2 py-1 rounded-lg transition-colors flex items-center gap-1 ${config.kind === 'websocket' ? 'bg-slate-800 text-indigo-400' : 'hover:text-slate-300'}`}
+          title="Conectar ao servidor WebSocket"
+        >
+          <Radio className="w-3 h-3" /> WS
+        </button>
+      </div>
+      <input
+        value={url}
+        onChange={e => setUrl(e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && onChange({ kind: 'websocket', url })}
+        className="w-40 bg-slate-900/50 border border-slate-800/50 rounded-lg px-2 py-1 font-mono normal-case tracking-normal text-slate-400 focus:outline-none focus:border-indigo-500/50"
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,.txt"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
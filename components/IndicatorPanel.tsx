@@ -0,0 +1,74 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { PriceData } from '../types';
+import { INDICATORS, IndicatorId, IndicatorParams, indicatorOutput } from '../utils/indicators';
+import { formatPrice } from '../utils/instruments';
+import { formatNumber, t } from '../utils/i18n';
+
+interface Props {
+  enabled: IndicatorId[];
+  params: IndicatorParams;
+  lastBar?: PriceData;
+  symbol: string;
+  onToggle: (id: IndicatorId) => void;
+  onParamsChange: (params: IndicatorParams) => void;
+}
+
+const inputClass = 'w-16 bg-slate-900/50 border border-slate-800/50 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+
+export const IndicatorPanel: React.FC<Props> = ({ enabled, params, lastBar, symbol, onToggle, onParamsChange }) => {
+  const updateParam = (id: IndicatorId, key: string, value: number, min: number, max: number) => {
+    if (!Number.isFinite(value)) return;
+    const clamped = Math.min(max, Math.max(min, value));
+    onParamsChange({ ...params, [id]: { ...params[id], [key]: clamped } });
+  };
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2rem] border border-slate-800/40 p-6 shadow-xl">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <SlidersHorizontal className="w-3 h-3 text-indigo-400" /> {t('indicator.title')}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {INDICATORS.map(def => {
+          const isOn = enabled.includes(def.id);
+          return (
+            <div key={def.id} className={`rounded-2xl border p-4 transition-colors ${isOn ? 'bg-slate-900/40 border-indigo-500/30' : 'border-slate-800/40'}`}>
+              <div className="flex items-center justify-between mb-3">
+                <label className="flex items-center gap-2 cursor-pointer text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  <input type="checkbox" checked={isOn} onChange={() => onToggle(def.id)} className="accent-indigo-500" />
+                  {t(def.label)}
+                </label>
+                <div className="flex gap-3 font-mono text-[10px] font-black">
+                  {def.outputs.map(output => {
+                    const value = indicatorOutput(lastBar, output.key);
+                    return (
+                      <span key={output.key} style={{ color: output.color }} title={t(output.label)}>
+                        {value === undefined ? '---' : def.pane === 'price' ? formatPrice(value, symbol) : formatNumber(value, Math.abs(value) >= 10 ? 2 : 5)}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {def.params.map(param => (
+                  <label key={param.key} className="flex items-center gap-2 text-[9px] font-black text-slate-600 uppercase tracking-widest">
+                    {t(param.label)}
+                    <input
+                      type="number"
+                      min={param.min}
+                      max={param.max}
+                      step={param.step ?? 1}
+                      value={params[def.id][param.key]}
+                      onChange={e => updateParam(def.id, param.key, Number(e.target.value), param.min, param.max)}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
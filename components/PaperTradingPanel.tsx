@@ -0,0 +1,92 @@
+import React from 'react';
+import { Wallet, X } from 'lucide-react';
+import { AccountSummary, Order } from '../types';
+import { calculatePnl } from '../utils/paperTrading';
+import { formatPrice } from '../utils/instruments';
+import { formatNumber, t } from '../utils/i18n';
+
+interface Props {
+  orders: Order[];
+  account: AccountSummary;
+  markPrices: Record<string, number>;
+  onCloseOrder: (id: string) => void;
+  onReset: () => void;
+}
+
+const formatMoney = (value: number) =>
+  `${value >= 0 ? '' : '-'}$${formatNumber(Math.abs(value), 2)}`;
+
+const pnlColor = (value: number) => value >= 0 ? 'text-emerald-400' : 'text-rose-400';
+
+export const PaperTradingPanel: React.FC<Props> = ({ orders, account, markPrices, onCloseOrder, onReset }) => {
+  const openOrders = orders.filter(o => o.status === 'OPEN');
+  const closedOrders = orders.filter(o => o.status === 'CLOSED').slice(0, 8);
+
+  return (
+    <div className="bg-[#0A0F1C] p-6 rounded-[2rem] border border-slate-800/40 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <Wallet className="w-3 h-3 text-indigo-400" /> Paper Trading
+        </p>
+        <button onClick={onReset} className="text-[9px] font-black text-slate-600 hover:text-rose-400 uppercase tracking-widest transition-colors">
+          {t('paper.reset')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <div>
+          <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1">{t('paper.balance')}</p>
+          <p className="font-mono text-sm font-black text-white">{formatMoney(account.balance)}</p>
+        </div>
+        <div>
+          <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1">{t('common.equity')}</p>
+          <p className="font-mono text-sm font-black text-white">{formatMoney(account.equity)}</p>
+        </div>
+        <div>
+          <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1">{t('paper.realized')}</p>
+          <p className={`font-mono text-sm font-black ${pnlColor(account.realizedPnl)}`}>{formatMoney(account.realizedPnl)}</p>
+        </div>
+        <div>
+          <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1">{t('paper.open')}</p>
+          <p className={`font-mono text-sm font-black ${pnlColor(account.unrealizedPnl)}`}>{formatMoney(account.unrealizedPnl)}</p>
+        </div>
+        <div>
+          <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1">{t('common.winRate')}</p>
+          <p className="font-mono text-sm font-black text-slate-300">{account.winRate !== null ? `${formatNumber(account.winRate * 100, 0)}%` : '---'}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {openOrders.length === 0 && closedOrders.length === 0 && (
+          <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest text-center py-4">{t('paper.none')}</p>
+        )}
+        {openOrders.map(o => {
+          const mark = markPrices[o.asset];
+          const pnl = mark !== undefined ? calculatePnl(o, mark) : 0;
+          return (
+            <div key={o.id} className="flex items-center justify-between gap-4 px-4 py-2 rounded-xl bg-slate-900/40 border border-slate-800/50 text-[10px] font-mono">
+              <span className={`font-black ${o.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>{o.type}</span>
+              <span className="text-slate-300 font-bold">{o.asset}</span>
+              <span className="text-slate-500">{o.quantity} @ {formatPrice(o.entryPrice, o.asset)}</span>
+              <span className="text-slate-600">SL {formatPrice(o.sl, o.asset)} / TP {formatPrice(o.tp, o.asset)}</span>
+              <span className={`font-black ${pnlColor(pnl)}`}>{formatMoney(pnl)}</span>
+              <button onClick={() => onCloseOrder(o.id)} className="text-slate-600 hover:text-rose-400 transition-colors" title={t('common.close')}>
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+        {closedOrders.map(o => (
+          <div key={o.id} className="flex items-center justify-between gap-4 px-4 py-2 rounded-xl text-[10px] font-mono opacity-50">
+            <span className={`font-black ${o.type === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>{o.type}</span>
+            <span className="text-slate-300 font-bold">{o.asset}</span>
+            <span className="text-slate-500">{formatPrice(o.entryPrice, o.asset)} → {formatPrice(o.closePrice, o.asset)}</span>
+            <span className="text-slate-600 font-black">{o.closeReason}</span>
+            <span className={`font-black ${pnlColor(o.pnl ?? 0)}`}>{formatMoney(o.pnl ?? 0)}</span>
+            <span className="w-3" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { PositionSizing, RiskSettings, Signal, StopSource } from '../types';
+import { calculatePositionSize, resolveStop, sizeSignal, STOP_SOURCE_LABELS } from '../utils/riskSizing';
+import { formatPips, formatPrice, pipLabel } from '../utils/instruments';
+import { formatNumber, t } from '../utils/i18n';
+
+interface Props {
+  symbol: string;
+  entry?: number;
+  target: number | null;
+  level?: number;
+  atr?: number;
+  manualLines: number[];
+  settings: RiskSettings;
+  onSettingsChange: (settings: RiskSettings) => void;
+  onPlaceOrder: (sizing: PositionSizing) => void;
+}
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-800/50 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1 block';
+
+export const RiskPanel: React.FC<Props> = ({ symbol, entry, target, level, atr, manualLines, settings, onSettingsChange, onPlaceOrder }) => {
+  const [direction, setDirection] = useState<'BUY' | 'SELL'>('BUY');
+
+  const stop = entry !== undefined ? resolveStop(settings, direction, entry, { level, atr, manualLines }) : null;
+  const sizing = entry !== undefined && stop !== null ? calculatePositionSize(symbol, direction, entry, stop, target, settings) : null;
+  const update = (patch: Partial<RiskSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2rem] border border-slate-800/40 p-6 shadow-xl">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <Calculator className="w-3 h-3 text-indigo-400" /> {t('risk.title')}
+        </p>
+        <div className="flex bg-slate-900/50 p-1 rounded-xl border border-slate-800/50 gap-1">
+          {(['BUY', 'SELL'] as const).map(side => (
+            <button
+              key={side}
+              onClick={() => setDirection(side)}
+              className={`px-3 py-1 rounded-lg text-[10px] font-black tracking-widest transition-colors ${
+                direction === side ? (side === 'BUY' ? 'bg-emerald-600 text-white' : 'bg-rose-600 text-white') : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {side}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <label className={labelClass}>{t('risk.equity')}</label>
+          <input type="number" min={0} value={settings.equity} onChange={e => update({ equity: Number(e.target.value) })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('risk.riskPercent')}</label>
+          <input type="number" min={0} step={0.1} value={settings.riskPercent} onChange={e => update({ riskPercent: Number(e.target.value) })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('risk.stop')}</label>
+          <select value={settings.stopSource} onChange={e => update({ stopSource: e.target.value as StopSource })} className={inputClass}>
+            {(Object.keys(STOP_SOURCE_LABELS) as StopSource[]).map(source => (
+              <option key={source} value={source}>{t(STOP_SOURCE_LABELS[source])}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>ATR ×</label>
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            disabled={settings.stopSource !== 'atr'}
+            value={settings.atrMultiple}
+            onChange={e => update({ atrMultiple: Number(e.target.value) })}
+            className={`${inputClass} disabled:opacity-30`}
+          />
+        </div>
+      </div>
+
+      {sizing ? (
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-4 items-end">
+          {[
+            { label: t('risk.lots'), value: String(sizing.lots) },
+            { label: t('risk.stop'), value: `${formatPrice(sizing.stop, symbol)} · ${formatPips(Math.abs(sizing.entry - sizing.stop), symbol)} ${pipLabel(symbol)}` },
+            { label: t('risk.pipValue', { unit: pipLabel(symbol) === 'PIPS' ? 'Pip' : 'Pt' }), value: `$${formatNumber(sizing.pipValue, 2)}` },
+            { label: t('risk.atRisk'), value: `$${formatNumber(sizing.moneyAtRisk, 2)}` },
+            { label: 'R:R Wyckoff', value: sizing.rewardRisk !== null ? formatNumber(sizing.rewardRisk, 2) : '---' },
+          ].map(stat => (
+            <div key={stat.label}>
+              <p className="text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1">{stat.label}</p>
+              <p className="font-mono text-xs font-black text-white">{stat.value}</p>
+            </div>
+          ))}
+          <button
+            onClick={() => onPlaceOrder(sizing)}
+            disabled={sizing.lots <= 0}
+            className={`px-4 py-2 rounded-xl text-[10px] font-black tracking-widest text-white disabled:opacity-40 transition-all active:scale-95 ${direction === 'BUY' ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-rose-600 hover:bg-rose-500'}`}
+          >
+            {t('risk.open', { direction })}
+          </button>
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-600 font-bold">
+          {settings.stopSource === 'manual'
+            ? t(direction === 'BUY' ? 'risk.noManualBelow' : 'risk.noManualAbove')
+            : settings.stopSource === 'breakout'
+              ? t(direction === 'BUY' ? 'risk.noLevelBelow' : 'risk.noLevelAbove')
+              : t('risk.noAtr')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// One-line sizing shown on each breakout card in the signal list.
+export const SignalRiskSummary: React.FC<{ signal: Signal; settings: RiskSettings; manualLines: number[] }> = ({ signal, settings, manualLines }) => {
+  const sizing = sizeSignal(signal, settings, manualLines);
+  if (!sizing) return <p className="text-[9px] text-slate-600 font-mono mt-1">{t('risk.noStop')}</p>;
+  return (
+    <p className="text-[9px] text-slate-500 font-mono mt-1">
+      {t('risk.summary', { lots: sizing.lots, money: formatNumber(sizing.moneyAtRisk, 0) })} · {formatPips(Math.abs(sizing.entry - sizing.stop), signal.asset)} {pipLabel(signal.asset).toLowerCase()}
+      {sizing.rewardRisk !== null && ` · R:R ${formatNumber(sizing.rewardRisk, 1)}`}
+    </p>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { BookOpen, Download, Trash2 } from 'lucide-react';
+import { Signal, SignalFilter } from '../types';
+import { SignalJournal } from '../services/signalJournal';
+import { downloadFile, signalsToCSV, signalsToJSON } from '../utils/signalExport';
+import { formatPrice } from '../utils/instruments';
+import { formatDateTime, formatNumber, t } from '../utils/i18n';
+
+interface Props {
+  journal: SignalJournal;
+  assets: string[];
+  // Bumped by the parent whenever new signals are recorded.
+  revision: number;
+  onCleared: () => void;
+}
+
+const SIGNAL_TYPES: Signal['type'][] = ['BREAKOUT_UP', 'BREAKOUT_DOWN', 'TREND_CHANGE'];
+const STRENGTHS: Signal['strength'][] = ['STRONG', 'MODERATE', 'WEAK'];
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-800/50 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1 block';
+
+const formatRatio = (value: number | undefined) => value === undefined ? '---' : formatNumber(value, 1);
+
+export const SignalJournalPanel: React.FC<Props> = ({ journal, assets, revision, onCleared }) => {
+  const [filter, setFilter] = useState<{ asset: string; type: string; strength: string; from: string; to: string }>({
+    asset: '', type: '', strength: '', from: '', to: ''
+  });
+  const [entries, setEntries] = useState<Signal[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query: SignalFilter = {
+      asset: filter.asset || undefined,
+      type: (filter.type || undefined) as Signal['type'] | undefined,
+      strength: (filter.strength || undefined) as Signal['strength'] | undefined,
+      from: filter.from ? new Date(`${filter.from}T00:00:00`) : undefined,
+      to: filter.to ? new Date(`${filter.to}T23:59:59.999`) : undefined
+    };
+    journal.query(query)
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result);
+        setError(null);
+      })
+      .catch(e => !cancelled && setError((e as Error).message));
+    return () => { cancelled = true; };
+  }, [journal, filter, revision]);
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') downloadFile(`sinais-${stamp}.csv`, signalsToCSV(entries), 'text/csv');
+    else downloadFile(`sinais-${stamp}.json`, signalsToJSON(entries), 'application/json');
+  };
+
+  const clearJournal = async () => {
+    if (!window.confirm(t('journal.confirmClear'))) return;
+    try {
+      await journal.clear();
+      setEntries([]);
+      setError(null);
+      onCleared();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof filter, value: string) => setFilter(f => ({ ...f, [key]: value }));
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2.5rem] border border-slate-800/30 p-8 shadow-2xl space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/10 rounded-xl">
+            <BookOpen className="w-5 h-5 text-indigo-400" />
+          </div>
+          <div>
+            <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">{t('journal.title')}</h3>
+            <p className="text-[10px] text-slate-600 font-bold">{t('journal.count', { count: entries.length })}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => exportAs(format)}
+              disabled={entries.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 disabled:opacity-40 transition-all"
+            >
+              <Download className="w-3 h-3" /> {format}
+            </button>
+          ))}
+          <button onClick={clearJournal} className="p-2 bg-slate-900/50 border border-slate-800/50 hover:text-rose-400 rounded-xl text-slate-500 transition-all" title={t('journal.clear')}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div>
+          <label className={labelClass}>{t('common.asset')}</label>
+          <select value={filter.asset} onChange={e => updateFilter('asset', e.target.value)} className={inputClass}>
+            <option value="">{t('common.all')}</option>
+            {assets.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('common.type')}</label>
+          <select value={filter.type} onChange={e => updateFilter('type', e.target.value)} className={inputClass}>
+            <option value="">{t('common.all')}</option>
+            {SIGNAL_TYPES.map(type => <option key={type} value={type}>{type.replace('_', ' ')}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('common.strength')}</label>
+          <select value={filter.strength} onChange={e => updateFilter('strength', e.target.value)} className={inputClass}>
+            <option value="">{t('common.allFem')}</option>
+            {STRENGTHS.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('journal.from')}</label>
+          <input type="date" value={filter.from} onChange={e => updateFilter('from', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('journal.to')}</label>
+          <input type="date" value={filter.to} onChange={e => updateFilter('to', e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      {error && <p className="text-[10px] font-bold text-rose-400">{error}</p>}
+
+      <div className="max-h-[32rem] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-[10px] font-mono">
+          <thead className="text-slate-600 uppercase text-[9px] font-black tracking-widest sticky top-0 bg-[#0A0F1C]">
+            <tr>
+              <th className="text-left py-2">{t('journal.date')}</th>
+              <th className="text-left">{t('common.asset')}</th>
+              <th className="text-left">TF</th>
+              <th className="text-left">{t('common.type')}</th>
+              <th className="text-left">{t('common.strength')}</th>
+              <th className="text-right">{t('common.price')}</th>
+              <th className="text-right">{t('journal.level')}</th>
+              <th className="text-right">Vol ×</th>
+              <th className="text-right">{t('common.wyckoffTarget')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(s => (
+              <tr key={s.id} className="border-t border-slate-800/40 text-slate-400" title={s.details}>
+                <td className="py-1.5">{formatDateTime(s.timestamp)}</td>
+                <td className="font-black text-slate-300">{s.asset}</td>
+                <td>{s.timeframe ?? '---'}</td>
+                <td className={`font-black ${s.type === 'BREAKOUT_UP' ? 'text-emerald-400' : s.type === 'BREAKOUT_DOWN' ? 'text-rose-400' : 'text-indigo-400'}`}>{s.type.replace('_', ' ')}</td>
+                <td>{s.strength}</td>
+                <td className="text-right">{formatPrice(s.price, s.asset)}</td>
+                <td className="text-right">{formatPrice(s.level, s.asset)}</td>
+                <td className="text-right">{formatRatio(s.volumeRatio)}</td>
+                <td className="text-right">{formatPrice(s.wyckoffTarget, s.asset)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {entries.length === 0 && (
+          <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest text-center py-6">{t('journal.empty')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { MarketTrend, PriceData, Signal } from '../types';
+import { TIMEFRAME_MS } from '../utils/marketLogic';
+import { formatPrice } from '../utils/instruments';
+import { formatNumber, t } from '../utils/i18n';
+import { trendLabel } from '../utils/trend';
+import { usePlotFrame } from './plotFrame';
+
+interface Props {
+  data: PriceData[];
+  signals: Signal[];
+  startIndex: number;
+  endIndex: number;
+  symbol: string;
+  timeframe: string;
+}
+
+// Bars to the left of the signal bar that the breached level is drawn across.
+const LEVEL_BARS = 12;
+
+const TYPE_COLORS: Record<Signal['type'], string> = {
+  BREAKOUT_UP: '#10b981',
+  BREAKOUT_DOWN: '#ef4444',
+  TREND_CHANGE: '#818cf8',
+};
+
+// Index of the bar that produced the signal. Signals recorded before
+// `barTimestamp` existed are matched by time: they fire once the bar after
+// theirs opens, so the wall-clock time falls one interval after the bar.
+export const signalBarIndex = (data: PriceData[], signal: Signal, timeframe: string): number => {
+  if (signal.barTimestamp !== undefined) return data.findIndex(d => d.timestamp === signal.barTimestamp);
+  const interval = TIMEFRAME_MS[timeframe] ?? 60000;
+  const barTime = new Date(signal.timestamp).getTime() - interval;
+  if (data.length === 0 || barTime < (data[0].timestamp ?? Infinity)) return -1;
+  for (let i = data.length - 1; i >= 0; i--) {
+    if ((data[i].timestamp ?? 0) <= barTime) return i;
+  }
+  return -1;
+};
+
+// Buy/sell arrows under or over the signal bar with a short segment at the
+// breached level; trend changes get a dot. Markers are mapped from bar
+// timestamps on every render, so they stay on their candles when zooming.
+export const SignalLayer: React.FC<Props> = ({ data, signals, startIndex, endIndex, symbol, timeframe }) => {
+  const { plot, yScale } = usePlotFrame();
+  if (!plot || !yScale) return null;
+
+  const visibleCount = Math.max(1, endIndex - startIndex + 1);
+  const bandWidth = plot.width / visibleCount;
+  const xOf = (index: number) => plot.x + (index - startIndex + 0.5) * bandWidth;
+  const size = Math.max(3, Math.min(6, bandWidth / 2.5));
+
+  return (
+    <g>
+      {signals.map((signal: Signal) => {
+        const index = signalBarIndex(data, signal, timeframe);
+        if (index < startIndex || index > endIndex) return null;
+        const bar = data[index];
+        const x = xOf(index);
+        const color = TYPE_COLORS[signal.type];
+        const title = [
+          signal.type === 'TREND_CHANGE'
+            ? t('trend.label', { trend: trendLabel(signal.trend ?? MarketTrend.NEUTRAL) })
+            : t(signal.type === 'BREAKOUT_UP' ? 'app.buy' : 'app.sell'),
+          signal.strength,
+          signal.volumeRatio !== undefined ? `${t('chart.volume')} ${formatNumber(signal.volumeRatio, 1)}×` : null,
+          signal.level !== undefined ? t('chart.signalLevel', { price: formatPrice(signal.level, symbol) }) : null,
+        ].filter(Boolean).join(' · ') + `\n${signal.details}`;
+
+        if (signal.type === 'TREND_CHANGE') {
+          return (
+            <g key={signal.id}>
+              <title>{title}</title>
+              <circle cx={x} cy={(yScale(bar.close) ?? plot.y)} r={size * 0.6} fill="#0A0F1C" stroke={color} strokeWidth={1.5} />
+            </g>
+          );
+        }
+
+        const up = signal.type === 'BREAKOUT_UP';
+        const edge = yScale(up ? bar.low : bar.high) ?? plot.y;
+        const tip = up ? edge + 6 : edge - 6;
+        const base = up ? tip + size * 1.8 : tip - size * 1.8;
+        const levelY = signal.level !== undefined ? yScale(signal.level) : undefined;
+        const levelStart = xOf(Math.max(startIndex, index - LEVEL_BARS)) - bandWidth / 2;
+        return (
+          <g key={signal.id}>
+            <title>{title}</title>
+            {levelY !== undefined && (
+              <line x1={levelStart} x2={x + bandWidth / 2} y1={levelY} y2={levelY} stroke={color} strokeWidth={1.5} strokeDasharray="3 2" opacity={0.8} />
+            )}
+            <path
+              d={`M ${x} ${tip} L ${x - size} ${base} L ${x - size / 3} ${base} L ${x - size / 3} ${base + (up ? size : -size)} L ${x + size / 3} ${base + (up ? size : -size)} L ${x + size / 3} ${base} L ${x + size} ${base} Z`}
+              fill={color}
+              stroke="#0A0F1C"
+              strokeWidth={0.5}
+              opacity={signal.strength === 'WEAK' ? 0.5 : 0.95}
+            />
+          </g>
+        );
+      })}
+    </g>
+  );
+};
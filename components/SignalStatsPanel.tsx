@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { Signal } from '../types';
+import { SignalJournal } from '../services/signalJournal';
+import { summarizeOutcomes } from '../utils/signalOutcome';
+import { MessageKey, formatNumber, t } from '../utils/i18n';
+
+interface Props {
+  journal: SignalJournal;
+  revision: number;
+  outcomeBars: number;
+  onOutcomeBarsChange: (bars: number) => void;
+}
+
+const GROUPINGS: { id: 'asset' | 'timeframe' | 'strength'; label: MessageKey; keyOf: (s: Signal) => string }[] = [
+  { id: 'asset', label: 'common.asset', keyOf: s => s.asset },
+  { id: 'timeframe', label: 'common.tf', keyOf: s => s.timeframe ?? '---' },
+  { id: 'strength', label: 'common.strength', keyOf: s => s.strength },
+];
+
+export const SignalStatsPanel: React.FC<Props> = ({ journal, revision, outcomeBars, onOutcomeBarsChange }) => {
+  const [grouping, setGrouping] = useState<typeof GROUPINGS[number]['id']>('asset');
+  const [history, setHistory] = useState<Signal[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    journal.query()
+      .then(result => !cancelled && setHistory(result))
+      .catch(error => console.error('Signal journal error:', error));
+    return () => { cancelled = true; };
+  }, [journal, revision]);
+
+  const stats = useMemo(
+    () => summarizeOutcomes(history, GROUPINGS.find(g => g.id === grouping)!.keyOf),
+    [history, grouping]
+  );
+  const pending = history.filter(s => s.outcome?.status === 'PENDING').length;
+
+  return (
+    <div className="bg-slate-900/40 rounded-3xl border border-slate-800/50 p-5 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <Crosshair className="w-3 h-3 text-emerald-400" /> {t('stats.title')}
+        </p>
+        <div className="flex bg-slate-950/50 p-0.5 rounded-lg gap-0.5">
+          {GROUPINGS.map(g => (
+            <button
+              key={g.id}
+              onClick={() => setGrouping(g.id)}
+              className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest transition-colors ${grouping === g.id ? 'bg-slate-800 text-indigo-400' : 'text-slate-600 hover:text-slate-400'}`}
+            >
+              {t(g.label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {stats.length === 0 ? (
+        <p className="text-[10px] text-slate-600 font-black uppercase tracking-widest text-center py-4">{t('stats.empty')}</p>
+      ) : (
+        <table className="w-full text-[10px] font-mono">
+          <thead className="text-slate-600 uppercase text-[8px] font-black tracking-widest">
+            <tr>
+              <th className="text-left pb-2"></th>
+              <th className="text-right">N</th>
+              <th className="text-right">{t('common.target')}</th>
+              <th className="text-right" title={t('stats.stopExpired')}>S/E</th>
+              <th className="text-right" title={t('stats.mfe')}>MFE</th>
+              <th className="text-right" title={t('stats.mae')}>MAE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(row => (
+              <tr key={row.key} className="border-t border-slate-800/40 text-slate-400">
+                <td className="py-1.5 font-black text-slate-300">{row.key}</td>
+                <td className="text-right">{row.total}</td>
+                <td className={`text-right font-black ${(row.hitRate ?? 0) >= 0.5 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {row.hitRate === null ? '---' : `${formatNumber(row.hitRate * 100, 0)}%`}
+                </td>
+                <td className="text-right">{row.stopped}/{row.expired}</td>
+                <td className="text-right text-emerald-400/80">{formatNumber(row.avgMfeR, 1)}R</td>
+                <td className="text-right text-rose-400/80">{formatNumber(row.avgMaeR, 1)}R</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center justify-between mt-4 text-[10px] text-slate-500 font-bold">
+        <span>{t('stats.pending', { count: pending })}</span>
+        <label className="flex items-center gap-2">
+          {t('stats.bars')}
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={outcomeBars}
+            onChange={e => {
+              const bars = Number(e.target.value);
+              if (bars >= 1) onOutcomeBarsChange(Math.min(500, Math.round(bars)));
+            }}
+            className="w-14 bg-slate-950/50 border border-slate-800/50 rounded-lg px-2 py-0.5 font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
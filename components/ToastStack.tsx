@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+import { BellRing, X } from 'lucide-react';
+import { Toast } from '../types';
+
+interface Props {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+}
+
+const TOAST_DURATION_MS = 8000;
+
+const TONE_CLASSES: Record<Toast['tone'], string> = {
+  info: 'border-indigo-500/40 text-indigo-400',
+  success: 'border-emerald-500/40 text-emerald-400',
+  warning: 'border-amber-500/40 text-amber-400',
+};
+
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (id: string) => void }> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <div className={`pointer-events-auto w-80 bg-[#0A0F1C]/95 border rounded-2xl p-4 shadow-2xl backdrop-blur-md animate-in slide-in-from-right ${TONE_CLASSES[toast.tone]}`}>
+      <div className="flex items-start gap-3">
+        <BellRing className="w-4 h-4 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-[10px] font-black uppercase tracking-widest">{toast.title}</p>
+          <p className="text-[11px] text-slate-300 font-medium mt-1">{toast.message}</p>
+        </div>
+        <button onClick={() => onDismiss(toast.id)} className="text-slate-600 hover:text-slate-300 transition-colors">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ToastStack: React.FC<Props> = ({ toasts, onDismiss }) => (
+  <div className="fixed top-6 right-6 z-50 flex flex-col gap-3 pointer-events-none">
+    {toasts.map(toast => <ToastItem key={toast.id} toast={toast} onDismiss={onDismiss} />)}
+  </div>
+);
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Bell, Target } from 'lucide-react';
+import { TradePlan } from '../types';
+import { formatPrice } from '../utils/instruments';
+import { canEnterPlan, isInEntryZone } from '../utils/tradePlan';
+import { formatNumber, t } from '../utils/i18n';
+
+interface Props {
+  plan: TradePlan;
+  symbol: string;
+  price?: number;
+  onPaperTrade: () => void;
+  onCreateAlerts: () => void;
+}
+
+export const TradePlanCard: React.FC<Props> = ({ plan, symbol, price, onPaperTrade, onCreateAlerts }) => {
+  const tradeable = price !== undefined && canEnterPlan(plan, price);
+  const entry = price !== undefined && tradeable ? price : (plan.entryLow + plan.entryHigh) / 2;
+  const risk = Math.abs(entry - plan.stopLoss);
+
+  return (
+    <div className="mt-6 p-4 rounded-2xl border border-slate-800/60 bg-slate-900/30 space-y-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+        <Target className="w-3 h-3 text-cyan-400" /> {t('plan.title')}
+      </p>
+      <div className="grid grid-cols-2 gap-y-1.5 text-[10px] font-mono">
+        <span className="text-slate-500 font-bold uppercase">{t('common.entry')}</span>
+        <span className={`text-right ${price !== undefined && isInEntryZone(plan, price) ? 'text-emerald-400' : 'text-slate-300'}`}>
+          {formatPrice(plan.entryLow, symbol)} – {formatPrice(plan.entryHigh, symbol)}
+        </span>
+        <span className="text-slate-500 font-bold uppercase">{t('plan.stop')}</span>
+        <span className="text-right text-orange-400">{formatPrice(plan.stopLoss, symbol)}</span>
+        {plan.takeProfits.map((tp, i) => (
+          <React.Fragment key={i}>
+            <span className="text-slate-500 font-bold uppercase">TP{i + 1}</span>
+            <span className="text-right text-cyan-400">
+              {formatPrice(tp, symbol)}{risk > 0 && <span className="text-slate-600"> · {formatNumber(Math.abs(tp - entry) / risk, 1)}R</span>}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400 leading-relaxed">
+        <span className="font-black text-slate-500 uppercase">{t('plan.invalidation')} </span>{plan.invalidation}
+      </p>
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={onPaperTrade}
+          disabled={!tradeable}
+          title={t(tradeable ? 'plan.paperTrade' : 'plan.outOfZone')}
+          className={`flex-1 px-3 py-2 rounded-xl text-[9px] font-black tracking-widest text-white disabled:opacity-30 transition-all active:scale-95 ${plan.direction === 'BUY' ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-rose-600 hover:bg-rose-500'}`}
+        >
+          PAPER {plan.direction}
+        </button>
+        <button
+          onClick={onCreateAlerts}
+          title={t('plan.createAlerts')}
+          className="flex items-center justify-center gap-1.5 flex-1 px-3 py-2 rounded-xl text-[9px] font-black tracking-widest text-slate-300 bg-slate-800 hover:bg-slate-700 transition-all active:scale-95"
+        >
+          <Bell className="w-3 h-3" /> {t('plan.alerts')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   ComposedChart, 
   Line, 
@@ -12,38 +12,85 @@ import {
   ReferenceLine,
   Label,
   Cell,
-  Brush
+  usePlotArea,
+  useYAxisScale
 } from 'recharts';
-import { PriceData } from '../types';
+import { Drawing, Order, PriceData, Signal, TradePlan, WyckoffRange } from '../types';
+import { INDICATORS, IndicatorDefinition, IndicatorId, indicatorOutput } from '../utils/indicators';
+import { formatPrice, getInstrument } from '../utils/instruments';
+import { formatNumber, t } from '../utils/i18n';
+import { DRAWING_COLORS, horizontalLevels } from '../utils/drawings';
+import { DrawingLayer, DrawingTool } from './DrawingLayer';
+import { DrawingToolbar } from './DrawingToolbar';
+import { WyckoffLayer } from './WyckoffLayer';
+import { VsaLayer } from './VsaLayer';
+import { classifyVsaBars } from '../utils/vsa';
+import { ZoneLayer } from './ZoneLayer';
+import { findSRZones } from '../utils/srZones';
+import { SignalLayer } from './SignalLayer';
+import { OscillatorPane, PANE_SYNC_ID, PaneResizer, PaneTimeAxis, VolumePane } from './ChartPanes';
+import { DEFAULT_DETECTION_SETTINGS } from '../utils/detectionSettings';
+import { CanvasChart, CanvasView, DEFAULT_CANVAS_BARS, canvasRange } from './CanvasChart';
 
 interface Props {
   data: PriceData[];
   asset: string;
+  timeframe: string;
   wyckoffTarget: number | null;
   chartType: 'line' | 'candle';
-  manualLines: number[];
+  // The canvas renderer is meant for long histories and loads older bars on demand.
+  renderer?: 'svg' | 'canvas';
+  onLoadOlder?: () => void;
+  loadingOlder?: boolean;
+  drawings: Drawing[];
+  onDrawingsChange: (drawings: Drawing[]) => void;
+  orders?: Order[];
+  tradePlan?: TradePlan | null;
+  wyckoffRanges?: WyckoffRange[];
+  // Signals of this asset and timeframe, drawn on the bars that produced them.
+  signals?: Signal[];
+  indicators?: IndicatorId[];
+  onToggleIndicator?: (id: IndicatorId) => void;
+  // Breakout settings the volume pane highlights against.
+  volumeLookback?: number;
+  volumeConfirmRatio?: number;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const DEFAULT_PANE_HEIGHT: Record<string, number> = { volume: 90, macd: 100 };
+
+type IndicatorOutput = IndicatorDefinition['outputs'][number] & { pane: IndicatorDefinition['pane'] };
+
+const formatIndicator = (value: number) => formatNumber(value, Math.abs(value) >= 10 ? 2 : 4);
+
+const CustomTooltip = ({ active, payload, label, outputs = [], symbol }: any) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     return (
       <div className="bg-[#0D1322] border border-slate-700/50 p-4 rounded-2xl shadow-2xl text-xs font-mono backdrop-blur-xl">
         <p className="text-slate-500 mb-2 border-b border-slate-800 pb-2 flex justify-between uppercase text-[10px] font-black">
           <span>{label}</span>
-          <span className="text-indigo-400">DATA FEED</span>
+          <span className="text-indigo-400">{t('chart.dataFeed')}</span>
         </p>
         <div className="grid grid-cols-2 gap-x-6 gap-y-2 mt-2">
-          <p className="text-slate-500 uppercase text-[9px] font-black">Open</p>
-          <p className="text-white text-right font-bold">{data.open.toFixed(5)}</p>
-          <p className="text-slate-500 uppercase text-[9px] font-black">High</p>
-          <p className="text-emerald-400 text-right font-bold">{data.high.toFixed(5)}</p>
-          <p className="text-slate-500 uppercase text-[9px] font-black">Low</p>
-          <p className="text-rose-400 text-right font-bold">{data.low.toFixed(5)}</p>
-          <p className="text-slate-500 uppercase text-[9px] font-black">Close</p>
-          <p className="text-white text-right font-bold">{data.close.toFixed(5)}</p>
-          <p className="text-slate-500 uppercase text-[9px] font-black">Volume</p>
-          <p className="text-indigo-400 text-right font-bold">{data.volume}</p>
+          <p className="text-slate-500 uppercase text-[9px] font-black">{t('chart.open')}</p>
+          <p className="text-white text-right font-bold">{formatPrice(data.open, symbol)}</p>
+          <p className="text-slate-500 uppercase text-[9px] font-black">{t('chart.high')}</p>
+          <p className="text-emerald-400 text-right font-bold">{formatPrice(data.high, symbol)}</p>
+          <p className="text-slate-500 uppercase text-[9px] font-black">{t('chart.low')}</p>
+          <p className="text-rose-400 text-right font-bold">{formatPrice(data.low, symbol)}</p>
+          <p className="text-slate-500 uppercase text-[9px] font-black">{t('chart.close')}</p>
+          <p className="text-white text-right font-bold">{formatPrice(data.close, symbol)}</p>
+          <p className="text-slate-500 uppercase text-[9px] font-black">{t('chart.volume')}</p>
+          <p className="text-indigo-400 text-right font-bold">{formatNumber(data.volume, 0)}</p>
+          {(outputs as IndicatorOutput[]).map(output => {
+            const value = indicatorOutput(data, output.key);
+            return value === undefined ? null : (
+              <React.Fragment key={output.key}>
+                <p className="text-slate-500 uppercase text-[9px] font-black">{t(output.label)}</p>
+                <p className="text-right font-bold" style={{ color: output.color }}>{output.pane === 'price' ? formatPrice(value, symbol) : formatIndicator(value)}</p>
+              </React.Fragment>
+            );
+          })}
         </div>
       </div>
     );
@@ -89,28 +136,73 @@ const Candlestick = (props: any) => {
   );
 };
 
-export const TradingChart: React.FC<Props> = ({ data, asset, wyckoffTarget, chartType, manualLines }) => {
+// Shaded price band across the plot, used for the AI plan's entry zone.
+const EntryZone: React.FC<{ low: number; high: number; color: string; label: string }> = ({ low, high, color, label }) => {
+  const plot = usePlotArea();
+  const yScale = useYAxisScale();
+  if (!plot || !yScale) return null;
+  const top = yScale(high) ?? plot.y;
+  const bottom = yScale(low) ?? plot.y + plot.height;
+  return (
+    <g pointerEvents="none">
+      <rect x={plot.x} y={top} width={plot.width} height={Math.max(1, bottom - top)} fill={color} fillOpacity={0.08} stroke={color} strokeOpacity={0.3} strokeDasharray="4 4" />
+      <text x={plot.x + 6} y={top + 11} fill={color} fontSize={8} fontWeight={900}>{label}</text>
+    </g>
+  );
+};
+
+export const TradingChart: React.FC<Props> = ({ data, asset, timeframe, wyckoffTarget, chartType, renderer = 'svg', onLoadOlder, loadingOlder, drawings, onDrawingsChange, orders = [], tradePlan = null, wyckoffRanges = [], signals = [], indicators = ['ema'], onToggleIndicator,
+  volumeLookback = DEFAULT_DETECTION_SETTINGS.breakoutLookback, volumeConfirmRatio = DEFAULT_DETECTION_SETTINGS.volumeConfirmRatio
+}) => {
   const [range, setRange] = useState<{ startIndex?: number; endIndex?: number }>({});
+  const [view, setView] = useState<CanvasView>({ count: DEFAULT_CANVAS_BARS });
+  const [tool, setTool] = useState<DrawingTool>('select');
+  const [drawingColor, setDrawingColor] = useState(DRAWING_COLORS[0]);
+  const [selectedDrawingId, setSelectedDrawingId] = useState<string | null>(null);
+  const [showVsa, setShowVsa] = useState(false);
+  const [showZones, setShowZones] = useState(true);
+  const [paneHeights, setPaneHeights] = useState<Record<string, number>>({});
+  const selectedDrawing = drawings.find(d => d.id === selectedDrawingId) ?? null;
+
+  useEffect(() => {
+    setSelectedDrawingId(null);
+    setTool('select');
+    setView({ count: DEFAULT_CANVAS_BARS });
+  }, [asset, timeframe]);
+
+  const { startIndex, endIndex } = renderer === 'canvas'
+    ? canvasRange(view, data.length)
+    : { startIndex: range.startIndex ?? 0, endIndex: range.endIndex ?? data.length - 1 };
 
   const visibleData = useMemo(() => {
     if (!data || data.length === 0) return [];
-    const start = range.startIndex ?? 0;
-    const end = range.endIndex ?? (data.length - 1);
-    return data.slice(Math.max(0, start), Math.min(data.length, end + 1));
-  }, [data, range]);
+    return data.slice(Math.max(0, startIndex), Math.min(data.length, endIndex + 1));
+  }, [data, startIndex, endIndex]);
 
   const { minPrice, maxPrice } = useMemo(() => {
     if (visibleData.length === 0) return { minPrice: 0, maxPrice: 1 };
     
     const prices = visibleData.flatMap(d => [d.low, d.high]);
     if (wyckoffTarget) prices.push(wyckoffTarget);
-    manualLines.forEach(l => prices.push(l));
+    horizontalLevels(drawings).forEach(l => prices.push(l));
+    orders.forEach(o => prices.push(o.entryPrice, o.sl, o.tp));
+    if (tradePlan) prices.push(tradePlan.entryLow, tradePlan.entryHigh, tradePlan.stopLoss, ...tradePlan.takeProfits);
+    visibleData.forEach(d => {
+      if (indicators.includes('bollinger') && d.indicators?.bbUpper !== undefined) prices.push(d.indicators.bbUpper, d.indicators.bbLower);
+      if (indicators.includes('vwap') && d.indicators?.vwap !== undefined) prices.push(d.indicators.vwap);
+    });
 
     return {
       minPrice: Math.min(...prices) * 0.9998,
       maxPrice: Math.max(...prices) * 1.0002
     };
-  }, [visibleData, wyckoffTarget, manualLines]);
+  }, [visibleData, wyckoffTarget, drawings, orders, tradePlan, indicators]);
+
+  const vsaBars = useMemo(() => showVsa ? classifyVsaBars(data) : [], [data, showVsa]);
+  const zones = useMemo(() => showZones ? findSRZones(data) : [], [data, showZones]);
+
+  const enabled = INDICATORS.filter(def => indicators.includes(def.id));
+  const tooltipOutputs: IndicatorOutput[] = enabled.flatMap(def => def.outputs.map(output => ({ ...output, pane: def.pane })));
 
   const lastPrice = data.length > 0 ? data[data.length - 1].close : 0;
   const targetColor = wyckoffTarget && wyckoffTarget > lastPrice ? "#10b981" : "#ef4444";
@@ -119,12 +211,80 @@ export const TradingChart: React.FC<Props> = ({ data, asset, wyckoffTarget, char
     setRange({ startIndex: newRange.startIndex, endIndex: newRange.endIndex });
   };
 
+  // Layers shared by both renderers; with the canvas they are drawn on an SVG over it.
+  const overlays = (
+    <>
+      {/* Support/Resistance Zones */}
+      {showZones && (
+        <ZoneLayer
+          data={data}
+          zones={zones}
+          startIndex={startIndex}
+          endIndex={endIndex}
+          symbol={asset}
+        />
+      )}
+
+      {/* Wyckoff Ranges */}
+      <WyckoffLayer
+        data={data}
+        startIndex={startIndex}
+        endIndex={endIndex}
+        ranges={wyckoffRanges}
+      />
+
+      {/* VSA Markers */}
+      {showVsa && (
+        <VsaLayer
+          data={data}
+          bars={vsaBars}
+          startIndex={startIndex}
+          endIndex={endIndex}
+        />
+      )}
+
+      {/* Signal Markers */}
+      <SignalLayer
+        data={data}
+        signals={signals}
+        startIndex={startIndex}
+        endIndex={endIndex}
+        symbol={asset}
+        timeframe={timeframe}
+      />
+
+      {/* User Drawings */}
+      <DrawingLayer
+        data={data}
+        startIndex={startIndex}
+        endIndex={endIndex}
+        minPrice={minPrice}
+        maxPrice={maxPrice}
+        symbol={asset}
+        timeframe={timeframe}
+        drawings={drawings}
+        selectedId={selectedDrawingId}
+        tool={tool}
+        color={drawingColor}
+        onChange={onDrawingsChange}
+        onSelect={setSelectedDrawingId}
+        onToolDone={() => setTool('select')}
+      />
+    </>
+  );
+
+  // Volume is always shown under the price; oscillators follow in indicator order.
+  const subPanes: { id: string; definition?: IndicatorDefinition }[] = [
+    { id: 'volume' },
+    ...enabled.filter(def => def.pane === 'oscillator').map(def => ({ id: def.id, definition: def }))
+  ];
+
   if (data.length === 0) {
     return (
       <div className="w-full h-full bg-[#0A0F1C] flex items-center justify-center rounded-[2.5rem] border border-slate-800/30">
         <div className="flex flex-col items-center gap-4 opacity-20">
           <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin" />
-          <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">Loading Market Stream</p>
+          <p className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">{t('chart.loading')}</p>
         </div>
       </div>
     );
@@ -142,7 +302,7 @@ export const TradingChart: React.FC<Props> = ({ data, asset, wyckoffTarget, char
           <h2 className="text-3xl font-black text-white tracking-tighter drop-shadow-md">{asset}</h2>
           <div className="flex items-center gap-2 bg-emerald-500/10 px-3 py-1 rounded-full border border-emerald-500/20 backdrop-blur-sm">
             <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse" />
-            <span className="text-[10px] font-black text-emerald-400 uppercase tracking-[0.2em]">Live</span>
+            <span className="text-[10px] font-black text-emerald-400 uppercase tracking-[0.2em]">{t('chart.live')}</span>
           </div>
         </div>
         {wyckoffTarget && (
@@ -150,103 +310,220 @@ export const TradingChart: React.FC<Props> = ({ data, asset, wyckoffTarget, char
             className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] px-3 py-1.5 rounded-xl border backdrop-blur-md shadow-xl transition-colors duration-500"
             style={{ backgroundColor: `${targetColor}10`, borderColor: `${targetColor}30`, color: targetColor }}
           >
-            Target: {wyckoffTarget.toFixed(5)}
+            {t('chart.target', { price: formatPrice(wyckoffTarget, asset) })}
           </div>
         )}
       </div>
 
-      <div className="flex-1 min-h-0">
-        <ResponsiveContainer width="100%" height="100%">
-          <ComposedChart data={data} margin={{ top: 100, right: 80, left: 10, bottom: 0 }}>
-            <defs>
-              <filter id="glow" x="-20%" y="-20%" width="140%" height="140%">
-                <feGaussianBlur stdDeviation="4" result="blur" />
-                <feComposite in="SourceGraphic" in2="blur" operator="over" />
-              </filter>
-            </defs>
-            <CartesianGrid strokeDasharray="6 6" stroke="#1e293b" vertical={false} opacity={0.2} />
-            <XAxis dataKey="time" stroke="#475569" fontSize={9} tickLine={false} axisLine={false} tick={{ fontWeight: 800, opacity: 0.6 }} />
-            <YAxis 
-              domain={[minPrice, maxPrice]} 
-              orientation="right" 
-              stroke="#475569" 
-              fontSize={9} 
-              tickLine={false} 
-              axisLine={false} 
-              tickFormatter={(val) => val.toFixed(4)}
-              tick={{ fontWeight: 800, fill: '#64748b' }}
-            />
-            <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#334155', strokeDasharray: '4 4', strokeWidth: 1 }} />
-            
-            {chartType === 'line' ? (
-              <Line 
-                type="monotone" 
-                dataKey="close" 
-                stroke="#f8fafc" 
-                strokeWidth={3} 
-                dot={false} 
-                isAnimationActive={false}
-                filter="url(#glow)"
-              />
-            ) : (
-              <Bar 
-                dataKey="close" 
-                shape={<Candlestick />} 
-                isAnimationActive={false}
-              >
-                 {data.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.close >= entry.open ? '#10b981' : '#ef4444'} />
-                ))}
-              </Bar>
-            )}
-
-            {/* EMA Group */}
-            <Line type="monotone" dataKey="ema10" stroke="#22d3ee" strokeWidth={1.5} dot={false} strokeDasharray="4 4" opacity={0.4} isAnimationActive={false} />
-            <Line type="monotone" dataKey="ema20" stroke="#fbbf24" strokeWidth={1.5} dot={false} opacity={0.4} isAnimationActive={false} />
-            <Line type="monotone" dataKey="ema50" stroke="#f472b6" strokeWidth={1.5} dot={false} opacity={0.4} isAnimationActive={false} />
-
-            {/* Dynamic Target Line */}
-            {wyckoffTarget && (
-              <ReferenceLine y={wyckoffTarget} stroke={targetColor} strokeWidth={2.5} strokeDasharray="8 6" className="animate-pulse">
-                <Label 
-                  value="PROJECTED TARGET" 
-                  position="right" 
-                  fill={targetColor} 
+      <DrawingToolbar
+        tool={tool}
+        color={drawingColor}
+        selected={selectedDrawing}
+        hasDrawings={drawings.length > 0}
+        onToolChange={setTool}
+        onColorChange={setDrawingColor}
+        onUpdateSelected={patch => onDrawingsChange(drawings.map(d => d.id === selectedDrawingId ? { ...d, ...patch } : d))}
+        onDeleteSelected={() => {
+          onDrawingsChange(drawings.filter(d => d.id !== selectedDrawingId));
+          setSelectedDrawingId(null);
+        }}
+        onClear={() => {
+          onDrawingsChange([]);
+          setSelectedDrawingId(null);
+        }}
+      />
+
+      {onToggleIndicator && (
+        <div className="absolute top-8 right-10 z-10 flex flex-wrap justify-end gap-1 max-w-[50%]">
+          {INDICATORS.map(def => (
+            <button
+              key={def.id}
+              onClick={() => onToggleIndicator(def.id)}
+              className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-colors ${
+                indicators.includes(def.id) ? 'bg-indigo-500/10 text-indigo-300 border-indigo-500/40' : 'text-slate-600 border-slate-800/50 hover:text-slate-400'
+              }`}
+            >
+              {t(def.label)}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowVsa(v => !v)}
+            className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-colors ${
+              showVsa ? 'bg-indigo-500/10 text-indigo-300 border-indigo-500/40' : 'text-slate-600 border-slate-800/50 hover:text-slate-400'
+            }`}
+          >
+            VSA
+          </button>
+          <button
+            onClick={() => setShowZones(v => !v)}
+            className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-colors ${
+              showZones ? 'bg-indigo-500/10 text-indigo-300 border-indigo-500/40' : 'text-slate-600 border-slate-800/50 hover:text-slate-400'
+            }`}
+          >
+            S/R
+          </button>
+        </div>
+      )}
+
+      {renderer === 'canvas' ? (
+        <div className="flex-1 min-h-0">
+          <CanvasChart
+            data={data}
+            view={view}
+            onViewChange={setView}
+            symbol={asset}
+            chartType={chartType}
+            minPrice={minPrice}
+            maxPrice={maxPrice}
+            indicators={enabled}
+            wyckoffTarget={wyckoffTarget}
+            orders={orders}
+            tradePlan={tradePlan}
+            volumeLookback={volumeLookback}
+            volumeConfirmRatio={volumeConfirmRatio}
+            onLoadOlder={onLoadOlder}
+            loadingOlder={loadingOlder}
+          >
+            {overlays}
+          </CanvasChart>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 min-h-0">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data} margin={{ top: 100, right: 80, left: 50, bottom: 0 }} syncId={PANE_SYNC_ID}>
+                <defs>
+                  <filter id="glow" x="-20%" y="-20%" width="140%" height="140%">
+                    <feGaussianBlur stdDeviation="4" result="blur" />
+                    <feComposite in="SourceGraphic" in2="blur" operator="over" />
+                  </filter>
+                </defs>
+                <CartesianGrid strokeDasharray="6 6" stroke="#1e293b" vertical={false} opacity={0.2} />
+                <YAxis 
+                  domain={[minPrice, maxPrice]} 
+                  orientation="right" 
+                  stroke="#475569" 
                   fontSize={9} 
-                  fontWeight="900" 
-                  className="font-mono tracking-widest"
-                  offset={10}
+                  tickLine={false} 
+                  axisLine={false} 
+                  tickFormatter={(val) => val.toFixed(Math.max(0, getInstrument(asset).precision - 1))}
+                  tick={{ fontWeight: 800, fill: '#64748b' }}
                 />
-              </ReferenceLine>
-            )}
-
-            {/* Manual Levels */}
-            {manualLines.map((price, i) => (
-              <ReferenceLine key={i} y={price} stroke="#6366f1" strokeWidth={2} opacity={0.7} strokeDasharray="3 3">
-                <Label value={`LEVEL ${i+1}`} position="left" fill="#6366f1" fontSize={8} fontWeight="900" offset={10} />
-              </ReferenceLine>
-            ))}
-
-            <Brush
-              dataKey="time"
-              height={30}
-              stroke="#4f46e5"
-              fill="#0A0F1C"
-              onChange={handleBrushChange}
-              travellerWidth={10}
-              gap={5}
-              style={{ fontSize: '10px', opacity: 0.8 }}
-            >
-              <ComposedChart>
-                <Line dataKey="close" stroke="#4f46e5" dot={false} strokeWidth={1} isAnimationActive={false} />
+                <Tooltip content={<CustomTooltip outputs={tooltipOutputs} symbol={asset} />} cursor={{ stroke: '#334155', strokeDasharray: '4 4', strokeWidth: 1 }} />
+            
+                {chartType === 'line' ? (
+                  <Line 
+                    type="monotone" 
+                    dataKey="close" 
+                    stroke="#f8fafc" 
+                    strokeWidth={3} 
+                    dot={false} 
+                    isAnimationActive={false}
+                    filter="url(#glow)"
+                  />
+                ) : (
+                  <Bar 
+                    dataKey="close" 
+                    shape={<Candlestick />} 
+                    isAnimationActive={false}
+                  >
+                     {data.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.close >= entry.open ? '#10b981' : '#ef4444'} />
+                    ))}
+                  </Bar>
+                )}
+
+                {/* Price-pane overlays from the indicator engine */}
+                {enabled.filter(def => def.pane === 'price').flatMap(def => def.outputs).map(output => (
+                  <Line
+                    key={output.key}
+                    type="monotone"
+                    dataKey={(d: PriceData) => indicatorOutput(d, output.key)}
+                    name={t(output.label)}
+                    stroke={output.color}
+                    strokeWidth={output.style?.width ?? 1.2}
+                    dot={false}
+                    opacity={output.style?.opacity ?? 0.6}
+                    strokeDasharray={output.style?.dash?.join(' ')}
+                    isAnimationActive={false}
+                    connectNulls
+                  />
+                ))}
+
+                {/* Dynamic Target Line */}
+                {wyckoffTarget && (
+                  <ReferenceLine y={wyckoffTarget} stroke={targetColor} strokeWidth={2.5} strokeDasharray="8 6" className="animate-pulse">
+                    <Label 
+                      value={t('chart.projectedTarget')} 
+                      position="right" 
+                      fill={targetColor} 
+                      fontSize={9} 
+                      fontWeight="900" 
+                      className="font-mono tracking-widest"
+                      offset={10}
+                    />
+                  </ReferenceLine>
+                )}
+
+                {overlays}
+
+                {/* AI Trade Plan */}
+                {tradePlan && (
+                  <>
+                    <EntryZone low={tradePlan.entryLow} high={tradePlan.entryHigh} color={tradePlan.direction === 'BUY' ? '#10b981' : '#ef4444'} label={t('chart.planZone', { direction: tradePlan.direction })} />
+                    <ReferenceLine y={tradePlan.stopLoss} stroke="#f97316" strokeWidth={1.5} strokeDasharray="6 3">
+                      <Label value={t('chart.planStop')} position="insideLeft" fill="#f97316" fontSize={8} fontWeight="900" />
+                    </ReferenceLine>
+                    {tradePlan.takeProfits.map((tp, i) => (
+                      <ReferenceLine key={i} y={tp} stroke="#22d3ee" strokeWidth={1.5} strokeDasharray="6 3">
+                        <Label value={t('chart.planTarget', { index: i + 1 })} position="insideLeft" fill="#22d3ee" fontSize={8} fontWeight="900" />
+                      </ReferenceLine>
+                    ))}
+                  </>
+                )}
+
+                {/* Open Positions */}
+                {orders.map(o => (
+                  <React.Fragment key={o.id}>
+                    <ReferenceLine y={o.entryPrice} stroke={o.type === 'BUY' ? '#10b981' : '#ef4444'} strokeWidth={1.5} opacity={0.8}>
+                      <Label value={`${o.type} ${o.quantity}`} position="left" fill={o.type === 'BUY' ? '#10b981' : '#ef4444'} fontSize={8} fontWeight="900" offset={10} />
+                    </ReferenceLine>
+                    <ReferenceLine y={o.sl} stroke="#ef4444" strokeWidth={1} opacity={0.6} strokeDasharray="2 4">
+                      <Label value="SL" position="left" fill="#ef4444" fontSize={8} fontWeight="900" offset={10} />
+                    </ReferenceLine>
+                    <ReferenceLine y={o.tp} stroke="#10b981" strokeWidth={1} opacity={0.6} strokeDasharray="2 4">
+                      <Label value="TP" position="left" fill="#10b981" fontSize={8} fontWeight="900" offset={10} />
+                    </ReferenceLine>
+                  </React.Fragment>
+                ))}
+
+                <PaneTimeAxis range={range} />
               </ComposedChart>
-            </Brush>
-          </ComposedChart>
-        </ResponsiveContainer>
-      </div>
+            </ResponsiveContainer>
+          </div>
+
+          {subPanes.map((pane, i) => {
+            const height = paneHeights[pane.id] ?? DEFAULT_PANE_HEIGHT[pane.id] ?? 80;
+            const bottom = i === subPanes.length - 1;
+            return (
+              <React.Fragment key={pane.id}>
+                <PaneResizer height={height} onResize={h => setPaneHeights(prev => ({ ...prev, [pane.id]: h }))} />
+                {/* The bottom pane also holds the time axis and the zoom Brush */}
+                <div className="shrink-0" style={{ height: bottom ? height + 50 : height }}>
+                  {pane.definition ? (
+                    <OscillatorPane data={data} range={range} onRangeChange={bottom ? handleBrushChange : undefined} definition={pane.definition} />
+                  ) : (
+                    <VolumePane data={data} range={range} onRangeChange={bottom ? handleBrushChange : undefined} lookback={volumeLookback} confirmRatio={volumeConfirmRatio} />
+                  )}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </>
+      )}
       
       <div className="h-6 flex items-center justify-center text-[8px] font-black uppercase tracking-[0.3em] text-slate-600 pointer-events-none">
-        Use the slider below to zoom & pan analysis
+        {t(renderer === 'canvas' ? 'chart.canvasHint' : 'chart.zoomHint')}
       </div>
     </div>
   );
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { VoiceEngineId, VoiceSettings } from '../types';
+import { GEMINI_VOICES, VOICE_ENGINE_LABELS, VOICE_LANGUAGES } from '../utils/voiceSettings';
+import { listBrowserVoices } from '../services/voice';
+import { t } from '../utils/i18n';
+
+interface Props {
+  settings: VoiceSettings;
+  assets: string[];
+  speaking: boolean;
+  onChange: (settings: VoiceSettings) => void;
+  onTest: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900/50 border border-slate-800/50 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-600 uppercase tracking-widest mb-1 block';
+
+export const VoiceSettingsPanel: React.FC<Props> = ({ settings, assets, speaking, onChange, onTest }) => {
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>(listBrowserVoices);
+
+  // Browsers load the voice list asynchronously.
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const handleChange = () => setBrowserVoices(listBrowserVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', handleChange);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', handleChange);
+  }, []);
+
+  const update = (patch: Partial<VoiceSettings>) => onChange({ ...settings, ...patch });
+  const toggleMute = (asset: string) => update({
+    mutedAssets: settings.mutedAssets.includes(asset)
+      ? settings.mutedAssets.filter(a => a !== asset)
+      : [...settings.mutedAssets, asset]
+  });
+  const languageVoices = browserVoices.filter(v => v.lang.startsWith(settings.language.slice(0, 2)));
+
+  return (
+    <div className="bg-[#0A0F1C] rounded-[2.5rem] border border-slate-800/30 p-8 shadow-2xl space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-500/10 rounded-xl">
+            <Volume2 className={`w-5 h-5 text-indigo-400 ${speaking ? 'animate-pulse' : ''}`} />
+          </div>
+          <div>
+            <h3 className="font-black text-[11px] uppercase tracking-[0.3em] text-slate-400">{t('voiceSettings.title')}</h3>
+            <p className="text-[10px] text-slate-600 font-bold">{t('voiceSettings.fallback')}</p>
+          </div>
+        </div>
+        <button
+          onClick={onTest}
+          className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all"
+        >
+          <Volume2 className="w-3 h-3" /> {t('common.test')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label className={labelClass}>{t('voiceSettings.engine')}</label>
+          <select value={settings.engine} onChange={e => update({ engine: e.target.value as VoiceEngineId })} className={inputClass}>
+            {(Object.keys(VOICE_ENGINE_LABELS) as VoiceEngineId[]).map(id => <option key={id} value={id}>{t(VOICE_ENGINE_LABELS[id])}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('app.language')}</label>
+          <select value={settings.language} onChange={e => update({ language: e.target.value, browserVoice: '' })} className={inputClass}>
+            {VOICE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('voiceSettings.voice')}</label>
+          {settings.engine === 'gemini' ? (
+            <select value={settings.geminiVoice} onChange={e => update({ geminiVoice: e.target.value })} className={inputClass}>
+              {GEMINI_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          ) : (
+            <select
+              value={settings.browserVoice}
+              onChange={e => update({ browserVoice: e.target.value })}
+              disabled={settings.engine === 'tone'}
+              className={`${inputClass} disabled:opacity-30`}
+            >
+              <option value="">{t('voiceSettings.defaultVoice')}</option>
+              {languageVoices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+            </select>
+          )}
+        </div>
+        <div>
+          <label className={labelClass}>{t('voiceSettings.volume', { percent: Math.round(settings.volume * 100) })}</label>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            onChange={e => update({ volume: Number(e.target.value) })}
+            className="w-full accent-indigo-500 mt-2"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('voiceSettings.mute')}</label>
+        <div className="flex flex-wrap gap-2">
+          {assets.map(asset => {
+            const muted = settings.mutedAssets.includes(asset);
+            return (
+              <button
+                key={asset}
+                onClick={() => toggleMute(asset)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl border text-[10px] font-black transition-colors ${
+                  muted ? 'border-rose-500/30 bg-rose-500/10 text-rose-400' : 'border-slate-800/50 text-slate-400 hover:bg-slate-800/40'
+                }`}
+              >
+                {muted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />} {asset}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
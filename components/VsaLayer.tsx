@@ -0,0 +1,57 @@
+import React from 'react';
+import { PriceData, VsaBar } from '../types';
+import { VSA_ABBREVIATIONS } from '../utils/vsa';
+import { formatNumber, t } from '../utils/i18n';
+import { usePlotFrame } from './plotFrame';
+
+interface Props {
+  data: PriceData[];
+  // One entry per bar of `data`, see classifyVsaBars.
+  bars: (VsaBar | null)[];
+  startIndex: number;
+  endIndex: number;
+}
+
+const BIAS_COLORS: Record<VsaBar['bias'], string> = {
+  BULLISH: '#10b981',
+  BEARISH: '#ef4444',
+};
+
+// Small markers above the candle for bearish readings and below it for
+// bullish ones. Hovering a marker shows the reading and why it was given.
+export const VsaLayer: React.FC<Props> = ({ data, bars, startIndex, endIndex }) => {
+  const { plot, yScale } = usePlotFrame();
+  if (!plot || !yScale) return null;
+
+  const visibleCount = Math.max(1, endIndex - startIndex + 1);
+  const bandWidth = plot.width / visibleCount;
+  const size = Math.max(2.5, Math.min(4, bandWidth / 3));
+
+  return (
+    <g>
+      {bars.slice(startIndex, endIndex + 1).map((bar: VsaBar | null, offset: number) => {
+        if (!bar) return null;
+        const candle = data[startIndex + offset];
+        const x = plot.x + (offset + 0.5) * bandWidth;
+        const above = bar.bias === 'BEARISH';
+        const edge = yScale(above ? candle.high : candle.low) ?? plot.y;
+        const tip = above ? edge - 6 : edge + 6;
+        const base = above ? tip - size * 1.6 : tip + size * 1.6;
+        const color = BIAS_COLORS[bar.bias];
+        return (
+          <g key={candle.timestamp ?? startIndex + offset}>
+            <title>
+              {`${t(`vsa.${bar.kind}`)} · ${t('chart.volume')} ${formatNumber(bar.volumeRatio, 1)}× · ${t(`vsa.tip.${bar.kind}`)}`}
+            </title>
+            <path d={`M ${x} ${tip} L ${x - size} ${base} L ${x + size} ${base} Z`} fill={color} fillOpacity={0.8} />
+            {bandWidth >= 12 && (
+              <text x={x} y={above ? base - 3 : base + 8} textAnchor="middle" fill={color} fontSize={7} fontWeight={900}>
+                {VSA_ABBREVIATIONS[bar.kind]}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
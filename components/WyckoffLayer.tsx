@@ -0,0 +1,78 @@
+import React from 'react';
+import { PriceData, WyckoffEvent, WyckoffRange } from '../types';
+import { t } from '../utils/i18n';
+import { usePlotFrame } from './plotFrame';
+
+interface Props {
+  data: PriceData[];
+  startIndex: number;
+  endIndex: number;
+  ranges: WyckoffRange[];
+}
+
+const SCHEMATIC_COLORS: Record<WyckoffRange['schematic'], string> = {
+  ACCUMULATION: '#10b981',
+  DISTRIBUTION: '#ef4444',
+};
+
+// Trading ranges as shaded boxes with their event labels. Uses the same band
+// mapping as DrawingLayer: x comes from the bar index found by timestamp.
+export const WyckoffLayer: React.FC<Props> = ({ data, startIndex, endIndex, ranges }) => {
+  const { plot, yScale } = usePlotFrame();
+  if (!plot || !yScale || data.length === 0) return null;
+
+  const visibleCount = Math.max(1, endIndex - startIndex + 1);
+  const bandWidth = plot.width / visibleCount;
+  const indexOf = (timestamp: number) => data.findIndex(d => d.timestamp === timestamp);
+  const xOf = (index: number) => plot.x + (index - startIndex + 0.5) * bandWidth;
+  const clampY = (y: number) => Math.min(plot.y + plot.height, Math.max(plot.y, y));
+
+  return (
+    <g pointerEvents="none">
+      {ranges.map((range: WyckoffRange) => {
+        const first = indexOf(range.startTimestamp);
+        const last = indexOf(range.endTimestamp);
+        if (first < 0 || last < 0 || last < startIndex || first > endIndex) return null;
+        const color = SCHEMATIC_COLORS[range.schematic];
+        const left = xOf(Math.max(first, startIndex)) - bandWidth / 2;
+        const right = xOf(Math.min(last, endIndex)) + bandWidth / 2;
+        const top = clampY(yScale(range.high) ?? plot.y);
+        const bottom = clampY(yScale(range.low) ?? plot.y + plot.height);
+        return (
+          <g key={range.startTimestamp}>
+            <rect
+              x={left}
+              y={top}
+              width={Math.max(1, right - left)}
+              height={Math.max(1, bottom - top)}
+              fill={color}
+              fillOpacity={range.active ? 0.07 : 0.04}
+              stroke={color}
+              strokeOpacity={0.35}
+              strokeDasharray={range.active ? '4 4' : undefined}
+            />
+            <text x={left + 4} y={top - 4} fill={color} fontSize={8} fontWeight={900} opacity={0.8}>
+              {`${t(`wyckoff.${range.schematic}`)} · ${t('wyckoff.phase', { phase: range.phase })}`}
+            </text>
+            {range.events.map((event: WyckoffEvent) => {
+              const index = indexOf(event.timestamp);
+              if (index < startIndex || index > endIndex) return null;
+              const x = xOf(index);
+              const y = yScale(event.price) ?? plot.y;
+              const above = event.at === 'high';
+              return (
+                <g key={`${event.kind}-${event.timestamp}`} pointerEvents="visiblePainted">
+                  <title>{t(`wyckoff.event.${event.kind}`)}</title>
+                  <line x1={x} x2={x} y1={y} y2={above ? y - 8 : y + 8} stroke={color} strokeOpacity={0.6} />
+                  <text x={x} y={above ? y - 11 : y + 18} textAnchor="middle" fill={color} fontSize={8} fontWeight={900}>
+                    {event.kind}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
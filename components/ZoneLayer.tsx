@@ -0,0 +1,67 @@
+import React from 'react';
+import { PriceData, SRZone } from '../types';
+import { formatPrice } from '../utils/instruments';
+import { t } from '../utils/i18n';
+import { usePlotFrame } from './plotFrame';
+
+interface Props {
+  data: PriceData[];
+  zones: SRZone[];
+  startIndex: number;
+  endIndex: number;
+  symbol: string;
+}
+
+const ROLE_COLORS: Record<SRZone['role'], string> = {
+  SUPPORT: '#10b981',
+  RESISTANCE: '#ef4444',
+};
+
+// Support/resistance bands from the zone's first pivot to the right edge.
+// Broken zones are drawn faint and dashed until price comes back to them.
+export const ZoneLayer: React.FC<Props> = ({ data, zones, startIndex, endIndex, symbol }) => {
+  const { plot, yScale } = usePlotFrame();
+  if (!plot || !yScale) return null;
+
+  const visibleCount = Math.max(1, endIndex - startIndex + 1);
+  const bandWidth = plot.width / visibleCount;
+  const maxWeight = Math.max(1, ...zones.map((z: SRZone) => z.weight));
+
+  return (
+    <g>
+      {zones.map((zone: SRZone) => {
+        const top = yScale(zone.high);
+        const bottom = yScale(zone.low);
+        if (top === undefined || bottom === undefined || bottom < plot.y || top > plot.y + plot.height) return null;
+        const first = zone.firstTimestamp === undefined ? -1 : data.findIndex(d => d.timestamp === zone.firstTimestamp);
+        if (first > endIndex) return null;
+        const left = first <= startIndex ? plot.x : plot.x + (first - startIndex) * bandWidth;
+        const y = Math.max(plot.y, top);
+        const height = Math.max(2, Math.min(plot.y + plot.height, bottom) - y);
+        const color = ROLE_COLORS[zone.role];
+        const broken = zone.status === 'BROKEN';
+        return (
+          <g key={`${zone.firstTimestamp}-${zone.low}`}>
+            <title>
+              {`${t(`zone.${zone.role}`)} ${formatPrice(zone.low, symbol)}–${formatPrice(zone.high, symbol)} · ${t(`zone.${zone.status}`)} · ${t('zone.touches', { count: zone.touches })}`}
+            </title>
+            <rect
+              x={left}
+              y={y}
+              width={Math.max(1, plot.x + plot.width - left)}
+              height={height}
+              fill={color}
+              fillOpacity={broken ? 0.03 : 0.05 + 0.1 * (zone.weight / maxWeight)}
+              stroke={color}
+              strokeOpacity={broken ? 0.2 : 0.35}
+              strokeDasharray={broken ? '3 5' : undefined}
+            />
+            <text x={plot.x + plot.width - 4} y={y + 9} textAnchor="end" fill={color} fontSize={8} fontWeight={900} opacity={broken ? 0.4 : 0.8}>
+              {`${zone.role === 'SUPPORT' ? 'S' : 'R'}${zone.status === 'FLIPPED' ? '↺' : ''} ×${zone.touches}`}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
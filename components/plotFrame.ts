@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { usePlotArea, useYAxisInverseScale, useYAxisScale } from 'recharts';
+
+export interface PlotFrame {
+  plot: { x: number; y: number; width: number; height: number };
+  yScale: (price: number) => number;
+  yInverse: (y: number) => number;
+}
+
+// Set by the canvas renderer for the SVG layers drawn over it.
+export const PlotFrameContext = createContext<PlotFrame | null>(null);
+
+// Plot area and price scale for chart layers: from the canvas renderer when
+// inside one, otherwise from the recharts chart the layer is a child of.
+export const usePlotFrame = () => {
+  const frame = useContext(PlotFrameContext);
+  const plot = usePlotArea();
+  const yScale = useYAxisScale();
+  const yInverse = useYAxisInverseScale();
+  return frame ?? { plot, yScale, yInverse };
+};
@@ -0,0 +1,135 @@
+// Minimal price server speaking the protocol documented in
+// services/feeds/websocketFeed.ts. No dependencies: run with
+//   npm run feed:mock            (listens on ws://localhost:8787)
+//   PORT=9000 npm run feed:mock
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TICK_MS = Number(process.env.TICK_MS ?? 2000);
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const TIMEFRAME_MS = { '1M': 60000, '5M': 300000, '15M': 900000, '1H': 3600000, '4H': 14400000 };
+const BASE_PRICES = { 'EUR/USD': 1.0854, 'GBP/USD': 1.2645, 'USD/JPY': 149.23, 'BTC/USD': 52140 };
+
+// Each series advances one bar per tick, independent of wall-clock time.
+const series = new Map();
+
+const nextBar = (prev, interval) => {
+  const volatility = prev.c * 0.0004;
+  const c = prev.c + (Math.random() - 0.5) * volatility;
+  const spike = Math.random() > 0.95 ? 4.5 : Math.random() > 0.8 ? 2.5 : 1;
+  return {
+    t: prev.t + interval,
+    o: prev.c,
+    h: Math.max(prev.c, c) + Math.random() * volatility * 0.4,
+    l: Math.min(prev.c, c) - Math.random() * volatility * 0.4,
+    c,
+    v: Math.floor((Math.random() * 1000 + 400) * spike),
+  };
+};
+
+const getSeries = (symbol, timeframe) => {
+  const key = `${symbol}|${timeframe}`;
+  if (!series.has(key)) {
+    const interval = TIMEFRAME_MS[timeframe];
+    const start = Math.floor(Date.now() / interval) * interval - 30000 * interval;
+    const bars = [{ t: start, o: BASE_PRICES[symbol], h: BASE_PRICES[symbol], l: BASE_PRICES[symbol], c: BASE_PRICES[symbol], v: 500 }];
+    for (let i = 1; i < 30000; i++) bars.push(nextBar(bars[i - 1], interval));
+    series.set(key, bars);
+  }
+  return series.get(key);
+};
+
+const encodeFrame = (text) => {
+  const payload = Buffer.from(text);
+  const len = payload.length;
+  const header = len < 126 ? Buffer.from([0x81, len])
+    : len < 65536 ? Buffer.from([0x81, 126, len >> 8, len & 255])
+    : Buffer.concat([Buffer.from([0x81, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(len)); return b; })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Yields complete frames from the buffer; returns the unconsumed remainder.
+const decodeFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    let len = buffer[1] & 0x7f;
+    let offset = 2;
+    if (len === 126) { len = buffer.readUInt16BE(2); offset = 4; }
+    else if (len === 127) { len = Number(buffer.readBigUInt64BE(2)); offset = 10; }
+    const masked = (buffer[1] & 0x80) !== 0;
+    const total = offset + (masked ? 4 : 0) + len;
+    if (buffer.length < total) break;
+    const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+    const payload = Buffer.from(buffer.subarray(total - len, total));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(total);
+  }
+  return buffer;
+};
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket only\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  const accept = createHash('sha1').update(key + GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+  const subscriptions = new Set();
+  const send = (message) => socket.writable && socket.write(encodeFrame(JSON.stringify(message)));
+
+  const handle = (message) => {
+    const { type, symbol, timeframe } = message;
+    if (type !== 'subscribe' && type !== 'unsubscribe' && type !== 'history') return;
+    if (!BASE_PRICES[symbol] || !TIMEFRAME_MS[timeframe]) {
+      send({ type: 'error', requestId: message.requestId, message: `unknown symbol/timeframe ${symbol} ${timeframe}` });
+      return;
+    }
+    if (type === 'subscribe') subscriptions.add(`${symbol}|${timeframe}`);
+    if (type === 'unsubscribe') subscriptions.delete(`${symbol}|${timeframe}`);
+    if (type === 'history') {
+      const bars = getSeries(symbol, timeframe);
+      const after = message.since !== undefined ? bars.filter(b => b.t > message.since) : bars;
+      const from = message.before !== undefined ? after.filter(b => b.t < message.before) : after;
+      send({ type: 'history', requestId: message.requestId, bars: from.slice(-(message.count ?? 60)) });
+    }
+  };
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x8) socket.end(Buffer.from([0x88, 0]));
+      else if (opcode === 0x9) socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+      else if (opcode === 0x1) {
+        try { handle(JSON.parse(payload.toString())); } catch { send({ type: 'error', message: 'malformed message' }); }
+      }
+    });
+  });
+
+  const heartbeat = setInterval(() => send({ type: 'heartbeat', t: Date.now() }), 10000);
+  const stream = setInterval(() => {
+    subscriptions.forEach(key => {
+      const [symbol, timeframe] = key.split('|');
+      const bars = getSeries(symbol, timeframe);
+      send({ type: 'bar', symbol, timeframe, bar: bars[bars.length - 1] });
+    });
+  }, TICK_MS);
+
+  socket.on('close', () => { clearInterval(heartbeat); clearInterval(stream); });
+  socket.on('error', () => socket.destroy());
+});
+
+// Series advance whether or not anyone is listening, so reconnecting clients see a gap to fill.
+setInterval(() => {
+  series.forEach((bars, key) => {
+    const interval = TIMEFRAME_MS[key.split('|')[1]];
+    bars.push(nextBar(bars[bars.length - 1], interval));
+    if (bars.length > 40000) bars.shift();
+  });
+}, TICK_MS);
+
+server.listen(PORT, () => console.log(`Mock feed listening on ws://localhost:${PORT}`));
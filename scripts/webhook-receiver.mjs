@@ -0,0 +1,42 @@
+// Local receiver for the JSON webhook and chat channels (payload documented in
+// services/deliveryChannel.ts). Prints every delivery. No dependencies: run with
+//   npm run webhook:mock              (listens on http://localhost:8788/hook)
+//   FAIL_RATE=0.5 npm run webhook:mock   answers 500 to half the requests, to exercise retries
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8788);
+const FAIL_RATE = Number(process.env.FAIL_RATE ?? 0);
+
+// The dashboard posts from the browser, so the preflight has to succeed.
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, CORS);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const failed = Math.random() < FAIL_RATE;
+    let payload;
+    try { payload = JSON.parse(body); } catch { payload = body; }
+    console.log(`${new Date().toISOString()} ${req.url} ${failed ? '-> 500' : '-> 200'}`);
+    console.log(JSON.stringify(payload, null, 2));
+    res.writeHead(failed ? 500 : 200, { ...CORS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: !failed }));
+  });
+});
+
+server.listen(PORT, () => console.log(`Webhook receiver listening on http://localhost:${PORT}/hook`));
@@ -0,0 +1,131 @@
+import { DeliveryChannel, DeliveryEvent, DeliveryLogEntry, Signal } from '../types';
+import { DeliveryMessage, describeDelivery } from './deliveryChannel';
+import { createDeliverySender } from './delivery';
+import { t } from '../utils/i18n';
+
+export interface AlertDispatcher {
+  dispatch: (event: DeliveryEvent) => void;
+  // Sends a sample message to one channel, ignoring its filters and rate limit.
+  test: (channel: DeliveryChannel) => void;
+  setChannels: (channels: DeliveryChannel[]) => void;
+  getLog: () => DeliveryLogEntry[];
+  clearLog: () => void;
+  onLogChange: (listener: (log: DeliveryLogEntry[]) => void) => () => void;
+}
+
+const STRENGTH_RANK: Record<Signal['strength'], number> = { STRONG: 2, MODERATE: 1, WEAK: 0 };
+// Delay before each retry; a delivery is given up after the last one.
+const RETRY_DELAYS_MS = [2000, 10000, 30000];
+const RATE_WINDOW_MS = 60000;
+const MAX_LOG = 100;
+
+export const matchesFilter = (channel: DeliveryChannel, event: DeliveryEvent): boolean => {
+  const { filter } = channel;
+  const asset = event.kind === 'signal' ? event.signal.asset : event.alert.symbol;
+  if (filter.assets.length > 0 && !filter.assets.includes(asset)) return false;
+  if (event.kind === 'alert') return filter.userAlerts;
+  if (event.signal.type === 'TREND_CHANGE' && !filter.trendChanges) return false;
+  return STRENGTH_RANK[event.signal.strength] >= STRENGTH_RANK[filter.minStrength];
+};
+
+// Fans signals and user alerts out to the configured channels. Each delivery
+// gets one log entry that is updated as it is retried, so the log reads as
+// "what happened to this alert on this channel".
+export const createAlertDispatcher = (initial: DeliveryChannel[]): AlertDispatcher => {
+  let channels = initial;
+  let log: DeliveryLogEntry[] = [];
+  const sent = new Map<string, number[]>();
+  const listeners = new Set<(log: DeliveryLogEntry[]) => void>();
+
+  const notify = () => listeners.forEach(l => l(log));
+
+  const upsert = (entry: DeliveryLogEntry) => {
+    log = [entry, ...log.filter(e => e.id !== entry.id)].slice(0, MAX_LOG);
+    notify();
+  };
+
+  // Sliding one-minute window per channel.
+  const takeSlot = (channel: DeliveryChannel, now: number): boolean => {
+    const recent = (sent.get(channel.id) ?? []).filter(at => now - at < RATE_WINDOW_MS);
+    if (recent.length >= channel.filter.maxPerMinute) {
+      sent.set(channel.id, recent);
+      return false;
+    }
+    sent.set(channel.id, [...recent, now]);
+    return true;
+  };
+
+  const deliver = (channel: DeliveryChannel, message: DeliveryMessage, event: DeliveryEvent | null, attempt: number) => {
+    const sender = createDeliverySender(channel.target);
+    const entry: DeliveryLogEntry = {
+      id: `${channel.id}:${message.id}`,
+      channelId: channel.id,
+      channelName: channel.name,
+      title: message.title,
+      status: 'SENDING',
+      attempts: attempt,
+      updatedAt: Date.now()
+    };
+    upsert(entry);
+    sender.send(message, event)
+      .then(() => upsert({ ...entry, status: 'SENT', updatedAt: Date.now() }))
+      .catch(error => {
+        const delay = RETRY_DELAYS_MS[attempt - 1];
+        const failed = { ...entry, error: (error as Error).message, updatedAt: Date.now() };
+        if (delay === undefined) {
+          upsert({ ...failed, status: 'FAILED' });
+          return;
+        }
+        upsert({ ...failed, status: 'RETRYING', nextRetryAt: Date.now() + delay });
+        setTimeout(() => {
+          // Channels removed or disabled in the meantime are not retried.
+          const current = channels.find(c => c.id === channel.id && c.enabled);
+          if (current) deliver(current, message, event, attempt + 1);
+          else upsert({ ...failed, status: 'FAILED', error: t('delivery.channelDisabled', { error: failed.error }) });
+        }, delay);
+      });
+  };
+
+  return {
+    dispatch: event => {
+      const now = Date.now();
+      const targets = channels.filter(c => c.enabled && matchesFilter(c, event));
+      if (targets.length === 0) return;
+      const message = describeDelivery(event);
+      targets.forEach(channel => {
+        if (takeSlot(channel, now)) {
+          deliver(channel, message, event, 1);
+        } else {
+          upsert({
+            id: `${channel.id}:${message.id}`,
+            channelId: channel.id,
+            channelName: channel.name,
+            title: message.title,
+            status: 'RATE_LIMITED',
+            attempts: 0,
+            error: t('delivery.rateLimit', { count: channel.filter.maxPerMinute }),
+            updatedAt: now
+          });
+        }
+      });
+    },
+    test: channel => deliver(channel, {
+      id: `test-${Date.now()}`,
+      title: t('delivery.testTitle'),
+      body: t('delivery.testBody', { name: channel.name }),
+      asset: 'TEST'
+    }, null, 1),
+    setChannels: next => {
+      channels = next;
+    },
+    getLog: () => log,
+    clearLog: () => {
+      log = [];
+      notify();
+    },
+    onLogChange: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
@@ -0,0 +1,40 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisProvider, ANALYSIS_SYSTEM_INSTRUCTION, buildAnalysisPrompt, validateAnalysis } from '../analysisProvider';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export const createGeminiProvider = (model: string = DEFAULT_GEMINI_MODEL): AnalysisProvider => {
+  const name = `Gemini (${model})`;
+
+  return {
+    name,
+    analyze: async context => {
+      // Always use process.env.API_KEY for Gemini API
+      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildAnalysisPrompt(context),
+        config: {
+          systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              trend: { type: Type.STRING, description: "BULLISH, BEARISH, or NEUTRAL" },
+              confidence: { type: Type.NUMBER, description: "Scale 0 to 1" },
+              reasoning: { type: Type.STRING },
+              signal: { type: Type.STRING, description: "BUY, SELL, or WAIT" },
+              entryLow: { type: Type.NUMBER, description: "Lower bound of the entry zone" },
+              entryHigh: { type: Type.NUMBER, description: "Upper bound of the entry zone" },
+              stopLoss: { type: Type.NUMBER },
+              takeProfits: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Nearest first" },
+              invalidation: { type: Type.STRING, description: "Condition that invalidates the plan" }
+            },
+            required: ["trend", "confidence", "reasoning", "signal"]
+          }
+        }
+      });
+      return validateAnalysis(response.text ?? '', name, context);
+    }
+  };
+};
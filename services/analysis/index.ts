@@ -0,0 +1,42 @@
+import { DetectionSettings } from '../../types';
+import { AnalysisProvider } from '../analysisProvider';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createRuleBasedProvider } from './ruleBasedProvider';
+
+export type AnalysisConfig =
+  | { kind: 'gemini'; model: string }
+  | { kind: 'openai'; baseUrl: string; model: string; apiKey?: string }
+  | { kind: 'rules' };
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = { kind: 'gemini', model: DEFAULT_GEMINI_MODEL };
+export const DEFAULT_OPENAI_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+const STORAGE_KEY = 'analysis-provider';
+
+export const createAnalysisProvider = (config: AnalysisConfig, detection?: DetectionSettings): AnalysisProvider => {
+  switch (config.kind) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config.baseUrl, config.model, config.apiKey);
+    case 'rules':
+      return createRuleBasedProvider(detection);
+    default:
+      return createGeminiProvider(config.model);
+  }
+};
+
+export const loadAnalysisConfig = (): AnalysisConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && ['gemini', 'openai', 'rules'].includes(parsed.kind) ? parsed : DEFAULT_ANALYSIS_CONFIG;
+  } catch (error) {
+    console.error('Analysis config error:', error);
+    return DEFAULT_ANALYSIS_CONFIG;
+  }
+};
+
+export const saveAnalysisConfig = (config: AnalysisConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,51 @@
+import {
+  AnalysisProvider,
+  ANALYSIS_JSON_INSTRUCTION,
+  ANALYSIS_SYSTEM_INSTRUCTION,
+  buildAnalysisPrompt,
+  validateAnalysis
+} from '../analysisProvider';
+
+const REQUEST_TIMEOUT_MS = 60000;
+
+// Any server exposing the OpenAI `/chat/completions` route: OpenAI itself,
+// or a local model server such as Ollama, LM Studio or llama.cpp.
+export const createOpenAICompatibleProvider = (baseUrl: string, model: string, apiKey?: string): AnalysisProvider => {
+  const name = `${model} @ ${baseUrl.replace(/^https?:\/\//, '')}`;
+
+  return {
+    name,
+    analyze: async context => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      try {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model,
+            temperature: 0.2,
+            response_format: { type: 'json_object' },
+            messages: [
+              { role: 'system', content: `${ANALYSIS_SYSTEM_INSTRUCTION} ${ANALYSIS_JSON_INSTRUCTION}` },
+              { role: 'user', content: buildAnalysisPrompt(context) }
+            ]
+          })
+        });
+        if (!response.ok) throw new Error(`${name}: HTTP ${response.status}`);
+        const body = await response.json();
+        return validateAnalysis(body?.choices?.[0]?.message?.content ?? '', name, context);
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') throw new Error(`${name}: tempo esgotado`);
+        if (error instanceof TypeError) throw new Error(`${name}: falha de conexão`);
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+};
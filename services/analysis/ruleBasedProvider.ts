@@ -0,0 +1,113 @@
+import { AnalysisSignal, DetectionSettings, MarketTrend, PriceData } from '../../types';
+import { calculateATR, calculateWyckoffTarget, detectBreakouts } from '../../utils/marketLogic';
+import { classifyAlignment, DEFAULT_TREND_SETTINGS, trendLabel } from '../../utils/trend';
+import { DEFAULT_DETECTION_SETTINGS } from '../../utils/detectionSettings';
+import { formatPrice } from '../../utils/instruments';
+import { formatNumber, t } from '../../utils/i18n';
+import { AnalysisProvider, validateAnalysis } from '../analysisProvider';
+
+const NAME = 'Regras (offline)';
+const ENTRY_ZONE_ATR = 0.25;
+const STOP_ATR = 1.5;
+const BREAKOUT_STOP_ATR = 0.5;
+const MAX_TARGETS = 3;
+
+const lastATR = (data: PriceData[]): number => {
+  const atr = data[data.length - 1]?.indicators?.atr;
+  if (atr !== undefined) return atr;
+  const series = calculateATR(data);
+  return series[series.length - 1] ?? 0;
+};
+
+// Deterministic analysis from the same EMA alignment, volume and Wyckoff logic
+// the scanner uses. Needs no network, so it also backs the offline mode.
+export const createRuleBasedProvider = (settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS): AnalysisProvider => ({
+  name: NAME,
+  analyze: async context => {
+    const { asset, data, levels, higherTimeframe, wyckoff } = context;
+    const last = data[data.length - 1];
+    if (!last) throw new Error(`${NAME}: sem dados`);
+
+    const trend = classifyAlignment(last, last.close * DEFAULT_TREND_SETTINGS.bandRatio);
+    const breakout = detectBreakouts(data, settings.breakoutLookback, settings.volumeConfirmRatio);
+    const target = context.wyckoffTarget ?? calculateWyckoffTarget(data, settings.wyckoffWindow, settings.wyckoffMultiplier);
+    const recent = data.slice(-(settings.breakoutLookback + 1), -1);
+    const avgVolume = recent.length > 0 ? recent.reduce((acc, d) => acc + d.volume, 0) / recent.length : last.volume;
+    const volumeRatio = avgVolume > 0 ? last.volume / avgVolume : 1;
+
+    let signal: AnalysisSignal = 'WAIT';
+    let confidence = 0.4;
+    const reasons = [t('rules.alignment', { trend: trendLabel(trend).toLowerCase() })];
+
+    if (breakout) {
+      const up = breakout.type === 'BREAKOUT_UP';
+      const against = up ? trend === MarketTrend.BEARISH : trend === MarketTrend.BULLISH;
+      reasons.push(t(up ? 'rules.breakoutUp' : 'rules.breakoutDown', { price: formatPrice(breakout.level, asset), ratio: formatNumber(breakout.volumeRatio, 1) }));
+      if (against) {
+        reasons.push(t('rules.againstTrend'));
+      } else {
+        signal = up ? 'BUY' : 'SELL';
+        confidence = 0.6 + (trend !== MarketTrend.NEUTRAL ? 0.15 : 0) + Math.min(0.15, (breakout.volumeRatio - settings.volumeConfirmRatio) * 0.05);
+      }
+    } else if (trend !== MarketTrend.NEUTRAL && last.ema10 !== undefined) {
+      const withTrend = trend === MarketTrend.BULLISH ? last.close > last.ema10 : last.close < last.ema10;
+      if (withTrend && volumeRatio >= 1) {
+        signal = trend === MarketTrend.BULLISH ? 'BUY' : 'SELL';
+        confidence = 0.5 + Math.min(0.15, (volumeRatio - 1) * 0.1);
+        reasons.push(t('rules.withTrend', { ratio: formatNumber(volumeRatio, 1) }));
+      } else {
+        reasons.push(t('rules.noFollowThrough'));
+      }
+    } else {
+      reasons.push(t('rules.noBreakout'));
+    }
+
+    if (higherTimeframe && signal !== 'WAIT') {
+      const opposing = signal === 'BUY' ? MarketTrend.BEARISH : MarketTrend.BULLISH;
+      if (higherTimeframe.trend === opposing) {
+        confidence -= 0.15;
+        reasons.push(t('rules.htfOpposes', { timeframe: higherTimeframe.timeframe, trend: trendLabel(opposing).toLowerCase() }));
+      } else if (higherTimeframe.trend !== MarketTrend.NEUTRAL) {
+        reasons.push(t('rules.htfConfirms', { timeframe: higherTimeframe.timeframe }));
+      }
+    }
+
+    if (target !== null) reasons.push(t('rules.wyckoffTarget', { price: formatPrice(target, asset) }));
+    if (wyckoff) reasons.push(t('rules.wyckoffPhase', { schematic: t(`wyckoff.${wyckoff.schematic}`).toLowerCase(), phase: wyckoff.phase }));
+
+    const atr = lastATR(data);
+    let plan = {};
+    if (signal !== 'WAIT' && atr > 0) {
+      const sign = signal === 'BUY' ? 1 : -1;
+      const entryEdge = last.close - sign * atr * ENTRY_ZONE_ATR;
+      const fallbackStop = entryEdge - sign * atr * STOP_ATR;
+      const breakoutStop = breakout ? breakout.level - sign * atr * BREAKOUT_STOP_ATR : null;
+      const stopLoss = breakoutStop !== null && (entryEdge - breakoutStop) * sign > 0 ? breakoutStop : fallbackStop;
+      const risk = Math.abs(last.close - stopLoss);
+
+      // Wyckoff and point-and-figure targets and manual levels in the trade's favour, plus a 2R fallback.
+      const candidates = [target, ...(wyckoff?.targets ?? []), ...levels, last.close + sign * risk * 2]
+        .filter((p): p is number => p !== null && (p - last.close) * sign > 0 && Math.abs(p - last.close) <= risk * 4);
+      const takeProfits = [...new Set(candidates)].sort((a, b) => (a - b) * sign).slice(0, MAX_TARGETS);
+
+      plan = {
+        entryLow: Math.min(entryEdge, last.close),
+        entryHigh: Math.max(entryEdge, last.close),
+        stopLoss,
+        takeProfits,
+        invalidation: t(signal === 'BUY' ? 'rules.invalidationBuy' : 'rules.invalidationSell', { price: formatPrice(stopLoss, asset) })
+      };
+    } else if (signal !== 'WAIT') {
+      signal = 'WAIT';
+      reasons.push(t('rules.noAtr'));
+    }
+
+    return validateAnalysis({
+      trend,
+      confidence: Number(Math.max(0.05, Math.min(0.95, confidence)).toFixed(2)),
+      reasoning: reasons.join(' '),
+      signal,
+      ...plan
+    }, NAME, context);
+  }
+});
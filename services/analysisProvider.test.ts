@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { MarketTrend, PriceData } from '../types';
+import { AnalysisContext, validateAnalysis } from './analysisProvider';
+
+const bar = (close: number, i: number): PriceData => ({
+  time: `10:${String(i).padStart(2, '0')}`,
+  timestamp: 1_700_000_000_000 + i * 60000,
+  open: close,
+  high: close + 0.0005,
+  low: close - 0.0005,
+  close,
+  volume: 1000,
+});
+
+const context: AnalysisContext = {
+  asset: 'EUR/USD',
+  timeframe: '1M',
+  data: Array.from({ length: 30 }, (_, i) => bar(1.08 + i * 0.0001, i)),
+  signals: [],
+  wyckoffTarget: null,
+  levels: [],
+};
+
+const buy = {
+  trend: 'BULLISH',
+  confidence: 0.7,
+  reasoning: 'Higher highs on rising volume',
+  signal: 'BUY',
+  entryLow: 1.0825,
+  entryHigh: 1.0830,
+  stopLoss: 1.0810,
+  takeProfits: [1.0860, 1.0845],
+  invalidation: 'Close below 1.0810',
+};
+
+describe('validateAnalysis', () => {
+  it('accepts a complete plan and orders the targets from the entry outwards', () => {
+    const analysis = validateAnalysis(buy, 'Test', context);
+    expect(analysis.trend).toBe(MarketTrend.BULLISH);
+    expect(analysis.signal).toBe('BUY');
+    expect(analysis.plan?.takeProfits).toEqual([1.0845, 1.0860]);
+  });
+
+  it('parses JSON text wrapped in a code fence and normalises case', () => {
+    const analysis = validateAnalysis('```json\n' + JSON.stringify({ ...buy, trend: 'bullish', signal: 'wait' }) + '\n```', 'Test', context);
+    expect(analysis.signal).toBe('WAIT');
+    expect(analysis.plan).toBeNull();
+  });
+
+  it('rejects confidence outside 0..1', () => {
+    expect(() => validateAnalysis({ ...buy, confidence: 1.5 }, 'Test', context)).toThrow(/Test/);
+    expect(() => validateAnalysis({ ...buy, confidence: -0.1 }, 'Test', context)).toThrow(/Test/);
+    expect(() => validateAnalysis({ ...buy, confidence: '0.5' }, 'Test', context)).toThrow(/Test/);
+  });
+
+  it('rejects unknown signal and trend values', () => {
+    expect(() => validateAnalysis({ ...buy, signal: 'HOLD' }, 'Test', context)).toThrow(/HOLD/);
+    expect(() => validateAnalysis({ ...buy, signal: undefined }, 'Test', context)).toThrow(/Test/);
+    expect(() => validateAnalysis({ ...buy, trend: 'SIDEWAYS' }, 'Test', context)).toThrow(/SIDEWAYS/);
+  });
+
+  it('rejects a stop on the wrong side of the entry zone', () => {
+    expect(() => validateAnalysis({ ...buy, stopLoss: 1.0840 }, 'Test', context)).toThrow(/Test/);
+  });
+});
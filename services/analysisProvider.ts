@@ -0,0 +1,172 @@
+import { AnalysisSignal, MarketAnalysis, MarketTrend, PriceData, Signal, TradePlan, WyckoffRange } from '../types';
+import { getInstrument } from '../utils/instruments';
+import { t } from '../utils/i18n';
+
+export interface AnalysisContext {
+  asset: string;
+  timeframe: string;
+  data: PriceData[];
+  // Recent signals on this asset, newest first.
+  signals: Signal[];
+  wyckoffTarget: number | null;
+  // Current Wyckoff trading range, see utils/wyckoff.ts.
+  wyckoff?: WyckoffRange | null;
+  // Horizontal levels drawn on the chart.
+  levels: number[];
+  higherTimeframe?: { timeframe: string; trend: MarketTrend; last?: PriceData };
+  // Language the reasoning and invalidation text should be written in, e.g. "Spanish".
+  language?: string;
+}
+
+export interface AnalysisProvider {
+  readonly name: string;
+  // Rejects with a readable message when the backend fails or answers with
+  // something that does not pass `validateAnalysis`.
+  analyze: (context: AnalysisContext) => Promise<MarketAnalysis>;
+}
+
+const SIGNALS: AnalysisSignal[] = ['BUY', 'SELL', 'WAIT'];
+const TRENDS = Object.values(MarketTrend) as string[];
+const PROMPT_BARS = 30;
+const PROMPT_SIGNALS = 5;
+// Plan prices further than this fraction from the last close are treated as garbage.
+const MAX_PLAN_DISTANCE = 0.2;
+
+export const ANALYSIS_SYSTEM_INSTRUCTION =
+  'You are a senior Forex Quant Trader specializing in Price Action and Volume Spread Analysis. Provide concise, high-probability signals with a concrete trade plan.';
+
+export const buildAnalysisPrompt = ({ asset, timeframe, data, signals, wyckoffTarget, wyckoff, levels, higherTimeframe, language }: AnalysisContext): string => {
+  const spec = getInstrument(asset);
+  const fmt = (v: number | undefined | null, digits: number = spec.precision) => v === undefined || v === null ? '-' : v.toFixed(digits);
+
+  const marketSummary = data.slice(-PROMPT_BARS).map(d => {
+    const ind = d.indicators ?? {};
+    return `Time: ${d.time}, O: ${fmt(d.open)}, H: ${fmt(d.high)}, L: ${fmt(d.low)}, C: ${fmt(d.close)}, V: ${d.volume}, ` +
+      `EMA10: ${fmt(d.ema10)}, EMA20: ${fmt(d.ema20)}, EMA50: ${fmt(d.ema50)}, ` +
+      `RSI: ${fmt(ind.rsi, 1)}, MACD Hist: ${fmt(ind.macdHist, spec.precision + 1)}, ATR: ${fmt(ind.atr)}, BB: ${fmt(ind.bbLower)}-${fmt(ind.bbUpper)}, VWAP: ${fmt(ind.vwap)}, Stoch %K: ${fmt(ind.stochK, 1)}`;
+  }).join('\n');
+
+  const signalSummary = signals.slice(0, PROMPT_SIGNALS).map(s =>
+    `${s.timestamp.toISOString()} ${s.timeframe ?? ''} ${s.type} ${s.strength} at ${fmt(s.price)}` +
+    (s.level !== undefined ? `, level ${fmt(s.level)}` : '') +
+    (s.volumeRatio !== undefined ? `, volume ${s.volumeRatio.toFixed(1)}x` : '') +
+    (s.vsa ? `, VSA ${s.vsa}` : '') +
+    (s.outcome ? `, outcome ${s.outcome.status}` : '')
+  ).join('\n') || 'None';
+
+  const htf = higherTimeframe
+    ? `${higherTimeframe.timeframe} trend: ${higherTimeframe.trend}` + (higherTimeframe.last
+      ? `, C: ${fmt(higherTimeframe.last.close)}, EMA10: ${fmt(higherTimeframe.last.ema10)}, EMA20: ${fmt(higherTimeframe.last.ema20)}, EMA50: ${fmt(higherTimeframe.last.ema50)}`
+      : '')
+    : 'Unavailable';
+
+  const range = wyckoff
+    ? `${wyckoff.schematic} phase ${wyckoff.phase}${wyckoff.active ? ' (forming)' : ''}, range ${fmt(wyckoff.low)}-${fmt(wyckoff.high)}, ` +
+      `events ${wyckoff.events.map(e => `${e.kind}@${fmt(e.price)}`).join(' ')}, ` +
+      `P&F count ${wyckoff.columns} columns, targets ${wyckoff.targets.length > 0 ? wyckoff.targets.map(p => fmt(p)).join(', ') : 'None'}`
+    : 'None';
+
+  return `Analyze the following ${spec.assetClass === 'FOREX' ? 'Forex' : spec.assetClass.toLowerCase()} market data for ${asset} on the ${timeframe} chart.
+  Identify if there is a strong breakout or trend reversal.
+  Note the alignment of EMA 10, 20, and 50, and whether the higher timeframe agrees.
+  Verify if volume supports the move.
+  Use RSI, Stochastic and MACD histogram for momentum, ATR for volatility, and Bollinger Bands and VWAP for stretch from fair value.
+  For BUY or SELL, give an entry zone, a stop loss beyond the zone, one or more take-profit levels ordered from nearest to farthest, and the condition that invalidates the idea.
+  Use the Wyckoff target, the point-and-figure targets and the manual levels as candidate targets and stops; weigh the Wyckoff phase when judging whether a breakout is likely to hold.
+  Write the reasoning and the invalidation condition in ${language ?? 'English'}; keep the JSON keys and enum values in English.
+  Higher timeframe: ${htf}
+  Projected Wyckoff target: ${fmt(wyckoffTarget)}
+  Wyckoff range: ${range}
+  Manual levels: ${levels.length > 0 ? levels.map(l => fmt(l)).join(', ') : 'None'}
+  Recent signals:
+  ${signalSummary}
+  Data:
+  ${marketSummary}`;
+};
+
+// For backends without structured output the shape has to be spelled out.
+export const ANALYSIS_JSON_INSTRUCTION =
+  'Respond only with a JSON object of the form {"trend": "BULLISH" | "BEARISH" | "NEUTRAL", "confidence": number between 0 and 1, "reasoning": string, "signal": "BUY" | "SELL" | "WAIT", ' +
+  '"entryLow": number, "entryHigh": number, "stopLoss": number, "takeProfits": number[], "invalidation": string}. ' +
+  'The plan fields may be omitted when the signal is WAIT.';
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const validatePlan = (fields: Record<string, unknown>, direction: 'BUY' | 'SELL', lastPrice: number, provider: string): TradePlan => {
+  const { entryLow, entryHigh, stopLoss, takeProfits, invalidation } = fields;
+  if (!isPrice(entryLow) || !isPrice(entryHigh)) throw new Error(t('analysis.invalidZone', { provider }));
+  if (!isPrice(stopLoss)) throw new Error(t('analysis.invalidStop', { provider }));
+  if (!Array.isArray(takeProfits) || takeProfits.length === 0 || !takeProfits.every(isPrice)) {
+    throw new Error(t('analysis.invalidTargets', { provider }));
+  }
+  if (typeof invalidation !== 'string' || invalidation.trim() === '') throw new Error(t('analysis.noInvalidation', { provider }));
+
+  const low = Math.min(entryLow, entryHigh);
+  const high = Math.max(entryLow, entryHigh);
+  const prices = [low, high, stopLoss, ...takeProfits];
+  if (prices.some(p => Math.abs(p - lastPrice) / lastPrice > MAX_PLAN_DISTANCE)) {
+    throw new Error(t('analysis.tooFar', { provider }));
+  }
+
+  const sign = direction === 'BUY' ? 1 : -1;
+  const entryEdge = direction === 'BUY' ? low : high;
+  const exitEdge = direction === 'BUY' ? high : low;
+  if ((entryEdge - stopLoss) * sign <= 0) throw new Error(t('analysis.stopSide', { provider }));
+  if (takeProfits.some(tp => (tp - exitEdge) * sign <= 0)) throw new Error(t('analysis.targetSide', { provider }));
+
+  return {
+    direction,
+    entryLow: low,
+    entryHigh: high,
+    stopLoss,
+    takeProfits: [...takeProfits].sort((a, b) => (a - b) * sign),
+    invalidation: invalidation.trim()
+  };
+};
+
+// Accepts a parsed response or its raw text (optionally wrapped in a code fence).
+export const validateAnalysis = (raw: unknown, provider: string, context: AnalysisContext): MarketAnalysis => {
+  let value = raw;
+  if (typeof value === 'string') {
+    const text = value.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new Error(t('analysis.notJson', { provider }));
+    }
+  }
+  if (!value || typeof value !== 'object') throw new Error(t('analysis.empty', { provider }));
+
+  const fields = value as Record<string, unknown>;
+  const { trend, confidence, reasoning, signal } = fields;
+  const normalizedTrend = typeof trend === 'string' ? trend.toUpperCase() : trend;
+  const normalizedSignal = typeof signal === 'string' ? signal.toUpperCase() : signal;
+  if (typeof normalizedTrend !== 'string' || !TRENDS.includes(normalizedTrend)) {
+    throw new Error(t('analysis.unknownTrend', { provider, value: String(trend) }));
+  }
+  if (typeof normalizedSignal !== 'string' || !SIGNALS.includes(normalizedSignal as AnalysisSignal)) {
+    throw new Error(t('analysis.unknownSignal', { provider, value: String(signal) }));
+  }
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    throw new Error(t('analysis.confidence', { provider, value: String(confidence) }));
+  }
+  if (typeof reasoning !== 'string' || reasoning.trim() === '') {
+    throw new Error(t('analysis.noReasoning', { provider }));
+  }
+
+  const lastPrice = context.data[context.data.length - 1]?.close ?? 0;
+  const plan = normalizedSignal === 'WAIT' || lastPrice <= 0
+    ? null
+    : validatePlan(fields, normalizedSignal as 'BUY' | 'SELL', lastPrice, provider);
+
+  return {
+    asset: context.asset,
+    timeframe: context.timeframe,
+    trend: normalizedTrend as MarketTrend,
+    confidence,
+    reasoning: reasoning.trim(),
+    signal: normalizedSignal as AnalysisSignal,
+    plan,
+    provider
+  };
+};
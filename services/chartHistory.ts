@@ -0,0 +1,40 @@
+import { PriceData } from '../types';
+import { IndicatorParams, withIndicators } from '../utils/indicators';
+import { MarketDataFeed } from './marketDataFeed';
+import { WARMUP_BARS } from './marketScanner';
+
+// Bars fetched per step when the chart is scrolled to its oldest bar, and the
+// most the chart holds. Higher timeframes are built from 1M bars, so a page
+// plus its warm-up has to fit in the aggregated feed's MAX_BASE_BARS.
+export const HISTORY_PAGE_BARS: Record<string, number> = { '1M': 500, '5M': 500, '15M': 500, '1H': 400, '4H': 60 };
+export const MAX_HISTORY_BARS: Record<string, number> = { '1M': 20000, '5M': 10000, '15M': 5000, '1H': 2000, '4H': 500 };
+
+// Appends the scanner's live window to the chart history. Bars that scroll
+// out of the window stay in the history, so it only ever grows.
+export const mergeLiveBars = (history: PriceData[], live: PriceData[]): PriceData[] => {
+  const first = live[0]?.timestamp;
+  if (history.length === 0 || first === undefined) return live;
+  const older = history.filter(d => d.timestamp !== undefined && d.timestamp < first);
+  return older.length === 0 ? live : [...older, ...live];
+};
+
+// Fetches a page of bars before the first bar of `history`, with indicators
+// warmed up on the bars before the page. `exhausted` is set once the feed has
+// nothing older left.
+export const fetchOlderBars = async (
+  feed: MarketDataFeed,
+  symbol: string,
+  timeframe: string,
+  history: PriceData[],
+  params: IndicatorParams
+): Promise<{ bars: PriceData[]; exhausted: boolean }> => {
+  const first = history[0]?.timestamp;
+  const room = (MAX_HISTORY_BARS[timeframe] ?? MAX_HISTORY_BARS['1M']) - history.length;
+  if (first === undefined || room <= 0) return { bars: [], exhausted: true };
+  const count = Math.min(room, HISTORY_PAGE_BARS[timeframe] ?? HISTORY_PAGE_BARS['1M']) + WARMUP_BARS;
+  const fetched = await feed.requestHistory(symbol, timeframe, count, first);
+  const older = fetched.filter(d => d.timestamp !== undefined && d.timestamp < first);
+  const exhausted = older.length < count;
+  const bars = withIndicators(older, params);
+  return { bars: exhausted ? bars : bars.slice(WARMUP_BARS), exhausted };
+};
@@ -0,0 +1,14 @@
+import { DeliverySender, postJson } from '../deliveryChannel';
+
+// Telegram's legacy Markdown only needs these escaped.
+const escapeTelegram = (text: string) => text.replace(/([_*`[])/g, '\\$1');
+
+// Chat-style bodies posted to a configurable URL: a Telegram Bot API
+// `sendMessage` endpoint (https://api.telegram.org/bot<token>/sendMessage) or a
+// Discord webhook, or anything that accepts the same shape.
+export const createChatSender = (format: 'telegram' | 'discord', url: string, chatId?: string): DeliverySender => ({
+  name: format === 'telegram' ? 'Telegram' : 'Discord',
+  send: message => postJson(url, format === 'telegram'
+    ? { chat_id: chatId, text: `*${escapeTelegram(message.title)}*\n${escapeTelegram(message.body)}`, parse_mode: 'Markdown' }
+    : { content: `**${message.title}**\n${message.body}` })
+});
@@ -0,0 +1,14 @@
+import { DeliverySender } from '../deliveryChannel';
+import { t } from '../../utils/i18n';
+
+// Browser notifications; they show even when the tab is in the background.
+// Permission is requested from the settings panel, since browsers only allow
+// the prompt after a user gesture.
+export const createDesktopSender = (): DeliverySender => ({
+  name: t('delivery.kind.desktop'),
+  send: async message => {
+    if (!('Notification' in window)) throw new Error(t('delivery.noNotificationApi'));
+    if (Notification.permission !== 'granted') throw new Error(t('delivery.notificationDenied'));
+    new Notification(message.title, { body: message.body, tag: message.id });
+  }
+});
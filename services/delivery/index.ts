@@ -0,0 +1,64 @@
+import { DeliveryChannel, DeliveryFilter, DeliveryTarget } from '../../types';
+import { DeliverySender } from '../deliveryChannel';
+import { createDesktopSender } from './desktopSender';
+import { createWebhookSender } from './webhookSender';
+import { createChatSender } from './chatSender';
+import { MessageKey, t } from '../../utils/i18n';
+
+export const DEFAULT_DELIVERY_FILTER: DeliveryFilter = {
+  assets: [],
+  minStrength: 'MODERATE',
+  trendChanges: false,
+  userAlerts: true,
+  maxPerMinute: 6,
+};
+
+export const DEFAULT_WEBHOOK_URL = 'http://localhost:8788/hook';
+
+export const DELIVERY_KIND_LABELS: Record<DeliveryTarget['kind'], MessageKey> = {
+  desktop: 'delivery.kind.desktop',
+  webhook: 'delivery.kind.webhook',
+  chat: 'delivery.kind.chat',
+};
+
+const STORAGE_KEY = 'delivery-channels';
+
+export const createDeliverySender = (target: DeliveryTarget): DeliverySender => {
+  switch (target.kind) {
+    case 'webhook':
+      return createWebhookSender(target.url);
+    case 'chat':
+      return createChatSender(target.format, target.url, target.chatId);
+    default:
+      return createDesktopSender();
+  }
+};
+
+export const createDeliveryChannel = (kind: DeliveryTarget['kind']): DeliveryChannel => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: t(DELIVERY_KIND_LABELS[kind]),
+  enabled: true,
+  target: kind === 'desktop'
+    ? { kind }
+    : kind === 'webhook'
+      ? { kind, url: DEFAULT_WEBHOOK_URL }
+      : { kind, format: 'discord', url: '' },
+  filter: DEFAULT_DELIVERY_FILTER,
+});
+
+export const loadDeliveryChannels = (): DeliveryChannel[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.map((c: DeliveryChannel) => ({ ...c, filter: { ...DEFAULT_DELIVERY_FILTER, ...c.filter } }))
+      : [];
+  } catch (error) {
+    console.error('Delivery channels error:', error);
+    return [];
+  }
+};
+
+export const saveDeliveryChannels = (channels: DeliveryChannel[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(channels));
+};
@@ -0,0 +1,7 @@
+import { buildWebhookPayload, DeliverySender, postJson } from '../deliveryChannel';
+
+// Generic JSON webhook; the body is a `WebhookPayload`.
+export const createWebhookSender = (url: string): DeliverySender => ({
+  name: `Webhook ${url.replace(/^https?:\/\//, '')}`,
+  send: (message, event) => postJson(url, buildWebhookPayload(message, event))
+});
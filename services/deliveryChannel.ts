@@ -0,0 +1,136 @@
+import { DeliveryEvent, MarketTrend } from '../types';
+import { formatPrice } from '../utils/instruments';
+import { trendLabel } from '../utils/trend';
+import { t } from '../utils/i18n';
+
+export interface DeliveryMessage {
+  // Stable per event, so receivers can de-duplicate retried deliveries.
+  id: string;
+  title: string;
+  body: string;
+  asset: string;
+  timeframe?: string;
+}
+
+export interface DeliverySender {
+  readonly name: string;
+  // Rejects with a readable message when the delivery failed and may be retried.
+  // `event` is null for test messages.
+  send: (message: DeliveryMessage, event: DeliveryEvent | null) => Promise<void>;
+}
+
+// Body of every generic webhook POST (Content-Type: application/json).
+// `version` is bumped on breaking changes; new optional fields may appear at any time.
+//   type       "signal" | "alert" | "test"
+//   id         stable id of the event; retries repeat it
+//   asset      e.g. "EUR/USD"
+//   timeframe  e.g. "1M"; absent for tests
+//   title      one-line summary in the dashboard language
+//   message    longer description in the dashboard language
+//   sentAt     ISO-8601 time of this attempt
+//   signal     for type "signal": type, strength, price, level, volumeRatio, wyckoffTarget, trend, timestamp
+//   alert      for type "alert": condition, repeat, triggerCount, label
+export interface WebhookPayload {
+  version: 1;
+  type: 'signal' | 'alert' | 'test';
+  id: string;
+  asset: string;
+  timeframe?: string;
+  title: string;
+  message: string;
+  sentAt: string;
+  signal?: {
+    type: string;
+    strength: string;
+    price: number;
+    level?: number;
+    volumeRatio?: number;
+    wyckoffTarget?: number | null;
+    trend?: MarketTrend;
+    timestamp: string;
+  };
+  alert?: {
+    condition: unknown;
+    repeat: boolean;
+    triggerCount: number;
+    label?: string;
+  };
+}
+
+export const describeDelivery = (event: DeliveryEvent): DeliveryMessage => {
+  if (event.kind === 'alert') {
+    const { alert } = event;
+    return {
+      id: `${alert.id}:${alert.triggerCount}`,
+      title: `${t('toast.alertFired')} · ${alert.symbol} ${alert.timeframe}`,
+      body: event.message,
+      asset: alert.symbol,
+      timeframe: alert.timeframe
+    };
+  }
+  const { signal } = event;
+  const label = signal.type === 'TREND_CHANGE'
+    ? t('trend.label', { trend: trendLabel(signal.trend ?? MarketTrend.NEUTRAL) })
+    : t(signal.type === 'BREAKOUT_UP' ? 'app.buy' : 'app.sell');
+  return {
+    id: signal.id,
+    title: `${signal.asset} ${signal.timeframe ?? ''} · ${label} (${signal.strength})`,
+    body: `${signal.details} ${t('app.price', { price: formatPrice(signal.price, signal.asset) })}`,
+    asset: signal.asset,
+    timeframe: signal.timeframe
+  };
+};
+
+export const buildWebhookPayload = (message: DeliveryMessage, event: DeliveryEvent | null): WebhookPayload => {
+  const payload: WebhookPayload = {
+    version: 1,
+    type: event ? event.kind : 'test',
+    id: message.id,
+    asset: message.asset,
+    timeframe: message.timeframe,
+    title: message.title,
+    message: message.body,
+    sentAt: new Date().toISOString()
+  };
+  if (event?.kind === 'signal') {
+    const { signal } = event;
+    payload.signal = {
+      type: signal.type,
+      strength: signal.strength,
+      price: signal.price,
+      level: signal.level,
+      volumeRatio: signal.volumeRatio,
+      wyckoffTarget: signal.wyckoffTarget,
+      trend: signal.trend,
+      timestamp: signal.timestamp.toISOString()
+    };
+  } else if (event?.kind === 'alert') {
+    const { alert } = event;
+    payload.alert = { condition: alert.condition, repeat: alert.repeat, triggerCount: alert.triggerCount, label: alert.label };
+  }
+  return payload;
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// POSTs JSON and fails on network errors, timeouts and non-2xx answers.
+export const postJson = async (url: string, body: unknown): Promise<void> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw new Error(t('delivery.timeout'));
+    // fetch reports refused connections and CORS rejections alike as a TypeError.
+    if (error instanceof TypeError) throw new Error(t('delivery.connection'));
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,76 @@
+import { PriceData } from '../../types';
+import { BASE_TIMEFRAME, aggregateBars, barsPerBucket, bucketStart, createCandleAggregator } from '../../utils/candleAggregator';
+import { withEMAs } from '../../utils/marketLogic';
+import { MarketDataFeed, createFeedCore, feedKey } from '../marketDataFeed';
+
+// Most base bars fetched for one request. Longer higher-timeframe requests are
+// cut to the buckets that fit.
+export const MAX_BASE_BARS = 30000;
+
+const stripIndicators = ({ time, timestamp, open, high, low, close, volume }: PriceData): PriceData =>
+  ({ time, timestamp, open, high, low, close, volume });
+
+// Serves every timeframe from the base timeframe of the wrapped feed, so all
+// charts of a pair show the same market. Higher-timeframe listeners receive
+// the forming bar again on every base bar, with the bucket's open timestamp.
+export const createAggregatedFeed = (base: MarketDataFeed, baseTimeframe: string = BASE_TIMEFRAME): MarketDataFeed => {
+  const aggregators = new Map<string, ReturnType<typeof createCandleAggregator>>();
+  const baseUnsubscribes = new Map<string, () => void>();
+
+  const aggregatorFor = (symbol: string, timeframe: string) => {
+    const key = feedKey(symbol, timeframe);
+    let aggregator = aggregators.get(key);
+    if (!aggregator) {
+      aggregator = createCandleAggregator(timeframe);
+      aggregators.set(key, aggregator);
+    }
+    return aggregator;
+  };
+
+  const core = createFeedCore({
+    onFirstSubscriber: (symbol, timeframe) => {
+      const aggregator = aggregatorFor(symbol, timeframe);
+      baseUnsubscribes.set(feedKey(symbol, timeframe), base.subscribe(symbol, baseTimeframe, bar => {
+        const forming = aggregator.push(stripIndicators(bar));
+        if (forming) core.emit(symbol, timeframe, forming);
+      }));
+    },
+    onLastUnsubscribe: (symbol, timeframe) => {
+      const key = feedKey(symbol, timeframe);
+      baseUnsubscribes.get(key)?.();
+      baseUnsubscribes.delete(key);
+      aggregators.delete(key);
+    }
+  });
+
+  return {
+    get name() { return base.name; },
+    connect: base.connect,
+    disconnect: base.disconnect,
+    getStatus: base.getStatus,
+    onStatusChange: base.onStatusChange,
+    subscribe: (symbol, timeframe, listener) => timeframe === baseTimeframe
+      ? base.subscribe(symbol, timeframe, listener)
+      : core.subscribe(symbol, timeframe, listener),
+    unsubscribe: (symbol, timeframe, listener) => timeframe === baseTimeframe
+      ? base.unsubscribe(symbol, timeframe, listener)
+      : core.unsubscribe(symbol, timeframe, listener),
+    requestHistory: async (symbol, timeframe, count, before) => {
+      if (timeframe === baseTimeframe) return base.requestHistory(symbol, timeframe, count, before);
+
+      const ratio = barsPerBucket(timeframe, baseTimeframe);
+      const buckets = Math.min(count + 1, Math.floor(MAX_BASE_BARS / ratio));
+      const baseBefore = before === undefined ? undefined : bucketStart(before, timeframe);
+      const baseBars = (await base.requestHistory(symbol, baseTimeframe, buckets * ratio, baseBefore)).map(stripIndicators);
+      if (baseBars.length === 0) return [];
+      if (before !== undefined) return withEMAs(aggregateBars(baseBars, timeframe).slice(-count));
+
+      // The last bucket is still forming; seed the live aggregator with it.
+      const aggregator = aggregatorFor(symbol, timeframe);
+      const lastBucket = bucketStart(baseBars[baseBars.length - 1].timestamp!, timeframe);
+      baseBars.filter(b => bucketStart(b.timestamp!, timeframe) === lastBucket).forEach(b => aggregator.push(b));
+
+      return withEMAs(aggregateBars(baseBars, timeframe).slice(-count));
+    }
+  };
+};
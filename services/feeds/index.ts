@@ -0,0 +1,26 @@
+import { PriceData } from '../../types';
+import { MarketDataFeed } from '../marketDataFeed';
+import { createSimulatorFeed } from './simulatorFeed';
+import { createReplayFeed } from './replayFeed';
+import { createWebSocketFeed } from './websocketFeed';
+import { createAggregatedFeed } from './aggregatedFeed';
+
+export type FeedConfig =
+  | { kind: 'simulator' }
+  | { kind: 'replay'; fileName: string; symbol: string; timeframe: string; bars: PriceData[]; speedMs?: number }
+  | { kind: 'websocket'; url: string };
+
+export const DEFAULT_WEBSOCKET_URL = 'ws://localhost:8787';
+
+// Live sources only stream the base timeframe; higher timeframes are resampled
+// from it. A replay file is served as-is in the timeframe it was loaded for.
+export const createFeed = (config: FeedConfig, basePrices: Record<string, number>): MarketDataFeed => {
+  switch (config.kind) {
+    case 'replay':
+      return createReplayFeed(config.fileName, config.symbol, config.timeframe, config.bars, config.speedMs);
+    case 'websocket':
+      return createAggregatedFeed(createWebSocketFeed(config.url));
+    default:
+      return createAggregatedFeed(createSimulatorFeed(basePrices));
+  }
+};
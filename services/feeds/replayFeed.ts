@@ -0,0 +1,66 @@
+import { PriceData } from '../../types';
+import { withEMAs } from '../../utils/marketLogic';
+import { t } from '../../utils/i18n';
+import { MarketDataFeed, createFeedCore } from '../marketDataFeed';
+
+// Replays an imported OHLCV file bar by bar as the given symbol and
+// timeframe. Other pairs on this feed stay empty.
+export const createReplayFeed = (
+  fileName: string,
+  symbol: string,
+  timeframe: string,
+  bars: PriceData[],
+  speedMs: number = 1000
+): MarketDataFeed => {
+  let cursor: number | null = null;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const isReplayed = (s: string, tf: string) => s === symbol && tf === timeframe;
+
+  const stopPlaying = () => {
+    clearInterval(timer);
+    timer = undefined;
+  };
+
+  const startPlaying = (s: string, tf: string) => {
+    if (!isReplayed(s, tf) || timer || core.getStatus() !== 'CONNECTED') return;
+    timer = setInterval(() => {
+      const next = cursor ?? 0;
+      if (next >= bars.length) {
+        stopPlaying();
+        core.setStatus('DISCONNECTED', t('feed.replayEnded'));
+        return;
+      }
+      cursor = next + 1;
+      core.emit(symbol, timeframe, bars[next]);
+    }, speedMs);
+  };
+
+  const core = createFeedCore({
+    onFirstSubscriber: startPlaying,
+    onLastUnsubscribe: (s, tf) => { if (isReplayed(s, tf)) stopPlaying(); }
+  });
+
+  return {
+    name: `Replay: ${fileName}`,
+    connect: () => {
+      core.setStatus(bars.length > 0 ? 'CONNECTED' : 'ERROR', bars.length > 0 ? undefined : t('feed.replayEmpty'));
+      core.subscriptions().forEach(s => startPlaying(s.symbol, s.timeframe));
+    },
+    disconnect: () => {
+      stopPlaying();
+      core.setStatus('DISCONNECTED');
+    },
+    getStatus: core.getStatus,
+    onStatusChange: core.onStatusChange,
+    subscribe: core.subscribe,
+    unsubscribe: core.unsubscribe,
+    requestHistory: async (s, tf, count, before) => {
+      if (!isReplayed(s, tf)) return [];
+      // The first request decides where playback starts; later ones see the bars played so far.
+      if (cursor === null) cursor = Math.min(count, bars.length);
+      const end = before === undefined ? cursor : bars.slice(0, cursor).filter(b => b.timestamp! < before).length;
+      return withEMAs(bars.slice(Math.max(0, end - count), end));
+    }
+  };
+};
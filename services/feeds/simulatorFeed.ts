@@ -0,0 +1,133 @@
+import { PriceData } from '../../types';
+import { TIMEFRAME_MS, formatBarTime, generateMockData, withEMAs } from '../../utils/marketLogic';
+import { t } from '../../utils/i18n';
+import { MarketDataFeed, createFeedCore, feedKey } from '../marketDataFeed';
+
+// Wall-clock delay between simulated bars; 1M runs faster for simulation feel.
+const TICK_INTERVAL_MS: Record<string, number> = { '1M': 3000, '5M': 8000, '15M': 15000 };
+const VOLATILITY_MULT: Record<string, number> = { '1M': 0.0003, '5M': 0.0005, '15M': 0.0008 };
+
+export const nextSimulatedBar = (last: PriceData, timeframe: string): PriceData => {
+  const volatility = last.close * (VOLATILITY_MULT[timeframe] ?? 0.0003);
+  const change = (Math.random() - 0.5) * volatility;
+  const newClose = last.close + change;
+
+  const volumeSpike = Math.random() > 0.95 ? 4.5 : (Math.random() > 0.8 ? 2.5 : 1);
+  const timestamp = (last.timestamp ?? Date.now()) + (TIMEFRAME_MS[timeframe] ?? 60000);
+
+  return {
+    time: formatBarTime(timestamp),
+    timestamp,
+    open: last.close,
+    high: Math.max(last.close, newClose) + Math.random() * (volatility * 0.4),
+    low: Math.min(last.close, newClose) - Math.random() * (volatility * 0.4),
+    close: newClose,
+    volume: Math.floor((Math.random() * 1000 + 400) * volumeSpike)
+  };
+};
+
+// Enough 1M bars to build 120 bars of 4H (60 shown plus indicator warm-up).
+const MAX_RETAINED_BARS = 30000;
+
+export const createSimulatorFeed = (basePrices: Record<string, number>): MarketDataFeed => {
+  // Generated bars are retained so every subscriber of a pair sees the same series.
+  const series = new Map<string, PriceData[]>();
+  const timers = new Map<string, ReturnType<typeof setInterval>>();
+
+  // Opens of bars handed out that are no longer retained: pages served before
+  // the series and bars trimmed off its front. A page before one of them is
+  // joined to its open.
+  const opens = new Map<string, Map<number, number>>();
+
+  const rememberOpens = (key: string, bars: PriceData[]) => {
+    let known = opens.get(key);
+    if (!known) {
+      known = new Map();
+      opens.set(key, known);
+    }
+    bars.forEach(b => known!.set(b.timestamp!, b.open));
+  };
+
+  // `count` bars opening up to `endTime`, shifted so the last one closes at
+  // `open` when given.
+  const generateOlder = (symbol: string, timeframe: string, count: number, endTime: number, open?: number): PriceData[] => {
+    const older = generateMockData(basePrices[symbol] ?? 1, count, timeframe, endTime);
+    const shift = open === undefined ? 0 : open - older[older.length - 1].close;
+    return older.map(({ ema10, ema20, ema50, ...bar }) => ({
+      ...bar,
+      open: bar.open + shift,
+      high: bar.high + shift,
+      low: bar.low + shift,
+      close: bar.close + shift,
+    }));
+  };
+
+  // Longer requests extend the series backwards, up to MAX_RETAINED_BARS,
+  // with the older bars ending at the open of the existing first bar.
+  const seriesFor = (symbol: string, timeframe: string, count: number) => {
+    const key = feedKey(symbol, timeframe);
+    const existing = series.get(key) ?? [];
+    const wanted = Math.min(count, MAX_RETAINED_BARS);
+    if (existing.length >= wanted) return existing;
+
+    const first = existing[0];
+    const endTime = first ? first.timestamp! - (TIMEFRAME_MS[timeframe] ?? 60000) : Date.now();
+    const history = [...generateOlder(symbol, timeframe, wanted - existing.length, endTime, first?.open), ...existing];
+    series.set(key, history);
+    return history;
+  };
+
+  // The `count` bars opening before `before`: retained bars first, then bars
+  // generated older than them and joined to the bar that opens at `before`.
+  const seriesBefore = (symbol: string, timeframe: string, count: number, before: number) => {
+    const key = feedKey(symbol, timeframe);
+    const retained = seriesFor(symbol, timeframe, 1);
+    const kept = retained.filter(b => b.timestamp! < before).slice(-count);
+    if (kept.length === count) return kept;
+
+    const open = kept[0]?.open ?? opens.get(key)?.get(before) ?? retained[0].open;
+    const endTime = (kept[0]?.timestamp ?? before) - (TIMEFRAME_MS[timeframe] ?? 60000);
+    const older = generateOlder(symbol, timeframe, count - kept.length, endTime, open);
+    rememberOpens(key, older);
+    return [...older, ...kept];
+  };
+
+  const startTicking = (symbol: string, timeframe: string) => {
+    const key = feedKey(symbol, timeframe);
+    if (timers.has(key) || core.getStatus() !== 'CONNECTED') return;
+    timers.set(key, setInterval(() => {
+      const bars = seriesFor(symbol, timeframe, 1);
+      const bar = nextSimulatedBar(bars[bars.length - 1], timeframe);
+      bars.push(bar);
+      if (bars.length > MAX_RETAINED_BARS) rememberOpens(key, bars.splice(0, bars.length - MAX_RETAINED_BARS));
+      core.emit(symbol, timeframe, bar);
+    }, TICK_INTERVAL_MS[timeframe] ?? 3000));
+  };
+
+  const stopTicking = (symbol: string, timeframe: string) => {
+    const key = feedKey(symbol, timeframe);
+    clearInterval(timers.get(key));
+    timers.delete(key);
+  };
+
+  const core = createFeedCore({ onFirstSubscriber: startTicking, onLastUnsubscribe: stopTicking });
+
+  return {
+    get name() { return t('feed.simulator'); },
+    connect: () => {
+      core.setStatus('CONNECTED');
+      core.subscriptions().forEach(s => startTicking(s.symbol, s.timeframe));
+    },
+    disconnect: () => {
+      core.subscriptions().forEach(s => stopTicking(s.symbol, s.timeframe));
+      core.setStatus('DISCONNECTED');
+    },
+    getStatus: core.getStatus,
+    onStatusChange: core.onStatusChange,
+    subscribe: core.subscribe,
+    unsubscribe: core.unsubscribe,
+    requestHistory: async (symbol, timeframe, count, before) => withEMAs(before === undefined
+      ? seriesFor(symbol, timeframe, count).slice(-count)
+      : seriesBefore(symbol, timeframe, count, before))
+  };
+};
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_INDICATOR_PARAMS } from '../../utils/indicators';
+import { fetchOlderBars } from '../chartHistory';
+import { createWebSocketFeed } from './websocketFeed';
+
+const INTERVAL = 60000;
+const SERIES = Array.from({ length: 2000 }, (_, i) => ({ t: 1_700_000_000_000 + i * INTERVAL, o: 1.08, h: 1.081, l: 1.079, c: 1.08, v: 1000 }));
+
+// Answers history requests the way scripts/mock-feed-server.mjs does.
+class FakeSocket {
+  static OPEN = 1;
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor() {
+    setTimeout(() => {
+      this.readyState = FakeSocket.OPEN;
+      this.onopen?.();
+    });
+  }
+
+  send(text: string) {
+    const message = JSON.parse(text);
+    if (message.type !== 'history') return;
+    const after = message.since !== undefined ? SERIES.filter(b => b.t > message.since) : SERIES;
+    const from = message.before !== undefined ? after.filter(b => b.t < message.before) : after;
+    const reply = { type: 'history', requestId: message.requestId, bars: from.slice(-message.count) };
+    setTimeout(() => this.onmessage?.({ data: JSON.stringify(reply) }));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+}
+
+describe('websocket feed history', () => {
+  beforeEach(() => vi.stubGlobal('WebSocket', FakeSocket));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('pages back from the first loaded bar', async () => {
+    const feed = createWebSocketFeed('ws://test');
+    feed.connect();
+    let history = await feed.requestHistory('EUR/USD', '1M', 60);
+    expect(history[0].timestamp).toBe(SERIES[SERIES.length - 60].t);
+
+    for (let page = 0; page < 2; page++) {
+      const first = history[0].timestamp!;
+      const older = await fetchOlderBars(feed, 'EUR/USD', '1M', history, DEFAULT_INDICATOR_PARAMS);
+      expect(older.exhausted).toBe(false);
+      expect(older.bars.length).toBe(500);
+      expect(older.bars[older.bars.length - 1].timestamp).toBe(first - INTERVAL);
+      history = [...older.bars, ...history];
+    }
+    expect(history.length).toBe(1060);
+    feed.disconnect();
+  });
+
+  it('marks the history exhausted when the server runs out of older bars', async () => {
+    const feed = createWebSocketFeed('ws://test');
+    feed.connect();
+    const history = (await feed.requestHistory('EUR/USD', '1M', SERIES.length)).slice(300);
+    const older = await fetchOlderBars(feed, 'EUR/USD', '1M', history, DEFAULT_INDICATOR_PARAMS);
+    expect(older.exhausted).toBe(true);
+    expect(older.bars.length).toBe(300);
+    expect(older.bars[older.bars.length - 1].timestamp).toBe(history[0].timestamp! - INTERVAL);
+    feed.disconnect();
+  });
+});
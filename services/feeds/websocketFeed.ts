@@ -0,0 +1,256 @@
+import { PriceData } from '../../types';
+import { TIMEFRAME_MS, formatBarTime, withEMAs } from '../../utils/marketLogic';
+import { t } from '../../utils/i18n';
+import { MarketDataFeed, createFeedCore, feedKey } from '../marketDataFeed';
+
+/*
+ * Wire format (JSON text frames). Bars use epoch milliseconds of the bar open.
+ *
+ * Client -> server
+ *   { "type": "subscribe",   "symbol": "EUR/USD", "timeframe": "1M" }
+ *   { "type": "unsubscribe", "symbol": "EUR/USD", "timeframe": "1M" }
+ *   { "type": "history", "requestId": "r1", "symbol": "EUR/USD", "timeframe": "1M",
+ *     "count": 60, "since": 1700000000000 }            // "since" is optional
+ *   { "type": "history", "requestId": "r2", "symbol": "EUR/USD", "timeframe": "1M",
+ *     "count": 500, "before": 1700000000000 }          // bars opening before "before"
+ *
+ * Server -> client
+ *   { "type": "bar", "symbol": "EUR/USD", "timeframe": "1M",
+ *     "bar": { "t": 1700000060000, "o": 1.08, "h": 1.081, "l": 1.079, "c": 1.0805, "v": 1200 } }
+ *   { "type": "history", "requestId": "r1", "bars": [ { "t": ..., "o": ..., ... } ] }
+ *   { "type": "heartbeat", "t": 1700000060000 }
+ *   { "type": "error", "message": "unknown symbol", "requestId": "r1" }
+ *
+ * A bar with the same "t" as the previous one updates it in place.
+ */
+
+interface WireBar { t: number; o: number; h: number; l: number; c: number; v: number; }
+
+const HISTORY_TIMEOUT_MS = 10000;
+const HEARTBEAT_TIMEOUT_MS = 30000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const isWireBar = (value: unknown): value is WireBar => {
+  if (!value || typeof value !== 'object') return false;
+  const bar = value as Record<string, unknown>;
+  return ['t', 'o', 'h', 'l', 'c', 'v'].every(field => typeof bar[field] === 'number' && Number.isFinite(bar[field]));
+};
+
+const fromWire = (b: WireBar): PriceData => ({
+  time: formatBarTime(b.t), timestamp: b.t, open: b.o, high: b.h, low: b.l, close: b.c, volume: b.v
+});
+
+export const createWebSocketFeed = (url: string): MarketDataFeed => {
+  let socket: WebSocket | null = null;
+  let shouldReconnect = false;
+  let reconnectAttempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setTimeout> | undefined;
+  let requestSeq = 0;
+
+  const pending = new Map<string, { resolve: (bars: PriceData[]) => void; reject: (e: Error) => void; timer: ReturnType<typeof setTimeout> }>();
+  const lastTimestamps = new Map<string, number>();
+  // Serializes emission per key so gap fills land before the bar that exposed them.
+  const emitChains = new Map<string, Promise<void>>();
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const whenConnected = () => new Promise<void>((resolve, reject) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      resolve();
+      return;
+    }
+    if (!shouldReconnect) {
+      reject(new Error(t('feed.disconnected')));
+      return;
+    }
+    const timer = setTimeout(() => {
+      off();
+      reject(new Error(t('feed.connectTimeout')));
+    }, HISTORY_TIMEOUT_MS);
+    const off = core.onStatusChange(status => {
+      if (status !== 'CONNECTED') return;
+      clearTimeout(timer);
+      off();
+      resolve();
+    });
+  });
+
+  const fetchBars = async (symbol: string, timeframe: string, count: number, since?: number, before?: number) => {
+    await whenConnected();
+    return new Promise<PriceData[]>((resolve, reject) => {
+      const requestId = `r${++requestSeq}`;
+      const timer = setTimeout(() => {
+        pending.delete(requestId);
+        reject(new Error(t('feed.historyTimeout')));
+      }, HISTORY_TIMEOUT_MS);
+      pending.set(requestId, { resolve, reject, timer });
+      send({ type: 'history', requestId, symbol, timeframe, count, since, before });
+    });
+  };
+
+  const deliver = (symbol: string, timeframe: string, bar: PriceData) => {
+    const key = feedKey(symbol, timeframe);
+    const last = lastTimestamps.get(key);
+    if (last !== undefined && bar.timestamp! < last) return;
+    lastTimestamps.set(key, bar.timestamp!);
+    core.emit(symbol, timeframe, bar);
+  };
+
+  // Requests the bars missing between the last one seen and `bar`, then emits
+  // them in order. A failed fill still emits the new bar so the stream goes on.
+  const handleBar = (symbol: string, timeframe: string, bar: PriceData) => {
+    const key = feedKey(symbol, timeframe);
+    const chain = (emitChains.get(key) ?? Promise.resolve()).then(async () => {
+      const last = lastTimestamps.get(key);
+      const interval = TIMEFRAME_MS[timeframe] ?? 60000;
+      if (last !== undefined && bar.timestamp! - last > interval) {
+        const missing = Math.ceil((bar.timestamp! - last) / interval);
+        try {
+          const bars = await fetchBars(symbol, timeframe, missing, last);
+          bars.filter(b => b.timestamp! > last && b.timestamp! < bar.timestamp!).forEach(b => deliver(symbol, timeframe, b));
+        } catch (error) {
+          console.warn(`Gap fill failed for ${key}:`, error);
+        }
+      }
+      deliver(symbol, timeframe, bar);
+    });
+    emitChains.set(key, chain);
+  };
+
+  const armHeartbeat = () => {
+    clearTimeout(heartbeatTimer);
+    heartbeatTimer = setTimeout(() => socket?.close(4000, 'heartbeat timeout'), HEARTBEAT_TIMEOUT_MS);
+  };
+
+  // Frames that do not match the wire format are logged and dropped.
+  const handleMessage = (event: MessageEvent) => {
+    armHeartbeat();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(String(event.data));
+    } catch {
+      console.warn('Ignoring malformed feed message:', event.data);
+      return;
+    }
+    if (!parsed || typeof parsed !== 'object') {
+      console.warn('Ignoring malformed feed message:', event.data);
+      return;
+    }
+    const message = parsed as Record<string, unknown>;
+
+    switch (message.type) {
+      case 'bar':
+        if (typeof message.symbol !== 'string' || typeof message.timeframe !== 'string' || !isWireBar(message.bar)) {
+          console.warn('Ignoring malformed bar message:', event.data);
+          return;
+        }
+        handleBar(message.symbol, message.timeframe, fromWire(message.bar));
+        break;
+      case 'history': {
+        const request = typeof message.requestId === 'string' ? pending.get(message.requestId) : undefined;
+        if (!request) return;
+        clearTimeout(request.timer);
+        pending.delete(message.requestId as string);
+        if (!Array.isArray(message.bars)) {
+          request.reject(new Error(t('feed.invalidHistory')));
+          return;
+        }
+        const bars = message.bars.filter(isWireBar);
+        if (bars.length < message.bars.length) console.warn(`Dropped ${message.bars.length - bars.length} malformed history bars`);
+        request.resolve(bars.map(fromWire));
+        break;
+      }
+      case 'error': {
+        const text = typeof message.message === 'string' ? message.message : t('feed.serverError');
+        const request = typeof message.requestId === 'string' ? pending.get(message.requestId) : undefined;
+        if (request) {
+          clearTimeout(request.timer);
+          pending.delete(message.requestId as string);
+          request.reject(new Error(text));
+        } else {
+          core.setStatus(core.getStatus(), text);
+        }
+        break;
+      }
+    }
+  };
+
+  const teardown = () => {
+    clearTimeout(heartbeatTimer);
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+      if (socket.readyState <= WebSocket.OPEN) socket.close(1000, 'client disconnect');
+      socket = null;
+    }
+    pending.forEach(p => { clearTimeout(p.timer); p.reject(new Error(t('feed.connectionClosed'))); });
+    pending.clear();
+  };
+
+  const open = () => {
+    core.setStatus(reconnectAttempts > 0 ? 'RECONNECTING' : 'CONNECTING');
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      core.setStatus('ERROR', (error as Error).message);
+      return;
+    }
+
+    socket.onopen = () => {
+      reconnectAttempts = 0;
+      core.setStatus('CONNECTED');
+      armHeartbeat();
+      // Resubscribing after a reconnect; the first bar received triggers a gap fill.
+      core.subscriptions().forEach(s => send({ type: 'subscribe', ...s }));
+    };
+    socket.onmessage = handleMessage;
+    socket.onerror = () => core.setStatus('ERROR', t('feed.connectionFailed', { url }));
+    socket.onclose = () => {
+      teardown();
+      if (!shouldReconnect) {
+        core.setStatus('DISCONNECTED');
+        return;
+      }
+      const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+      reconnectAttempts++;
+      core.setStatus('RECONNECTING', t('feed.retryIn', { seconds: Math.round(delay / 1000) }));
+      reconnectTimer = setTimeout(open, delay);
+    };
+  };
+
+  const core = createFeedCore({
+    onFirstSubscriber: (symbol, timeframe) => send({ type: 'subscribe', symbol, timeframe }),
+    onLastUnsubscribe: (symbol, timeframe) => {
+      send({ type: 'unsubscribe', symbol, timeframe });
+      lastTimestamps.delete(feedKey(symbol, timeframe));
+      emitChains.delete(feedKey(symbol, timeframe));
+    }
+  });
+
+  return {
+    name: `WebSocket: ${url}`,
+    connect: () => {
+      if (socket) return;
+      shouldReconnect = true;
+      reconnectAttempts = 0;
+      open();
+    },
+    disconnect: () => {
+      shouldReconnect = false;
+      clearTimeout(reconnectTimer);
+      teardown();
+      core.setStatus('DISCONNECTED');
+    },
+    getStatus: core.getStatus,
+    onStatusChange: core.onStatusChange,
+    subscribe: core.subscribe,
+    unsubscribe: core.unsubscribe,
+    requestHistory: async (symbol, timeframe, count, before) => {
+      const bars = await fetchBars(symbol, timeframe, count, undefined, before);
+      if (before === undefined && bars.length > 0) lastTimestamps.set(feedKey(symbol, timeframe), bars[bars.length - 1].timestamp!);
+      return withEMAs(bars);
+    }
+  };
+};
@@ -0,0 +1,79 @@
+import { PriceData } from '../types';
+
+export type FeedStatus = 'CONNECTING' | 'CONNECTED' | 'RECONNECTING' | 'DISCONNECTED' | 'ERROR';
+
+export type BarListener = (bar: PriceData) => void;
+export type StatusListener = (status: FeedStatus, message?: string) => void;
+
+export interface MarketDataFeed {
+  readonly name: string;
+  connect: () => void;
+  disconnect: () => void;
+  getStatus: () => FeedStatus;
+  onStatusChange: (listener: StatusListener) => () => void;
+  // Bars with the timestamp of the last emitted bar are in-place updates of
+  // that bar; newer timestamps open a new bar.
+  subscribe: (symbol: string, timeframe: string, listener: BarListener) => () => void;
+  unsubscribe: (symbol: string, timeframe: string, listener: BarListener) => void;
+  // The latest `count` bars, or with `before` the `count` bars that open
+  // before that timestamp.
+  requestHistory: (symbol: string, timeframe: string, count: number, before?: number) => Promise<PriceData[]>;
+}
+
+export const feedKey = (symbol: string, timeframe: string) => `${symbol}|${timeframe}`;
+
+// Listener and status bookkeeping shared by every adapter. Adapters get
+// notified when the first listener of a key arrives and the last one leaves.
+export const createFeedCore = (hooks: {
+  onFirstSubscriber?: (symbol: string, timeframe: string) => void;
+  onLastUnsubscribe?: (symbol: string, timeframe: string) => void;
+} = {}) => {
+  const listeners = new Map<string, Set<BarListener>>();
+  const statusListeners = new Set<StatusListener>();
+  let status: FeedStatus = 'DISCONNECTED';
+
+  const unsubscribe = (symbol: string, timeframe: string, listener: BarListener) => {
+    const key = feedKey(symbol, timeframe);
+    const set = listeners.get(key);
+    if (!set || !set.delete(listener)) return;
+    if (set.size === 0) {
+      listeners.delete(key);
+      hooks.onLastUnsubscribe?.(symbol, timeframe);
+    }
+  };
+
+  const subscribe = (symbol: string, timeframe: string, listener: BarListener) => {
+    const key = feedKey(symbol, timeframe);
+    let set = listeners.get(key);
+    const isFirst = !set;
+    if (!set) {
+      set = new Set();
+      listeners.set(key, set);
+    }
+    set.add(listener);
+    if (isFirst) hooks.onFirstSubscriber?.(symbol, timeframe);
+    return () => unsubscribe(symbol, timeframe, listener);
+  };
+
+  return {
+    subscribe,
+    unsubscribe,
+    emit: (symbol: string, timeframe: string, bar: PriceData) => {
+      listeners.get(feedKey(symbol, timeframe))?.forEach(l => l(bar));
+    },
+    subscriptions: () => Array.from(listeners.keys()).map(key => {
+      const [symbol, timeframe] = key.split('|');
+      return { symbol, timeframe };
+    }),
+    getStatus: () => status,
+    setStatus: (next: FeedStatus, message?: string) => {
+      if (next === status && !message) return;
+      status = next;
+      statusListeners.forEach(l => l(next, message));
+    },
+    onStatusChange: (listener: StatusListener) => {
+      statusListeners.add(listener);
+      return () => { statusListeners.delete(listener); };
+    }
+  };
+};
@@ -0,0 +1,154 @@
+import { DetectionProfiles, MarketTrend, PriceData } from '../types';
+import { mergeBar } from '../utils/marketLogic';
+import { BarEvaluation, CONFIRMATION_TIMEFRAME, evaluateBar } from '../utils/signalEngine';
+import { INITIAL_TREND_STATE, TrendState, computeTrendState } from '../utils/trend';
+import { DEFAULT_INDICATOR_PARAMS, IndicatorParams, createIndicatorEngine } from '../utils/indicators';
+import { resolveDetectionSettings } from '../utils/detectionSettings';
+import { MarketDataFeed, feedKey } from './marketDataFeed';
+
+export interface ScannerUpdate {
+  symbol: string;
+  timeframe: string;
+  data: PriceData[];
+  trend: MarketTrend;
+  // The bar that produced this update; absent when history was (re)loaded.
+  bar?: PriceData;
+  evaluation?: BarEvaluation;
+}
+
+export interface MarketScanner {
+  getSeries: (symbol: string, timeframe: string) => PriceData[];
+  getTrend: (symbol: string, timeframe: string) => MarketTrend;
+  setRequireConfirmation: (required: boolean) => void;
+  setIndicatorParams: (params: IndicatorParams) => void;
+  setDetectionProfiles: (profiles: DetectionProfiles) => void;
+  stop: () => void;
+}
+
+// Extra history fed through the indicator engine so the slow EMAs and MACD
+// have settled by the first displayed bar.
+export const WARMUP_BARS = 60;
+
+interface SeriesState {
+  raw: PriceData[];
+  data: PriceData[];
+  engine: ReturnType<typeof createIndicatorEngine>;
+  trend: TrendState;
+  loaded: boolean;
+  loading: boolean;
+}
+
+// Keeps a live series for every symbol/timeframe pair on the feed and runs
+// signal detection whenever a bar closes, so pairs off-screen are watched too.
+// A bar counts as closed once a bar with a newer timestamp arrives; until then
+// it may still be updated in place.
+export const createMarketScanner = (
+  feed: MarketDataFeed,
+  symbols: string[],
+  timeframes: string[],
+  maxBars: number,
+  onUpdate: (update: ScannerUpdate) => void,
+  onError: (message: string) => void = () => {}
+): MarketScanner => {
+  const series = new Map<string, SeriesState>();
+  const cleanups: (() => void)[] = [];
+  let stopped = false;
+  let requireConfirmation = false;
+  let indicatorParams = DEFAULT_INDICATOR_PARAMS;
+  let detectionProfiles: DetectionProfiles = {};
+
+  // Re-runs the indicators over the retained bars, e.g. after a parameter change.
+  const rebuild = (state: SeriesState, raw: PriceData[]) => {
+    state.raw = raw;
+    state.engine = createIndicatorEngine(indicatorParams);
+    state.data = raw.map(state.engine.update).slice(-maxBars);
+    // The last bar may still be forming; it is evaluated when it closes.
+    state.trend = computeTrendState(state.data.slice(0, -1));
+  };
+
+  const getTrend = (symbol: string, timeframe: string) =>
+    series.get(feedKey(symbol, timeframe))?.trend.trend ?? MarketTrend.NEUTRAL;
+
+  const loadHistory = (symbol: string, timeframe: string) => {
+    const state = series.get(feedKey(symbol, timeframe))!;
+    if (state.loaded || state.loading) return;
+    state.loading = true;
+    feed.requestHistory(symbol, timeframe, maxBars + WARMUP_BARS)
+      .then(history => {
+        if (stopped) return;
+        rebuild(state, history);
+        state.loaded = true;
+        onUpdate({ symbol, timeframe, data: state.data, trend: state.trend.trend });
+      })
+      .catch(error => {
+        if (!stopped) onError(`${symbol} ${timeframe}: ${error.message}`);
+      })
+      .finally(() => { state.loading = false; });
+  };
+
+  const handleBar = (symbol: string, timeframe: string, bar: PriceData) => {
+    const state = series.get(feedKey(symbol, timeframe))!;
+    if (!state.loaded) return;
+    const prev = state.data;
+    const last = prev[prev.length - 1];
+    if (last?.timestamp !== undefined && bar.timestamp !== undefined && bar.timestamp < last.timestamp) return;
+
+    state.raw = mergeBar(state.raw, bar, maxBars + WARMUP_BARS);
+    const data = mergeBar(prev, state.engine.update(bar), maxBars);
+    state.data = data;
+
+    const isNewBar = bar.timestamp === undefined || bar.timestamp !== prev[prev.length - 1]?.timestamp;
+    if (!isNewBar) {
+      onUpdate({ symbol, timeframe, data, trend: state.trend.trend, bar });
+      return;
+    }
+
+    const confirmationTimeframe = CONFIRMATION_TIMEFRAME[timeframe];
+    const confirmation = confirmationTimeframe && series.has(feedKey(symbol, confirmationTimeframe))
+      ? { timeframe: confirmationTimeframe, trend: getTrend(symbol, confirmationTimeframe), required: requireConfirmation }
+      : undefined;
+    const settings = resolveDetectionSettings(detectionProfiles, symbol, timeframe);
+    const evaluation = evaluateBar(data.slice(0, -1), state.trend, symbol, timeframe, confirmation, settings);
+    state.trend = evaluation.trendState;
+    onUpdate({ symbol, timeframe, data, trend: state.trend.trend, bar, evaluation });
+  };
+
+  symbols.forEach(symbol => timeframes.forEach(timeframe => {
+    series.set(feedKey(symbol, timeframe), {
+      raw: [],
+      data: [],
+      engine: createIndicatorEngine(indicatorParams),
+      trend: INITIAL_TREND_STATE,
+      loaded: false,
+      loading: false
+    });
+    cleanups.push(feed.subscribe(symbol, timeframe, bar => handleBar(symbol, timeframe, bar)));
+    loadHistory(symbol, timeframe);
+  }));
+
+  // Pairs whose history request failed while the feed was down get retried on connect.
+  cleanups.push(feed.onStatusChange(status => {
+    if (status !== 'CONNECTED') return;
+    symbols.forEach(symbol => timeframes.forEach(timeframe => loadHistory(symbol, timeframe)));
+  }));
+
+  return {
+    getSeries: (symbol, timeframe) => series.get(feedKey(symbol, timeframe))?.data ?? [],
+    getTrend,
+    setRequireConfirmation: (required) => { requireConfirmation = required; },
+    setIndicatorParams: (params) => {
+      indicatorParams = params;
+      series.forEach((state, key) => {
+        if (!state.loaded) return;
+        rebuild(state, state.raw);
+        const [symbol, timeframe] = key.split('|');
+        onUpdate({ symbol, timeframe, data: state.data, trend: state.trend.trend });
+      });
+    },
+    setDetectionProfiles: (profiles) => { detectionProfiles = profiles; },
+    stop: () => {
+      stopped = true;
+      cleanups.forEach(cleanup => cleanup());
+    }
+  };
+};
@@ -0,0 +1,90 @@
+import { Signal, SignalFilter } from '../types';
+import { t } from '../utils/i18n';
+
+const DB_NAME = 'forex-signals';
+const DB_VERSION = 1;
+const STORE = 'signals';
+
+export interface SignalJournal {
+  record: (signals: Signal[]) => Promise<void>;
+  query: (filter?: SignalFilter) => Promise<Signal[]>;
+  recent: (limit: number) => Promise<Signal[]>;
+  clear: () => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error(t('journal.unavailable')));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('timestamp', 'timestamp');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const matchesFilter = (signal: Signal, filter: SignalFilter): boolean =>
+  (!filter.asset || signal.asset === filter.asset) &&
+  (!filter.type || signal.type === filter.type) &&
+  (!filter.strength || signal.strength === filter.strength) &&
+  (!filter.from || signal.timestamp >= filter.from) &&
+  (!filter.to || signal.timestamp <= filter.to);
+
+// Every signal ever emitted, newest first. Dates survive the structured clone,
+// so stored signals come back exactly as they were recorded.
+export const createSignalJournal = (): SignalJournal => {
+  let db: Promise<IDBDatabase> | null = null;
+  const database = () => (db ??= openDatabase());
+
+  const readAll = async (range: IDBKeyRange | null, limit?: number): Promise<Signal[]> => {
+    const store = (await database()).transaction(STORE, 'readonly').objectStore(STORE);
+    const index = store.index('timestamp');
+    return new Promise((resolve, reject) => {
+      const results: Signal[] = [];
+      const request = index.openCursor(range, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (limit !== undefined && results.length >= limit)) {
+          resolve(results);
+          return;
+        }
+        results.push(cursor.value);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    record: async (signals) => {
+      const tx = (await database()).transaction(STORE, 'readwrite');
+      signals.forEach(signal => tx.objectStore(STORE).put(signal));
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    },
+    query: async (filter = {}) => {
+      const range = filter.from && filter.to ? IDBKeyRange.bound(filter.from, filter.to)
+        : filter.from ? IDBKeyRange.lowerBound(filter.from)
+        : filter.to ? IDBKeyRange.upperBound(filter.to)
+        : null;
+      return (await readAll(range)).filter(signal => matchesFilter(signal, filter));
+    },
+    recent: (limit) => readAll(null, limit),
+    clear: async () => {
+      const store = (await database()).transaction(STORE, 'readwrite').objectStore(STORE);
+      await requestToPromise(store.clear());
+    }
+  };
+};
@@ -0,0 +1,33 @@
+import { VoiceEngine } from '../voiceEngine';
+import { t } from '../../utils/i18n';
+
+export const listBrowserVoices = (): SpeechSynthesisVoice[] =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis.getVoices() : [];
+
+// The Web Speech API; works offline with the voices installed in the OS.
+export const createBrowserSpeechEngine = (): VoiceEngine => ({
+  get name() { return t('voiceSettings.engine.browser'); },
+  speak: (request, settings) => new Promise<void>((resolve, reject) => {
+    if (!('speechSynthesis' in window)) {
+      reject(new Error(t('voiceEngine.browserUnavailable')));
+      return;
+    }
+    const voices = listBrowserVoices();
+    const utterance = new SpeechSynthesisUtterance(request.text);
+    utterance.lang = settings.language;
+    utterance.volume = settings.volume;
+    const voice = voices.find(v => v.voiceURI === settings.browserVoice)
+      ?? voices.find(v => v.lang === settings.language)
+      ?? voices.find(v => v.lang.startsWith(settings.language.slice(0, 2)));
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => resolve();
+    // Cancelling (preemption) reports an error too; treat it as a normal end.
+    utterance.onerror = e => e.error === 'canceled' || e.error === 'interrupted'
+      ? resolve()
+      : reject(new Error(t('voiceEngine.browserFailed', { error: e.error })));
+    window.speechSynthesis.speak(utterance);
+  }),
+  stop: () => {
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+  }
+});
@@ -0,0 +1,96 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { VoiceEngine, getAudioContext, playBuffer } from '../voiceEngine';
+import { t } from '../../utils/i18n';
+
+const MODEL = "gemini-2.5-flash-preview-tts";
+const SAMPLE_RATE = 24000;
+const MAX_CACHED_PHRASES = 50;
+
+const ATTENTION_PREFIX: Record<string, string> = { pt: 'Atenção', en: 'Attention', es: 'Atención' };
+
+function decodeBase64(base64: string) {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodePcm16(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): AudioBuffer {
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+// Synthesized phrases are cached per voice and text, so repeated alerts
+// ("Oportunidade de COMPRA em EUR/USD...") cost one API call.
+export const createGeminiTtsEngine = (): VoiceEngine => {
+  const cache = new Map<string, Promise<AudioBuffer>>();
+  let stopCurrent: (() => void) | null = null;
+  let generation = 0;
+
+  const synthesize = (text: string, voiceName: string): Promise<AudioBuffer> => {
+    const key = `${voiceName}|${text}`;
+    const cached = cache.get(key);
+    if (cached) {
+      // Re-insert to keep the most recently used phrases at the end.
+      cache.delete(key);
+      cache.set(key, cached);
+      return cached;
+    }
+
+    const pending = (async () => {
+      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName },
+            },
+          },
+        },
+      });
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) throw new Error(t('voiceEngine.geminiNoAudio'));
+      return decodePcm16(decodeBase64(base64Audio), getAudioContext(), SAMPLE_RATE, 1);
+    })();
+
+    cache.set(key, pending);
+    pending.catch(() => cache.delete(key));
+    if (cache.size > MAX_CACHED_PHRASES) cache.delete(cache.keys().next().value!);
+    return pending;
+  };
+
+  return {
+    name: 'Gemini TTS',
+    speak: async (request, settings) => {
+      if (!process.env.API_KEY) throw new Error(t('voiceEngine.geminiNoKey'));
+      const prefix = ATTENTION_PREFIX[settings.language.slice(0, 2)];
+      const run = ++generation;
+      const buffer = await synthesize(prefix ? `${prefix}: ${request.text}` : request.text, settings.geminiVoice);
+      // Stopped while the phrase was being synthesized.
+      if (run !== generation) return;
+      const playback = playBuffer(buffer, settings.volume);
+      stopCurrent = playback.stop;
+      await playback.done;
+      stopCurrent = null;
+    },
+    stop: () => {
+      generation++;
+      stopCurrent?.();
+      stopCurrent = null;
+    }
+  };
+};
@@ -0,0 +1,13 @@
+import { VoiceEngineId } from '../../types';
+import { VoiceEngine } from '../voiceEngine';
+import { createGeminiTtsEngine } from './geminiTtsEngine';
+import { createBrowserSpeechEngine } from './browserSpeechEngine';
+import { createToneEngine } from './toneEngine';
+
+export { listBrowserVoices } from './browserSpeechEngine';
+
+export const createVoiceEngines = (): Record<VoiceEngineId, VoiceEngine> => ({
+  gemini: createGeminiTtsEngine(),
+  browser: createBrowserSpeechEngine(),
+  tone: createToneEngine(),
+});
@@ -0,0 +1,54 @@
+import { VoicePriority } from '../../types';
+import { VoiceEngine, getAudioContext, playBuffer } from '../voiceEngine';
+import { t } from '../../utils/i18n';
+
+// Frequencies (Hz) of the beeps for each priority: rising triad for HIGH.
+const PATTERNS: Record<VoicePriority, number[]> = {
+  HIGH: [660, 880, 1100],
+  NORMAL: [660, 880],
+  LOW: [520],
+};
+const BEEP_SECONDS = 0.14;
+const GAP_SECONDS = 0.06;
+
+const renderPattern = (frequencies: number[]): AudioBuffer => {
+  const ctx = getAudioContext();
+  const step = BEEP_SECONDS + GAP_SECONDS;
+  const buffer = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * step * frequencies.length), ctx.sampleRate);
+  const channel = buffer.getChannelData(0);
+  frequencies.forEach((frequency, n) => {
+    const start = Math.floor(n * step * ctx.sampleRate);
+    const length = Math.floor(BEEP_SECONDS * ctx.sampleRate);
+    for (let i = 0; i < length; i++) {
+      // Short linear fade in/out avoids clicks.
+      const envelope = Math.min(1, i / 200, (length - i) / 200);
+      channel[start + i] = Math.sin((2 * Math.PI * frequency * i) / ctx.sampleRate) * 0.4 * envelope;
+    }
+  });
+  return buffer;
+};
+
+// Synthesized beeps; always available, so it is the last fallback.
+export const createToneEngine = (): VoiceEngine => {
+  const buffers = new Map<VoicePriority, AudioBuffer>();
+  let stopCurrent: (() => void) | null = null;
+
+  return {
+    get name() { return t('voiceSettings.engine.tone'); },
+    speak: async (request, settings) => {
+      let buffer = buffers.get(request.priority);
+      if (!buffer) {
+        buffer = renderPattern(PATTERNS[request.priority]);
+        buffers.set(request.priority, buffer);
+      }
+      const playback = playBuffer(buffer, settings.volume);
+      stopCurrent = playback.stop;
+      await playback.done;
+      stopCurrent = null;
+    },
+    stop: () => {
+      stopCurrent?.();
+      stopCurrent = null;
+    }
+  };
+};
@@ -0,0 +1,50 @@
+import { VoicePriority, VoiceSettings } from '../types';
+
+export interface VoiceRequest {
+  text: string;
+  priority: VoicePriority;
+  // Asset the alert is about; muted assets are skipped.
+  asset?: string;
+  // Requests with the same key are de-duplicated; defaults to the text.
+  key?: string;
+}
+
+export interface VoiceEngine {
+  readonly name: string;
+  // Resolves when playback ends or is stopped; rejects when the engine cannot
+  // speak at all (no API key, no speechSynthesis), so the queue can fall back.
+  speak: (request: VoiceRequest, settings: VoiceSettings) => Promise<void>;
+  stop: () => void;
+}
+
+let sharedContext: AudioContext | null = null;
+
+// One context for every engine; created lazily because browsers only allow
+// audio after a user gesture.
+export const getAudioContext = (): AudioContext => {
+  if (!sharedContext) {
+    sharedContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  }
+  if (sharedContext.state === 'suspended') sharedContext.resume();
+  return sharedContext;
+};
+
+// Plays a buffer through a gain node; resolves when it ends. The returned
+// stop function ends it early.
+export const playBuffer = (buffer: AudioBuffer, volume: number): { done: Promise<void>; stop: () => void } => {
+  const ctx = getAudioContext();
+  const gain = ctx.createGain();
+  gain.gain.value = volume;
+  gain.connect(ctx.destination);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(gain);
+  const done = new Promise<void>(resolve => {
+    source.onended = () => {
+      gain.disconnect();
+      resolve();
+    };
+  });
+  source.start();
+  return { done, stop: () => source.stop() };
+};
@@ -0,0 +1,102 @@
+import { VoiceEngineId, VoicePriority, VoiceSettings } from '../types';
+import { VoiceEngine, VoiceRequest } from './voiceEngine';
+
+export interface VoiceQueue {
+  enqueue: (request: VoiceRequest) => void;
+  setSettings: (settings: VoiceSettings) => void;
+  // Stops the current phrase and drops everything queued.
+  clear: () => void;
+  onSpeakingChange: (listener: (speaking: boolean) => void) => () => void;
+}
+
+const PRIORITY_RANK: Record<VoicePriority, number> = { HIGH: 2, NORMAL: 1, LOW: 0 };
+// The same phrase is not repeated within this window.
+const DEDUPE_WINDOW_MS = 20000;
+const MAX_QUEUED = 6;
+const FALLBACK_ORDER: VoiceEngineId[] = ['browser', 'tone'];
+
+const keyOf = (request: VoiceRequest) => request.key ?? request.text;
+
+// Plays one request at a time, highest priority first. A HIGH request cuts off
+// anything lower that is playing. When the configured engine fails the request
+// is retried on the browser voice, then on tones.
+export const createVoiceQueue = (engines: Record<VoiceEngineId, VoiceEngine>, initial: VoiceSettings): VoiceQueue => {
+  let settings = initial;
+  let queue: VoiceRequest[] = [];
+  // `stopped` marks playback cancelled on purpose, so its failure is not retried.
+  let current: { request: VoiceRequest; engine: VoiceEngine; stopped: boolean } | null = null;
+  const recent = new Map<string, number>();
+  const listeners = new Set<(speaking: boolean) => void>();
+
+  const notify = () => listeners.forEach(l => l(current !== null));
+
+  const stopCurrent = () => {
+    if (!current) return;
+    current.stopped = true;
+    current.engine.stop();
+  };
+
+  const play = async (playing: NonNullable<typeof current>) => {
+    const chain = [settings.engine, ...FALLBACK_ORDER.filter(id => id !== settings.engine)];
+    for (const id of chain) {
+      playing.engine = engines[id];
+      try {
+        await playing.engine.speak(playing.request, settings);
+        return;
+      } catch (error) {
+        if (playing.stopped) return;
+        console.warn(`Voice engine ${playing.engine.name} failed:`, error);
+      }
+    }
+  };
+
+  const pump = async () => {
+    if (current || queue.length === 0) return;
+    const next = queue.shift()!;
+    recent.set(keyOf(next), Date.now());
+    const playing = { request: next, engine: engines[settings.engine], stopped: false };
+    current = playing;
+    notify();
+    await play(playing);
+    current = null;
+    notify();
+    pump();
+  };
+
+  const enqueue = (request: VoiceRequest) => {
+    if (request.asset && settings.mutedAssets.includes(request.asset)) return;
+    const key = keyOf(request);
+    const now = Date.now();
+    recent.forEach((at, k) => {
+      if (now - at > DEDUPE_WINDOW_MS) recent.delete(k);
+    });
+    if (recent.has(key) || queue.some(r => keyOf(r) === key) || (current && keyOf(current.request) === key)) return;
+
+    // Stable insert: after every queued request of equal or higher priority.
+    const rank = PRIORITY_RANK[request.priority];
+    const index = queue.findIndex(r => PRIORITY_RANK[r.priority] < rank);
+    queue.splice(index === -1 ? queue.length : index, 0, request);
+    if (queue.length > MAX_QUEUED) queue.pop();
+
+    if (current && rank === PRIORITY_RANK.HIGH && PRIORITY_RANK[current.request.priority] < rank) {
+      stopCurrent();
+    }
+    pump();
+  };
+
+  return {
+    enqueue,
+    setSettings: next => {
+      settings = next;
+      queue = queue.filter(r => !r.asset || !next.mutedAssets.includes(r.asset));
+    },
+    clear: () => {
+      queue = [];
+      stopCurrent();
+    },
+    onSpeakingChange: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
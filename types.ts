@@ -1,6 +1,7 @@
 
 export interface PriceData {
   time: string;
+  timestamp?: number;
   open: number;
   high: number;
   low: number;
@@ -9,16 +10,300 @@ export interface PriceData {
   ema10?: number;
   ema20?: number;
   ema50?: number;
+  indicators?: Record<string, number>;
 }
 
 export interface Signal {
   id: string;
   asset: string;
+  timeframe?: string;
   type: 'BREAKOUT_UP' | 'BREAKOUT_DOWN' | 'TREND_CHANGE';
   strength: 'STRONG' | 'MODERATE' | 'WEAK';
   price: number;
   timestamp: Date;
+  // Open time of the bar that produced the signal; older signals only have `timestamp`.
+  barTimestamp?: number;
   details: string;
+  trend?: MarketTrend;
+  // Indicator values on the signal bar, see utils/indicators.ts.
+  indicators?: Record<string, number>;
+  volumeRatio?: number;
+  // Range high/low that the breakout closed through.
+  level?: number;
+  wyckoffTarget?: number | null;
+  // VSA bar that moved the breakout's strength up or down.
+  vsa?: VsaBarKind;
+  outcome?: SignalOutcome;
+}
+
+// Forward tracking of a breakout: target is the Wyckoff projection, the stop is
+// a close back through the breakout level. Excursions are in price units.
+export interface SignalOutcome {
+  status: 'PENDING' | 'TARGET_HIT' | 'STOPPED' | 'EXPIRED';
+  barsElapsed: number;
+  maxBars: number;
+  mfe: number;
+  mae: number;
+  exitPrice?: number;
+  resolvedAt?: Date;
+}
+
+export interface OutcomeStats {
+  key: string;
+  total: number;
+  targetHits: number;
+  stopped: number;
+  expired: number;
+  hitRate: number | null;
+  avgMfeR: number;
+  avgMaeR: number;
+}
+
+export interface SignalFilter {
+  asset?: string;
+  type?: Signal['type'];
+  strength?: Signal['strength'];
+  from?: Date;
+  to?: Date;
+}
+
+export type AssetClass = 'FOREX' | 'CRYPTO' | 'METAL' | 'INDEX';
+
+export interface InstrumentSpec {
+  symbol: string;
+  assetClass: AssetClass;
+  baseCurrency: string;
+  quoteCurrency: string;
+  // Price distance of one pip (or one point for non-forex instruments).
+  pipSize: number;
+  // Smallest quoted price increment.
+  tickSize: number;
+  // Decimals used when displaying prices.
+  precision: number;
+  // Units of the base asset in one standard lot.
+  contractSize: number;
+  // Smallest tradable lot increment.
+  lotStep: number;
+}
+
+export type DrawingKind = 'hline' | 'trendline' | 'rectangle' | 'fibonacci';
+
+export interface DrawingAnchor {
+  timestamp: number;
+  price: number;
+}
+
+// A user drawing on the price chart. Horizontal levels use only the first anchor's price.
+export interface Drawing {
+  id: string;
+  kind: DrawingKind;
+  anchors: DrawingAnchor[];
+  color: string;
+  label?: string;
+}
+
+export type WyckoffSchematic = 'ACCUMULATION' | 'DISTRIBUTION';
+
+export type WyckoffPhase = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export type WyckoffEventKind = 'SC' | 'BC' | 'AR' | 'ST' | 'SPRING' | 'UT' | 'UTAD' | 'SOS' | 'SOW' | 'LPS' | 'LPSY';
+
+export interface WyckoffEvent {
+  kind: WyckoffEventKind;
+  timestamp: number;
+  price: number;
+  // Which end of the bar the event refers to; labels go above highs and below lows.
+  at: 'high' | 'low';
+}
+
+export interface WyckoffRange {
+  schematic: WyckoffSchematic;
+  phase: WyckoffPhase;
+  startTimestamp: number;
+  // Bar where price left the range, or the last bar while it is still forming.
+  endTimestamp: number;
+  active: boolean;
+  high: number;
+  low: number;
+  events: WyckoffEvent[];
+  // Point-and-figure horizontal count across the range and the move it projects.
+  columns: number;
+  cause: number;
+  // Nearest first, measured from the range edge on the side of the breakout.
+  targets: number[];
+}
+
+// A price band where swing pivots cluster. `role` is what the zone is now:
+// a broken resistance becomes support, and `FLIPPED` means price came back
+// to it after the break and it held.
+export interface SRZone {
+  low: number;
+  high: number;
+  role: 'SUPPORT' | 'RESISTANCE';
+  status: 'ACTIVE' | 'BROKEN' | 'FLIPPED';
+  touches: number;
+  // Summed volume of the pivot bars, and that volume relative to an average pivot.
+  volume: number;
+  weight: number;
+  // Bar timestamps (epoch ms); absent when the bars carry none.
+  firstTimestamp?: number;
+  lastTouchTimestamp?: number;
+  brokenAt?: number;
+}
+
+export type VsaBarKind =
+  | 'NO_DEMAND'
+  | 'NO_SUPPLY'
+  | 'STOPPING_VOLUME'
+  | 'BUYING_CLIMAX'
+  | 'SELLING_CLIMAX'
+  | 'TEST'
+  | 'UPTHRUST'
+  | 'EFFORT_NO_RESULT';
+
+// Volume Spread Analysis reading of one bar; ratios are against the recent average.
+export interface VsaBar {
+  kind: VsaBarKind;
+  // What the bar suggests for the next move, not the bar's own direction.
+  bias: 'BULLISH' | 'BEARISH';
+  volumeRatio: number;
+  spreadRatio: number;
+  // 0 closes on the low, 1 on the high.
+  closePosition: number;
+}
+
+export type AnalysisSignal = 'BUY' | 'SELL' | 'WAIT';
+
+// Take-profits are ordered from nearest to farthest from the entry zone.
+export interface TradePlan {
+  direction: 'BUY' | 'SELL';
+  entryLow: number;
+  entryHigh: number;
+  stopLoss: number;
+  takeProfits: number[];
+  invalidation: string;
+}
+
+export interface MarketAnalysis {
+  asset: string;
+  timeframe: string;
+  trend: MarketTrend;
+  confidence: number;
+  reasoning: string;
+  signal: AnalysisSignal;
+  // Null when the signal is WAIT.
+  plan: TradePlan | null;
+  provider: string;
+}
+
+export type AnalysisState =
+  | { status: 'idle' }
+  | { status: 'loading'; provider: string }
+  | { status: 'ready'; result: MarketAnalysis }
+  | { status: 'error'; provider: string; message: string };
+
+export type VoiceEngineId = 'gemini' | 'browser' | 'tone';
+
+export type VoicePriority = 'HIGH' | 'NORMAL' | 'LOW';
+
+export interface VoiceSettings {
+  engine: VoiceEngineId;
+  geminiVoice: string;
+  // voiceURI of a speechSynthesis voice; empty picks the first one for `language`.
+  browserVoice: string;
+  language: string;
+  volume: number;
+  mutedAssets: string[];
+}
+
+export type AlertCondition =
+  | { kind: 'priceCross'; price: number }
+  // A horizontal drawing; `price` is where it was when the alert was created.
+  | { kind: 'levelCross'; drawingId: string; price: number }
+  | { kind: 'emaCross'; direction: 'up' | 'down' | 'any' }
+  | { kind: 'wyckoffTarget'; price: number };
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  condition: AlertCondition;
+  repeat: boolean;
+  expiresAt: number | null;
+  createdAt: number;
+  active: boolean;
+  triggerCount: number;
+  lastTriggeredAt?: number;
+  // Shown before the condition, e.g. which trade-plan level created the alert.
+  label?: string;
+}
+
+export interface Toast {
+  id: string;
+  title: string;
+  message: string;
+  tone: 'info' | 'success' | 'warning';
+}
+
+export type DeliveryTarget =
+  | { kind: 'desktop' }
+  | { kind: 'webhook'; url: string }
+  | { kind: 'chat'; format: 'telegram' | 'discord'; url: string; chatId?: string };
+
+export interface DeliveryFilter {
+  // Empty means every asset.
+  assets: string[];
+  minStrength: Signal['strength'];
+  trendChanges: boolean;
+  userAlerts: boolean;
+  maxPerMinute: number;
+}
+
+export interface DeliveryChannel {
+  id: string;
+  name: string;
+  enabled: boolean;
+  target: DeliveryTarget;
+  filter: DeliveryFilter;
+}
+
+export type DeliveryEvent =
+  | { kind: 'signal'; signal: Signal }
+  | { kind: 'alert'; alert: PriceAlert; message: string };
+
+export interface DeliveryLogEntry {
+  id: string;
+  channelId: string;
+  channelName: string;
+  title: string;
+  status: 'SENDING' | 'SENT' | 'RETRYING' | 'FAILED' | 'RATE_LIMITED';
+  attempts: number;
+  error?: string;
+  nextRetryAt?: number;
+  updatedAt: number;
+}
+
+export type StopSource = 'breakout' | 'atr' | 'manual';
+
+export interface RiskSettings {
+  equity: number;
+  riskPercent: number;
+  stopSource: StopSource;
+  atrMultiple: number;
+}
+
+export interface PositionSizing {
+  direction: 'BUY' | 'SELL';
+  entry: number;
+  stop: number;
+  target: number | null;
+  stopPips: number;
+  lots: number;
+  units: number;
+  // Account-currency value of one pip for one lot.
+  pipValue: number;
+  moneyAtRisk: number;
+  rewardRisk: number | null;
 }
 
 export interface Asset {
@@ -26,6 +311,7 @@ export interface Asset {
   name: string;
   currentPrice: number;
   change: number;
+  spec: InstrumentSpec;
 }
 
 export enum MarketTrend {
@@ -44,4 +330,84 @@ export interface Order {
   tp: number;
   timestamp: Date;
   status: 'OPEN' | 'CLOSED';
+  signalId?: string;
+  // The base-timeframe bar forming when the order was opened, as it stood then.
+  entryBar?: { timestamp: number; high: number; low: number };
+  closePrice?: number;
+  closedAt?: Date;
+  closeReason?: 'SL' | 'TP' | 'MANUAL';
+  pnl?: number;
+}
+
+export interface AccountSummary {
+  balance: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  equity: number;
+  openCount: number;
+  winRate: number | null;
+}
+
+export type StopRule =
+  | { kind: 'fixedPips'; pips: number }
+  | { kind: 'atr'; multiple: number }
+  | { kind: 'breakoutLevel' };
+
+export type TargetRule =
+  | { kind: 'fixedPips'; pips: number }
+  | { kind: 'atr'; multiple: number }
+  | { kind: 'wyckoff' };
+
+export interface DetectionSettings {
+  breakoutLookback: number;
+  volumeConfirmRatio: number;
+  strongVolumeRatio: number;
+  wyckoffWindow: number;
+  wyckoffMultiplier: number;
+  // Strength levels a supporting or contradicting VSA bar adds or removes; 0 ignores VSA.
+  vsaWeight: number;
+  // Pivot touches a support/resistance zone needs before a close through it counts as a breakout; 0 uses only the lookback extreme.
+  zoneMinTouches: number;
+  voiceCooldownSec: number;
+}
+
+// Partial overrides keyed by '*', '*|<timeframe>', '<symbol>' or '<symbol>|<timeframe>'.
+export type DetectionProfiles = Record<string, Partial<DetectionSettings>>;
+
+export interface BacktestConfig {
+  detection: DetectionSettings;
+  atrPeriod: number;
+  pipSize: number;
+  stop: StopRule;
+  target: TargetRule;
+  initialEquity: number;
+  riskPercent: number;
+}
+
+export interface BacktestTrade {
+  type: 'BUY' | 'SELL';
+  strength: Signal['strength'];
+  entryTime: string;
+  exitTime: string;
+  entryPrice: number;
+  exitPrice: number;
+  sl: number;
+  tp: number;
+  exitReason: 'SL' | 'TP' | 'END';
+  volumeRatio: number;
+  rMultiple: number;
+  pnl: number;
+  barsHeld: number;
+}
+
+export interface BacktestReport {
+  trades: BacktestTrade[];
+  bars: number;
+  winRate: number | null;
+  averageR: number | null;
+  profitFactor: number | null;
+  maxDrawdown: number;
+  netProfit: number;
+  finalEquity: number;
+  equityCurve: { time: string; equity: number }[];
 }
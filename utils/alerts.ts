@@ -0,0 +1,116 @@
+import { AlertCondition, PriceAlert, PriceData } from '../types';
+import { formatPrice } from './instruments';
+import { t } from './i18n';
+
+const STORAGE_KEY = 'price-alerts';
+
+export const ALERT_EXPIRY_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: '1h', ms: 60 * 60000 },
+  { label: '4h', ms: 4 * 60 * 60000 },
+  { label: '24h', ms: 24 * 60 * 60000 },
+  { label: '7d', ms: 7 * 24 * 60 * 60000 },
+  { label: 'never', ms: null },
+];
+
+export const createAlert = (
+  symbol: string,
+  timeframe: string,
+  condition: AlertCondition,
+  repeat: boolean,
+  expiresInMs: number | null
+): PriceAlert => {
+  const now = Date.now();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    symbol,
+    timeframe,
+    condition,
+    repeat,
+    expiresAt: expiresInMs === null ? null : now + expiresInMs,
+    createdAt: now,
+    active: true,
+    triggerCount: 0
+  };
+};
+
+const describeCondition = (alert: PriceAlert, levelPrice?: number): string => {
+  const { condition, symbol } = alert;
+  switch (condition.kind) {
+    case 'priceCross': return t('alert.priceCross', { price: formatPrice(condition.price, symbol) });
+    case 'levelCross': return t('alert.levelCross', { price: formatPrice(levelPrice ?? condition.price, symbol) });
+    case 'emaCross': return t(condition.direction === 'any' ? 'alert.emaCross' : condition.direction === 'up' ? 'alert.emaCrossUp' : 'alert.emaCrossDown');
+    case 'wyckoffTarget': return t('alert.wyckoffTarget', { price: formatPrice(condition.price, symbol) });
+  }
+};
+
+export const describeAlert = (alert: PriceAlert, levelPrice?: number): string => {
+  const condition = describeCondition(alert, levelPrice);
+  return alert.label ? `${alert.label}: ${condition}` : condition;
+};
+
+// Touching the level counts as a cross; starting on it does not.
+const crossed = (previous: number, current: number, level: number) =>
+  previous !== level && (previous - level) * (current - level) <= 0;
+
+export interface AlertContext {
+  timeframe: string;
+  // Last price seen for the symbol and the new one; only set on base timeframe ticks.
+  previousPrice?: number;
+  price?: number;
+  // The two most recent closed bars, present only when a bar has just closed.
+  closed?: [PriceData, PriceData];
+  // Current prices of the alert's horizontal drawings, by drawing id.
+  levels: Record<string, number>;
+}
+
+// Price and level alerts fire on any tick that crosses the level; EMA crosses
+// are only checked on closed bars of the alert's timeframe so a forming bar
+// cannot flip them back and forth.
+export const isTriggered = (alert: PriceAlert, context: AlertContext): boolean => {
+  const { condition } = alert;
+  const { previousPrice, price } = context;
+  const crossedLevel = (level: number) =>
+    previousPrice !== undefined && price !== undefined && crossed(previousPrice, price, level);
+  switch (condition.kind) {
+    case 'priceCross':
+    case 'wyckoffTarget':
+      return crossedLevel(condition.price);
+    case 'levelCross':
+      return crossedLevel(context.levels[condition.drawingId] ?? condition.price);
+    case 'emaCross': {
+      if (!context.closed || context.timeframe !== alert.timeframe) return false;
+      const [prev, last] = context.closed;
+      if (prev.ema10 === undefined || prev.ema20 === undefined || last.ema10 === undefined || last.ema20 === undefined) return false;
+      const wasAbove = prev.ema10 > prev.ema20;
+      const isAbove = last.ema10 > last.ema20;
+      if (wasAbove === isAbove) return false;
+      return condition.direction === 'any' || (condition.direction === 'up') === isAbove;
+    }
+  }
+};
+
+// Returns the alert after a trigger: one-shot alerts disarm, repeating ones stay active.
+export const markTriggered = (alert: PriceAlert, now: number = Date.now()): PriceAlert => ({
+  ...alert,
+  active: alert.repeat,
+  triggerCount: alert.triggerCount + 1,
+  lastTriggeredAt: now
+});
+
+export const isExpired = (alert: PriceAlert, now: number = Date.now()) =>
+  alert.expiresAt !== null && now >= alert.expiresAt;
+
+export const loadAlerts = (): PriceAlert[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Alerts error:', error);
+    return [];
+  }
+};
+
+export const saveAlerts = (alerts: PriceAlert[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(alerts));
+};
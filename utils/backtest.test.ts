@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestConfig, PriceData } from '../types';
+import { DEFAULT_BACKTEST_CONFIG, runBacktest } from './backtest';
+
+const bar = (i: number, open: number, high: number, low: number, close: number, volume = 100): PriceData => ({
+  time: `10:${String(i).padStart(2, '0')}`,
+  timestamp: 1_700_000_000_000 + i * 60000,
+  open,
+  high,
+  low,
+  close,
+  volume,
+});
+
+// 25 quiet bars around 1.1000, then a close at 1.1010 on triple volume.
+const setup = [
+  ...Array.from({ length: 25 }, (_, i) => bar(i, 1.1, 1.1005, 1.0995, 1.1)),
+  bar(25, 1.1, 1.1012, 1.0998, 1.101, 300),
+];
+const quiet = (i: number) => bar(i, 1.1015, 1.1018, 1.1012, 1.1015);
+
+// Stop 10 pips below the entry, target 20 pips above.
+const config: BacktestConfig = {
+  ...DEFAULT_BACKTEST_CONFIG,
+  stop: { kind: 'fixedPips', pips: 10 },
+  target: { kind: 'fixedPips', pips: 20 },
+};
+
+describe('runBacktest', () => {
+  it('enters on the close of the breakout bar', () => {
+    const [trade] = runBacktest([...setup, quiet(26)], config).trades;
+
+    expect(trade.type).toBe('BUY');
+    expect(trade.strength).toBe('STRONG');
+    expect(trade.entryPrice).toBe(1.101);
+    expect(trade.sl).toBeCloseTo(1.1);
+    expect(trade.tp).toBeCloseTo(1.103);
+  });
+
+  it('fills the target and books its R multiple against current equity', () => {
+    const report = runBacktest([...setup, quiet(26), bar(27, 1.1015, 1.1035, 1.1012, 1.1032)], config);
+    const [trade] = report.trades;
+
+    expect(trade.exitReason).toBe('TP');
+    expect(trade.exitPrice).toBeCloseTo(1.103);
+    expect(trade.rMultiple).toBeCloseTo(2);
+    expect(trade.barsHeld).toBe(2);
+    expect(report.finalEquity).toBeCloseTo(10200);
+  });
+
+  it('takes the stop first when one bar reaches both levels', () => {
+    const report = runBacktest([...setup, bar(26, 1.101, 1.104, 1.0995, 1.102)], config);
+    const [trade] = report.trades;
+
+    expect(trade.exitReason).toBe('SL');
+    expect(trade.exitPrice).toBeCloseTo(1.1);
+    expect(trade.rMultiple).toBeCloseTo(-1);
+    expect(report.finalEquity).toBeCloseTo(9900);
+    expect(report.maxDrawdown).toBeCloseTo(0.01);
+  });
+
+  it('closes a position still open at the end of the history on the last close', () => {
+    const report = runBacktest([...setup, quiet(26), quiet(27)], config);
+
+    expect(report.trades).toHaveLength(1);
+    expect(report.trades[0].exitReason).toBe('END');
+    expect(report.trades[0].exitPrice).toBe(1.1015);
+    expect(report.trades[0].rMultiple).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,127 @@
+import { BacktestConfig, BacktestReport, BacktestTrade, PriceData } from '../types';
+import { calculateATR, calculateWyckoffTarget, withEMAs } from './marketLogic';
+import { DEFAULT_DETECTION_SETTINGS, LIVE_BARS } from './detectionSettings';
+import { selectBreakout } from './signalEngine';
+import { checkExit } from './paperTrading';
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  detection: DEFAULT_DETECTION_SETTINGS,
+  atrPeriod: 14,
+  pipSize: 0.0001,
+  stop: { kind: 'atr', multiple: 1.5 },
+  target: { kind: 'wyckoff' },
+  initialEquity: 10000,
+  riskPercent: 1,
+};
+
+const stopDistance = (config: BacktestConfig, entry: number, level: number, atr: number) => {
+  switch (config.stop.kind) {
+    case 'fixedPips': return config.stop.pips * config.pipSize;
+    case 'atr': return config.stop.multiple * atr;
+    case 'breakoutLevel': return Math.abs(entry - level);
+  }
+};
+
+// A Wyckoff target on the wrong side of the entry gives no trade.
+const targetDistance = (config: BacktestConfig, entry: number, direction: number, window: PriceData[], atr: number) => {
+  switch (config.target.kind) {
+    case 'fixedPips': return config.target.pips * config.pipSize;
+    case 'atr': return config.target.multiple * atr;
+    case 'wyckoff': {
+      const target = calculateWyckoffTarget(window, config.detection.wyckoffWindow, config.detection.wyckoffMultiplier);
+      return target === null ? 0 : Math.max(0, (target - entry) * direction);
+    }
+  }
+};
+
+// Replays the scanner's breakout selection bar by bar over a live-sized window,
+// entering on the close of the signal bar and holding one position at a time. Each trade risks `riskPercent` of
+// current equity, so the equity curve compounds in R.
+export const runBacktest = (history: PriceData[], config: BacktestConfig = DEFAULT_BACKTEST_CONFIG): BacktestReport => {
+  const bars = withEMAs(history);
+  const atr = calculateATR(bars, config.atrPeriod);
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestReport['equityCurve'] = [];
+
+  let equity = config.initialEquity;
+  let peak = equity;
+  let maxDrawdown = 0;
+  let position: (Omit<BacktestTrade, 'exitTime' | 'exitPrice' | 'exitReason' | 'rMultiple' | 'pnl' | 'barsHeld'> & { entryIndex: number; risk: number }) | null = null;
+
+  const closePosition = (index: number, price: number, reason: BacktestTrade['exitReason']) => {
+    if (!position) return;
+    const direction = position.type === 'BUY' ? 1 : -1;
+    const rMultiple = ((price - position.entryPrice) * direction) / position.risk;
+    const pnl = equity * (config.riskPercent / 100) * rMultiple;
+    equity += pnl;
+    const { entryIndex, risk, ...open } = position;
+    trades.push({
+      ...open,
+      exitTime: bars[index].time,
+      exitPrice: price,
+      exitReason: reason,
+      rMultiple,
+      pnl,
+      barsHeld: index - entryIndex,
+    });
+    position = null;
+  };
+
+  const { breakoutLookback, strongVolumeRatio, wyckoffWindow } = config.detection;
+  for (let i = breakoutLookback; i < bars.length; i++) {
+    const bar = bars[i];
+
+    if (position) {
+      const exit = checkExit(position, bar);
+      if (exit) closePosition(i, exit.price, exit.reason);
+    } else {
+      const { breakout } = selectBreakout(bars.slice(Math.max(0, i + 1 - LIVE_BARS), i + 1), config.detection);
+      if (breakout) {
+        const type = breakout.type === 'BREAKOUT_UP' ? 'BUY' : 'SELL';
+        const direction = type === 'BUY' ? 1 : -1;
+        const risk = stopDistance(config, bar.close, breakout.level, atr[i]);
+        const reward = targetDistance(config, bar.close, direction, bars.slice(Math.max(0, i - wyckoffWindow), i + 1), atr[i]);
+        if (risk > 0 && reward > 0) {
+          position = {
+            type,
+            strength: breakout.volumeRatio >= strongVolumeRatio ? 'STRONG' : 'MODERATE',
+            entryTime: bar.time,
+            entryPrice: bar.close,
+            sl: bar.close - direction * risk,
+            tp: bar.close + direction * reward,
+            volumeRatio: breakout.volumeRatio,
+            entryIndex: i,
+            risk,
+          };
+        }
+      }
+    }
+
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    equityCurve.push({ time: bar.time, equity });
+  }
+
+  if (position && bars.length > 0) {
+    closePosition(bars.length - 1, bars[bars.length - 1].close, 'END');
+    equityCurve[equityCurve.length - 1] = { time: bars[bars.length - 1].time, equity };
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+
+  const wins = trades.filter(t => t.pnl > 0);
+  const grossProfit = wins.reduce((acc, t) => acc + t.pnl, 0);
+  const grossLoss = trades.filter(t => t.pnl < 0).reduce((acc, t) => acc - t.pnl, 0);
+
+  return {
+    trades,
+    bars: bars.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : null,
+    averageR: trades.length > 0 ? trades.reduce((acc, t) => acc + t.rMultiple, 0) / trades.length : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : null,
+    maxDrawdown,
+    netProfit: equity - config.initialEquity,
+    finalEquity: equity,
+    equityCurve,
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { PriceData } from '../types';
+import { aggregateBars, barsPerBucket, bucketStart, createCandleAggregator } from './candleAggregator';
+
+const MINUTE = 60000;
+// 08:00 UTC, on a 4H boundary.
+const T0 = Date.UTC(2024, 0, 1, 8, 0);
+
+const bar = (minute: number, open: number, high: number, low: number, close: number, volume = 10): PriceData => ({
+  time: '',
+  timestamp: T0 + minute * MINUTE,
+  open,
+  high,
+  low,
+  close,
+  volume,
+});
+
+describe('bucketStart', () => {
+  it('floors a timestamp to the start of its bucket', () => {
+    expect(bucketStart(T0 + 4 * MINUTE + 59999, '5M')).toBe(T0);
+    expect(bucketStart(T0 + 5 * MINUTE, '5M')).toBe(T0 + 5 * MINUTE);
+    expect(bucketStart(T0 + 239 * MINUTE, '4H')).toBe(T0);
+  });
+
+  it('counts base bars per bucket', () => {
+    expect(barsPerBucket('1H')).toBe(60);
+    expect(barsPerBucket('4H', '5M')).toBe(48);
+  });
+});
+
+describe('aggregateBars', () => {
+  it('folds base bars into one candle per bucket, oldest first', () => {
+    const bars = [
+      bar(0, 1.1, 1.15, 1.05, 1.12),
+      bar(2, 1.12, 1.14, 1.0, 1.13),
+      { ...bar(3, 9, 9, 9, 9), timestamp: undefined },
+      bar(4, 1.13, 1.3, 1.1, 1.18),
+      bar(5, 1.2, 1.25, 1.19, 1.22),
+    ];
+    const candles = aggregateBars(bars, '5M');
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({ timestamp: T0, open: 1.1, high: 1.3, low: 1.0, close: 1.18, volume: 30 });
+    expect(candles[1]).toMatchObject({ timestamp: T0 + 5 * MINUTE, open: 1.2, close: 1.22, volume: 10 });
+  });
+});
+
+describe('createCandleAggregator', () => {
+  it('builds the forming bar from the base bars pushed so far', () => {
+    const aggregator = createCandleAggregator('5M');
+    aggregator.push(bar(0, 1.1, 1.15, 1.05, 1.12));
+    const forming = aggregator.push(bar(1, 1.12, 1.2, 1.1, 1.18));
+
+    expect(forming).toMatchObject({ timestamp: T0, open: 1.1, high: 1.2, low: 1.05, close: 1.18, volume: 20 });
+    expect(aggregator.current()).toEqual(forming);
+  });
+
+  it('replaces a base bar updated in place instead of counting it twice', () => {
+    const aggregator = createCandleAggregator('5M');
+    aggregator.push(bar(0, 1.1, 1.15, 1.05, 1.12));
+    aggregator.push(bar(1, 1.12, 1.14, 1.1, 1.13, 5));
+    const forming = aggregator.push(bar(1, 1.12, 1.22, 1.1, 1.21, 8));
+
+    expect(forming).toMatchObject({ high: 1.22, close: 1.21, volume: 18 });
+  });
+
+  it('starts a new bar at the bucket boundary and ignores older buckets', () => {
+    const aggregator = createCandleAggregator('5M');
+    aggregator.push(bar(4, 1.1, 1.15, 1.05, 1.12));
+    const next = aggregator.push(bar(5, 1.12, 1.13, 1.11, 1.125));
+
+    expect(next).toMatchObject({ timestamp: T0 + 5 * MINUTE, open: 1.12, high: 1.13, low: 1.11, volume: 10 });
+    expect(aggregator.push(bar(3, 2, 2, 2, 2))).toBeNull();
+    expect(aggregator.current()).toEqual(next);
+  });
+});
@@ -0,0 +1,66 @@
+import { PriceData } from '../types';
+import { TIMEFRAME_MS, formatBarTime } from './marketLogic';
+
+export const BASE_TIMEFRAME = '1M';
+
+export const bucketStart = (timestamp: number, timeframe: string): number => {
+  const interval = TIMEFRAME_MS[timeframe] ?? 60000;
+  return Math.floor(timestamp / interval) * interval;
+};
+
+export const barsPerBucket = (timeframe: string, baseTimeframe: string = BASE_TIMEFRAME): number =>
+  Math.max(1, Math.round((TIMEFRAME_MS[timeframe] ?? 60000) / (TIMEFRAME_MS[baseTimeframe] ?? 60000)));
+
+// Folds base bars (oldest first, all in one bucket) into a single candle.
+const combine = (bucket: number, bars: PriceData[]): PriceData => ({
+  time: formatBarTime(bucket),
+  timestamp: bucket,
+  open: bars[0].open,
+  high: Math.max(...bars.map(b => b.high)),
+  low: Math.min(...bars.map(b => b.low)),
+  close: bars[bars.length - 1].close,
+  volume: bars.reduce((acc, b) => acc + b.volume, 0),
+});
+
+export const aggregateBars = (bars: PriceData[], timeframe: string): PriceData[] => {
+  const buckets = new Map<number, PriceData[]>();
+  bars.forEach(bar => {
+    if (bar.timestamp === undefined) return;
+    const bucket = bucketStart(bar.timestamp, timeframe);
+    const group = buckets.get(bucket);
+    if (group) group.push(bar);
+    else buckets.set(bucket, [bar]);
+  });
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, group]) => combine(bucket, group));
+};
+
+// Incrementally builds the current (partially formed) higher-timeframe bar.
+// Base bars are keyed by timestamp, so a base bar updated in place replaces
+// its earlier version instead of being counted twice.
+export const createCandleAggregator = (timeframe: string) => {
+  let bucket: number | null = null;
+  let members = new Map<number, PriceData>();
+
+  const current = (): PriceData | null => {
+    if (bucket === null || members.size === 0) return null;
+    const bars = Array.from(members.values()).sort((a, b) => a.timestamp! - b.timestamp!);
+    return combine(bucket, bars);
+  };
+
+  return {
+    push: (bar: PriceData): PriceData | null => {
+      if (bar.timestamp === undefined) return current();
+      const barBucket = bucketStart(bar.timestamp, timeframe);
+      if (bucket !== null && barBucket < bucket) return null;
+      if (barBucket !== bucket) {
+        bucket = barBucket;
+        members = new Map();
+      }
+      members.set(bar.timestamp, bar);
+      return current();
+    },
+    current,
+  };
+};
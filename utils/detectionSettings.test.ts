@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { LIVE_BARS, parseDetectionProfiles } from './detectionSettings';
+
+const profiles = {
+  '*': { breakoutLookback: 200, volumeConfirmRatio: 2 },
+  'EUR/USD|1M': { wyckoffWindow: 8 },
+};
+
+describe('parseDetectionProfiles', () => {
+  it('rejects a field outside its range', () => {
+    expect(() => parseDetectionProfiles(JSON.stringify(profiles))).toThrow(/breakoutLookback/);
+  });
+
+  it('drops only the invalid field when lenient', () => {
+    expect(parseDetectionProfiles(JSON.stringify(profiles), true)).toEqual({
+      '*': { volumeConfirmRatio: 2 },
+      'EUR/USD|1M': { wyckoffWindow: 8 },
+    });
+  });
+
+  it('accepts a lookback that fits the live window', () => {
+    const text = JSON.stringify({ '*': { breakoutLookback: LIVE_BARS - 2 } });
+    expect(parseDetectionProfiles(text)['*'].breakoutLookback).toBe(LIVE_BARS - 2);
+  });
+});
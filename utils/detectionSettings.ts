@@ -0,0 +1,94 @@
+import { DetectionProfiles, DetectionSettings } from '../types';
+import { t } from './i18n';
+
+// Bars the scanner keeps per live series. The breakout lookback has to fit in
+// the closed bars before the signal bar.
+export const LIVE_BARS = 60;
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  breakoutLookback: 20,
+  volumeConfirmRatio: 1.5,
+  strongVolumeRatio: 3.0,
+  wyckoffWindow: 5,
+  wyckoffMultiplier: 0.5,
+  vsaWeight: 0,
+  zoneMinTouches: 0,
+  voiceCooldownSec: 20,
+};
+
+export const DETECTION_FIELDS: { key: keyof DetectionSettings; min: number; max: number; step: number }[] = [
+  { key: 'breakoutLookback', min: 5, max: LIVE_BARS - 2, step: 1 },
+  { key: 'volumeConfirmRatio', min: 1, max: 10, step: 0.1 },
+  { key: 'strongVolumeRatio', min: 1, max: 20, step: 0.1 },
+  { key: 'wyckoffWindow', min: 2, max: 50, step: 1 },
+  { key: 'wyckoffMultiplier', min: 0, max: 5, step: 0.05 },
+  { key: 'vsaWeight', min: 0, max: 2, step: 1 },
+  { key: 'zoneMinTouches', min: 0, max: 10, step: 1 },
+  { key: 'voiceCooldownSec', min: 0, max: 600, step: 1 },
+];
+
+const STORAGE_KEY = 'detection-profiles';
+
+export const profileKey = (symbol?: string, timeframe?: string) =>
+  timeframe ? `${symbol ?? '*'}|${timeframe}` : symbol ?? '*';
+
+// Later scopes win: global, any asset on the timeframe, the asset, then the pair.
+export const resolveDetectionSettings = (profiles: DetectionProfiles, symbol: string, timeframe: string): DetectionSettings => ({
+  ...DEFAULT_DETECTION_SETTINGS,
+  ...profiles['*'],
+  ...profiles[profileKey(undefined, timeframe)],
+  ...profiles[profileKey(symbol)],
+  ...profiles[profileKey(symbol, timeframe)],
+});
+
+// Throws on the first invalid profile or field. With `lenient`, invalid
+// entries are skipped with a warning and the rest kept.
+export const parseDetectionProfiles = (text: string, lenient = false): DetectionProfiles => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(t('detection.invalidJson'));
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error(t('detection.expectedObject'));
+
+  const reject = (message: string) => {
+    if (!lenient) throw new Error(message);
+    console.warn(`Detection settings: ${message}`);
+  };
+
+  const profiles: DetectionProfiles = {};
+  Object.entries(parsed as Record<string, unknown>).forEach(([key, value]) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      reject(t('detection.invalidProfile', { key }));
+      return;
+    }
+    const profile: Partial<DetectionSettings> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([field, raw]) => {
+      const def = DETECTION_FIELDS.find(f => f.key === field);
+      if (!def) {
+        reject(t('detection.unknownField', { field, key }));
+      } else if (typeof raw !== 'number' || !Number.isFinite(raw) || raw < def.min || raw > def.max) {
+        reject(t('detection.outOfRange', { key, field, min: def.min, max: def.max }));
+      } else {
+        profile[def.key] = raw;
+      }
+    });
+    if (Object.keys(profile).length > 0) profiles[key] = profile;
+  });
+  return profiles;
+};
+
+export const loadDetectionProfiles = (): DetectionProfiles => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseDetectionProfiles(stored, true) : {};
+  } catch (error) {
+    console.error('Detection settings error:', error);
+    return {};
+  }
+};
+
+export const saveDetectionProfiles = (profiles: DetectionProfiles) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
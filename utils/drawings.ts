@@ -0,0 +1,41 @@
+import { Drawing, DrawingKind } from '../types';
+import { MessageKey } from './i18n';
+
+export const DRAWING_COLORS = ['#6366f1', '#22d3ee', '#fbbf24', '#f472b6', '#10b981', '#ef4444'];
+
+export const DRAWING_LABELS: Record<DrawingKind, MessageKey> = {
+  hline: 'drawing.hline',
+  trendline: 'drawing.trendline',
+  rectangle: 'drawing.rectangle',
+  fibonacci: 'drawing.fibonacci',
+};
+
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+const storageKey = (symbol: string, timeframe: string) => `drawings:${symbol}|${timeframe}`;
+
+export const loadDrawings = (symbol: string, timeframe: string): Drawing[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(symbol, timeframe));
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Drawings error:', error);
+    return [];
+  }
+};
+
+export const saveDrawings = (symbol: string, timeframe: string, drawings: Drawing[]) => {
+  if (drawings.length === 0) localStorage.removeItem(storageKey(symbol, timeframe));
+  else localStorage.setItem(storageKey(symbol, timeframe), JSON.stringify(drawings));
+};
+
+// Horizontal levels double as manual support/resistance lines (e.g. for stops).
+export const horizontalLevels = (drawings: Drawing[]): number[] =>
+  drawings.filter(d => d.kind === 'hline').map(d => d.anchors[0].price);
+
+// Retracement prices from the second anchor (0%) back to the first (100%).
+export const fibonacciLevels = (drawing: Drawing): { ratio: number; price: number }[] => {
+  const [from, to] = drawing.anchors;
+  return FIB_LEVELS.map(ratio => ({ ratio, price: to.price + (from.price - to.price) * ratio }));
+};
@@ -0,0 +1,59 @@
+import { Locale, MESSAGES, MessageKey } from './locales';
+
+export type { Locale, MessageKey };
+
+export const LOCALES: { code: Locale; label: string; voiceLanguage: string; promptLanguage: string }[] = [
+  { code: 'pt-BR', label: 'PT', voiceLanguage: 'pt-BR', promptLanguage: 'Brazilian Portuguese' },
+  { code: 'en', label: 'EN', voiceLanguage: 'en-US', promptLanguage: 'English' },
+  { code: 'es', label: 'ES', voiceLanguage: 'es-ES', promptLanguage: 'Spanish' },
+];
+
+const STORAGE_KEY = 'locale';
+const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.code === value);
+
+export const loadLocale = (): Locale => {
+  if (typeof localStorage === 'undefined') return DEFAULT_LOCALE;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : DEFAULT_LOCALE;
+  } catch (error) {
+    console.error('Locale error:', error);
+    return DEFAULT_LOCALE;
+  }
+};
+
+// Module-level so non-React code (signal engine, alert descriptions, rule-based
+// analysis) speaks the same language as the UI without threading it through.
+let current: Locale = loadLocale();
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale) => {
+  current = locale;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, locale);
+};
+
+export const localeInfo = (locale: Locale = current) => LOCALES.find(l => l.code === locale)!;
+
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+  MESSAGES[current][key].replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+export const formatNumber = (value: number, digits: number): string => {
+  const cacheKey = `${current}|${digits}`;
+  let format = numberFormats.get(cacheKey);
+  if (!format) {
+    format = new Intl.NumberFormat(current, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+    numberFormats.set(cacheKey, format);
+  }
+  return format.format(value);
+};
+
+export const formatTime = (date: Date | number, withSeconds = false): string =>
+  new Date(date).toLocaleTimeString(current, { hour: '2-digit', minute: '2-digit', ...(withSeconds ? { second: '2-digit' } : {}) });
+
+export const formatDateTime = (date: Date | number): string =>
+  new Date(date).toLocaleString(current, { dateStyle: 'short', timeStyle: 'medium' });
@@ -0,0 +1,402 @@
+import { PriceData } from '../types';
+import { MessageKey } from './i18n';
+
+export type IndicatorId = 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'macd' | 'stochastic' | 'atr';
+export type IndicatorParams = Record<IndicatorId, Record<string, number>>;
+type IndicatorValues = Record<string, number | undefined>;
+
+// `peek` computes the values a bar would produce without changing state, for
+// bars that are still forming; `push` commits a closed bar. Both are O(1).
+interface IndicatorCalculator {
+  peek: (bar: PriceData) => IndicatorValues;
+  push: (bar: PriceData) => IndicatorValues;
+}
+
+export interface IndicatorDefinition {
+  id: IndicatorId;
+  label: MessageKey;
+  pane: 'price' | 'oscillator';
+  params: { key: string; label: MessageKey; min: number; max: number; step?: number }[];
+  // `style` sets how a price-pane output is stroked; unset fields use the overlay defaults.
+  outputs: { key: string; label: MessageKey; color: string; style?: { width?: number; opacity?: number; dash?: number[] } }[];
+  create: (params: Record<string, number>) => IndicatorCalculator;
+}
+
+// Fixed-size window with running sums.
+const createWindow = (size: number) => {
+  const values: number[] = new Array(size);
+  let start = 0;
+  let count = 0;
+  let sum = 0;
+  let sumSq = 0;
+
+  return {
+    isFull: () => count === size,
+    count: () => count,
+    oldest: () => values[start],
+    // Sums as they would be after adding `value`.
+    sumsWith: (value: number) => {
+      const dropped = count === size ? values[start] : 0;
+      return {
+        n: Math.min(count + 1, size),
+        sum: sum - dropped + value,
+        sumSq: sumSq - dropped * dropped + value * value,
+      };
+    },
+    push: (value: number) => {
+      if (count === size) {
+        const dropped = values[start];
+        sum -= dropped;
+        sumSq -= dropped * dropped;
+        values[start] = value;
+        start = (start + 1) % size;
+      } else {
+        values[(start + count) % size] = value;
+        count++;
+      }
+      sum += value;
+      sumSq += value * value;
+    },
+  };
+};
+
+// Monotonic deque giving the rolling max (or min, with `sign` = -1) of the
+// last `size` values in amortized O(1).
+const createRollingExtreme = (size: number, sign: 1 | -1) => {
+  let items: { index: number; value: number }[] = [];
+  let head = 0;
+  let index = 0;
+
+  const compact = () => {
+    if (head > 64 && head * 2 > items.length) {
+      items = items.slice(head);
+      head = 0;
+    }
+  };
+
+  return {
+    // Extreme of the window that would result from adding `value`.
+    peek: (value: number) => {
+      let best = value;
+      for (let i = head; i < items.length && i < head + 2; i++) {
+        if (items[i].index > index - size) {
+          if (sign * items[i].value > sign * best) best = items[i].value;
+          break;
+        }
+      }
+      return best;
+    },
+    push: (value: number) => {
+      while (items.length > head && sign * items[items.length - 1].value <= sign * value) items.pop();
+      items.push({ index, value });
+      while (items[head].index <= index - size) head++;
+      compact();
+      index++;
+      return items[head].value;
+    },
+  };
+};
+
+const createEMA = (period: number) => {
+  const k = 2 / (period + 1);
+  let prev: number | undefined;
+  const next = (value: number) => prev === undefined ? value : value * k + prev * (1 - k);
+  return {
+    peek: next,
+    push: (value: number) => (prev = next(value)),
+  };
+};
+
+const emaCalculator = ({ fast, mid, slow }: Record<string, number>): IndicatorCalculator => {
+  const emas = [createEMA(fast), createEMA(mid), createEMA(slow)];
+  const toValues = ([ema10, ema20, ema50]: number[]) => ({ ema10, ema20, ema50 });
+  return {
+    peek: bar => toValues(emas.map(e => e.peek(bar.close))),
+    push: bar => toValues(emas.map(e => e.push(bar.close))),
+  };
+};
+
+const bollingerCalculator = ({ period, stdDev }: Record<string, number>): IndicatorCalculator => {
+  const window = createWindow(period);
+  const bands = ({ n, sum, sumSq }: { n: number; sum: number; sumSq: number }) => {
+    if (n < period) return { bbUpper: undefined, bbMiddle: undefined, bbLower: undefined };
+    const mean = sum / n;
+    const deviation = Math.sqrt(Math.max(0, sumSq / n - mean * mean));
+    return { bbUpper: mean + stdDev * deviation, bbMiddle: mean, bbLower: mean - stdDev * deviation };
+  };
+  return {
+    peek: bar => bands(window.sumsWith(bar.close)),
+    push: bar => {
+      const values = bands(window.sumsWith(bar.close));
+      window.push(bar.close);
+      return values;
+    },
+  };
+};
+
+const vwapCalculator = ({ sessionStartHour }: Record<string, number>): IndicatorCalculator => {
+  let session: number | null = null;
+  let cumulativePV = 0;
+  let cumulativeVolume = 0;
+
+  const sessionOf = (bar: PriceData) =>
+    bar.timestamp === undefined ? session : Math.floor((bar.timestamp - sessionStartHour * 3600000) / 86400000);
+
+  const compute = (bar: PriceData) => {
+    const isNewSession = sessionOf(bar) !== session;
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    const pv = (isNewSession ? 0 : cumulativePV) + typical * bar.volume;
+    const volume = (isNewSession ? 0 : cumulativeVolume) + bar.volume;
+    return { pv, volume, vwap: volume > 0 ? pv / volume : typical };
+  };
+
+  return {
+    peek: bar => ({ vwap: compute(bar).vwap }),
+    push: bar => {
+      const { pv, volume, vwap } = compute(bar);
+      session = sessionOf(bar);
+      cumulativePV = pv;
+      cumulativeVolume = volume;
+      return { vwap };
+    },
+  };
+};
+
+// Wilder-smoothed RSI; the first average is a simple mean of `period` changes.
+const rsiCalculator = ({ period }: Record<string, number>): IndicatorCalculator => {
+  let prevClose: number | undefined;
+  let avgGain = 0;
+  let avgLoss = 0;
+  let changes = 0;
+
+  const compute = (bar: PriceData) => {
+    if (prevClose === undefined) return { avgGain, avgLoss, changes, rsi: undefined };
+    const change = bar.close - prevClose;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    const n = changes + 1;
+    const nextGain = n <= period ? (avgGain * changes + gain) / n : (avgGain * (period - 1) + gain) / period;
+    const nextLoss = n <= period ? (avgLoss * changes + loss) / n : (avgLoss * (period - 1) + loss) / period;
+    const rsi = n < period ? undefined : nextLoss === 0 ? 100 : 100 - 100 / (1 + nextGain / nextLoss);
+    return { avgGain: nextGain, avgLoss: nextLoss, changes: n, rsi };
+  };
+
+  return {
+    peek: bar => ({ rsi: compute(bar).rsi }),
+    push: bar => {
+      const next = compute(bar);
+      ({ avgGain, avgLoss, changes } = next);
+      prevClose = bar.close;
+      return { rsi: next.rsi };
+    },
+  };
+};
+
+const macdCalculator = ({ fast, slow, signal }: Record<string, number>): IndicatorCalculator => {
+  const fastEMA = createEMA(fast);
+  const slowEMA = createEMA(slow);
+  const signalEMA = createEMA(signal);
+  const toValues = (macd: number, macdSignal: number) => ({ macd, macdSignal, macdHist: macd - macdSignal });
+  return {
+    peek: bar => {
+      const macd = fastEMA.peek(bar.close) - slowEMA.peek(bar.close);
+      return toValues(macd, signalEMA.peek(macd));
+    },
+    push: bar => {
+      const macd = fastEMA.push(bar.close) - slowEMA.push(bar.close);
+      return toValues(macd, signalEMA.push(macd));
+    },
+  };
+};
+
+const stochasticCalculator = ({ kPeriod, dPeriod }: Record<string, number>): IndicatorCalculator => {
+  const highest = createRollingExtreme(kPeriod, 1);
+  const lowest = createRollingExtreme(kPeriod, -1);
+  const kWindow = createWindow(dPeriod);
+  let bars = 0;
+
+  const percentK = (bar: PriceData, high: number, low: number) =>
+    high === low ? 50 : ((bar.close - low) / (high - low)) * 100;
+
+  const toValues = (stochK: number | undefined, sums?: { n: number; sum: number }) => ({
+    stochK,
+    stochD: stochK !== undefined && sums && sums.n >= dPeriod ? sums.sum / sums.n : undefined,
+  });
+
+  return {
+    peek: bar => {
+      if (bars + 1 < kPeriod) return toValues(undefined);
+      const k = percentK(bar, highest.peek(bar.high), lowest.peek(bar.low));
+      return toValues(k, kWindow.sumsWith(k));
+    },
+    push: bar => {
+      const high = highest.push(bar.high);
+      const low = lowest.push(bar.low);
+      bars++;
+      if (bars < kPeriod) return toValues(undefined);
+      const k = percentK(bar, high, low);
+      const sums = kWindow.sumsWith(k);
+      kWindow.push(k);
+      return toValues(k, sums);
+    },
+  };
+};
+
+// Same definition as `calculateATR`: the first value is the bar's range.
+const atrCalculator = ({ period }: Record<string, number>): IndicatorCalculator => {
+  let prevClose: number | undefined;
+  let prevATR: number | undefined;
+
+  const compute = (bar: PriceData) => {
+    const reference = prevClose ?? bar.close;
+    const trueRange = Math.max(bar.high - bar.low, Math.abs(bar.high - reference), Math.abs(bar.low - reference));
+    return prevATR === undefined ? trueRange : (prevATR * (period - 1) + trueRange) / period;
+  };
+
+  return {
+    peek: bar => ({ atr: compute(bar) }),
+    push: bar => {
+      prevATR = compute(bar);
+      prevClose = bar.close;
+      return { atr: prevATR };
+    },
+  };
+};
+
+export const INDICATORS: IndicatorDefinition[] = [
+  {
+    id: 'ema',
+    label: 'indicator.ema',
+    pane: 'price',
+    params: [
+      { key: 'fast', label: 'indicator.param.fast', min: 2, max: 200 },
+      { key: 'mid', label: 'indicator.param.mid', min: 2, max: 200 },
+      { key: 'slow', label: 'indicator.param.slow', min: 2, max: 400 },
+    ],
+    outputs: [
+      { key: 'ema10', label: 'indicator.output.ema10', color: '#22d3ee', style: { width: 1.5, opacity: 0.4, dash: [4, 4] } },
+      { key: 'ema20', label: 'indicator.output.ema20', color: '#fbbf24', style: { width: 1.5, opacity: 0.4 } },
+      { key: 'ema50', label: 'indicator.output.ema50', color: '#f472b6', style: { width: 1.5, opacity: 0.4 } },
+    ],
+    create: emaCalculator,
+  },
+  {
+    id: 'bollinger',
+    label: 'indicator.bollinger',
+    pane: 'price',
+    params: [
+      { key: 'period', label: 'indicator.param.period', min: 2, max: 200 },
+      { key: 'stdDev', label: 'indicator.param.stdDev', min: 0.5, max: 5, step: 0.1 },
+    ],
+    outputs: [
+      { key: 'bbUpper', label: 'indicator.output.bbUpper', color: '#a78bfa' },
+      { key: 'bbMiddle', label: 'indicator.output.bbMiddle', color: '#8b5cf6', style: { dash: [2, 4] } },
+      { key: 'bbLower', label: 'indicator.output.bbLower', color: '#a78bfa' },
+    ],
+    create: bollingerCalculator,
+  },
+  {
+    id: 'vwap',
+    label: 'indicator.vwap',
+    pane: 'price',
+    params: [{ key: 'sessionStartHour', label: 'indicator.param.sessionStartHour', min: 0, max: 23 }],
+    outputs: [{ key: 'vwap', label: 'indicator.output.vwap', color: '#f97316' }],
+    create: vwapCalculator,
+  },
+  {
+    id: 'rsi',
+    label: 'indicator.rsi',
+    pane: 'oscillator',
+    params: [{ key: 'period', label: 'indicator.param.period', min: 2, max: 100 }],
+    outputs: [{ key: 'rsi', label: 'indicator.output.rsi', color: '#38bdf8' }],
+    create: rsiCalculator,
+  },
+  {
+    id: 'macd',
+    label: 'indicator.macd',
+    pane: 'oscillator',
+    params: [
+      { key: 'fast', label: 'indicator.param.fast', min: 2, max: 100 },
+      { key: 'slow', label: 'indicator.param.slow', min: 2, max: 200 },
+      { key: 'signal', label: 'indicator.param.signal', min: 2, max: 100 },
+    ],
+    outputs: [
+      { key: 'macd', label: 'indicator.output.macd', color: '#34d399' },
+      { key: 'macdSignal', label: 'indicator.output.macdSignal', color: '#f87171' },
+      { key: 'macdHist', label: 'indicator.output.macdHist', color: '#64748b' },
+    ],
+    create: macdCalculator,
+  },
+  {
+    id: 'stochastic',
+    label: 'indicator.stochastic',
+    pane: 'oscillator',
+    params: [
+      { key: 'kPeriod', label: 'indicator.param.kPeriod', min: 2, max: 100 },
+      { key: 'dPeriod', label: 'indicator.param.dPeriod', min: 1, max: 50 },
+    ],
+    outputs: [
+      { key: 'stochK', label: 'indicator.output.stochK', color: '#facc15' },
+      { key: 'stochD', label: 'indicator.output.stochD', color: '#fb7185' },
+    ],
+    create: stochasticCalculator,
+  },
+  {
+    id: 'atr',
+    label: 'indicator.atr',
+    pane: 'oscillator',
+    params: [{ key: 'period', label: 'indicator.param.period', min: 2, max: 100 }],
+    outputs: [{ key: 'atr', label: 'indicator.output.atr', color: '#e879f9' }],
+    create: atrCalculator,
+  },
+];
+
+export const DEFAULT_INDICATOR_PARAMS: IndicatorParams = {
+  ema: { fast: 10, mid: 20, slow: 50 },
+  bollinger: { period: 20, stdDev: 2 },
+  vwap: { sessionStartHour: 0 },
+  rsi: { period: 14 },
+  macd: { fast: 12, slow: 26, signal: 9 },
+  stochastic: { kPeriod: 14, dPeriod: 3 },
+  atr: { period: 14 },
+};
+
+// Annotates a stream of bars with every registered indicator. A bar with the
+// same timestamp as the previous one is treated as a forming-bar update: the
+// previous version is discarded and only the latest one gets committed, once
+// a newer bar arrives.
+export const createIndicatorEngine = (params: IndicatorParams = DEFAULT_INDICATOR_PARAMS) => {
+  const calculators = INDICATORS.map(def => def.create({ ...DEFAULT_INDICATOR_PARAMS[def.id], ...params[def.id] }));
+  let forming: PriceData | null = null;
+
+  const annotate = (bar: PriceData, values: IndicatorValues): PriceData => {
+    const { ema10, ema20, ema50, ...rest } = values;
+    const indicators: Record<string, number> = {};
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined && Number.isFinite(value)) indicators[key] = value;
+    });
+    return { ...bar, ema10, ema20, ema50, indicators };
+  };
+
+  return {
+    update: (bar: PriceData): PriceData => {
+      const isUpdate = forming !== null && bar.timestamp !== undefined && bar.timestamp === forming.timestamp;
+      if (forming && !isUpdate) calculators.forEach(c => c.push(forming!));
+      forming = bar;
+      return annotate(bar, Object.assign({}, ...calculators.map(c => c.peek(bar))));
+    },
+  };
+};
+
+export const withIndicators = (data: PriceData[], params: IndicatorParams = DEFAULT_INDICATOR_PARAMS): PriceData[] => {
+  const engine = createIndicatorEngine(params);
+  return data.map(engine.update);
+};
+
+type EmaKey = keyof Pick<PriceData, 'ema10' | 'ema20' | 'ema50'>;
+const EMA_KEYS: Record<EmaKey, true> = { ema10: true, ema20: true, ema50: true };
+
+// Value of an indicator output: the EMAs live on the bar itself, every other
+// output in `indicators`.
+export const indicatorOutput = (bar: PriceData | undefined, key: string): number | undefined =>
+  key in EMA_KEYS ? bar?.[key as EmaKey] : bar?.indicators?.[key];
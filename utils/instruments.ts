@@ -0,0 +1,51 @@
+import { InstrumentSpec } from '../types';
+import { formatNumber } from './i18n';
+
+export const INSTRUMENTS: Record<string, InstrumentSpec> = {
+  'EUR/USD': { symbol: 'EUR/USD', assetClass: 'FOREX', baseCurrency: 'EUR', quoteCurrency: 'USD', pipSize: 0.0001, tickSize: 0.00001, precision: 5, contractSize: 100000, lotStep: 0.01 },
+  'GBP/USD': { symbol: 'GBP/USD', assetClass: 'FOREX', baseCurrency: 'GBP', quoteCurrency: 'USD', pipSize: 0.0001, tickSize: 0.00001, precision: 5, contractSize: 100000, lotStep: 0.01 },
+  'USD/JPY': { symbol: 'USD/JPY', assetClass: 'FOREX', baseCurrency: 'USD', quoteCurrency: 'JPY', pipSize: 0.01, tickSize: 0.001, precision: 3, contractSize: 100000, lotStep: 0.01 },
+  'BTC/USD': { symbol: 'BTC/USD', assetClass: 'CRYPTO', baseCurrency: 'BTC', quoteCurrency: 'USD', pipSize: 1, tickSize: 0.01, precision: 2, contractSize: 1, lotStep: 0.001 },
+};
+
+// Unknown symbols (e.g. from a replay file) get forex conventions inferred from the quote currency.
+export const getInstrument = (symbol: string): InstrumentSpec => {
+  const known = INSTRUMENTS[symbol];
+  if (known) return known;
+  const [baseCurrency = symbol, quoteCurrency = 'USD'] = symbol.split('/');
+  const isJpy = quoteCurrency === 'JPY';
+  return {
+    symbol,
+    assetClass: 'FOREX',
+    baseCurrency,
+    quoteCurrency,
+    pipSize: isJpy ? 0.01 : 0.0001,
+    tickSize: isJpy ? 0.001 : 0.00001,
+    precision: isJpy ? 3 : 5,
+    contractSize: 100000,
+    lotStep: 0.01,
+  };
+};
+
+export const formatPrice = (price: number | null | undefined, symbol: string): string =>
+  price === null || price === undefined || !Number.isFinite(price) ? '---' : formatNumber(price, getInstrument(symbol).precision);
+
+export const toPips = (distance: number, symbol: string): number => distance / getInstrument(symbol).pipSize;
+
+export const fromPips = (pips: number, symbol: string): number => pips * getInstrument(symbol).pipSize;
+
+export const formatPips = (distance: number, symbol: string): string => formatNumber(toPips(distance, symbol), 1);
+
+export const pipLabel = (symbol: string): string => getInstrument(symbol).assetClass === 'FOREX' ? 'PIPS' : 'PTS';
+
+export const ACCOUNT_CURRENCY = 'USD';
+
+// Converts an amount in the instrument's quote currency to the account currency.
+// Only direct (xxx/USD) and indirect (USD/xxx) pairs are converted; crosses are
+// approximated as-is since no conversion rate is available.
+export const toAccountCurrency = (amount: number, symbol: string, price: number): number => {
+  const { baseCurrency, quoteCurrency } = getInstrument(symbol);
+  if (quoteCurrency === ACCOUNT_CURRENCY) return amount;
+  if (baseCurrency === ACCOUNT_CURRENCY && price > 0) return amount / price;
+  return amount;
+};
@@ -0,0 +1,447 @@
+import { MessageKey } from './index';
+
+export const en: Record<MessageKey, string> = {
+  'app.tagline': 'Optimized for 1M',
+  'app.language': 'Language',
+  'app.markets': 'Markets',
+  'app.openOnChart': 'Open on chart',
+  'app.scanning': 'Scanning...',
+  'app.latestSignals': 'Latest Signals',
+  'app.buy': 'BUY',
+  'app.sell': 'SELL',
+  'app.price': 'Price: {price}',
+  'app.trade': 'Trade',
+  'app.executed': 'Executed',
+  'app.line': 'Line',
+  'app.candles': 'Candles',
+  'app.canvasMode': 'Canvas mode (long history)',
+  'app.aiButton': 'AI QUANT',
+
+  'voice.title': 'Voice Signals',
+  'voice.monitoring': 'Live monitoring. Calling out range breakouts and trends on',
+  'voice.assets': '{count} assets',
+  'voice.onCharts': 'across the',
+  'voice.confirmedOnly': 'Only speak breakouts confirmed by the higher timeframe (1M→15M, 5M→1H, 15M→4H)',
+  'voice.test': 'Voice test {time}',
+  'voice.analysis': 'AI analysis for {symbol}: {trend} trend. {signal} signal.',
+  'voice.breakoutBuy': 'Buy opportunity on {symbol}. Breakout detected.',
+  'voice.breakoutSell': 'Sell opportunity on {symbol}. Breakout detected.',
+  'voice.trendChange': 'Trend change on {symbol}: {trend}.',
+  'voice.crossover': 'Moving average cross on {symbol}. {trend} trend.',
+
+  'trend.BULLISH': 'Bullish',
+  'trend.BEARISH': 'Bearish',
+  'trend.NEUTRAL': 'Neutral',
+  'trend.label': '{trend} Trend',
+
+  'outcome.PENDING': 'Open',
+  'outcome.TARGET_HIT': 'Target',
+  'outcome.STOPPED': 'Stop',
+  'outcome.EXPIRED': 'Expired',
+
+  'view.live': 'Live Chart',
+  'view.backtest': 'Backtest',
+  'view.journal': 'Journal',
+  'view.settings': 'Settings',
+
+  'tile.ema': 'Moving Averages (EMA)',
+  'tile.wyckoff': 'Wyckoff Target ({timeframe})',
+  'tile.volatility': 'Current Volatility',
+  'tile.volumeRatio': 'Volume {ratio}× average',
+  'tile.volumeRatioHint': 'Full bar at strong volume; highlighted above the breakout confirmation ({confirm}×)',
+
+  'ai.title': 'Trading Intelligence',
+  'ai.signal.BUY': 'buy',
+  'ai.signal.SELL': 'sell',
+  'ai.signal.WAIT': 'wait',
+  'ai.confirmed': '{signal} CONFIRMED ({confidence}%)',
+  'ai.rejected': 'Analysis rejected',
+  'ai.retry': 'TRY AGAIN',
+  'ai.waiting': 'Awaiting Request',
+  'ai.request': 'GET AI INSIGHT',
+
+  'metrics.title': 'Pair Metrics',
+  'metrics.average': '1H Average Price',
+  'metrics.candleChange': 'Candle Change',
+
+  'toast.alertFired': 'Alert triggered',
+  'toast.planExecuted': 'Plan executed',
+  'toast.planExecutedMessage': '{direction} {symbol} · {quantity} units',
+  'toast.alertsCreated': 'Alerts created',
+  'toast.alertsCreatedMessage': '{count} alerts from the {direction} plan on {symbol}',
+  'toast.orderRefused': 'Order refused',
+  'toast.stopPassed': 'The {symbol} price is already past the signal stop',
+  'toast.planOutOfZone': 'The {symbol} price is outside the plan entry zone or past its stop',
+
+  'chart.loading': 'Loading Market Stream',
+  'chart.live': 'Live',
+  'chart.target': 'Target: {price}',
+  'chart.projectedTarget': 'PROJECTED TARGET',
+  'chart.zoomHint': 'Use the slider below to zoom & pan analysis',
+  'chart.canvasHint': 'Scroll to zoom, drag to pan',
+  'chart.loadingHistory': 'Loading history',
+  'chart.dataFeed': 'DATA FEED',
+  'chart.open': 'Open',
+  'chart.high': 'High',
+  'chart.low': 'Low',
+  'chart.close': 'Close',
+  'chart.volume': 'Volume',
+  'chart.signalLevel': 'Level {price}',
+  'chart.planZone': 'AI {direction} ZONE',
+  'chart.planStop': 'AI STOP',
+  'chart.planTarget': 'AI TP{index}',
+
+  'wyckoff.ACCUMULATION': 'Accumulation',
+  'wyckoff.DISTRIBUTION': 'Distribution',
+  'wyckoff.phase': 'Phase {phase}',
+  'wyckoff.noRange': 'No trading range found',
+  'wyckoff.pnfTarget': 'P&F target ({columns} col.)',
+  'wyckoff.event.SC': 'Selling climax',
+  'wyckoff.event.BC': 'Buying climax',
+  'wyckoff.event.AR': 'Automatic rally/reaction',
+  'wyckoff.event.ST': 'Secondary test',
+  'wyckoff.event.SPRING': 'Spring',
+  'wyckoff.event.UT': 'Upthrust',
+  'wyckoff.event.UTAD': 'Upthrust after distribution',
+  'wyckoff.event.SOS': 'Sign of strength',
+  'wyckoff.event.SOW': 'Sign of weakness',
+  'wyckoff.event.LPS': 'Last point of support',
+  'wyckoff.event.LPSY': 'Last point of supply',
+
+  'zone.SUPPORT': 'Support',
+  'zone.RESISTANCE': 'Resistance',
+  'zone.ACTIVE': 'active',
+  'zone.BROKEN': 'broken',
+  'zone.FLIPPED': 'flipped',
+  'zone.touches': '{count} touches',
+
+  'vsa.NO_DEMAND': 'No demand',
+  'vsa.NO_SUPPLY': 'No supply',
+  'vsa.STOPPING_VOLUME': 'Stopping volume',
+  'vsa.BUYING_CLIMAX': 'Buying climax',
+  'vsa.SELLING_CLIMAX': 'Selling climax',
+  'vsa.TEST': 'Test',
+  'vsa.UPTHRUST': 'Upthrust',
+  'vsa.EFFORT_NO_RESULT': 'Effort without result',
+  'vsa.tip.NO_DEMAND': 'Up bar on a narrow spread with less volume than the two bars before: no buyers behind the rise.',
+  'vsa.tip.NO_SUPPLY': 'Down bar on a narrow spread with less volume than the two bars before: no sellers pressing.',
+  'vsa.tip.STOPPING_VOLUME': 'High volume in a decline with the close well off the low: buyers absorbing supply.',
+  'vsa.tip.BUYING_CLIMAX': 'Wide spread and extreme volume at a new high after a rise: the public buys while professionals sell.',
+  'vsa.tip.SELLING_CLIMAX': 'Wide spread and extreme volume at a new low after a decline: panic absorbed by professionals.',
+  'vsa.tip.TEST': 'New low on low volume closing in the upper half: supply is exhausted.',
+  'vsa.tip.UPTHRUST': 'New high on high volume closing in the lower third: a bull trap.',
+  'vsa.tip.EFFORT_NO_RESULT': 'High volume on a narrow spread: the effort did not move price, so the direction of the bar is suspect.',
+
+  'signal.breakout': 'Breakout at {price} on the {timeframe} chart.',
+  'signal.confirmed': 'Confirmed by {timeframe}.',
+  'signal.unconfirmed': 'Not confirmed by {timeframe}.',
+  'signal.rsi': 'RSI {value}.',
+  'signal.zoneResistance': 'Broke the resistance zone {low}–{high} ({touches} touches).',
+  'signal.zoneSupport': 'Broke the support zone {low}–{high} ({touches} touches).',
+  'signal.vsaSupports': 'VSA supports: {label}.',
+  'signal.vsaContradicts': 'VSA against: {label}.',
+  'signal.alignment': 'EMA 10/20/50 alignment: {trend} trend on the {timeframe} chart.',
+  'signal.crossAbove': 'EMA 10 crossed above EMA 20 on the {timeframe} chart.',
+  'signal.crossBelow': 'EMA 10 crossed below EMA 20 on the {timeframe} chart.',
+
+  'alert.priceCross': 'Price crosses {price}',
+  'alert.levelCross': 'Price crosses line {price}',
+  'alert.emaCross': 'EMA 10 crosses EMA 20',
+  'alert.emaCrossUp': 'EMA 10 crosses above EMA 20',
+  'alert.emaCrossDown': 'EMA 10 crosses below EMA 20',
+  'alert.wyckoffTarget': 'Wyckoff target {price} reached',
+
+  'rules.alignment': 'EMA alignment: {trend}.',
+  'rules.breakoutUp': 'Upside breakout of {price} on {ratio}× volume.',
+  'rules.breakoutDown': 'Downside breakout of {price} on {ratio}× volume.',
+  'rules.againstTrend': 'Breakout against the EMA trend; wait for confirmation.',
+  'rules.withTrend': 'Price on the trend side of EMA 10, volume {ratio}× average.',
+  'rules.noFollowThrough': 'No volume or price follow-through with the trend.',
+  'rules.noBreakout': 'No volume-confirmed breakout.',
+  'rules.htfOpposes': '{timeframe} in a {trend} trend, against the trade.',
+  'rules.htfConfirms': '{timeframe} confirms the direction.',
+  'rules.wyckoffTarget': 'Wyckoff target at {price}.',
+  'rules.wyckoffPhase': 'Wyckoff: {schematic}, phase {phase}.',
+  'rules.noAtr': 'ATR unavailable to build the plan.',
+  'rules.invalidationBuy': 'Close below {price} or EMA 10 crossing below EMA 20.',
+  'rules.invalidationSell': 'Close above {price} or EMA 10 crossing above EMA 20.',
+
+  'common.all': 'All',
+  'common.allFem': 'All',
+  'common.asset': 'Asset',
+  'common.timeframe': 'Timeframe',
+  'common.tf': 'TF',
+  'common.type': 'Type',
+  'common.strength': 'Strength',
+  'common.price': 'Price',
+  'common.entry': 'Entry',
+  'common.target': 'Target',
+  'common.wyckoffTarget': 'Wyckoff Target',
+  'common.equity': 'Equity',
+  'common.winRate': 'Win Rate',
+  'common.model': 'Model',
+  'common.import': 'Import',
+  'common.export': 'Export',
+  'common.test': 'Test',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+
+  'risk.title': 'Risk Management',
+  'risk.equity': 'Equity ($)',
+  'risk.riskPercent': 'Risk %',
+  'risk.stop': 'Stop',
+  'risk.stop.breakout': 'Broken level',
+  'risk.stop.atr': 'ATR multiple',
+  'risk.stop.manual': 'Manual line',
+  'risk.lots': 'Lots',
+  'risk.pipValue': 'Value/{unit}',
+  'risk.atRisk': 'At Risk',
+  'risk.open': 'OPEN {direction}',
+  'risk.noManualBelow': 'No manual line below the current price.',
+  'risk.noManualAbove': 'No manual line above the current price.',
+  'risk.noLevelBelow': 'No breakout level below the current price.',
+  'risk.noLevelAbove': 'No breakout level above the current price.',
+  'risk.noAtr': 'ATR unavailable.',
+  'risk.noStop': 'No stop to size from',
+  'risk.summary': '{lots} lots · risk ${money}',
+
+  'alerts.title': 'Alerts · {symbol} {timeframe}',
+  'alerts.kind.priceCross': 'Price',
+  'alerts.kind.levelCross': 'Manual line',
+  'alerts.kind.emaCross': 'EMA 10 × 20',
+  'alerts.kind.wyckoffTarget': 'Wyckoff target',
+  'alerts.noLines': 'No lines',
+  'alerts.direction.any': 'Any',
+  'alerts.direction.up': 'Upward',
+  'alerts.direction.down': 'Downward',
+  'alerts.expiresIn': 'Expires in',
+  'alerts.expiry': 'Expires: {label}',
+  'alerts.never': 'Never',
+  'alerts.repeat': 'Repeat',
+  'alerts.once': 'Fire once',
+  'alerts.create': 'Create alert',
+  'alerts.none': 'No alerts',
+  'alerts.status.expired': 'Expired',
+  'alerts.status.active': 'Active',
+  'alerts.status.fired': 'Triggered',
+  'alerts.status.paused': 'Paused',
+  'alerts.repeats': 'repeats',
+  'alerts.until': 'until {time}',
+  'alerts.pause': 'Pause',
+  'alerts.resume': 'Resume',
+
+  'paper.reset': 'Reset Account',
+  'paper.balance': 'Balance',
+  'paper.realized': 'Realized P&L',
+  'paper.open': 'Open P&L',
+  'paper.none': 'No positions',
+
+  'backtest.title': 'Breakout Backtest',
+  'backtest.loaded': '{label} · {count} bars',
+  'backtest.noHistory': 'No history loaded',
+  'backtest.import': 'Import OHLCV',
+  'backtest.simulate': 'Simulate {count}',
+  'backtest.simulated': '{symbol} {timeframe} simulated',
+  'backtest.tooFewBars': 'More than {count} bars are needed',
+  'backtest.badRow': 'Line {row}: invalid OHLCV values',
+  'backtest.fixedPips': 'Fixed pips',
+  'backtest.run': 'RUN',
+  'backtest.trades': 'Trades',
+  'backtest.avgR': 'Average R',
+  'backtest.maxDrawdown': 'Max Drawdown',
+  'backtest.net': 'Net Result',
+  'backtest.side': 'Side',
+  'backtest.exit': 'Exit',
+  'backtest.entryPrice': 'Entry Price',
+  'backtest.exitPrice': 'Exit Price',
+  'backtest.reason': 'Reason',
+  'backtest.noTrades': 'No breakouts in the period',
+
+  'journal.title': 'Signal Journal',
+  'journal.count': '{count} signals',
+  'journal.clear': 'Clear history',
+  'journal.confirmClear': 'Delete the whole signal history?',
+  'journal.from': 'From',
+  'journal.to': 'To',
+  'journal.date': 'Date',
+  'journal.level': 'Level',
+  'journal.empty': 'No signals recorded',
+
+  'stats.title': 'Hit Rate',
+  'stats.empty': 'No resolved signals',
+  'stats.stopExpired': 'Stop / Expired',
+  'stats.mfe': 'Average favorable excursion, in R',
+  'stats.mae': 'Average adverse excursion, in R',
+  'stats.pending': '{count} being tracked',
+  'stats.bars': 'Bars',
+
+  'detection.title': 'Detection Parameters',
+  'detection.profiles': '{count} custom profiles',
+  'detection.reset': 'Reset',
+  'detection.inherited': 'inherited',
+  'detection.global': 'Global',
+  'detection.field.breakoutLookback': 'Breakout Window (bars)',
+  'detection.field.volumeConfirmRatio': 'Confirmation Volume (×)',
+  'detection.field.strongVolumeRatio': 'Exceptional Volume (×)',
+  'detection.field.wyckoffWindow': 'Wyckoff Window (bars)',
+  'detection.field.wyckoffMultiplier': 'Wyckoff Multiplier',
+  'detection.field.vsaWeight': 'VSA Weight on Strength (levels)',
+  'detection.field.zoneMinTouches': 'Minimum S/R Zone Touches',
+  'detection.field.voiceCooldownSec': 'Interval between Alerts (s)',
+  'detection.invalidJson': 'Invalid JSON',
+  'detection.expectedObject': 'Expected an object of profiles',
+  'detection.invalidProfile': 'Invalid profile "{key}"',
+  'detection.unknownField': 'Unknown field "{field}" in "{key}"',
+  'detection.outOfRange': '"{key}.{field}" must be between {min} and {max}',
+
+  'drawing.select': 'Select / move',
+  'drawing.hline': 'Horizontal Level',
+  'drawing.trendline': 'Trend Line',
+  'drawing.rectangle': 'Rectangle',
+  'drawing.fibonacci': 'Fibonacci',
+  'drawing.color': 'Color',
+  'drawing.label': 'Label',
+  'drawing.deleteSelected': 'Delete selected (Del)',
+  'drawing.clear': 'Delete all drawings',
+
+  'plan.title': 'Trade Plan',
+  'plan.invalidation': 'Invalidation:',
+  'plan.paperTrade': 'Open at market with the plan stop and TP1',
+  'plan.outOfZone': 'Price outside the entry zone or past the stop',
+  'plan.createAlerts': 'Create alerts for entry, stop and targets',
+  'plan.alerts': 'ALERTS',
+  'plan.alertEntry': '{direction} plan entry',
+  'plan.alertStop': '{direction} plan stop',
+  'plan.alertTarget': '{direction} plan TP{index}',
+
+  'voiceSettings.title': 'Voice Alerts',
+  'voiceSettings.fallback': 'Without an API key, falls back to the browser voice and then to tones',
+  'voiceSettings.engine': 'Engine',
+  'voiceSettings.engine.gemini': 'Gemini TTS',
+  'voiceSettings.engine.browser': 'Browser voice',
+  'voiceSettings.engine.tone': 'Tones',
+  'voiceSettings.voice': 'Voice',
+  'voiceSettings.defaultVoice': 'Language default',
+  'voiceSettings.volume': 'Volume {percent}%',
+  'voiceSettings.mute': 'Mute by asset',
+
+  'provider.title': 'Analysis Provider',
+  'provider.gemini': 'Gemini',
+  'provider.gemini.hint': 'Google Gemini with structured output (uses API_KEY).',
+  'provider.openai': 'OpenAI compatible',
+  'provider.openai.hint': 'Any server with /chat/completions, including local models.',
+  'provider.rules': 'Offline rules',
+  'provider.rules.hint': 'Deterministic analysis from EMAs, volume and Wyckoff. Works offline.',
+  'provider.baseUrl': 'Base URL',
+  'provider.apiKey': 'API key (optional)',
+
+  'analysis.invalidZone': '{provider}: missing or invalid entry zone',
+  'analysis.invalidStop': '{provider}: missing or invalid stop loss',
+  'analysis.invalidTargets': '{provider}: missing or invalid targets',
+  'analysis.noInvalidation': '{provider}: missing invalidation condition',
+  'analysis.tooFar': '{provider}: plan levels too far from the current price',
+  'analysis.stopSide': '{provider}: stop on the wrong side of the entry zone',
+  'analysis.targetSide': '{provider}: target on the wrong side of the entry zone',
+  'analysis.notJson': '{provider}: response is not valid JSON',
+  'analysis.empty': '{provider}: empty response',
+  'analysis.unknownTrend': '{provider}: unknown trend "{value}"',
+  'analysis.unknownSignal': '{provider}: unknown signal "{value}"',
+  'analysis.confidence': '{provider}: confidence outside 0..1 ({value})',
+  'analysis.noReasoning': '{provider}: missing reasoning',
+
+  'delivery.title': 'External Delivery',
+  'delivery.subtitle': 'Signals and alerts sent outside the tab',
+  'delivery.kind.desktop': 'Desktop notification',
+  'delivery.kind.webhook': 'JSON webhook',
+  'delivery.kind.chat': 'Telegram / Discord',
+  'delivery.none': 'No channels configured',
+  'delivery.enable': 'Enable',
+  'delivery.disable': 'Disable',
+  'delivery.permission': 'Permission:',
+  'delivery.allow': 'Allow',
+  'delivery.format': 'Format',
+  'delivery.minStrength': 'Minimum strength',
+  'delivery.maxPerMinute': 'Max per minute',
+  'delivery.trendChanges': 'Trend changes',
+  'delivery.userAlerts': 'User alerts',
+  'delivery.assets': 'Assets',
+  'delivery.allAssets': '(all)',
+  'delivery.log': 'Delivery log',
+  'delivery.clear': 'Clear',
+  'delivery.time': 'Time',
+  'delivery.channel': 'Channel',
+  'delivery.message': 'Message',
+  'delivery.status': 'Status',
+  'delivery.attempts': 'Attempts',
+  'delivery.empty': 'No deliveries',
+  'delivery.status.SENDING': 'Sending',
+  'delivery.status.SENT': 'Delivered',
+  'delivery.status.RETRYING': 'Retrying',
+  'delivery.status.FAILED': 'Failed',
+  'delivery.status.RATE_LIMITED': 'Rate limited',
+  'delivery.channelDisabled': '{error} (channel disabled)',
+  'delivery.rateLimit': 'limit of {count}/min',
+  'delivery.testTitle': 'Forex Scalper · test',
+  'delivery.testBody': 'Test message from channel "{name}".',
+  'delivery.timeout': 'timed out',
+  'delivery.connection': 'connection or CORS failure',
+  'delivery.noNotificationApi': 'Notification API unavailable',
+  'delivery.notificationDenied': 'notification permission not granted',
+
+  'indicator.title': 'Indicators',
+  'indicator.ema': 'EMA',
+  'indicator.bollinger': 'Bollinger',
+  'indicator.vwap': 'VWAP',
+  'indicator.rsi': 'RSI',
+  'indicator.macd': 'MACD',
+  'indicator.stochastic': 'Stochastic',
+  'indicator.atr': 'ATR',
+  'indicator.param.fast': 'Fast',
+  'indicator.param.mid': 'Mid',
+  'indicator.param.slow': 'Slow',
+  'indicator.param.period': 'Period',
+  'indicator.param.stdDev': 'Std Devs',
+  'indicator.param.sessionStartHour': 'Session Start (UTC)',
+  'indicator.param.signal': 'Signal',
+  'indicator.param.kPeriod': '%K',
+  'indicator.param.dPeriod': '%D',
+  'indicator.output.ema10': 'Fast EMA',
+  'indicator.output.ema20': 'Mid EMA',
+  'indicator.output.ema50': 'Slow EMA',
+  'indicator.output.bbUpper': 'BB Upper',
+  'indicator.output.bbMiddle': 'BB Middle',
+  'indicator.output.bbLower': 'BB Lower',
+  'indicator.output.vwap': 'VWAP',
+  'indicator.output.rsi': 'RSI',
+  'indicator.output.macd': 'MACD',
+  'indicator.output.macdSignal': 'Signal',
+  'indicator.output.macdHist': 'Histogram',
+  'indicator.output.stochK': '%K',
+  'indicator.output.stochD': '%D',
+  'indicator.output.atr': 'ATR',
+
+  'feed.simulator': 'Simulator',
+  'feed.replayEnded': 'End of the replay file',
+  'feed.replayEmpty': 'The file has no bars',
+  'feed.disconnected': 'Feed disconnected',
+  'feed.connectTimeout': 'Timed out waiting for the connection',
+  'feed.historyTimeout': 'Timed out requesting history',
+  'feed.invalidHistory': 'Invalid history response',
+  'feed.serverError': 'Data server error',
+  'feed.connectionClosed': 'Connection closed',
+  'feed.connectionFailed': 'Connection to {url} failed',
+  'feed.retryIn': 'Retrying in {seconds}s',
+
+  'journal.unavailable': 'IndexedDB unavailable',
+  'plan.stop': 'Stop',
+
+  'toast.noStop': 'No stop to size the {symbol} order from',
+  'toast.belowLotStep': 'The configured risk is below one lot step on {symbol}',
+
+  'toast.planNoStop': 'The {symbol} plan stop cannot size the order',
+
+  'voiceEngine.browserUnavailable': 'Browser speech synthesis unavailable',
+  'voiceEngine.browserFailed': 'Browser voice failed: {error}',
+  'voiceEngine.geminiNoAudio': 'Gemini TTS: response has no audio',
+  'voiceEngine.geminiNoKey': 'Gemini TTS: API key missing',
+};
@@ -0,0 +1,447 @@
+import { MessageKey } from './index';
+
+export const es: Record<MessageKey, string> = {
+  'app.tagline': 'Optimizado para 1M',
+  'app.language': 'Idioma',
+  'app.markets': 'Mercados',
+  'app.openOnChart': 'Abrir en el gráfico',
+  'app.scanning': 'Escaneando...',
+  'app.latestSignals': 'Últimas Señales',
+  'app.buy': 'COMPRA',
+  'app.sell': 'VENTA',
+  'app.price': 'Precio: {price}',
+  'app.trade': 'Operar',
+  'app.executed': 'Ejecutado',
+  'app.line': 'Línea',
+  'app.candles': 'Velas',
+  'app.canvasMode': 'Modo Canvas (historial largo)',
+  'app.aiButton': 'IA QUANT',
+
+  'voice.title': 'Señales de Voz',
+  'voice.monitoring': 'Monitoreo activo en tiempo real. Alertando rupturas de rango y tendencias en',
+  'voice.assets': '{count} activos',
+  'voice.onCharts': 'en los gráficos de',
+  'voice.confirmedOnly': 'Hablar solo rupturas confirmadas por el timeframe mayor (1M→15M, 5M→1H, 15M→4H)',
+  'voice.test': 'Prueba de voz {time}',
+  'voice.analysis': 'Análisis IA para {symbol}: tendencia {trend}. Señal de {signal}.',
+  'voice.breakoutBuy': 'Oportunidad de compra en {symbol}. Ruptura detectada.',
+  'voice.breakoutSell': 'Oportunidad de venta en {symbol}. Ruptura detectada.',
+  'voice.trendChange': 'Cambio de tendencia en {symbol}: {trend}.',
+  'voice.crossover': 'Cruce de medias en {symbol}. Tendencia {trend}.',
+
+  'trend.BULLISH': 'Alcista',
+  'trend.BEARISH': 'Bajista',
+  'trend.NEUTRAL': 'Neutral',
+  'trend.label': 'Tendencia {trend}',
+
+  'outcome.PENDING': 'Abierto',
+  'outcome.TARGET_HIT': 'Objetivo',
+  'outcome.STOPPED': 'Stop',
+  'outcome.EXPIRED': 'Expirado',
+
+  'view.live': 'Gráfico en Vivo',
+  'view.backtest': 'Backtest',
+  'view.journal': 'Diario',
+  'view.settings': 'Configuración',
+
+  'tile.ema': 'Medias Móviles (EMA)',
+  'tile.wyckoff': 'Objetivo Wyckoff ({timeframe})',
+  'tile.volatility': 'Volatilidad Actual',
+  'tile.volumeRatio': 'Volumen {ratio}× la media',
+  'tile.volumeRatioHint': 'Barra llena con volumen fuerte; resaltada por encima de la confirmación de ruptura ({confirm}×)',
+
+  'ai.title': 'Inteligencia de Trading',
+  'ai.signal.BUY': 'compra',
+  'ai.signal.SELL': 'venta',
+  'ai.signal.WAIT': 'esperar',
+  'ai.confirmed': '{signal} CONFIRMADO ({confidence}%)',
+  'ai.rejected': 'Análisis rechazado',
+  'ai.retry': 'REINTENTAR',
+  'ai.waiting': 'Esperando Solicitud',
+  'ai.request': 'OBTENER INSIGHT IA',
+
+  'metrics.title': 'Métricas del Par',
+  'metrics.average': 'Precio Medio 1H',
+  'metrics.candleChange': 'Variación Vela',
+
+  'toast.alertFired': 'Alerta disparada',
+  'toast.planExecuted': 'Plan ejecutado',
+  'toast.planExecutedMessage': '{direction} {symbol} · {quantity} unidades',
+  'toast.alertsCreated': 'Alertas creadas',
+  'toast.alertsCreatedMessage': '{count} alertas del plan {direction} en {symbol}',
+  'toast.orderRefused': 'Orden rechazada',
+  'toast.stopPassed': 'El precio de {symbol} ya pasó el stop de la señal',
+  'toast.planOutOfZone': 'El precio de {symbol} está fuera de la zona de entrada del plan o más allá del stop',
+
+  'chart.loading': 'Cargando Mercado',
+  'chart.live': 'En Vivo',
+  'chart.target': 'Objetivo: {price}',
+  'chart.projectedTarget': 'OBJETIVO PROYECTADO',
+  'chart.zoomHint': 'Usa el control inferior para hacer zoom y desplazarte',
+  'chart.canvasHint': 'Desplaza para zoom, arrastra para navegar',
+  'chart.loadingHistory': 'Cargando historial',
+  'chart.dataFeed': 'DATOS',
+  'chart.open': 'Apertura',
+  'chart.high': 'Máximo',
+  'chart.low': 'Mínimo',
+  'chart.close': 'Cierre',
+  'chart.volume': 'Volumen',
+  'chart.signalLevel': 'Nivel {price}',
+  'chart.planZone': 'IA ZONA {direction}',
+  'chart.planStop': 'IA STOP',
+  'chart.planTarget': 'IA TP{index}',
+
+  'wyckoff.ACCUMULATION': 'Acumulación',
+  'wyckoff.DISTRIBUTION': 'Distribución',
+  'wyckoff.phase': 'Fase {phase}',
+  'wyckoff.noRange': 'Ningún rango identificado',
+  'wyckoff.pnfTarget': 'Objetivo P&F ({columns} col.)',
+  'wyckoff.event.SC': 'Clímax de venta',
+  'wyckoff.event.BC': 'Clímax de compra',
+  'wyckoff.event.AR': 'Reacción automática',
+  'wyckoff.event.ST': 'Prueba secundaria',
+  'wyckoff.event.SPRING': 'Spring',
+  'wyckoff.event.UT': 'Upthrust',
+  'wyckoff.event.UTAD': 'Upthrust tras distribución',
+  'wyckoff.event.SOS': 'Señal de fuerza',
+  'wyckoff.event.SOW': 'Señal de debilidad',
+  'wyckoff.event.LPS': 'Último punto de soporte',
+  'wyckoff.event.LPSY': 'Último punto de oferta',
+
+  'zone.SUPPORT': 'Soporte',
+  'zone.RESISTANCE': 'Resistencia',
+  'zone.ACTIVE': 'activa',
+  'zone.BROKEN': 'rota',
+  'zone.FLIPPED': 'invertida',
+  'zone.touches': '{count} toques',
+
+  'vsa.NO_DEMAND': 'Sin demanda',
+  'vsa.NO_SUPPLY': 'Sin oferta',
+  'vsa.STOPPING_VOLUME': 'Volumen de parada',
+  'vsa.BUYING_CLIMAX': 'Clímax de compra',
+  'vsa.SELLING_CLIMAX': 'Clímax de venta',
+  'vsa.TEST': 'Prueba',
+  'vsa.UPTHRUST': 'Upthrust',
+  'vsa.EFFORT_NO_RESULT': 'Esfuerzo sin resultado',
+  'vsa.tip.NO_DEMAND': 'Barra alcista de rango estrecho con menos volumen que las dos anteriores: no hay compradores detrás de la subida.',
+  'vsa.tip.NO_SUPPLY': 'Barra bajista de rango estrecho con menos volumen que las dos anteriores: no hay vendedores presionando.',
+  'vsa.tip.STOPPING_VOLUME': 'Volumen alto en una caída con cierre lejos del mínimo: compradores absorbiendo la oferta.',
+  'vsa.tip.BUYING_CLIMAX': 'Rango amplio y volumen extremo en un nuevo máximo tras una subida: el público compra mientras el profesional vende.',
+  'vsa.tip.SELLING_CLIMAX': 'Rango amplio y volumen extremo en un nuevo mínimo tras una caída: el pánico es absorbido por el profesional.',
+  'vsa.tip.TEST': 'Nuevo mínimo con volumen bajo y cierre en la mitad superior: la oferta se agotó.',
+  'vsa.tip.UPTHRUST': 'Nuevo máximo con volumen alto y cierre en el tercio inferior: trampa alcista.',
+  'vsa.tip.EFFORT_NO_RESULT': 'Volumen alto con rango estrecho: el esfuerzo no movió el precio, la dirección de la barra es sospechosa.',
+
+  'signal.breakout': 'Ruptura en {price} en el gráfico de {timeframe}.',
+  'signal.confirmed': 'Confirmada por {timeframe}.',
+  'signal.unconfirmed': 'Sin confirmación de {timeframe}.',
+  'signal.rsi': 'RSI {value}.',
+  'signal.zoneResistance': 'Rompió la zona de resistencia {low}–{high} ({touches} toques).',
+  'signal.zoneSupport': 'Perdió la zona de soporte {low}–{high} ({touches} toques).',
+  'signal.vsaSupports': 'VSA a favor: {label}.',
+  'signal.vsaContradicts': 'VSA en contra: {label}.',
+  'signal.alignment': 'Alineación EMA 10/20/50: tendencia {trend} en el gráfico de {timeframe}.',
+  'signal.crossAbove': 'EMA 10 cruzó por encima de la EMA 20 en el gráfico de {timeframe}.',
+  'signal.crossBelow': 'EMA 10 cruzó por debajo de la EMA 20 en el gráfico de {timeframe}.',
+
+  'alert.priceCross': 'Precio cruza {price}',
+  'alert.levelCross': 'Precio cruza línea {price}',
+  'alert.emaCross': 'EMA 10 cruza EMA 20',
+  'alert.emaCrossUp': 'EMA 10 cruza por encima de la EMA 20',
+  'alert.emaCrossDown': 'EMA 10 cruza por debajo de la EMA 20',
+  'alert.wyckoffTarget': 'Objetivo Wyckoff {price} alcanzado',
+
+  'rules.alignment': 'Alineación de las EMAs: {trend}.',
+  'rules.breakoutUp': 'Ruptura alcista de {price} con volumen {ratio}×.',
+  'rules.breakoutDown': 'Ruptura bajista de {price} con volumen {ratio}×.',
+  'rules.againstTrend': 'Ruptura contra la tendencia de las EMAs; esperar confirmación.',
+  'rules.withTrend': 'Precio del lado de la tendencia respecto a la EMA 10, volumen {ratio}× la media.',
+  'rules.noFollowThrough': 'Sin volumen ni precio a favor de la tendencia.',
+  'rules.noBreakout': 'Sin ruptura confirmada por volumen.',
+  'rules.htfOpposes': '{timeframe} en tendencia {trend}, contra la operación.',
+  'rules.htfConfirms': '{timeframe} confirma la dirección.',
+  'rules.wyckoffTarget': 'Objetivo Wyckoff en {price}.',
+  'rules.wyckoffPhase': 'Wyckoff: {schematic}, fase {phase}.',
+  'rules.noAtr': 'ATR no disponible para armar el plan.',
+  'rules.invalidationBuy': 'Cierre por debajo de {price} o EMA 10 cruzando por debajo de la EMA 20.',
+  'rules.invalidationSell': 'Cierre por encima de {price} o EMA 10 cruzando por encima de la EMA 20.',
+
+  'common.all': 'Todos',
+  'common.allFem': 'Todas',
+  'common.asset': 'Activo',
+  'common.timeframe': 'Timeframe',
+  'common.tf': 'TF',
+  'common.type': 'Tipo',
+  'common.strength': 'Fuerza',
+  'common.price': 'Precio',
+  'common.entry': 'Entrada',
+  'common.target': 'Objetivo',
+  'common.wyckoffTarget': 'Objetivo Wyckoff',
+  'common.equity': 'Patrimonio',
+  'common.winRate': 'Acierto',
+  'common.model': 'Modelo',
+  'common.import': 'Importar',
+  'common.export': 'Exportar',
+  'common.test': 'Probar',
+  'common.close': 'Cerrar',
+  'common.delete': 'Eliminar',
+
+  'risk.title': 'Gestión de Riesgo',
+  'risk.equity': 'Patrimonio ($)',
+  'risk.riskPercent': 'Riesgo %',
+  'risk.stop': 'Stop',
+  'risk.stop.breakout': 'Nivel roto',
+  'risk.stop.atr': 'Múltiplo ATR',
+  'risk.stop.manual': 'Línea manual',
+  'risk.lots': 'Lotes',
+  'risk.pipValue': 'Valor/{unit}',
+  'risk.atRisk': 'En Riesgo',
+  'risk.open': 'ABRIR {direction}',
+  'risk.noManualBelow': 'Ninguna línea manual por debajo del precio actual.',
+  'risk.noManualAbove': 'Ninguna línea manual por encima del precio actual.',
+  'risk.noLevelBelow': 'Ningún nivel de ruptura por debajo del precio actual.',
+  'risk.noLevelAbove': 'Ningún nivel de ruptura por encima del precio actual.',
+  'risk.noAtr': 'ATR no disponible.',
+  'risk.noStop': 'Sin stop para dimensionar',
+  'risk.summary': '{lots} lotes · riesgo ${money}',
+
+  'alerts.title': 'Alertas · {symbol} {timeframe}',
+  'alerts.kind.priceCross': 'Precio',
+  'alerts.kind.levelCross': 'Línea manual',
+  'alerts.kind.emaCross': 'EMA 10 × 20',
+  'alerts.kind.wyckoffTarget': 'Objetivo Wyckoff',
+  'alerts.noLines': 'Sin líneas',
+  'alerts.direction.any': 'Cualquiera',
+  'alerts.direction.up': 'Hacia arriba',
+  'alerts.direction.down': 'Hacia abajo',
+  'alerts.expiresIn': 'Expira en',
+  'alerts.expiry': 'Expira: {label}',
+  'alerts.never': 'Nunca',
+  'alerts.repeat': 'Repetir',
+  'alerts.once': 'Disparo único',
+  'alerts.create': 'Crear alerta',
+  'alerts.none': 'Ninguna alerta',
+  'alerts.status.expired': 'Expirada',
+  'alerts.status.active': 'Activa',
+  'alerts.status.fired': 'Disparada',
+  'alerts.status.paused': 'Pausada',
+  'alerts.repeats': 'se repite',
+  'alerts.until': 'hasta {time}',
+  'alerts.pause': 'Pausar',
+  'alerts.resume': 'Reactivar',
+
+  'paper.reset': 'Reiniciar Cuenta',
+  'paper.balance': 'Saldo',
+  'paper.realized': 'P&L Realizado',
+  'paper.open': 'P&L Abierto',
+  'paper.none': 'Ninguna posición',
+
+  'backtest.title': 'Backtest de Rupturas',
+  'backtest.loaded': '{label} · {count} barras',
+  'backtest.noHistory': 'Ningún historial cargado',
+  'backtest.import': 'Importar OHLCV',
+  'backtest.simulate': 'Simular {count}',
+  'backtest.simulated': '{symbol} {timeframe} simulado',
+  'backtest.tooFewBars': 'Se necesitan más de {count} barras',
+  'backtest.badRow': 'Línea {row}: valores OHLCV inválidos',
+  'backtest.fixedPips': 'Pips fijos',
+  'backtest.run': 'EJECUTAR',
+  'backtest.trades': 'Operaciones',
+  'backtest.avgR': 'R Medio',
+  'backtest.maxDrawdown': 'Drawdown Máx',
+  'backtest.net': 'Resultado',
+  'backtest.side': 'Lado',
+  'backtest.exit': 'Salida',
+  'backtest.entryPrice': 'Precio Ent.',
+  'backtest.exitPrice': 'Precio Salida',
+  'backtest.reason': 'Motivo',
+  'backtest.noTrades': 'Ninguna ruptura en el período',
+
+  'journal.title': 'Diario de Señales',
+  'journal.count': '{count} señales',
+  'journal.clear': 'Borrar historial',
+  'journal.confirmClear': '¿Borrar todo el historial de señales?',
+  'journal.from': 'Desde',
+  'journal.to': 'Hasta',
+  'journal.date': 'Fecha',
+  'journal.level': 'Nivel',
+  'journal.empty': 'Ninguna señal registrada',
+
+  'stats.title': 'Tasa de Acierto',
+  'stats.empty': 'Sin señales resueltas',
+  'stats.stopExpired': 'Stop / Expirada',
+  'stats.mfe': 'Excursión favorable media, en R',
+  'stats.mae': 'Excursión adversa media, en R',
+  'stats.pending': '{count} en seguimiento',
+  'stats.bars': 'Barras',
+
+  'detection.title': 'Parámetros de Detección',
+  'detection.profiles': '{count} perfiles personalizados',
+  'detection.reset': 'Restablecer',
+  'detection.inherited': 'heredado',
+  'detection.global': 'Global',
+  'detection.field.breakoutLookback': 'Ventana de Ruptura (barras)',
+  'detection.field.volumeConfirmRatio': 'Volumen de Confirmación (×)',
+  'detection.field.strongVolumeRatio': 'Volumen Excepcional (×)',
+  'detection.field.wyckoffWindow': 'Ventana Wyckoff (barras)',
+  'detection.field.wyckoffMultiplier': 'Multiplicador Wyckoff',
+  'detection.field.vsaWeight': 'Peso VSA en la Fuerza (niveles)',
+  'detection.field.zoneMinTouches': 'Toques Mínimos de la Zona S/R',
+  'detection.field.voiceCooldownSec': 'Intervalo entre Alertas (s)',
+  'detection.invalidJson': 'JSON inválido',
+  'detection.expectedObject': 'Se esperaba un objeto de perfiles',
+  'detection.invalidProfile': 'Perfil "{key}" inválido',
+  'detection.unknownField': 'Campo desconocido "{field}" en "{key}"',
+  'detection.outOfRange': '"{key}.{field}" debe estar entre {min} y {max}',
+
+  'drawing.select': 'Seleccionar / mover',
+  'drawing.hline': 'Nivel Horizontal',
+  'drawing.trendline': 'Línea de Tendencia',
+  'drawing.rectangle': 'Rectángulo',
+  'drawing.fibonacci': 'Fibonacci',
+  'drawing.color': 'Color',
+  'drawing.label': 'Etiqueta',
+  'drawing.deleteSelected': 'Eliminar seleccionado (Supr)',
+  'drawing.clear': 'Borrar todos los dibujos',
+
+  'plan.title': 'Plan de Trade',
+  'plan.invalidation': 'Invalidación:',
+  'plan.paperTrade': 'Abrir a mercado con el stop y TP1 del plan',
+  'plan.outOfZone': 'Precio fuera de la zona de entrada o más allá del stop',
+  'plan.createAlerts': 'Crear alertas para entrada, stop y objetivos',
+  'plan.alerts': 'ALERTAS',
+  'plan.alertEntry': 'Plan {direction} entrada',
+  'plan.alertStop': 'Plan {direction} stop',
+  'plan.alertTarget': 'Plan {direction} TP{index}',
+
+  'voiceSettings.title': 'Alertas de Voz',
+  'voiceSettings.fallback': 'Sin API key, recurre a la voz del navegador y luego a tonos',
+  'voiceSettings.engine': 'Motor',
+  'voiceSettings.engine.gemini': 'Gemini TTS',
+  'voiceSettings.engine.browser': 'Voz del navegador',
+  'voiceSettings.engine.tone': 'Tonos',
+  'voiceSettings.voice': 'Voz',
+  'voiceSettings.defaultVoice': 'Predeterminada del idioma',
+  'voiceSettings.volume': 'Volumen {percent}%',
+  'voiceSettings.mute': 'Silenciar por activo',
+
+  'provider.title': 'Proveedor de Análisis',
+  'provider.gemini': 'Gemini',
+  'provider.gemini.hint': 'Google Gemini con salida estructurada (usa API_KEY).',
+  'provider.openai': 'Compatible con OpenAI',
+  'provider.openai.hint': 'Cualquier servidor con /chat/completions, incluidos modelos locales.',
+  'provider.rules': 'Reglas offline',
+  'provider.rules.hint': 'Análisis determinista por EMAs, volumen y Wyckoff. Funciona sin red.',
+  'provider.baseUrl': 'URL base',
+  'provider.apiKey': 'Clave de API (opcional)',
+
+  'analysis.invalidZone': '{provider}: zona de entrada ausente o inválida',
+  'analysis.invalidStop': '{provider}: stop loss ausente o inválido',
+  'analysis.invalidTargets': '{provider}: objetivos ausentes o inválidos',
+  'analysis.noInvalidation': '{provider}: falta la condición de invalidación',
+  'analysis.tooFar': '{provider}: niveles del plan demasiado lejos del precio actual',
+  'analysis.stopSide': '{provider}: stop del lado equivocado de la zona de entrada',
+  'analysis.targetSide': '{provider}: objetivo del lado equivocado de la zona de entrada',
+  'analysis.notJson': '{provider}: la respuesta no es JSON válido',
+  'analysis.empty': '{provider}: respuesta vacía',
+  'analysis.unknownTrend': '{provider}: tendencia desconocida "{value}"',
+  'analysis.unknownSignal': '{provider}: señal desconocida "{value}"',
+  'analysis.confidence': '{provider}: confianza fuera de 0..1 ({value})',
+  'analysis.noReasoning': '{provider}: falta la justificación',
+
+  'delivery.title': 'Entrega Externa',
+  'delivery.subtitle': 'Señales y alertas enviadas fuera de la pestaña',
+  'delivery.kind.desktop': 'Notificación de escritorio',
+  'delivery.kind.webhook': 'Webhook JSON',
+  'delivery.kind.chat': 'Telegram / Discord',
+  'delivery.none': 'Ningún canal configurado',
+  'delivery.enable': 'Activar',
+  'delivery.disable': 'Desactivar',
+  'delivery.permission': 'Permiso:',
+  'delivery.allow': 'Permitir',
+  'delivery.format': 'Formato',
+  'delivery.minStrength': 'Fuerza mínima',
+  'delivery.maxPerMinute': 'Máx. por minuto',
+  'delivery.trendChanges': 'Cambios de tendencia',
+  'delivery.userAlerts': 'Alertas del usuario',
+  'delivery.assets': 'Activos',
+  'delivery.allAssets': '(todos)',
+  'delivery.log': 'Registro de entregas',
+  'delivery.clear': 'Borrar',
+  'delivery.time': 'Hora',
+  'delivery.channel': 'Canal',
+  'delivery.message': 'Mensaje',
+  'delivery.status': 'Estado',
+  'delivery.attempts': 'Intentos',
+  'delivery.empty': 'Ninguna entrega',
+  'delivery.status.SENDING': 'Enviando',
+  'delivery.status.SENT': 'Entregado',
+  'delivery.status.RETRYING': 'Reintentando',
+  'delivery.status.FAILED': 'Falló',
+  'delivery.status.RATE_LIMITED': 'Limitado',
+  'delivery.channelDisabled': '{error} (canal desactivado)',
+  'delivery.rateLimit': 'límite de {count}/min',
+  'delivery.testTitle': 'Forex Scalper · prueba',
+  'delivery.testBody': 'Mensaje de prueba del canal "{name}".',
+  'delivery.timeout': 'tiempo agotado',
+  'delivery.connection': 'fallo de conexión o CORS',
+  'delivery.noNotificationApi': 'Notification API no disponible',
+  'delivery.notificationDenied': 'permiso de notificación no concedido',
+
+  'indicator.title': 'Indicadores',
+  'indicator.ema': 'EMA',
+  'indicator.bollinger': 'Bollinger',
+  'indicator.vwap': 'VWAP',
+  'indicator.rsi': 'RSI',
+  'indicator.macd': 'MACD',
+  'indicator.stochastic': 'Estocástico',
+  'indicator.atr': 'ATR',
+  'indicator.param.fast': 'Rápida',
+  'indicator.param.mid': 'Media',
+  'indicator.param.slow': 'Lenta',
+  'indicator.param.period': 'Período',
+  'indicator.param.stdDev': 'Desviaciones',
+  'indicator.param.sessionStartHour': 'Inicio Sesión (UTC)',
+  'indicator.param.signal': 'Señal',
+  'indicator.param.kPeriod': '%K',
+  'indicator.param.dPeriod': '%D',
+  'indicator.output.ema10': 'EMA Rápida',
+  'indicator.output.ema20': 'EMA Media',
+  'indicator.output.ema50': 'EMA Lenta',
+  'indicator.output.bbUpper': 'BB Superior',
+  'indicator.output.bbMiddle': 'BB Media',
+  'indicator.output.bbLower': 'BB Inferior',
+  'indicator.output.vwap': 'VWAP',
+  'indicator.output.rsi': 'RSI',
+  'indicator.output.macd': 'MACD',
+  'indicator.output.macdSignal': 'Señal',
+  'indicator.output.macdHist': 'Histograma',
+  'indicator.output.stochK': '%K',
+  'indicator.output.stochD': '%D',
+  'indicator.output.atr': 'ATR',
+
+  'feed.simulator': 'Simulador',
+  'feed.replayEnded': 'Fin del archivo de replay',
+  'feed.replayEmpty': 'El archivo no tiene barras',
+  'feed.disconnected': 'Feed desconectado',
+  'feed.connectTimeout': 'Tiempo agotado esperando la conexión',
+  'feed.historyTimeout': 'Tiempo agotado al pedir el historial',
+  'feed.invalidHistory': 'Respuesta de historial inválida',
+  'feed.serverError': 'Error del servidor de datos',
+  'feed.connectionClosed': 'Conexión cerrada',
+  'feed.connectionFailed': 'Fallo en la conexión con {url}',
+  'feed.retryIn': 'Nuevo intento en {seconds}s',
+
+  'journal.unavailable': 'IndexedDB no disponible',
+  'plan.stop': 'Stop',
+
+  'toast.noStop': 'Sin stop para dimensionar la orden de {symbol}',
+  'toast.belowLotStep': 'El riesgo configurado queda por debajo de un lote mínimo en {symbol}',
+
+  'toast.planNoStop': 'El stop del plan de {symbol} no permite dimensionar la orden',
+
+  'voiceEngine.browserUnavailable': 'Síntesis de voz del navegador no disponible',
+  'voiceEngine.browserFailed': 'Fallo de la voz del navegador: {error}',
+  'voiceEngine.geminiNoAudio': 'Gemini TTS: respuesta sin audio',
+  'voiceEngine.geminiNoKey': 'Gemini TTS: falta la clave de API',
+};
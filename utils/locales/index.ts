@@ -0,0 +1,14 @@
+import { ptBR } from './ptBR';
+import { en } from './en';
+import { es } from './es';
+
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+// pt-BR is the reference catalogue; the others must define every one of its keys.
+export type MessageKey = keyof typeof ptBR;
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  'pt-BR': ptBR,
+  en,
+  es,
+};
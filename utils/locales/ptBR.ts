@@ -0,0 +1,445 @@
+export const ptBR = {
+  'app.tagline': 'Otimizado para 1M',
+  'app.language': 'Idioma',
+  'app.markets': 'Mercados',
+  'app.openOnChart': 'Abrir no gráfico',
+  'app.scanning': 'Escaneando...',
+  'app.latestSignals': 'Últimos Sinais',
+  'app.buy': 'COMPRA',
+  'app.sell': 'VENDA',
+  'app.price': 'Preço: {price}',
+  'app.trade': 'Operar',
+  'app.executed': 'Executado',
+  'app.line': 'Linha',
+  'app.candles': 'Velas',
+  'app.canvasMode': 'Modo Canvas (histórico longo)',
+  'app.aiButton': 'IA QUANT',
+
+  'voice.title': 'Sinais de Voz',
+  'voice.monitoring': 'Monitoramento ativo em tempo real. Alertando rompimentos de região e tendências em',
+  'voice.assets': '{count} ativos',
+  'voice.onCharts': 'nos gráficos de',
+  'voice.confirmedOnly': 'Falar apenas rompimentos confirmados pelo timeframe maior (1M→15M, 5M→1H, 15M→4H)',
+  'voice.test': 'Teste de voz {time}',
+  'voice.analysis': 'Análise IA para {symbol}: tendência de {trend}. Sinal de {signal}.',
+  'voice.breakoutBuy': 'Oportunidade de compra em {symbol}. Rompimento detectado.',
+  'voice.breakoutSell': 'Oportunidade de venda em {symbol}. Rompimento detectado.',
+  'voice.trendChange': 'Mudança de tendência em {symbol}: {trend}.',
+  'voice.crossover': 'Cruzamento de médias em {symbol}. Tendência de {trend}.',
+
+  'trend.BULLISH': 'Alta',
+  'trend.BEARISH': 'Baixa',
+  'trend.NEUTRAL': 'Neutra',
+  'trend.label': 'Tendência {trend}',
+
+  'outcome.PENDING': 'Aberto',
+  'outcome.TARGET_HIT': 'Alvo',
+  'outcome.STOPPED': 'Stop',
+  'outcome.EXPIRED': 'Expirado',
+
+  'view.live': 'Gráfico ao Vivo',
+  'view.backtest': 'Backtest',
+  'view.journal': 'Diário',
+  'view.settings': 'Configurações',
+
+  'tile.ema': 'Médias Móveis (EMA)',
+  'tile.wyckoff': 'Alvo Wyckoff ({timeframe})',
+  'tile.volatility': 'Volatilidade Atual',
+  'tile.volumeRatio': 'Volume {ratio}× da média',
+  'tile.volumeRatioHint': 'Barra cheia no volume forte; destacada acima da confirmação de rompimento ({confirm}×)',
+
+  'ai.title': 'Inteligência de Trading',
+  'ai.signal.BUY': 'compra',
+  'ai.signal.SELL': 'venda',
+  'ai.signal.WAIT': 'aguardar',
+  'ai.confirmed': '{signal} CONFIRMADO ({confidence}%)',
+  'ai.rejected': 'Análise rejeitada',
+  'ai.retry': 'TENTAR NOVAMENTE',
+  'ai.waiting': 'Aguardando Solicitação',
+  'ai.request': 'OBTER INSIGHT IA',
+
+  'metrics.title': 'Métricas do Par',
+  'metrics.average': 'Preço Médio 1H',
+  'metrics.candleChange': 'Variação Candle',
+
+  'toast.alertFired': 'Alerta disparado',
+  'toast.planExecuted': 'Plano executado',
+  'toast.planExecutedMessage': '{direction} {symbol} · {quantity} unidades',
+  'toast.alertsCreated': 'Alertas criados',
+  'toast.alertsCreatedMessage': '{count} alertas do plano {direction} em {symbol}',
+  'toast.orderRefused': 'Ordem recusada',
+  'toast.stopPassed': 'O preço de {symbol} já passou do stop do sinal',
+  'toast.planOutOfZone': 'O preço de {symbol} está fora da zona de entrada do plano ou além do stop',
+
+  'chart.loading': 'Carregando Mercado',
+  'chart.live': 'Ao Vivo',
+  'chart.target': 'Alvo: {price}',
+  'chart.projectedTarget': 'ALVO PROJETADO',
+  'chart.zoomHint': 'Use o controle abaixo para zoom e navegação',
+  'chart.canvasHint': 'Role para zoom, arraste para navegar',
+  'chart.loadingHistory': 'Carregando histórico',
+  'chart.dataFeed': 'DADOS',
+  'chart.open': 'Abertura',
+  'chart.high': 'Máxima',
+  'chart.low': 'Mínima',
+  'chart.close': 'Fechamento',
+  'chart.volume': 'Volume',
+  'chart.signalLevel': 'Nível {price}',
+  'chart.planZone': 'IA {direction} ZONA',
+  'chart.planStop': 'IA STOP',
+  'chart.planTarget': 'IA TP{index}',
+
+  'wyckoff.ACCUMULATION': 'Acumulação',
+  'wyckoff.DISTRIBUTION': 'Distribuição',
+  'wyckoff.phase': 'Fase {phase}',
+  'wyckoff.noRange': 'Nenhum range identificado',
+  'wyckoff.pnfTarget': 'Alvo P&F ({columns} col.)',
+  'wyckoff.event.SC': 'Clímax de venda',
+  'wyckoff.event.BC': 'Clímax de compra',
+  'wyckoff.event.AR': 'Reação automática',
+  'wyckoff.event.ST': 'Teste secundário',
+  'wyckoff.event.SPRING': 'Spring',
+  'wyckoff.event.UT': 'Upthrust',
+  'wyckoff.event.UTAD': 'Upthrust após distribuição',
+  'wyckoff.event.SOS': 'Sinal de força',
+  'wyckoff.event.SOW': 'Sinal de fraqueza',
+  'wyckoff.event.LPS': 'Último ponto de suporte',
+  'wyckoff.event.LPSY': 'Último ponto de oferta',
+
+  'zone.SUPPORT': 'Suporte',
+  'zone.RESISTANCE': 'Resistência',
+  'zone.ACTIVE': 'ativa',
+  'zone.BROKEN': 'rompida',
+  'zone.FLIPPED': 'invertida',
+  'zone.touches': '{count} toques',
+
+  'vsa.NO_DEMAND': 'Sem demanda',
+  'vsa.NO_SUPPLY': 'Sem oferta',
+  'vsa.STOPPING_VOLUME': 'Volume de parada',
+  'vsa.BUYING_CLIMAX': 'Clímax de compra',
+  'vsa.SELLING_CLIMAX': 'Clímax de venda',
+  'vsa.TEST': 'Teste',
+  'vsa.UPTHRUST': 'Upthrust',
+  'vsa.EFFORT_NO_RESULT': 'Esforço sem resultado',
+  'vsa.tip.NO_DEMAND': 'Barra de alta com spread estreito e volume menor que o das duas anteriores: não há compradores sustentando a alta.',
+  'vsa.tip.NO_SUPPLY': 'Barra de baixa com spread estreito e volume menor que o das duas anteriores: não há vendedores pressionando.',
+  'vsa.tip.STOPPING_VOLUME': 'Volume alto numa queda com fechamento longe da mínima: compradores absorvendo a oferta.',
+  'vsa.tip.BUYING_CLIMAX': 'Spread largo e volume extremo numa nova máxima após alta: o público compra enquanto o profissional vende.',
+  'vsa.tip.SELLING_CLIMAX': 'Spread largo e volume extremo numa nova mínima após queda: o pânico é absorvido pelo profissional.',
+  'vsa.tip.TEST': 'Nova mínima com volume baixo e fechamento na metade superior: a oferta se esgotou.',
+  'vsa.tip.UPTHRUST': 'Nova máxima com volume alto e fechamento no terço inferior: armadilha de alta.',
+  'vsa.tip.EFFORT_NO_RESULT': 'Volume alto com spread estreito: o esforço não moveu o preço, a direção da barra é suspeita.',
+
+  'signal.breakout': 'Rompimento em {price} no gráfico de {timeframe}.',
+  'signal.confirmed': 'Confirmado pelo {timeframe}.',
+  'signal.unconfirmed': 'Sem confirmação do {timeframe}.',
+  'signal.rsi': 'RSI {value}.',
+  'signal.zoneResistance': 'Rompeu a zona de resistência {low}–{high} ({touches} toques).',
+  'signal.zoneSupport': 'Perdeu a zona de suporte {low}–{high} ({touches} toques).',
+  'signal.vsaSupports': 'VSA a favor: {label}.',
+  'signal.vsaContradicts': 'VSA contra: {label}.',
+  'signal.alignment': 'Alinhamento EMA 10/20/50: tendência {trend} no gráfico de {timeframe}.',
+  'signal.crossAbove': 'EMA 10 cruzou acima da EMA 20 no gráfico de {timeframe}.',
+  'signal.crossBelow': 'EMA 10 cruzou abaixo da EMA 20 no gráfico de {timeframe}.',
+
+  'alert.priceCross': 'Preço cruza {price}',
+  'alert.levelCross': 'Preço cruza linha {price}',
+  'alert.emaCross': 'EMA 10 cruza EMA 20',
+  'alert.emaCrossUp': 'EMA 10 cruza acima da EMA 20',
+  'alert.emaCrossDown': 'EMA 10 cruza abaixo da EMA 20',
+  'alert.wyckoffTarget': 'Alvo Wyckoff {price} atingido',
+
+  'rules.alignment': 'Alinhamento das EMAs: {trend}.',
+  'rules.breakoutUp': 'Rompimento de alta de {price} com volume {ratio}×.',
+  'rules.breakoutDown': 'Rompimento de baixa de {price} com volume {ratio}×.',
+  'rules.againstTrend': 'Rompimento contra a tendência das EMAs; aguardar confirmação.',
+  'rules.withTrend': 'Preço do lado da tendência em relação à EMA 10, volume {ratio}× a média.',
+  'rules.noFollowThrough': 'Sem volume ou preço a favor da tendência.',
+  'rules.noBreakout': 'Sem rompimento confirmado por volume.',
+  'rules.htfOpposes': '{timeframe} em tendência de {trend}, contra a operação.',
+  'rules.htfConfirms': '{timeframe} confirma a direção.',
+  'rules.wyckoffTarget': 'Alvo Wyckoff em {price}.',
+  'rules.wyckoffPhase': 'Wyckoff: {schematic}, fase {phase}.',
+  'rules.noAtr': 'ATR indisponível para montar o plano.',
+  'rules.invalidationBuy': 'Fechamento abaixo de {price} ou EMA 10 cruzando abaixo da EMA 20.',
+  'rules.invalidationSell': 'Fechamento acima de {price} ou EMA 10 cruzando acima da EMA 20.',
+
+  'common.all': 'Todos',
+  'common.allFem': 'Todas',
+  'common.asset': 'Ativo',
+  'common.timeframe': 'Timeframe',
+  'common.tf': 'TF',
+  'common.type': 'Tipo',
+  'common.strength': 'Força',
+  'common.price': 'Preço',
+  'common.entry': 'Entrada',
+  'common.target': 'Alvo',
+  'common.wyckoffTarget': 'Alvo Wyckoff',
+  'common.equity': 'Patrimônio',
+  'common.winRate': 'Acerto',
+  'common.model': 'Modelo',
+  'common.import': 'Importar',
+  'common.export': 'Exportar',
+  'common.test': 'Testar',
+  'common.close': 'Fechar',
+  'common.delete': 'Excluir',
+
+  'risk.title': 'Gestão de Risco',
+  'risk.equity': 'Patrimônio ($)',
+  'risk.riskPercent': 'Risco %',
+  'risk.stop': 'Stop',
+  'risk.stop.breakout': 'Nível rompido',
+  'risk.stop.atr': 'Múltiplo ATR',
+  'risk.stop.manual': 'Linha manual',
+  'risk.lots': 'Lotes',
+  'risk.pipValue': 'Valor/{unit}',
+  'risk.atRisk': 'Em Risco',
+  'risk.open': 'ABRIR {direction}',
+  'risk.noManualBelow': 'Nenhuma linha manual abaixo do preço atual.',
+  'risk.noManualAbove': 'Nenhuma linha manual acima do preço atual.',
+  'risk.noLevelBelow': 'Nenhum nível de rompimento abaixo do preço atual.',
+  'risk.noLevelAbove': 'Nenhum nível de rompimento acima do preço atual.',
+  'risk.noAtr': 'ATR indisponível.',
+  'risk.noStop': 'Sem stop para dimensionar',
+  'risk.summary': '{lots} lotes · risco ${money}',
+
+  'alerts.title': 'Alertas · {symbol} {timeframe}',
+  'alerts.kind.priceCross': 'Preço',
+  'alerts.kind.levelCross': 'Linha manual',
+  'alerts.kind.emaCross': 'EMA 10 × 20',
+  'alerts.kind.wyckoffTarget': 'Alvo Wyckoff',
+  'alerts.noLines': 'Sem linhas',
+  'alerts.direction.any': 'Qualquer',
+  'alerts.direction.up': 'Para cima',
+  'alerts.direction.down': 'Para baixo',
+  'alerts.expiresIn': 'Expira em',
+  'alerts.expiry': 'Expira: {label}',
+  'alerts.never': 'Nunca',
+  'alerts.repeat': 'Repetir',
+  'alerts.once': 'Disparo único',
+  'alerts.create': 'Criar alerta',
+  'alerts.none': 'Nenhum alerta',
+  'alerts.status.expired': 'Expirado',
+  'alerts.status.active': 'Ativo',
+  'alerts.status.fired': 'Disparado',
+  'alerts.status.paused': 'Pausado',
+  'alerts.repeats': 'repete',
+  'alerts.until': 'até {time}',
+  'alerts.pause': 'Pausar',
+  'alerts.resume': 'Reativar',
+
+  'paper.reset': 'Resetar Conta',
+  'paper.balance': 'Saldo',
+  'paper.realized': 'P&L Realizado',
+  'paper.open': 'P&L Aberto',
+  'paper.none': 'Nenhuma posição',
+
+  'backtest.title': 'Backtest de Rompimentos',
+  'backtest.loaded': '{label} · {count} barras',
+  'backtest.noHistory': 'Nenhum histórico carregado',
+  'backtest.import': 'Importar OHLCV',
+  'backtest.simulate': 'Simular {count}',
+  'backtest.simulated': '{symbol} {timeframe} simulado',
+  'backtest.tooFewBars': 'São necessárias mais de {count} barras',
+  'backtest.badRow': 'Linha {row}: valores OHLCV inválidos',
+  'backtest.fixedPips': 'Pips fixos',
+  'backtest.run': 'EXECUTAR',
+  'backtest.trades': 'Operações',
+  'backtest.avgR': 'R Médio',
+  'backtest.maxDrawdown': 'Drawdown Máx',
+  'backtest.net': 'Resultado',
+  'backtest.side': 'Lado',
+  'backtest.exit': 'Saída',
+  'backtest.entryPrice': 'Preço Ent.',
+  'backtest.exitPrice': 'Preço Saída',
+  'backtest.reason': 'Motivo',
+  'backtest.noTrades': 'Nenhum rompimento no período',
+
+  'journal.title': 'Diário de Sinais',
+  'journal.count': '{count} sinais',
+  'journal.clear': 'Limpar histórico',
+  'journal.confirmClear': 'Apagar todo o histórico de sinais?',
+  'journal.from': 'De',
+  'journal.to': 'Até',
+  'journal.date': 'Data',
+  'journal.level': 'Nível',
+  'journal.empty': 'Nenhum sinal registrado',
+
+  'stats.title': 'Taxa de Acerto',
+  'stats.empty': 'Sem sinais resolvidos',
+  'stats.stopExpired': 'Stop / Expirado',
+  'stats.mfe': 'Excursão favorável média, em R',
+  'stats.mae': 'Excursão adversa média, em R',
+  'stats.pending': '{count} em acompanhamento',
+  'stats.bars': 'Barras',
+
+  'detection.title': 'Parâmetros de Detecção',
+  'detection.profiles': '{count} perfis personalizados',
+  'detection.reset': 'Restaurar',
+  'detection.inherited': 'herdado',
+  'detection.global': 'Global',
+  'detection.field.breakoutLookback': 'Janela de Rompimento (barras)',
+  'detection.field.volumeConfirmRatio': 'Volume de Confirmação (×)',
+  'detection.field.strongVolumeRatio': 'Volume Excepcional (×)',
+  'detection.field.wyckoffWindow': 'Janela Wyckoff (barras)',
+  'detection.field.wyckoffMultiplier': 'Multiplicador Wyckoff',
+  'detection.field.vsaWeight': 'Peso VSA na Força (níveis)',
+  'detection.field.zoneMinTouches': 'Toques Mínimos da Zona S/R',
+  'detection.field.voiceCooldownSec': 'Intervalo entre Alertas (s)',
+  'detection.invalidJson': 'JSON inválido',
+  'detection.expectedObject': 'Esperado um objeto de perfis',
+  'detection.invalidProfile': 'Perfil "{key}" inválido',
+  'detection.unknownField': 'Campo desconhecido "{field}" em "{key}"',
+  'detection.outOfRange': '"{key}.{field}" deve estar entre {min} e {max}',
+
+  'drawing.select': 'Selecionar / mover',
+  'drawing.hline': 'Nível Horizontal',
+  'drawing.trendline': 'Linha de Tendência',
+  'drawing.rectangle': 'Retângulo',
+  'drawing.fibonacci': 'Fibonacci',
+  'drawing.color': 'Cor',
+  'drawing.label': 'Rótulo',
+  'drawing.deleteSelected': 'Excluir selecionado (Del)',
+  'drawing.clear': 'Apagar todos os desenhos',
+
+  'plan.title': 'Plano de Trade',
+  'plan.invalidation': 'Invalidação:',
+  'plan.paperTrade': 'Abrir a mercado com stop e TP1 do plano',
+  'plan.outOfZone': 'Preço fora da zona de entrada ou além do stop',
+  'plan.createAlerts': 'Criar alertas para entrada, stop e alvos',
+  'plan.alerts': 'ALERTAS',
+  'plan.alertEntry': 'Plano {direction} entrada',
+  'plan.alertStop': 'Plano {direction} stop',
+  'plan.alertTarget': 'Plano {direction} TP{index}',
+
+  'voiceSettings.title': 'Alertas de Voz',
+  'voiceSettings.fallback': 'Sem API key, cai para a voz do navegador e depois para tons',
+  'voiceSettings.engine': 'Motor',
+  'voiceSettings.engine.gemini': 'Gemini TTS',
+  'voiceSettings.engine.browser': 'Voz do navegador',
+  'voiceSettings.engine.tone': 'Tons sonoros',
+  'voiceSettings.voice': 'Voz',
+  'voiceSettings.defaultVoice': 'Padrão do idioma',
+  'voiceSettings.volume': 'Volume {percent}%',
+  'voiceSettings.mute': 'Silenciar por ativo',
+
+  'provider.title': 'Provedor de Análise',
+  'provider.gemini': 'Gemini',
+  'provider.gemini.hint': 'Google Gemini com saída estruturada (usa API_KEY).',
+  'provider.openai': 'OpenAI compatível',
+  'provider.openai.hint': 'Qualquer servidor com /chat/completions, inclusive modelos locais.',
+  'provider.rules': 'Regras offline',
+  'provider.rules.hint': 'Análise determinística por EMAs, volume e Wyckoff. Funciona sem rede.',
+  'provider.baseUrl': 'URL base',
+  'provider.apiKey': 'Chave de API (opcional)',
+
+  'analysis.invalidZone': '{provider}: zona de entrada ausente ou inválida',
+  'analysis.invalidStop': '{provider}: stop loss ausente ou inválido',
+  'analysis.invalidTargets': '{provider}: alvos ausentes ou inválidos',
+  'analysis.noInvalidation': '{provider}: condição de invalidação ausente',
+  'analysis.tooFar': '{provider}: níveis do plano longe demais do preço atual',
+  'analysis.stopSide': '{provider}: stop do lado errado da zona de entrada',
+  'analysis.targetSide': '{provider}: alvo do lado errado da zona de entrada',
+  'analysis.notJson': '{provider}: resposta não é JSON válido',
+  'analysis.empty': '{provider}: resposta vazia',
+  'analysis.unknownTrend': '{provider}: tendência desconhecida "{value}"',
+  'analysis.unknownSignal': '{provider}: sinal desconhecido "{value}"',
+  'analysis.confidence': '{provider}: confiança fora de 0..1 ({value})',
+  'analysis.noReasoning': '{provider}: justificativa ausente',
+
+  'delivery.title': 'Entrega Externa',
+  'delivery.subtitle': 'Sinais e alertas enviados para fora da aba',
+  'delivery.kind.desktop': 'Notificação desktop',
+  'delivery.kind.webhook': 'Webhook JSON',
+  'delivery.kind.chat': 'Telegram / Discord',
+  'delivery.none': 'Nenhum canal configurado',
+  'delivery.enable': 'Ativar',
+  'delivery.disable': 'Desativar',
+  'delivery.permission': 'Permissão:',
+  'delivery.allow': 'Permitir',
+  'delivery.format': 'Formato',
+  'delivery.minStrength': 'Força mínima',
+  'delivery.maxPerMinute': 'Máx. por minuto',
+  'delivery.trendChanges': 'Mudanças de tendência',
+  'delivery.userAlerts': 'Alertas do usuário',
+  'delivery.assets': 'Ativos',
+  'delivery.allAssets': '(todos)',
+  'delivery.log': 'Registro de entregas',
+  'delivery.clear': 'Limpar',
+  'delivery.time': 'Hora',
+  'delivery.channel': 'Canal',
+  'delivery.message': 'Mensagem',
+  'delivery.status': 'Status',
+  'delivery.attempts': 'Tentativas',
+  'delivery.empty': 'Nenhuma entrega',
+  'delivery.status.SENDING': 'Enviando',
+  'delivery.status.SENT': 'Entregue',
+  'delivery.status.RETRYING': 'Nova tentativa',
+  'delivery.status.FAILED': 'Falhou',
+  'delivery.status.RATE_LIMITED': 'Limitado',
+  'delivery.channelDisabled': '{error} (canal desativado)',
+  'delivery.rateLimit': 'limite de {count}/min',
+  'delivery.testTitle': 'Forex Scalper · teste',
+  'delivery.testBody': 'Mensagem de teste do canal "{name}".',
+  'delivery.timeout': 'tempo esgotado',
+  'delivery.connection': 'falha de conexão ou CORS',
+  'delivery.noNotificationApi': 'Notification API indisponível',
+  'delivery.notificationDenied': 'permissão de notificação não concedida',
+
+  'indicator.title': 'Indicadores',
+  'indicator.ema': 'EMA',
+  'indicator.bollinger': 'Bollinger',
+  'indicator.vwap': 'VWAP',
+  'indicator.rsi': 'RSI',
+  'indicator.macd': 'MACD',
+  'indicator.stochastic': 'Estocástico',
+  'indicator.atr': 'ATR',
+  'indicator.param.fast': 'Rápida',
+  'indicator.param.mid': 'Média',
+  'indicator.param.slow': 'Lenta',
+  'indicator.param.period': 'Período',
+  'indicator.param.stdDev': 'Desvios',
+  'indicator.param.sessionStartHour': 'Início Sessão (UTC)',
+  'indicator.param.signal': 'Sinal',
+  'indicator.param.kPeriod': '%K',
+  'indicator.param.dPeriod': '%D',
+  'indicator.output.ema10': 'EMA Rápida',
+  'indicator.output.ema20': 'EMA Média',
+  'indicator.output.ema50': 'EMA Lenta',
+  'indicator.output.bbUpper': 'BB Superior',
+  'indicator.output.bbMiddle': 'BB Média',
+  'indicator.output.bbLower': 'BB Inferior',
+  'indicator.output.vwap': 'VWAP',
+  'indicator.output.rsi': 'RSI',
+  'indicator.output.macd': 'MACD',
+  'indicator.output.macdSignal': 'Sinal',
+  'indicator.output.macdHist': 'Histograma',
+  'indicator.output.stochK': '%K',
+  'indicator.output.stochD': '%D',
+  'indicator.output.atr': 'ATR',
+
+  'feed.simulator': 'Simulador',
+  'feed.replayEnded': 'Fim do arquivo de replay',
+  'feed.replayEmpty': 'Arquivo sem barras',
+  'feed.disconnected': 'Feed desconectado',
+  'feed.connectTimeout': 'Tempo esgotado aguardando conexão',
+  'feed.historyTimeout': 'Tempo esgotado ao pedir histórico',
+  'feed.invalidHistory': 'Resposta de histórico inválida',
+  'feed.serverError': 'Erro do servidor de dados',
+  'feed.connectionClosed': 'Conexão encerrada',
+  'feed.connectionFailed': 'Falha na conexão com {url}',
+  'feed.retryIn': 'Nova tentativa em {seconds}s',
+
+  'journal.unavailable': 'IndexedDB indisponível',
+  'plan.stop': 'Stop',
+
+  'toast.noStop': 'Sem stop para dimensionar a ordem de {symbol}',
+  'toast.belowLotStep': 'O risco configurado fica abaixo de um lote mínimo em {symbol}',
+
+  'toast.planNoStop': 'O stop do plano de {symbol} não permite dimensionar a ordem',
+
+  'voiceEngine.browserUnavailable': 'Síntese de voz do navegador indisponível',
+  'voiceEngine.browserFailed': 'Falha na voz do navegador: {error}',
+  'voiceEngine.geminiNoAudio': 'Gemini TTS: resposta sem áudio',
+  'voiceEngine.geminiNoKey': 'Gemini TTS: chave de API ausente',
+};
@@ -1,5 +1,16 @@
 
 import { PriceData } from '../types';
+import { formatTime } from './i18n';
+
+export const TIMEFRAME_MS: Record<string, number> = {
+  '1M': 60000,
+  '5M': 5 * 60000,
+  '15M': 15 * 60000,
+  '1H': 60 * 60000,
+  '4H': 240 * 60000,
+};
+
+export const formatBarTime = (timestamp: number): string => formatTime(timestamp);
 
 export const calculateEMA = (data: number[], period: number): number[] => {
   const k = 2 / (period + 1);
@@ -10,10 +21,21 @@ export const calculateEMA = (data: number[], period: number): number[] => {
   return ema;
 };
 
-export const calculateWyckoffTarget = (data: PriceData[]): number | null => {
-  if (data.length < 5) return null;
+// Wilder's Average True Range. The first value uses the plain high-low range.
+export const calculateATR = (data: PriceData[], period: number = 14): number[] => {
+  const atr: number[] = [];
+  data.forEach((d, i) => {
+    const prevClose = i > 0 ? data[i - 1].close : d.close;
+    const trueRange = Math.max(d.high - d.low, Math.abs(d.high - prevClose), Math.abs(d.low - prevClose));
+    atr.push(i === 0 ? trueRange : (atr[i - 1] * (period - 1) + trueRange) / period);
+  });
+  return atr;
+};
+
+export const calculateWyckoffTarget = (data: PriceData[], window: number = 5, multiplier: number = 0.5): number | null => {
+  if (data.length < window + 1) return null;
   const current = data[data.length - 1];
-  const slice = data.slice(data.length - 6, data.length - 1);
+  const slice = data.slice(data.length - window - 1, data.length - 1);
   const avgVolume = slice.reduce((acc, d) => acc + d.volume, 0) / slice.length;
   const avgSpread = slice.reduce((acc, d) => acc + (d.high - d.low), 0) / slice.length;
 
@@ -22,12 +44,12 @@ export const calculateWyckoffTarget = (data: PriceData[]): number | null => {
   const momentum = current.close - current.open;
   const direction = momentum >= 0 ? 1 : -1;
   
-  const projection = direction * avgSpread * (1 + (effortResultRatio - 1) * 0.5);
+  const projection = direction * avgSpread * (1 + (effortResultRatio - 1) * multiplier);
   
   return current.close + projection;
 };
 
-export const detectBreakouts = (data: PriceData[], period: number = 20) => {
+export const detectBreakouts = (data: PriceData[], period: number = 20, volumeThreshold: number = 1.5) => {
   if (data.length < period + 1) return null;
 
   const current = data[data.length - 1];
@@ -38,7 +60,7 @@ export const detectBreakouts = (data: PriceData[], period: number = 20) => {
   const avgVolume = slice.reduce((acc, d) => acc + d.volume, 0) / period;
 
   const volumeRatio = current.volume / avgVolume;
-  const volumeConfirmed = volumeRatio > 1.5;
+  const volumeConfirmed = volumeRatio > volumeThreshold;
 
   if (current.close > highRegion && volumeConfirmed) {
     return { type: 'BREAKOUT_UP', price: current.close, level: highRegion, volumeRatio };
@@ -51,13 +73,39 @@ export const detectBreakouts = (data: PriceData[], period: number = 20) => {
   return null;
 };
 
-export const generateMockData = (basePrice: number, count: number = 100, timeframe: string = '1M'): PriceData[] => {
+export const withEMAs = (data: PriceData[]): PriceData[] => {
+  const closes = data.map(d => d.close);
+  const ema10 = calculateEMA(closes, 10);
+  const ema20 = calculateEMA(closes, 20);
+  const ema50 = calculateEMA(closes, 50);
+
+  return data.map((d, i) => ({
+    ...d,
+    ema10: ema10[i],
+    ema20: ema20[i],
+    ema50: ema50[i],
+  }));
+};
+
+// Merges a bar into the series: a bar with the same timestamp as the last one
+// replaces it, an older bar is ignored and a newer one is appended. Indicator
+// fields are taken from `bar` as-is.
+export const mergeBar = (data: PriceData[], bar: PriceData, maxBars: number): PriceData[] => {
+  const last = data[data.length - 1];
+  if (last?.timestamp !== undefined && bar.timestamp !== undefined) {
+    if (bar.timestamp === last.timestamp) return [...data.slice(0, -1), bar];
+    if (bar.timestamp < last.timestamp) return data;
+  }
+  return [...data, bar].slice(-maxBars);
+};
+
+export const generateMockData = (basePrice: number, count: number = 100, timeframe: string = '1M', endTime: number = Date.now()): PriceData[] => {
   let currentPrice = basePrice;
   const data: PriceData[] = [];
-  const now = new Date();
   
   // Set interval based on timeframe
-  const intervalMs = timeframe === '15M' ? 15 * 60000 : timeframe === '5M' ? 5 * 60000 : 60000;
+  const intervalMs = TIMEFRAME_MS[timeframe] ?? 60000;
+  const lastOpen = Math.floor(endTime / intervalMs) * intervalMs;
 
   for (let i = 0; i < count; i++) {
     const change = (Math.random() - 0.5) * (basePrice * 0.002);
@@ -67,21 +115,11 @@ export const generateMockData = (basePrice: number, count: number = 100, timefra
     const low = Math.min(open, close) - Math.random() * (basePrice * 0.0005);
     const volume = Math.floor(Math.random() * 1000) + 500;
     
-    const time = new Date(now.getTime() - (count - i) * intervalMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const timestamp = lastOpen - (count - 1 - i) * intervalMs;
     
-    data.push({ time, open, high, low, close, volume });
+    data.push({ time: formatBarTime(timestamp), timestamp, open, high, low, close, volume });
     currentPrice = close;
   }
 
-  const closes = data.map(d => d.close);
-  const ema10 = calculateEMA(closes, 10);
-  const ema20 = calculateEMA(closes, 20);
-  const ema50 = calculateEMA(closes, 50);
-
-  return data.map((d, i) => ({
-    ...d,
-    ema10: ema10[i],
-    ema20: ema20[i],
-    ema50: ema50[i],
-  }));
+  return withEMAs(data);
 };
@@ -0,0 +1,62 @@
+import { PriceData } from '../types';
+import { formatBarTime } from './marketLogic';
+import { t } from './i18n';
+
+const FIELD_ALIASES: Record<string, string> = {
+  t: 'timestamp', time: 'timestamp', timestamp: 'timestamp', date: 'timestamp', datetime: 'timestamp',
+  o: 'open', open: 'open',
+  h: 'high', high: 'high',
+  l: 'low', low: 'low',
+  c: 'close', close: 'close',
+  v: 'volume', vol: 'volume', volume: 'volume', tickvol: 'volume', tick_volume: 'volume',
+};
+
+const parseTimestamp = (value: unknown): number => {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) return parseTimestamp(Number(text));
+  return Date.parse(text);
+};
+
+const toBar = (record: Record<string, unknown>, row: number): PriceData => {
+  const fields: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const field = FIELD_ALIASES[key.trim().toLowerCase()];
+    if (field) fields[field] = value;
+  });
+
+  const timestamp = parseTimestamp(fields.timestamp);
+  const [open, high, low, close] = ['open', 'high', 'low', 'close'].map(f => Number(fields[f]));
+  const volume = fields.volume === undefined ? 0 : Number(fields.volume);
+
+  if ([timestamp, open, high, low, close, volume].some(n => !Number.isFinite(n))) {
+    throw new Error(t('backtest.badRow', { row: row + 1 }));
+  }
+  return { time: formatBarTime(timestamp), timestamp, open, high, low, close, volume };
+};
+
+// Accepts a JSON array of bars or a CSV file with a header row. Column names
+// are matched case-insensitively (time/date/timestamp, open, high, low, close,
+// volume or their one-letter forms). Numeric times may be in seconds or ms.
+export const parseOHLCV = (text: string): PriceData[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  let records: Record<string, unknown>[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    records = Array.isArray(parsed) ? parsed : parsed.bars ?? [];
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+    const delimiter = lines[0].includes(';') ? ';' : lines[0].includes('\t') ? '\t' : ',';
+    const header = lines[0].split(delimiter);
+    records = lines.slice(1).map(line => {
+      const cells = line.split(delimiter);
+      return Object.fromEntries(header.map((h, i) => [h, cells[i]]));
+    });
+  }
+
+  return records
+    .map(toBar)
+    .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+};
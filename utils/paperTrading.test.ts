@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { PriceData } from '../types';
+import { createOrder, defaultQuantity, fillOrders } from './paperTrading';
+
+const bar = (timestamp: number, low: number, high: number, close: number): PriceData => ({
+  time: '10:00',
+  timestamp,
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+});
+
+describe('defaultQuantity', () => {
+  it('sizes the default notional in the account currency', () => {
+    expect(defaultQuantity('EUR/USD', 1.08)).toBe(9000);
+    expect(defaultQuantity('USD/JPY', 150)).toBe(10000);
+    expect(defaultQuantity('BTC/USD', 50000)).toBe(0.2);
+  });
+});
+
+describe('fillOrders', () => {
+  const forming = bar(60000, 1.0790, 1.0820, 1.0800);
+  const order = createOrder('EUR/USD', 'BUY', [forming], { sl: 1.0795, tp: 1.0815, entryBar: forming })!;
+
+  it('ignores the range the entry bar printed before the order opened', () => {
+    const update = bar(60000, 1.0790, 1.0820, 1.0802);
+    expect(fillOrders([order], 'EUR/USD', update)[0].status).toBe('OPEN');
+  });
+
+  it('fills on prices traded after the entry in the same bar', () => {
+    expect(fillOrders([order], 'EUR/USD', bar(60000, 1.0790, 1.0820, 1.0794))[0].closeReason).toBe('SL');
+    expect(fillOrders([order], 'EUR/USD', bar(60000, 1.0790, 1.0825, 1.0810))[0].closeReason).toBe('TP');
+  });
+
+  it('uses the whole range of later bars', () => {
+    expect(fillOrders([order], 'EUR/USD', bar(120000, 1.0801, 1.0816, 1.0805))[0].closeReason).toBe('TP');
+  });
+});
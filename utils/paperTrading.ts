@@ -0,0 +1,133 @@
+import { AccountSummary, Order, PriceData } from '../types';
+import { getInstrument, toAccountCurrency } from './instruments';
+
+export const INITIAL_BALANCE = 10000;
+export const DEFAULT_ORDER_NOTIONAL = 10000;
+
+const STOP_RANGE_MULTIPLIER = 2;
+const TARGET_RANGE_MULTIPLIER = 3;
+
+// Units worth DEFAULT_ORDER_NOTIONAL in the account currency, rounded down to
+// the instrument's lot step.
+export const defaultQuantity = (symbol: string, price: number): number => {
+  const { contractSize, lotStep } = getInstrument(symbol);
+  const unitValue = toAccountCurrency(price, symbol, price);
+  if (!(unitValue > 0)) return 0;
+  const lots = Math.floor(DEFAULT_ORDER_NOTIONAL / unitValue / contractSize / lotStep + 1e-9) * lotStep;
+  return Number((lots * contractSize).toFixed(6));
+};
+
+// Average candle range over the recent window, used to place default SL/TP.
+export const averageRange = (data: PriceData[], period: number = 14): number => {
+  const slice = data.slice(-period);
+  if (slice.length === 0) return 0;
+  return slice.reduce((acc, d) => acc + (d.high - d.low), 0) / slice.length;
+};
+
+export const createOrder = (
+  asset: string,
+  type: 'BUY' | 'SELL',
+  data: PriceData[],
+  options: { quantity?: number; sl?: number; tp?: number; signalId?: string; entryBar?: PriceData } = {}
+): Order | null => {
+  const last = data[data.length - 1];
+  if (!last) return null;
+
+  const entryPrice = last.close;
+  const direction = type === 'BUY' ? 1 : -1;
+  const range = averageRange(data) || entryPrice * 0.0005;
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    asset,
+    type,
+    quantity: options.quantity ?? defaultQuantity(asset, entryPrice),
+    entryPrice,
+    sl: options.sl ?? entryPrice - direction * range * STOP_RANGE_MULTIPLIER,
+    tp: options.tp ?? entryPrice + direction * range * TARGET_RANGE_MULTIPLIER,
+    timestamp: new Date(),
+    status: 'OPEN',
+    signalId: options.signalId,
+    entryBar: options.entryBar?.timestamp !== undefined
+      ? { timestamp: options.entryBar.timestamp, high: options.entryBar.high, low: options.entryBar.low }
+      : undefined
+  };
+};
+
+export const calculatePnl = (order: Order, price: number): number => {
+  const direction = order.type === 'BUY' ? 1 : -1;
+  return toAccountCurrency((price - order.entryPrice) * direction * order.quantity, order.asset, price);
+};
+
+export const closeOrder = (order: Order, price: number, reason: Order['closeReason']): Order => ({
+  ...order,
+  status: 'CLOSED',
+  closePrice: price,
+  closedAt: new Date(),
+  closeReason: reason,
+  pnl: calculatePnl(order, price)
+});
+
+// When a bar spans both levels the stop is assumed to fill first.
+export const checkExit = (
+  position: Pick<Order, 'type' | 'sl' | 'tp'>,
+  bar: PriceData
+): { price: number; reason: 'SL' | 'TP' } | null => {
+  const stopHit = position.type === 'BUY' ? bar.low <= position.sl : bar.high >= position.sl;
+  if (stopHit) return { price: position.sl, reason: 'SL' };
+  const targetHit = position.type === 'BUY' ? bar.high >= position.tp : bar.low <= position.tp;
+  if (targetHit) return { price: position.tp, reason: 'TP' };
+  return null;
+};
+
+// The part of `bar` traded after `order` was opened. In the bar the order was
+// opened in, only highs and lows printed since then count; before that the
+// order only saw its entry price and the latest close.
+const rangeSinceEntry = (order: Order, bar: PriceData): PriceData => {
+  const opened = order.entryBar;
+  if (!opened || opened.timestamp !== bar.timestamp) return bar;
+  return {
+    ...bar,
+    high: bar.high > opened.high ? bar.high : Math.max(order.entryPrice, bar.close),
+    low: bar.low < opened.low ? bar.low : Math.min(order.entryPrice, bar.close),
+  };
+};
+
+// Checks a new bar against every open order on the asset.
+export const fillOrders = (orders: Order[], asset: string, bar: PriceData): Order[] => {
+  let changed = false;
+  const next = orders.map(order => {
+    if (order.status !== 'OPEN' || order.asset !== asset) return order;
+
+    const exit = checkExit(order, rangeSinceEntry(order, bar));
+    if (!exit) return order;
+    changed = true;
+    return closeOrder(order, exit.price, exit.reason);
+  });
+  return changed ? next : orders;
+};
+
+export const summarizeAccount = (
+  orders: Order[],
+  markPrices: Record<string, number>,
+  initialBalance: number = INITIAL_BALANCE
+): AccountSummary => {
+  const closed = orders.filter(o => o.status === 'CLOSED');
+  const open = orders.filter(o => o.status === 'OPEN');
+
+  const realizedPnl = closed.reduce((acc, o) => acc + (o.pnl ?? 0), 0);
+  const unrealizedPnl = open.reduce((acc, o) => {
+    const mark = markPrices[o.asset];
+    return mark === undefined ? acc : acc + calculatePnl(o, mark);
+  }, 0);
+  const wins = closed.filter(o => (o.pnl ?? 0) > 0).length;
+
+  return {
+    balance: initialBalance + realizedPnl,
+    realizedPnl,
+    unrealizedPnl,
+    equity: initialBalance + realizedPnl + unrealizedPnl,
+    openCount: open.length,
+    winRate: closed.length > 0 ? wins / closed.length : null
+  };
+};
@@ -0,0 +1,98 @@
+import { PositionSizing, RiskSettings, Signal } from '../types';
+import { getInstrument, toAccountCurrency, toPips } from './instruments';
+import { MessageKey } from './i18n';
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  equity: 10000,
+  riskPercent: 1,
+  stopSource: 'breakout',
+  atrMultiple: 1.5,
+};
+
+export const STOP_SOURCE_LABELS: Record<RiskSettings['stopSource'], MessageKey> = {
+  breakout: 'risk.stop.breakout',
+  atr: 'risk.stop.atr',
+  manual: 'risk.stop.manual',
+};
+
+export const pipValuePerLot = (symbol: string, price: number): number => {
+  const { pipSize, contractSize } = getInstrument(symbol);
+  return toAccountCurrency(pipSize * contractSize, symbol, price);
+};
+
+// Picks the stop price for an entry. Manual stops use the nearest line on the
+// losing side of the entry; null when the chosen source has nothing to offer.
+export const resolveStop = (
+  settings: RiskSettings,
+  direction: 'BUY' | 'SELL',
+  entry: number,
+  sources: { level?: number; atr?: number; manualLines?: number[] }
+): number | null => {
+  const sign = direction === 'BUY' ? 1 : -1;
+  switch (settings.stopSource) {
+    case 'breakout':
+      return sources.level !== undefined && (entry - sources.level) * sign > 0 ? sources.level : null;
+    case 'atr':
+      return sources.atr ? entry - sign * sources.atr * settings.atrMultiple : null;
+    case 'manual': {
+      const candidates = (sources.manualLines ?? []).filter(line => (entry - line) * sign > 0);
+      if (candidates.length === 0) return null;
+      return direction === 'BUY' ? Math.max(...candidates) : Math.min(...candidates);
+    }
+  }
+};
+
+// Sizes the position so that a stop-out loses `riskPercent` of equity, rounded
+// down to the instrument's lot step.
+export const calculatePositionSize = (
+  symbol: string,
+  direction: 'BUY' | 'SELL',
+  entry: number,
+  stop: number,
+  target: number | null,
+  settings: Pick<RiskSettings, 'equity' | 'riskPercent'>
+): PositionSizing | null => {
+  const spec = getInstrument(symbol);
+  const stopDistance = Math.abs(entry - stop);
+  if (stopDistance === 0 || settings.equity <= 0 || settings.riskPercent <= 0) return null;
+
+  const stopPips = toPips(stopDistance, symbol);
+  const pipValue = pipValuePerLot(symbol, entry);
+  const budget = settings.equity * (settings.riskPercent / 100);
+  const rawLots = budget / (stopPips * pipValue);
+  const lots = Number((Math.floor(rawLots / spec.lotStep + 1e-9) * spec.lotStep).toFixed(6));
+  const sign = direction === 'BUY' ? 1 : -1;
+  const validTarget = target !== null && (target - entry) * sign > 0 ? target : null;
+
+  return {
+    direction,
+    entry,
+    stop,
+    target: validTarget,
+    stopPips,
+    lots,
+    units: lots * spec.contractSize,
+    pipValue,
+    moneyAtRisk: lots * stopPips * pipValue,
+    rewardRisk: validTarget !== null ? Math.abs(validTarget - entry) / stopDistance : null,
+  };
+};
+
+// Sizes at the signal price unless the actual `entry` is given, e.g. the fill
+// price of an order placed after the signal.
+export const sizeSignal = (
+  signal: Signal,
+  settings: RiskSettings,
+  manualLines: number[] = [],
+  entry: number = signal.price
+): PositionSizing | null => {
+  if (signal.type === 'TREND_CHANGE') return null;
+  const direction = signal.type === 'BREAKOUT_UP' ? 'BUY' : 'SELL';
+  const stop = resolveStop(settings, direction, entry, {
+    level: signal.level,
+    atr: signal.indicators?.atr,
+    manualLines
+  });
+  if (stop === null) return null;
+  return calculatePositionSize(signal.asset, direction, entry, stop, signal.wyckoffTarget ?? null, settings);
+};
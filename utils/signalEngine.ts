@@ -0,0 +1,130 @@
+import { DetectionSettings, MarketTrend, PriceData, Signal } from '../types';
+import { calculateWyckoffTarget, detectBreakouts } from './marketLogic';
+import { DEFAULT_DETECTION_SETTINGS } from './detectionSettings';
+import { formatPrice } from './instruments';
+import { TrendState, trendLabel, updateTrend } from './trend';
+import { formatNumber, t } from './i18n';
+import { VsaSupport, vsaSupport } from './vsa';
+import { DEFAULT_SR_SETTINGS, detectZoneBreakout } from './srZones';
+
+// Higher timeframe whose EMA alignment has to agree before a breakout is spoken.
+export const CONFIRMATION_TIMEFRAME: Record<string, string> = {
+  '1M': '15M',
+  '5M': '1H',
+  '15M': '4H',
+};
+
+export interface Confirmation {
+  timeframe: string;
+  trend: MarketTrend;
+  required: boolean;
+}
+
+export interface BarEvaluation {
+  signals: Signal[];
+  trendState: TrendState;
+  voiceAlert: string | null;
+}
+
+const newSignalId = () => Math.random().toString(36).substr(2, 9);
+
+// The breakout on the last bar of `data`, if any. With `zoneMinTouches` set, a
+// close through a support/resistance zone is checked first and the lookback
+// extreme is the fallback. `zoneBreakout` is set when a zone was crossed.
+export const selectBreakout = (data: PriceData[], settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS) => {
+  const zoneBreakout = settings.zoneMinTouches > 0
+    ? detectZoneBreakout(data, settings.breakoutLookback, settings.volumeConfirmRatio, { ...DEFAULT_SR_SETTINGS, minTouches: settings.zoneMinTouches })
+    : null;
+  const breakout = zoneBreakout ?? detectBreakouts(data, settings.breakoutLookback, settings.volumeConfirmRatio);
+  return { breakout, zoneBreakout };
+};
+
+const STRENGTHS: Signal['strength'][] = ['WEAK', 'MODERATE', 'STRONG'];
+
+// Runs breakout and trend detection on the last bar of a series. Called once
+// per closed bar; the first signal found also provides the spoken alert.
+// Breakouts against the higher-timeframe trend are downgraded to WEAK, and
+// when confirmation is required only agreeing breakouts are spoken. Otherwise
+// the volume ratio sets the strength and a VSA reading can move it by
+// `vsaWeight` levels.
+export const evaluateBar = (
+  data: PriceData[],
+  trendState: TrendState,
+  symbol: string,
+  timeframe: string,
+  confirmation?: Confirmation,
+  settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS
+): BarEvaluation => {
+  const last = data[data.length - 1];
+  const signals: Signal[] = [];
+  let voiceAlert: string | null = null;
+
+  const { breakout, zoneBreakout } = selectBreakout(data, settings);
+  if (breakout) {
+    const isExceptionalVolume = breakout.volumeRatio >= settings.strongVolumeRatio;
+    const expectedTrend = breakout.type === 'BREAKOUT_UP' ? MarketTrend.BULLISH : MarketTrend.BEARISH;
+    const agrees = confirmation ? confirmation.trend === expectedTrend : true;
+    const opposes = confirmation ? confirmation.trend !== MarketTrend.NEUTRAL && !agrees : false;
+    const vsa: VsaSupport = settings.vsaWeight > 0 ? vsaSupport(data, expectedTrend === MarketTrend.BULLISH ? 'BULLISH' : 'BEARISH') : { score: 0 };
+    const rank = (isExceptionalVolume ? 2 : 1) + vsa.score * settings.vsaWeight;
+
+    const details = [t('signal.breakout', { price: formatPrice(breakout.price, symbol), timeframe })];
+    if (zoneBreakout) {
+      const { zone } = zoneBreakout;
+      details.push(t(breakout.type === 'BREAKOUT_UP' ? 'signal.zoneResistance' : 'signal.zoneSupport', {
+        low: formatPrice(zone.low, symbol),
+        high: formatPrice(zone.high, symbol),
+        touches: zone.touches
+      }));
+    }
+    if (confirmation) {
+      details.push(t(agrees ? 'signal.confirmed' : 'signal.unconfirmed', { timeframe: confirmation.timeframe }));
+    }
+    if (last.indicators?.rsi !== undefined) details.push(t('signal.rsi', { value: formatNumber(last.indicators.rsi, 1) }));
+    if (vsa.kind && vsa.score !== 0) details.push(t(vsa.score > 0 ? 'signal.vsaSupports' : 'signal.vsaContradicts', { label: t(`vsa.${vsa.kind}`) }));
+
+    signals.push({
+      id: newSignalId(),
+      asset: symbol,
+      timeframe,
+      type: breakout.type as Signal['type'],
+      strength: opposes ? 'WEAK' : STRENGTHS[Math.max(0, Math.min(2, rank))],
+      price: breakout.price,
+      timestamp: new Date(),
+      barTimestamp: last.timestamp,
+      details: details.join(' '),
+      indicators: last.indicators,
+      volumeRatio: breakout.volumeRatio,
+      level: breakout.level,
+      vsa: vsa.score !== 0 ? vsa.kind : undefined,
+      wyckoffTarget: calculateWyckoffTarget(data, settings.wyckoffWindow, settings.wyckoffMultiplier)
+    });
+    if (agrees || !confirmation?.required) {
+      voiceAlert = t(breakout.type === 'BREAKOUT_UP' ? 'voice.breakoutBuy' : 'voice.breakoutSell', { symbol });
+    }
+  }
+
+  const trendUpdate = updateTrend(trendState, last);
+  trendUpdate.events.forEach(event => {
+    const label = trendLabel(event.to).toLowerCase();
+    signals.push({
+      id: newSignalId(),
+      asset: symbol,
+      timeframe,
+      type: 'TREND_CHANGE',
+      strength: event.kind === 'ALIGNMENT' && event.to !== MarketTrend.NEUTRAL ? 'MODERATE' : 'WEAK',
+      price: last.close,
+      timestamp: new Date(),
+      barTimestamp: last.timestamp,
+      trend: event.to,
+      details: event.kind === 'ALIGNMENT'
+        ? t('signal.alignment', { trend: label, timeframe })
+        : t(event.to === MarketTrend.BULLISH ? 'signal.crossAbove' : 'signal.crossBelow', { timeframe })
+    });
+    voiceAlert ??= event.kind === 'ALIGNMENT'
+      ? t('voice.trendChange', { symbol, trend: label })
+      : t('voice.crossover', { symbol, trend: label });
+  });
+
+  return { signals, trendState: trendUpdate.state, voiceAlert };
+};
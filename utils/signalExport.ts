@@ -0,0 +1,28 @@
+import { Signal } from '../types';
+
+const CSV_COLUMNS = [
+  'timestamp', 'asset', 'timeframe', 'type', 'strength', 'price', 'level', 'volumeRatio', 'wyckoffTarget', 'vsa', 'trend', 'details'
+] as const;
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const signalsToCSV = (signals: Signal[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...signals.map(signal => CSV_COLUMNS.map(column => csvCell(signal[column])).join(','))
+  ].join('\n');
+
+export const signalsToJSON = (signals: Signal[]): string => JSON.stringify(signals, null, 2);
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
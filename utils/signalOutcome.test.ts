@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { PriceData, Signal } from '../types';
+import { resumeOutcome, startOutcome } from './signalOutcome';
+
+const MINUTE = 60000;
+
+const bar = (i: number, close: number, high = close + 0.0002, low = close - 0.0002): PriceData => ({
+  time: `10:${String(i).padStart(2, '0')}`,
+  timestamp: i * MINUTE,
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+});
+
+const breakout = (barsElapsed: number): Signal => {
+  const signal = startOutcome({
+    id: 's1',
+    asset: 'EUR/USD',
+    timeframe: '1M',
+    type: 'BREAKOUT_UP',
+    strength: 'MODERATE',
+    price: 1.0820,
+    timestamp: new Date(0),
+    barTimestamp: 10 * MINUTE,
+    details: '',
+    level: 1.0810,
+    wyckoffTarget: 1.0850,
+  }, 20);
+  return { ...signal, outcome: { ...signal.outcome!, barsElapsed } };
+};
+
+describe('resumeOutcome', () => {
+  it('replays the bars after those already counted', () => {
+    const history = [bar(9, 1.0805), bar(10, 1.0820), bar(11, 1.0825), bar(12, 1.0830), bar(13, 1.0840, 1.0852)];
+    const resumed = resumeOutcome(breakout(1), history);
+    expect(resumed.outcome?.status).toBe('TARGET_HIT');
+    expect(resumed.outcome?.barsElapsed).toBe(3);
+  });
+
+  it('stays pending when the replayed bars resolve nothing', () => {
+    const resumed = resumeOutcome(breakout(0), [bar(10, 1.0820), bar(11, 1.0825)]);
+    expect(resumed.outcome).toMatchObject({ status: 'PENDING', barsElapsed: 1 });
+  });
+
+  it('expires when the feed does not continue the session', () => {
+    expect(resumeOutcome(breakout(0), [bar(30, 1.0820), bar(31, 1.0825)]).outcome?.status).toBe('EXPIRED');
+    expect(resumeOutcome(breakout(0), [bar(10, 1.2000), bar(11, 1.2005)]).outcome?.status).toBe('EXPIRED');
+  });
+});
@@ -0,0 +1,92 @@
+import { OutcomeStats, PriceData, Signal } from '../types';
+
+export const DEFAULT_OUTCOME_BARS = 20;
+
+export const isTrackable = (signal: Signal) =>
+  signal.type !== 'TREND_CHANGE' && signal.level !== undefined;
+
+// Puts a fresh breakout under observation; other signals are returned as-is.
+export const startOutcome = (signal: Signal, maxBars: number = DEFAULT_OUTCOME_BARS): Signal =>
+  isTrackable(signal)
+    ? { ...signal, outcome: { status: 'PENDING', barsElapsed: 0, maxBars, mfe: 0, mae: 0 } }
+    : signal;
+
+// Advances a pending signal by one closed bar. The stop is checked first and
+// needs a close back through the breakout level; the target only needs a wick.
+export const advanceOutcome = (signal: Signal, bar: PriceData): Signal => {
+  const outcome = signal.outcome;
+  if (!outcome || outcome.status !== 'PENDING') return signal;
+
+  const direction = signal.type === 'BREAKOUT_UP' ? 1 : -1;
+  const favorable = direction === 1 ? bar.high - signal.price : signal.price - bar.low;
+  const adverse = direction === 1 ? signal.price - bar.low : bar.high - signal.price;
+  const next = {
+    ...outcome,
+    barsElapsed: outcome.barsElapsed + 1,
+    mfe: Math.max(outcome.mfe, favorable),
+    mae: Math.max(outcome.mae, adverse)
+  };
+
+  const target = signal.wyckoffTarget;
+  const hasTarget = target != null && (target - signal.price) * direction > 0;
+
+  if ((bar.close - signal.level!) * direction < 0) {
+    return { ...signal, outcome: { ...next, status: 'STOPPED', exitPrice: bar.close, resolvedAt: new Date() } };
+  }
+  if (hasTarget && (direction === 1 ? bar.high >= target : bar.low <= target)) {
+    return { ...signal, outcome: { ...next, status: 'TARGET_HIT', exitPrice: target, resolvedAt: new Date() } };
+  }
+  if (next.barsElapsed >= next.maxBars) {
+    return { ...signal, outcome: { ...next, status: 'EXPIRED', exitPrice: bar.close, resolvedAt: new Date() } };
+  }
+  return { ...signal, outcome: next };
+};
+
+// Picks up a signal left pending by an earlier session from the feed's closed
+// bars. The bar the signal fired on has to be in `history` with the signal's
+// close, otherwise the feed does not continue that session and the signal
+// expires. Bars after those already counted are replayed.
+export const resumeOutcome = (signal: Signal, history: PriceData[], now: Date = new Date()): Signal => {
+  const outcome = signal.outcome;
+  if (!outcome || outcome.status !== 'PENDING') return signal;
+  const index = history.findIndex(bar => bar.timestamp === signal.barTimestamp);
+  const signalBar = history[index];
+  if (!signalBar || Math.abs(signalBar.close - signal.price) > Math.abs(signal.price) * 1e-9) {
+    return { ...signal, outcome: { ...outcome, status: 'EXPIRED', resolvedAt: now } };
+  }
+  return history.slice(index + 1 + outcome.barsElapsed).reduce((resumed, bar) => advanceOutcome(resumed, bar), signal);
+};
+
+// Excursions are compared across assets in multiples of the distance between
+// entry and breakout level.
+const inRiskUnits = (signal: Signal, distance: number) => {
+  const risk = Math.abs(signal.price - (signal.level ?? signal.price));
+  return risk > 0 ? distance / risk : 0;
+};
+
+// Hit rate is target hits over resolved signals; pending ones are left out.
+export const summarizeOutcomes = (signals: Signal[], keyOf: (signal: Signal) => string): OutcomeStats[] => {
+  const groups = new Map<string, Signal[]>();
+  signals.forEach(signal => {
+    if (!signal.outcome || signal.outcome.status === 'PENDING') return;
+    const key = keyOf(signal);
+    groups.set(key, [...(groups.get(key) ?? []), signal]);
+  });
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const count = (status: string) => group.filter(s => s.outcome!.status === status).length;
+      const targetHits = count('TARGET_HIT');
+      return {
+        key,
+        total: group.length,
+        targetHits,
+        stopped: count('STOPPED'),
+        expired: count('EXPIRED'),
+        hitRate: group.length > 0 ? targetHits / group.length : null,
+        avgMfeR: group.reduce((acc, s) => acc + inRiskUnits(s, s.outcome!.mfe), 0) / group.length,
+        avgMaeR: group.reduce((acc, s) => acc + inRiskUnits(s, s.outcome!.mae), 0) / group.length
+      };
+    })
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { PriceData } from '../types';
+import { detectZoneBreakout, findSRZones } from './srZones';
+
+const toBars = (closes: number[], withTimestamps = true): PriceData[] => closes.map((close, i) => ({
+  time: `10:${String(i).padStart(2, '0')}`,
+  ...(withTimestamps ? { timestamp: 1_700_000_000_000 + i * 60000 } : {}),
+  open: i > 0 ? closes[i - 1] : close,
+  high: close + 0.5,
+  low: close - 0.5,
+  close,
+  volume: 100,
+}));
+
+// Swings between 100 and 110: peaks at bars 5, 15 and 25, troughs at 10, 20 and 30.
+const swings = Array.from({ length: 31 }, (_, i) => 100 + 2 * Math.abs(((i + 5) % 10) - 5));
+const rally = [102, 104, 106, 108, 110, 112, 114];
+
+describe('findSRZones', () => {
+  it('clusters the swing highs and lows into zones, highest first', () => {
+    const data = toBars(swings);
+    const zones = findSRZones(data);
+
+    expect(zones.map(z => [z.role, z.status, z.touches])).toEqual([
+      ['RESISTANCE', 'ACTIVE', 3],
+      ['SUPPORT', 'ACTIVE', 2],
+    ]);
+    expect(zones[0].low).toBeLessThanOrEqual(110.5);
+    expect(zones[0].high).toBeGreaterThanOrEqual(110.5);
+    expect(zones[0].firstTimestamp).toBe(data[5].timestamp);
+    expect(zones[0].lastTouchTimestamp).toBe(data[25].timestamp);
+  });
+
+  it('leaves the timestamps out when the bars have none', () => {
+    const [zone] = findSRZones(toBars(swings, false));
+    expect(zone.firstTimestamp).toBeUndefined();
+    expect(zone.lastTouchTimestamp).toBeUndefined();
+  });
+
+  it('marks a zone broken on a close through it and swaps its role', () => {
+    const data = toBars([...swings, ...rally]);
+    const zone = findSRZones(data).find(z => z.low <= 110.5 && z.high >= 110.5)!;
+
+    expect(zone.role).toBe('SUPPORT');
+    expect(zone.status).toBe('BROKEN');
+    expect(zone.brokenAt).toBe(data[36].timestamp);
+  });
+
+  it('flips a broken zone when price trades back into it and holds', () => {
+    const data = toBars([...swings, ...rally, 112, 111, 113, 115]);
+    const zone = findSRZones(data).find(z => z.low <= 110.5 && z.high >= 110.5)!;
+
+    expect(zone.role).toBe('SUPPORT');
+    expect(zone.status).toBe('FLIPPED');
+  });
+});
+
+describe('detectZoneBreakout', () => {
+  it('reports the farthest of the zones crossed by one bar', () => {
+    // Peaks alternate between 110 and 106, so two resistance zones sit above the last close.
+    const wave = [100, 102, 104, 106, 108, 110, 108, 106, 104, 102, 100, 102, 104, 106, 104, 102];
+    const data = toBars([...wave, ...wave, ...wave, 100, 112]);
+    data[data.length - 1].volume = 300;
+    expect(findSRZones(data.slice(0, -1)).filter(z => z.role === 'RESISTANCE')).toHaveLength(2);
+
+    const result = detectZoneBreakout(data);
+
+    expect(result?.type).toBe('BREAKOUT_UP');
+    expect(result?.zone.low).toBeGreaterThan(110);
+    expect(result?.level).toBe(result?.zone.high);
+  });
+
+  it('needs volume above the threshold', () => {
+    const wave = [100, 102, 104, 106, 108, 110, 108, 106, 104, 102, 100, 102, 104, 106, 104, 102];
+    expect(detectZoneBreakout(toBars([...wave, ...wave, ...wave, 100, 112]))).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { PriceData, SRZone } from '../types';
+import { calculateATR } from './marketLogic';
+
+export interface SRZoneSettings {
+  // Bars on each side a swing high/low has to exceed to count as a pivot.
+  pivotBars: number;
+  // Widest a zone may be, in multiples of the latest ATR.
+  toleranceAtr: number;
+  minTouches: number;
+  // Strongest zones kept, by weight.
+  maxZones: number;
+  atrPeriod: number;
+}
+
+export const DEFAULT_SR_SETTINGS: SRZoneSettings = {
+  pivotBars: 3,
+  toleranceAtr: 0.6,
+  minTouches: 2,
+  maxZones: 6,
+  atrPeriod: 14,
+};
+
+interface Pivot {
+  index: number;
+  price: number;
+  kind: 'high' | 'low';
+  volume: number;
+}
+
+export const findPivots = (data: PriceData[], bars: number = DEFAULT_SR_SETTINGS.pivotBars): Pivot[] => {
+  const pivots: Pivot[] = [];
+  for (let i = bars; i < data.length - bars; i++) {
+    const around = [...data.slice(i - bars, i), ...data.slice(i + 1, i + bars + 1)];
+    if (around.every(d => data[i].high > d.high)) pivots.push({ index: i, price: data[i].high, kind: 'high', volume: data[i].volume });
+    if (around.every(d => data[i].low < d.low)) pivots.push({ index: i, price: data[i].low, kind: 'low', volume: data[i].volume });
+  }
+  return pivots;
+};
+
+// Replays the bars after the zone's first pivot: a close through the zone
+// breaks it and swaps its role, and a later bar that trades back into the
+// zone without closing through it again flips it.
+const trackZone = (data: PriceData[], zone: SRZone, from: number): SRZone => {
+  let { role, status, brokenAt } = zone;
+  for (let i = from + 1; i < data.length; i++) {
+    const d = data[i];
+    const through = role === 'RESISTANCE' ? d.close > zone.high : d.close < zone.low;
+    if (through) {
+      role = role === 'RESISTANCE' ? 'SUPPORT' : 'RESISTANCE';
+      status = 'BROKEN';
+      brokenAt = d.timestamp;
+    } else if (status === 'BROKEN' && (role === 'SUPPORT' ? d.low <= zone.high : d.high >= zone.low)) {
+      status = 'FLIPPED';
+    }
+  }
+  return { ...zone, role, status, brokenAt };
+};
+
+// Clusters swing pivots lying within `toleranceAtr` ATRs of each other into
+// zones, keeping the `maxZones` heaviest with at least `minTouches` pivots.
+// Sorted from the highest zone down.
+export const findSRZones = (data: PriceData[], settings: SRZoneSettings = DEFAULT_SR_SETTINGS): SRZone[] => {
+  const pivots = findPivots(data, settings.pivotBars);
+  if (pivots.length === 0) return [];
+  const atr = calculateATR(data, settings.atrPeriod);
+  const tolerance = (atr[atr.length - 1] ?? 0) * settings.toleranceAtr;
+  if (tolerance <= 0) return [];
+  const avgVolume = pivots.reduce((acc, p) => acc + p.volume, 0) / pivots.length || 1;
+
+  const clusters: Pivot[][] = [];
+  [...pivots].sort((a, b) => a.price - b.price).forEach(pivot => {
+    const current = clusters[clusters.length - 1];
+    if (current && pivot.price - current[0].price <= tolerance) current.push(pivot);
+    else clusters.push([pivot]);
+  });
+
+  return clusters
+    .filter(cluster => cluster.length >= settings.minTouches)
+    .map(cluster => {
+      const byTime = [...cluster].sort((a, b) => a.index - b.index);
+      const first = byTime[0];
+      const volume = cluster.reduce((acc, p) => acc + p.volume, 0);
+      let low = cluster[0].price;
+      let high = cluster[cluster.length - 1].price;
+      // Pivots at the same price still get a visible band.
+      const minWidth = tolerance * 0.25;
+      if (high - low < minWidth) {
+        const mid = (high + low) / 2;
+        low = mid - minWidth / 2;
+        high = mid + minWidth / 2;
+      }
+      const zone: SRZone = {
+        low,
+        high,
+        role: first.kind === 'high' ? 'RESISTANCE' : 'SUPPORT',
+        status: 'ACTIVE',
+        touches: cluster.length,
+        volume,
+        weight: volume / avgVolume,
+        firstTimestamp: data[first.index].timestamp,
+        lastTouchTimestamp: data[byTime[byTime.length - 1].index].timestamp,
+      };
+      return trackZone(data, zone, first.index);
+    })
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, settings.maxZones)
+    .sort((a, b) => b.high - a.high);
+};
+
+// A close through a zone that was not already broken, on confirming volume.
+// Zones are built from the bars before the last one. When several zones are
+// crossed at once the farthest one is reported.
+export const detectZoneBreakout = (
+  data: PriceData[],
+  period: number = 20,
+  volumeThreshold: number = 1.5,
+  settings: SRZoneSettings = DEFAULT_SR_SETTINGS
+) => {
+  if (data.length < period + 2) return null;
+  const current = data[data.length - 1];
+  const previous = data[data.length - 2];
+  const slice = data.slice(data.length - (period + 1), data.length - 1);
+  const avgVolume = slice.reduce((acc, d) => acc + d.volume, 0) / period;
+  const volumeRatio = current.volume / avgVolume;
+  if (!(volumeRatio > volumeThreshold)) return null;
+
+  const zones = findSRZones(data.slice(0, -1), settings).filter(z => z.status !== 'BROKEN');
+  const above = zones.filter(z => z.role === 'RESISTANCE' && previous.close <= z.high && current.close > z.high);
+  if (above.length > 0) {
+    const zone = above[0];
+    return { type: 'BREAKOUT_UP', price: current.close, level: zone.high, volumeRatio, zone };
+  }
+  const below = zones.filter(z => z.role === 'SUPPORT' && previous.close >= z.low && current.close < z.low);
+  if (below.length > 0) {
+    const zone = below[below.length - 1];
+    return { type: 'BREAKOUT_DOWN', price: current.close, level: zone.low, volumeRatio, zone };
+  }
+  return null;
+};
@@ -0,0 +1,37 @@
+import { PriceAlert, TradePlan } from '../types';
+import { createAlert } from './alerts';
+import { t } from './i18n';
+
+const PLAN_ALERT_EXPIRY_MS = 24 * 60 * 60000;
+
+export const planEntry = (plan: TradePlan) => (plan.entryLow + plan.entryHigh) / 2;
+
+export const isInEntryZone = (plan: TradePlan, price: number) => price >= plan.entryLow && price <= plan.entryHigh;
+
+// Price may sit this fraction of the entry-to-stop distance outside the zone
+// and still be taken at market.
+const ENTRY_ZONE_SLACK = 0.25;
+
+// A market entry needs price in or near the entry zone, short of the first
+// target and on the winning side of the stop.
+export const canEnterPlan = (plan: TradePlan, price: number) => {
+  const sign = plan.direction === 'BUY' ? 1 : -1;
+  const slack = Math.abs(planEntry(plan) - plan.stopLoss) * ENTRY_ZONE_SLACK;
+  return price >= plan.entryLow - slack
+    && price <= plan.entryHigh + slack
+    && (price - plan.stopLoss) * sign > 0
+    && (plan.takeProfits[0] - price) * sign > 0;
+};
+
+// One-shot alerts for the zone edge price reaches first, the stop and every target.
+export const planAlerts = (plan: TradePlan, symbol: string, timeframe: string, price: number): PriceAlert[] => {
+  const { direction } = plan;
+  const alert = (label: string, level: number) =>
+    ({ ...createAlert(symbol, timeframe, { kind: 'priceCross', price: level }, false, PLAN_ALERT_EXPIRY_MS), label });
+  const nearestEdge = price > plan.entryHigh ? plan.entryHigh : plan.entryLow;
+  return [
+    ...(isInEntryZone(plan, price) ? [] : [alert(t('plan.alertEntry', { direction }), nearestEdge)]),
+    alert(t('plan.alertStop', { direction }), plan.stopLoss),
+    ...plan.takeProfits.map((tp, i) => alert(t('plan.alertTarget', { direction, index: i + 1 }), tp))
+  ];
+};
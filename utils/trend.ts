@@ -0,0 +1,86 @@
+import { MarketTrend, PriceData } from '../types';
+import { t } from './i18n';
+
+export interface TrendSettings {
+  // Minimum EMA separation, as a fraction of price, before a cross or an
+  // alignment counts. Keeps the classification from flapping on noise.
+  bandRatio: number;
+  // Consecutive bars a new alignment must hold before the trend flips.
+  confirmBars: number;
+}
+
+export interface TrendState {
+  trend: MarketTrend;
+  fastAboveSlow: boolean | null;
+  pending: MarketTrend | null;
+  pendingBars: number;
+}
+
+export interface TrendEvent {
+  kind: 'ALIGNMENT' | 'CROSSOVER';
+  from: MarketTrend;
+  to: MarketTrend;
+}
+
+export const trendLabel = (trend: MarketTrend): string => t(`trend.${trend}`);
+
+export const DEFAULT_TREND_SETTINGS: TrendSettings = {
+  bandRatio: 0.00005,
+  confirmBars: 2,
+};
+
+export const INITIAL_TREND_STATE: TrendState = {
+  trend: MarketTrend.NEUTRAL,
+  fastAboveSlow: null,
+  pending: null,
+  pendingBars: 0,
+};
+
+export const classifyAlignment = (bar: PriceData, band: number): MarketTrend => {
+  if (bar.ema10 === undefined || bar.ema20 === undefined || bar.ema50 === undefined) return MarketTrend.NEUTRAL;
+  if (bar.ema10 - bar.ema20 > band && bar.ema20 - bar.ema50 > band) return MarketTrend.BULLISH;
+  if (bar.ema20 - bar.ema10 > band && bar.ema50 - bar.ema20 > band) return MarketTrend.BEARISH;
+  return MarketTrend.NEUTRAL;
+};
+
+export const updateTrend = (
+  state: TrendState,
+  bar: PriceData,
+  settings: TrendSettings = DEFAULT_TREND_SETTINGS
+): { state: TrendState; events: TrendEvent[] } => {
+  const band = bar.close * settings.bandRatio;
+  const events: TrendEvent[] = [];
+  let next = { ...state };
+
+  if (bar.ema10 !== undefined && bar.ema20 !== undefined) {
+    const diff = bar.ema10 - bar.ema20;
+    const fastAboveSlow = diff > band ? true : diff < -band ? false : state.fastAboveSlow;
+    if (state.fastAboveSlow !== null && fastAboveSlow !== state.fastAboveSlow) {
+      events.push({
+        kind: 'CROSSOVER',
+        from: state.trend,
+        to: fastAboveSlow ? MarketTrend.BULLISH : MarketTrend.BEARISH,
+      });
+    }
+    next.fastAboveSlow = fastAboveSlow;
+  }
+
+  const alignment = classifyAlignment(bar, band);
+  if (alignment === state.trend) {
+    next.pending = null;
+    next.pendingBars = 0;
+  } else {
+    next.pendingBars = alignment === state.pending ? state.pendingBars + 1 : 1;
+    next.pending = alignment;
+    if (next.pendingBars >= settings.confirmBars) {
+      events.push({ kind: 'ALIGNMENT', from: state.trend, to: alignment });
+      next = { ...next, trend: alignment, pending: null, pendingBars: 0 };
+    }
+  }
+
+  return { state: next, events };
+};
+
+// Replays a series to get the state at its last bar, without emitting events.
+export const computeTrendState = (data: PriceData[], settings: TrendSettings = DEFAULT_TREND_SETTINGS): TrendState =>
+  data.reduce((state, bar) => updateTrend(state, bar, settings).state, INITIAL_TREND_STATE);
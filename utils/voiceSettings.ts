@@ -0,0 +1,41 @@
+import { VoiceEngineId, VoiceSettings } from '../types';
+import { MessageKey } from './i18n';
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  engine: 'gemini',
+  geminiVoice: 'Kore',
+  browserVoice: '',
+  language: 'pt-BR',
+  volume: 1,
+  mutedAssets: [],
+};
+
+export const VOICE_ENGINE_LABELS: Record<VoiceEngineId, MessageKey> = {
+  gemini: 'voiceSettings.engine.gemini',
+  browser: 'voiceSettings.engine.browser',
+  tone: 'voiceSettings.engine.tone',
+};
+
+export const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const VOICE_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'pt-BR', label: 'Português (BR)' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'es-ES', label: 'Español' },
+];
+
+const STORAGE_KEY = 'voice-settings';
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VOICE_SETTINGS;
+  } catch (error) {
+    console.error('Voice settings error:', error);
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { PriceData } from '../types';
+import { vsaSupport } from './vsa';
+
+const bar = (close: number, i: number, volume = 1000, range = 0.0005): PriceData => ({
+  time: `10:${String(i).padStart(2, '0')}`,
+  timestamp: 1_700_000_000_000 + i * 60000,
+  open: close - range / 2,
+  high: close + range,
+  low: close - range,
+  close,
+  volume,
+});
+
+const rising = Array.from({ length: 30 }, (_, i) => bar(1.08 + i * 0.0001, i));
+
+describe('vsaSupport', () => {
+  it('does not score the breakout bar against its own breakout', () => {
+    const breakout = bar(1.0845, 30, 3000, 0.0015);
+    expect(vsaSupport([...rising, breakout], 'BULLISH').score).toBe(0);
+  });
+
+  it('scores the nearest reading before the breakout bar', () => {
+    const climax = bar(1.0845, 30, 3000, 0.0015);
+    const data = [...rising, climax, bar(1.0846, 31)];
+    expect(vsaSupport(data, 'BULLISH')).toEqual({ score: -1, kind: 'BUYING_CLIMAX' });
+    expect(vsaSupport(data, 'BEARISH').score).toBe(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { PriceData, VsaBar, VsaBarKind } from '../types';
+
+export interface VsaSettings {
+  // Bars averaged for the volume and spread baselines.
+  baselineBars: number;
+  // Bars back used to tell whether the bar comes after a rise or a fall.
+  contextBars: number;
+  // Spread relative to the baseline below which a bar is narrow, and above which it is wide.
+  narrowSpread: number;
+  wideSpread: number;
+  // Volume relative to the baseline that counts as high and as ultra high.
+  highVolume: number;
+  ultraVolume: number;
+}
+
+export const DEFAULT_VSA_SETTINGS: VsaSettings = {
+  baselineBars: 20,
+  contextBars: 5,
+  narrowSpread: 0.7,
+  wideSpread: 1.2,
+  highVolume: 1.5,
+  ultraVolume: 2.2,
+};
+
+export const VSA_ABBREVIATIONS: Record<VsaBarKind, string> = {
+  NO_DEMAND: 'ND',
+  NO_SUPPLY: 'NS',
+  STOPPING_VOLUME: 'SV',
+  BUYING_CLIMAX: 'BC',
+  SELLING_CLIMAX: 'SC',
+  TEST: 'T',
+  UPTHRUST: 'UT',
+  EFFORT_NO_RESULT: 'ENR',
+};
+
+export interface VsaSupport {
+  score: -1 | 0 | 1;
+  kind?: VsaBarKind;
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+// Classifies the bar at `index` from its spread, where it closed within that
+// spread and its volume, all against the preceding bars. Returns null for bars
+// that carry no VSA reading. Checks run from the strongest reading down.
+export const classifyVsaBar = (data: PriceData[], index: number, settings: VsaSettings = DEFAULT_VSA_SETTINGS): VsaBar | null => {
+  if (index < Math.max(settings.contextBars, 2)) return null;
+  const bar = data[index];
+  const prior = data.slice(Math.max(0, index - settings.baselineBars), index);
+  const avgVolume = average(prior.map(d => d.volume));
+  const avgSpread = average(prior.map(d => d.high - d.low));
+  const spread = bar.high - bar.low;
+  if (avgVolume <= 0 || avgSpread <= 0 || spread <= 0) return null;
+
+  const volumeRatio = bar.volume / avgVolume;
+  const spreadRatio = spread / avgSpread;
+  const closePosition = (bar.close - bar.low) / spread;
+  const previous = data[index - 1];
+  const up = bar.close > previous.close;
+  const down = bar.close < previous.close;
+  const context = data.slice(index - settings.contextBars, index);
+  const rising = previous.close > context[0].close;
+  const falling = previous.close < context[0].close;
+  const newHigh = bar.high > Math.max(...context.map(d => d.high));
+  const newLow = bar.low < Math.min(...context.map(d => d.low));
+  const narrow = spreadRatio < settings.narrowSpread;
+  const wide = spreadRatio > settings.wideSpread;
+  const high = volumeRatio >= settings.highVolume;
+  // Lower than each of the two bars before it, and below average.
+  const low = volumeRatio < 1 && bar.volume < previous.volume && bar.volume < data[index - 2].volume;
+
+  const result = (kind: VsaBarKind, bias: VsaBar['bias']): VsaBar => ({ kind, bias, volumeRatio, spreadRatio, closePosition });
+
+  if (volumeRatio >= settings.ultraVolume && wide && rising && newHigh) return result('BUYING_CLIMAX', 'BEARISH');
+  if (volumeRatio >= settings.ultraVolume && wide && falling && newLow) return result('SELLING_CLIMAX', 'BULLISH');
+  if (high && newHigh && closePosition < 1 / 3) return result('UPTHRUST', 'BEARISH');
+  if (high && falling && down && closePosition >= 0.5) return result('STOPPING_VOLUME', 'BULLISH');
+  if (low && newLow && closePosition >= 0.5) return result('TEST', 'BULLISH');
+  if (low && narrow && up) return result('NO_DEMAND', 'BEARISH');
+  if (low && narrow && down) return result('NO_SUPPLY', 'BULLISH');
+  // Effort without result: the volume did not move price, so the bar's own direction is suspect.
+  if (high && narrow && (up || down)) return result('EFFORT_NO_RESULT', up ? 'BEARISH' : 'BULLISH');
+  return null;
+};
+
+export const classifyVsaBars = (data: PriceData[], settings: VsaSettings = DEFAULT_VSA_SETTINGS): (VsaBar | null)[] =>
+  data.map((_, i) => classifyVsaBar(data, i, settings));
+
+// How the bars leading into the last one read for a move in `direction`: the
+// nearest reading among the `lookback` bars before it scores +1 when it agrees
+// and -1 when it contradicts, 0 when there is none. The last bar itself is left
+// out: a volume-confirmed breakout bar mostly reads as a climax, upthrust or
+// effort without result against the breakout it just made. `kind` is the bar
+// that decided the score.
+export const vsaSupport = (
+  data: PriceData[],
+  direction: 'BULLISH' | 'BEARISH',
+  lookback: number = DEFAULT_VSA_SETTINGS.contextBars,
+  settings: VsaSettings = DEFAULT_VSA_SETTINGS
+): VsaSupport => {
+  const lastIndex = data.length - 1;
+  for (let i = lastIndex - 1; i >= Math.max(0, lastIndex - lookback); i--) {
+    const bar = classifyVsaBar(data, i, settings);
+    if (bar) return { score: bar.bias === direction ? 1 : -1, kind: bar.kind };
+  }
+  return { score: 0 };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { PriceData } from '../types';
+import { findWyckoffRanges, pointAndFigureColumns } from './wyckoff';
+
+type Ohlcv = [number, number, number, number, number];
+
+const toBars = (rows: Ohlcv[]): PriceData[] => rows.map(([open, high, low, close, volume], i) => ({
+  time: `10:${String(i).padStart(2, '0')}`,
+  timestamp: 1_700_000_000_000 + i * 60000,
+  open,
+  high,
+  low,
+  close,
+  volume,
+}));
+
+// A steady decline into a selling climax at bar 20, the automatic rally to 104,
+// a secondary test, a spring below 96 and a sign of strength above 104 at bar 32.
+const decline: Ohlcv[] = Array.from({ length: 20 }, (_, i) => [120 - i, 120.25 - i, 118.75 - i, 119 - i, 100]);
+const accumulation: Ohlcv[] = [
+  ...decline,
+  [100, 100.5, 96, 98, 300],
+  [98, 100, 97.5, 99.5, 150],
+  [99.5, 102, 99, 101.5, 150],
+  [101.5, 104, 101, 103, 150],
+  [103, 103.5, 101, 101.5, 100],
+  [101.5, 102, 99, 99.5, 100],
+  [99.5, 100, 97, 97.5, 100],
+  [97.5, 99, 97, 98.5, 100],
+  [98.5, 99, 95, 96.5, 120],
+  [96.5, 99, 96.3, 98.8, 100],
+  [98.8, 101, 98.5, 100.5, 100],
+  [100.5, 103, 100, 102.5, 100],
+  [102.5, 106, 102, 105.5, 200],
+];
+const drift = (from: number, bars: number, step: number): Ohlcv[] =>
+  Array.from({ length: bars }, (_, i) => {
+    const close = from + (i + 1) * step;
+    return [close - step, close + 0.25, close - step - 0.25, close, 100];
+  });
+
+describe('pointAndFigureColumns', () => {
+  it('counts a new column on each reversal of the given number of boxes', () => {
+    expect(pointAndFigureColumns([10, 11, 12, 9, 8, 11], 1, 3)).toBe(3);
+    expect(pointAndFigureColumns([10, 11, 12, 10], 1, 3)).toBe(1);
+  });
+});
+
+describe('findWyckoffRanges', () => {
+  it('reads SC, AR, ST, spring and SOS from an accumulation', () => {
+    const data = toBars([...accumulation, ...drift(105.5, 3, 0.1)]);
+    const [range] = findWyckoffRanges(data);
+
+    expect(range.schematic).toBe('ACCUMULATION');
+    expect(range.events.slice(0, 5).map(e => e.kind)).toEqual(['SC', 'AR', 'ST', 'SPRING', 'SOS']);
+    expect(range.events[0].timestamp).toBe(data[20].timestamp);
+    expect(range.low).toBe(96);
+    expect(range.high).toBe(104);
+    expect(range.active).toBe(false);
+    expect(range.endTimestamp).toBe(data[32].timestamp);
+    expect(range.phase).toBe('D');
+  });
+
+  it('projects the cause from the point-and-figure count beyond the range', () => {
+    const [range] = findWyckoffRanges(toBars(accumulation));
+
+    // Box 0.8 (a tenth of the range), three-box reversals: three columns from SC to SOS.
+    expect(range.columns).toBe(3);
+    expect(range.cause).toBeCloseTo(7.2);
+    // The target from the low (103.2) lies inside the range and is dropped.
+    expect(range.targets).toHaveLength(1);
+    expect(range.targets[0]).toBeCloseTo(111.2);
+  });
+
+  it('reaches phase E when the markup clears a range height right after the exit', () => {
+    const [range] = findWyckoffRanges(toBars([...accumulation, ...drift(105.5, 5, 1.5)]));
+    expect(range.phase).toBe('E');
+  });
+
+  it('keeps the phase of a closed range when price moves on much later', () => {
+    const data = toBars([...accumulation, ...drift(105.5, 12, 0.05), ...drift(106.1, 10, 1.5)]);
+    const [range] = findWyckoffRanges(data);
+    expect(data[data.length - 1].close).toBeGreaterThan(range.high + (range.high - range.low));
+    expect(range.phase).toBe('D');
+  });
+});
@@ -0,0 +1,223 @@
+import { PriceData, WyckoffEvent, WyckoffEventKind, WyckoffPhase, WyckoffRange, WyckoffSchematic } from '../types';
+
+export interface WyckoffSettings {
+  // Bars averaged for the volume and spread baselines.
+  baselineBars: number;
+  // Volume and spread, relative to the baseline, that make a bar a climax.
+  climaxVolumeRatio: number;
+  climaxSpreadRatio: number;
+  // Bars before the climax that must trend into it.
+  trendBars: number;
+  // Bars after the climax searched for the automatic rally/reaction.
+  reactionBars: number;
+  // Volume, relative to the baseline, that makes a range exit a SOS/SOW.
+  breakoutVolumeRatio: number;
+  // Point-and-figure box as a fraction of the range height, and the reversal in boxes.
+  boxFraction: number;
+  reversalBoxes: number;
+}
+
+export const DEFAULT_WYCKOFF_SETTINGS: WyckoffSettings = {
+  baselineBars: 20,
+  climaxVolumeRatio: 2,
+  climaxSpreadRatio: 1.3,
+  trendBars: 8,
+  reactionBars: 10,
+  breakoutVolumeRatio: 1.5,
+  boxFraction: 0.1,
+  reversalBoxes: 3,
+};
+
+const PHASE_BY_EVENT: Record<WyckoffEventKind, WyckoffPhase> = {
+  SC: 'A', BC: 'A', AR: 'A', ST: 'B', UT: 'B',
+  SPRING: 'C', UTAD: 'C',
+  SOS: 'D', SOW: 'D', LPS: 'D', LPSY: 'D',
+};
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const baseline = (data: PriceData[], index: number, bars: number) => {
+  const slice = data.slice(Math.max(0, index - bars), index);
+  return { volume: average(slice.map(d => d.volume)), spread: average(slice.map(d => d.high - d.low)) };
+};
+
+// Horizontal count: reversal columns of a close-only point-and-figure chart.
+export const pointAndFigureColumns = (closes: number[], box: number, reversal: number): number => {
+  if (closes.length === 0 || box <= 0) return 0;
+  let direction = 0;
+  let extreme = closes[0];
+  let columns = 1;
+  closes.slice(1).forEach(close => {
+    if (direction === 0) {
+      if (Math.abs(close - extreme) >= box) {
+        direction = close > extreme ? 1 : -1;
+        extreme = close;
+      }
+      return;
+    }
+    if ((close - extreme) * direction > 0) {
+      extreme = close;
+    } else if ((extreme - close) * direction >= box * reversal) {
+      columns++;
+      direction = -direction;
+      extreme = close;
+    }
+  });
+  return columns;
+};
+
+const climaxAt = (data: PriceData[], i: number, settings: WyckoffSettings): WyckoffSchematic | null => {
+  if (i < settings.trendBars) return null;
+  const bar = data[i];
+  const base = baseline(data, i, settings.baselineBars);
+  if (base.volume <= 0 || base.spread <= 0) return null;
+  if (bar.volume < base.volume * settings.climaxVolumeRatio || bar.high - bar.low < base.spread * settings.climaxSpreadRatio) return null;
+  const prior = data.slice(i - settings.trendBars, i);
+  const move = data[i - 1].close - prior[0].close;
+  // A selling climax ends a decline at a new low; a buying climax ends an advance at a new high.
+  if (move < -base.spread * 2 && bar.low <= Math.min(...prior.map(d => d.low))) return 'ACCUMULATION';
+  if (move > base.spread * 2 && bar.high >= Math.max(...prior.map(d => d.high))) return 'DISTRIBUTION';
+  return null;
+};
+
+// Builds one range from a climax: SC/BC, the automatic rally/reaction that
+// bounds the range, the secondary test, then the phase C shakeout and the
+// phase D exit. Returns null when no automatic rally/reaction follows.
+const buildRange = (data: PriceData[], start: number, schematic: WyckoffSchematic, settings: WyckoffSettings): { range: WyckoffRange; next: number } | null => {
+  const acc = schematic === 'ACCUMULATION';
+  const climax = data[start];
+  const base = baseline(data, start, settings.baselineBars);
+  const stamp = (i: number) => data[i].timestamp ?? i;
+  const event = (kind: WyckoffEventKind, i: number, at: 'high' | 'low'): WyckoffEvent =>
+    ({ kind, timestamp: stamp(i), price: at === 'high' ? data[i].high : data[i].low, at });
+
+  const window = data.slice(start + 1, start + 1 + settings.reactionBars);
+  if (window.length < 2) return null;
+  const reactionOffset = acc
+    ? window.reduce((best, d, j) => d.high > window[best].high ? j : best, 0)
+    : window.reduce((best, d, j) => d.low < window[best].low ? j : best, 0);
+  const reaction = start + 1 + reactionOffset;
+  const high = acc ? data[reaction].high : climax.high;
+  const low = acc ? climax.low : data[reaction].low;
+  const height = high - low;
+  if (height < base.spread * 1.5) return null;
+
+  const events: WyckoffEvent[] = [
+    event(acc ? 'SC' : 'BC', start, acc ? 'low' : 'high'),
+    event('AR', reaction, acc ? 'high' : 'low'),
+  ];
+  const has = (kind: WyckoffEventKind) => events.some(e => e.kind === kind);
+  const volumeBase = base.volume;
+  let end = data.length - 1;
+  let exit: number | null = null;
+
+  for (let i = reaction + 1; i < data.length; i++) {
+    const d = data[i];
+    const testEdge = acc ? d.low - low : high - d.high;
+    if (!has('ST') && testEdge <= height * 0.25 && testEdge >= -height * 0.1 && d.volume < climax.volume) {
+      events.push(event('ST', i, acc ? 'low' : 'high'));
+      continue;
+    }
+    // Phase C: a probe beyond the range that closes back inside.
+    if (acc && d.low < low && d.close >= low && !has('SPRING')) {
+      events.push(event('SPRING', i, 'low'));
+      continue;
+    }
+    if (!acc && d.high > high && d.close <= high && !has('UTAD')) {
+      events.push(event('UTAD', i, 'high'));
+      continue;
+    }
+    if (acc && d.high > high && d.close <= high && !has('UT')) {
+      events.push(event('UT', i, 'high'));
+      continue;
+    }
+    const beyond = acc ? d.close - high : low - d.close;
+    const against = acc ? low - d.close : d.close - high;
+    if (beyond > 0 && d.volume >= volumeBase * settings.breakoutVolumeRatio) {
+      events.push(event(acc ? 'SOS' : 'SOW', i, acc ? 'high' : 'low'));
+      exit = i;
+      break;
+    }
+    // A decisive close the wrong way, or a drift away without volume, ends the range unresolved.
+    if (against > height * 0.1 || beyond > height * 0.5) {
+      exit = i;
+      break;
+    }
+  }
+
+  let next = data.length;
+  // Follow-through is judged on the bars right after the exit, so a closed range
+  // keeps its phase however far price travels later.
+  const windowEnd = exit === null ? data.length : Math.min(data.length, exit + 1 + settings.reactionBars);
+  if (exit !== null) {
+    end = exit;
+    next = exit + 1;
+    const sos = events[events.length - 1];
+    if (sos.kind === 'SOS' || sos.kind === 'SOW') {
+      const exitBar = data[exit];
+      // The first pullback after the exit that holds the far half of the range on lighter volume.
+      const pullback = data.slice(exit + 1, exit + 1 + settings.reactionBars);
+      const offset = acc
+        ? pullback.reduce((best, d, j) => best === -1 || d.low < pullback[best].low ? j : best, -1)
+        : pullback.reduce((best, d, j) => best === -1 || d.high > pullback[best].high ? j : best, -1);
+      if (offset >= 0) {
+        const i = exit + 1 + offset;
+        const holds = acc ? data[i].low > low + height * 0.5 : data[i].high < high - height * 0.5;
+        const later = data.slice(i + 1, windowEnd);
+        const resumed = later.some(d => acc ? d.close > exitBar.close : d.close < exitBar.close);
+        if (holds && resumed && data[i].volume < exitBar.volume) {
+          events.push(event(acc ? 'LPS' : 'LPSY', i, acc ? 'low' : 'high'));
+          next = i + 1;
+        }
+      }
+    }
+  }
+
+  const closes = data.slice(start, end + 1).map(d => d.close);
+  const box = height * settings.boxFraction;
+  const columns = pointAndFigureColumns(closes, box, settings.reversalBoxes);
+  const cause = columns * box * settings.reversalBoxes;
+  const resolved = events.some(e => e.kind === 'SOS' || e.kind === 'SOW');
+  const exitedBy = exit === null ? 0 : Math.max(...data.slice(exit, windowEnd).map(d => acc ? d.close - high : low - d.close));
+  const phase: WyckoffPhase = resolved && exitedBy >= height
+    ? 'E'
+    : events.reduce<WyckoffPhase>((p, e) => PHASE_BY_EVENT[e.kind] > p ? PHASE_BY_EVENT[e.kind] : p, 'A');
+
+  return {
+    range: {
+      schematic,
+      phase,
+      startTimestamp: stamp(start),
+      endTimestamp: stamp(end),
+      active: exit === null,
+      high,
+      low,
+      events,
+      columns,
+      cause,
+      targets: (acc ? [low + cause, high + cause] : [high - cause, low - cause]).filter(p => acc ? p > high : p < low)
+    },
+    next
+  };
+};
+
+// Trading ranges in the series, oldest first. Each starts at a selling or buying
+// climax; ranges do not overlap.
+export const findWyckoffRanges = (data: PriceData[], settings: WyckoffSettings = DEFAULT_WYCKOFF_SETTINGS): WyckoffRange[] => {
+  const ranges: WyckoffRange[] = [];
+  let i = settings.trendBars;
+  while (i < data.length) {
+    const schematic = climaxAt(data, i, settings);
+    const built = schematic ? buildRange(data, i, schematic, settings) : null;
+    if (built) {
+      ranges.push(built.range);
+      i = built.next;
+    } else {
+      i++;
+    }
+  }
+  return ranges;
+};
+
+// The range still forming, or the most recent one price has left.
+export const currentWyckoffRange = (ranges: WyckoffRange[]): WyckoffRange | null => ranges[ranges.length - 1] ?? null;